@@ -15,6 +15,8 @@ import { AdminGuard } from './guards/admin.guard';
 import type { RejectPayoutDto } from './dto/reject-payout.dto';
 import type { RejectServiceDto } from './dto/reject-service.dto';
 import type { ResolveDisputeDto } from '../disputes/dto/resolve-dispute.dto';
+import { ResolveDisputeSchema } from '../disputes/dto/resolve-dispute.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
 import { GetUser } from '../auth/decorators/get-user.decorator';
 
 @Controller('admin')
@@ -145,7 +147,7 @@ export class AdminController {
   async resolveDispute(
     @GetUser('id') adminId: string,
     @Param('disputeId') disputeId: string,
-    @Body() dto: ResolveDisputeDto,
+    @Body(new ZodValidationPipe(ResolveDisputeSchema)) dto: ResolveDisputeDto,
   ) {
     const dispute = await this.adminService.resolveDispute(
       adminId,
@@ -4,6 +4,7 @@ import { PrismaService } from '../prisma/prisma.service';
 import { WalletsService } from '../wallets/wallets.service';
 import { NotificationsService } from '../notifications/notifications.service';
 import { OrdersService } from '../orders/orders.service';
+import { FeesService } from '../fees/fees.service';
 
 describe('AdminService', () => {
   let service: AdminService;
@@ -12,6 +13,7 @@ describe('AdminService', () => {
   const mockWalletsService = {};
   const mockNotificationsService = {};
   const mockOrdersService = {};
+  const mockFeesService = {};
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -21,6 +23,7 @@ describe('AdminService', () => {
         { provide: WalletsService, useValue: mockWalletsService },
         { provide: NotificationsService, useValue: mockNotificationsService },
         { provide: OrdersService, useValue: mockOrdersService },
+        { provide: FeesService, useValue: mockFeesService },
       ],
     }).compile();
 
@@ -7,7 +7,18 @@ import { PrismaService } from '../prisma/prisma.service';
 import { NotificationsService } from '../notifications/notifications.service';
 import { WalletsService } from '../wallets/wallets.service';
 import { OrdersService } from '../orders/orders.service';
+import { FeesService } from '../fees/fees.service';
+import {
+  transitionOrderStatus,
+  type OrderActorRef,
+} from '../orders/utils/order-state-machine';
 import type { ResolveDisputeDto } from '../disputes/dto/resolve-dispute.dto';
+import { calculateDisputeSplit } from '../disputes/utils/dispute-split';
+import { remainingBuyerEscrow } from '../orders/utils/order-escrow';
+import {
+  MASKED_PAYOUT_ACCOUNT_SELECT,
+  maskPayoutAccount,
+} from '../wallets/utils/payout-account';
 import { Prisma } from '@prisma/client';
 
 @Injectable()
@@ -17,6 +28,7 @@ export class AdminService {
     private walletService: WalletsService,
     private notificationService: NotificationsService,
     private ordersService: OrdersService,
+    private feesService: FeesService,
   ) { }
 
   /**
@@ -142,39 +154,61 @@ export class AdminService {
    * Mendapatkan daftar PayoutRequest yang masih 'pending'
    */
   async getPendingPayouts() {
-    return this.prisma.payoutRequest.findMany({
+    const payouts = await this.prisma.payoutRequest.findMany({
       where: { status: 'PENDING' },
       orderBy: { requestedAt: 'asc' },
       include: {
         user: {
           select: { id: true, fullName: true, email: true },
         },
-        account: true,
+        account: { select: MASKED_PAYOUT_ACCOUNT_SELECT },
         wallet: {
           select: { balance: true },
         },
       },
     });
+
+    return payouts.map((payout) => ({
+      ...payout,
+      account: maskPayoutAccount(payout.account),
+    }));
   }
 
   /**
    * Menyetujui PayoutRequest
-   * Asumsi: Admin mentransfer dana secara manual, lalu menekan tombol ini.
+   * Penarikan yang disetujui masuk antrean batch transfer (lihat
+   * PayoutsService). Dana baru keluar dari akun kliring saat baris batch
+   * ditandai berhasil.
    */
   async approvePayout(payoutId: string) {
-    const payout = await this.prisma.payoutRequest.update({
-      where: { id: payoutId },
-      data: {
-        status: 'COMPLETED',
-        processedAt: new Date(),
-        adminNotes: 'Disetujui dan telah diproses.',
-      },
+    const payout = await this.prisma.$transaction(async (tx) => {
+      const pending = await tx.payoutRequest.findUnique({
+        where: { id: payoutId },
+      });
+
+      if (!pending) {
+        throw new NotFoundException('Permintaan penarikan tidak ditemukan');
+      }
+      if (pending.status !== 'PENDING') {
+        throw new BadRequestException(
+          `Permintaan ini sudah berstatus ${pending.status}`,
+        );
+      }
+
+      return tx.payoutRequest.update({
+        where: { id: payoutId },
+        data: {
+          status: 'APPROVED',
+          processedAt: new Date(),
+          adminNotes: 'Disetujui, menunggu batch transfer.',
+        },
+      });
     });
 
     // Buat notifikasi untuk Seller
     await this.notificationService.create({
       userId: payout.userId,
-      content: `Penarikan dana Anda sebesar Rp ${payout.amount.toNumber()} telah disetujui.`,
+      content: `Penarikan dana Anda sebesar Rp ${payout.amount.toNumber()} telah disetujui dan akan segera ditransfer.`,
       link: `/wallet/payouts`,
       type: 'WALLET',
     });
@@ -216,7 +250,7 @@ export class AdminService {
         tx,
         walletId: payout.walletId,
         type: 'PAYOUT_REJECTED',
-        amount: payout.amount.toNumber(), // POSITIF (Credit), dana kembali
+        amount: payout.amount, // POSITIF (Credit), dana kembali
         description: `Pengembalian dana penarikan ditolak: ${reason}`,
         payoutRequestId: payout.id,
       });
@@ -235,11 +269,11 @@ export class AdminService {
   // --- Metode Manajemen Sengketa ---
 
   /**
-   * [Admin] Mendapatkan daftar sengketa yang terbuka
+   * [Admin] Mendapatkan daftar sengketa yang belum diselesaikan
    */
   async getOpenDisputes() {
     return this.prisma.dispute.findMany({
-      where: { status: 'OPEN' },
+      where: { status: { not: 'RESOLVED' } },
       orderBy: { createdAt: 'asc' },
       include: {
         order: {
@@ -260,6 +294,36 @@ export class AdminService {
     adminId: string,
     disputeId: string,
     dto: ResolveDisputeDto,
+  ) {
+    return this.settleDispute(disputeId, dto, {
+      actor: 'ADMIN',
+      actorId: adminId,
+    });
+  }
+
+  /**
+   * [System] Memutus sengketa otomatis (mis. pihak lain tidak menanggapi)
+   * Dipanggil oleh TasksService
+   */
+  async autoResolveDispute(
+    disputeId: string,
+    resolution: 'RELEASE_TO_SELLER' | 'REFUND_TO_BUYER',
+    reason: string,
+  ) {
+    return this.settleDispute(
+      disputeId,
+      { resolution, adminNotes: reason },
+      { actor: 'SYSTEM' },
+    );
+  }
+
+  /**
+   * Logika inti penyelesaian sengketa, dipakai oleh admin maupun sistem
+   */
+  private async settleDispute(
+    disputeId: string,
+    dto: ResolveDisputeDto,
+    by: Pick<OrderActorRef, 'actor' | 'actorId'>,
   ) {
     const dispute = await this.prisma.dispute.findUnique({
       where: { id: disputeId },
@@ -273,10 +337,22 @@ export class AdminService {
     if (!dispute) {
       throw new NotFoundException('Sengketa tidak ditemukan');
     }
-    if (dispute.status !== 'OPEN') {
+    if (dispute.status === 'RESOLVED') {
       throw new BadRequestException('Sengketa ini sudah diselesaikan');
     }
 
+    // Hitung pembagian dana untuk resolusi SPLIT (dari sisa escrow)
+    const feeQuote = await this.feesService.quoteForOrder(dispute.orderId);
+    const split =
+      dto.resolution === 'SPLIT'
+        ? calculateDisputeSplit(
+            remainingBuyerEscrow(dispute.order),
+            dto,
+            feeQuote,
+            await this.feesService.chargedForOrder(dispute.orderId),
+          )
+        : null;
+
     // Mulai transaksi atomik
     return this.prisma.$transaction(async (tx) => {
       const resolvedDispute = await tx.dispute.update({
@@ -285,8 +361,10 @@ export class AdminService {
           status: 'RESOLVED',
           resolution: dto.resolution,
           adminNotes: dto.adminNotes,
-          resolvedById: adminId,
+          resolvedById: by.actorId ?? null,
           resolvedAt: new Date(),
+          sellerAmount: split?.sellerAmount,
+          buyerAmount: split?.buyerAmount,
         },
       });
 
@@ -296,9 +374,9 @@ export class AdminService {
       // --- PERBAIKAN LOGIKA BISNIS YANG HILANG ---
       if (dto.resolution === 'REFUND_TO_BUYER') {
         // 1. Update status order
-        await tx.order.update({
-          where: { id: dispute.orderId },
-          data: { status: 'RESOLVED' },
+        await transitionOrderStatus(tx, dispute.orderId, 'RESOLVED', {
+          ...by,
+          reason: 'Sengketa diselesaikan: refund ke pembeli',
         });
 
         // 2. Proses Refund ke Wallet Buyer
@@ -309,14 +387,79 @@ export class AdminService {
           tx,
           walletId: buyerWallet.id,
           orderId: dispute.orderId,
+          disputeId,
           type: 'DISPUTE_REFUND',
-          amount: dispute.order.price.toNumber(), // Refund penuh
+          // Refund sisa escrow (milestone yang sudah dilepas tidak ikut)
+          amount: remainingBuyerEscrow(dispute.order),
           description: `Refund sengketa order #${dispute.orderId.substring(0, 8)}`,
         });
+      } else if (split) {
+        // 1. Update status order
+        await transitionOrderStatus(
+          tx,
+          dispute.orderId,
+          'RESOLVED',
+          {
+            ...by,
+            reason: 'Sengketa diselesaikan: dana dibagi',
+          },
+          { escrowReleased: { increment: split.sellerAmount } },
+        );
+
+        // 2. Bagian seller (fee platform hanya dipotong dari bagian ini)
+        await this.feesService.recordInTx(
+          tx,
+          {
+            orderId: dispute.orderId,
+            disputeId,
+            amount: split.sellerAmount,
+            description: `Fee platform sengketa order #${dispute.orderId.substring(0, 8)}`,
+          },
+          feeQuote,
+        );
+
+        if (split.sellerNet.gt(0)) {
+          const sellerWallet = await tx.wallet.findUniqueOrThrow({
+            where: { userId: sellerId },
+          });
+          await this.walletService.createTransaction({
+            tx,
+            walletId: sellerWallet.id,
+            orderId: dispute.orderId,
+            disputeId,
+            type: 'DISPUTE_RELEASE',
+            amount: split.sellerNet,
+            description: `Bagian sengketa order #${dispute.orderId.substring(0, 8)}`,
+          });
+        }
+
+        // 3. Bagian buyer dikembalikan tanpa potongan
+        if (split.buyerAmount.gt(0)) {
+          const buyerWallet = await tx.wallet.findUniqueOrThrow({
+            where: { userId: buyerId },
+          });
+          await this.walletService.createTransaction({
+            tx,
+            walletId: buyerWallet.id,
+            orderId: dispute.orderId,
+            disputeId,
+            type: 'DISPUTE_REFUND',
+            amount: split.buyerAmount,
+            description: `Refund sebagian sengketa order #${dispute.orderId.substring(0, 8)}`,
+          });
+        }
       } else if (dto.resolution === 'RELEASE_TO_SELLER') {
-        // 1. Selesaikan order menggunakan logika terpusat
+        // 1. Selesaikan order menggunakan logika terpusat (dalam transaksi yang sama)
         // Ini akan update status order, update statistik, & melepas dana
-        await this.ordersService.completeOrder(dispute.orderId, sellerId);
+        await this.ordersService.completeOrderInTx(
+          tx,
+          dispute.orderId,
+          sellerId,
+          {
+            ...by,
+            reason: 'Sengketa diselesaikan: dana dilepas ke penyedia jasa',
+          },
+        );
 
         // 2. (Opsional) Ganti tipe transaksi wallet agar spesifik
         // Kita bisa tambahkan logic di completeOrder untuk menerima tipe
@@ -354,15 +497,8 @@ export class AdminService {
       },
     });
 
-    // 2. Hitung Total Pendapatan Platform (10% dari total order COMPLETED)
-    const totalCompletedOrdersPrice = await this.prisma.order.aggregate({
-      where: {
-        status: 'COMPLETED',
-      },
-      _sum: {
-        price: true,
-      },
-    });
+    // 2. Hitung Total Pendapatan Platform (jumlah fee yang benar-benar tercatat)
+    const totalRevenue = await this.feesService.getTotalRevenue();
 
     // 3. Hitung Total Pengguna Aktif (Bukan Admin dan tidak di-ban) <-- BARU
     const totalActiveUsers = await this.prisma.user.count({
@@ -374,14 +510,9 @@ export class AdminService {
       },
     });
 
-    // Asumsi fee platform 10%
-    const totalRevenue = totalCompletedOrdersPrice._sum.price
-      ? totalCompletedOrdersPrice._sum.price.toNumber() * 0.1
-      : 0;
-
     return {
       totalUserBalance: totalBalanceResult._sum.balance || 0,
-      totalPlatformRevenue: totalRevenue,
+      totalPlatformRevenue: totalRevenue.toNumber(),
       totalActiveUsers: totalActiveUsers,
     };
   }
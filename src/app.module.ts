@@ -20,6 +20,13 @@ import { TasksModule } from './tasks/tasks.module';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ReportsModule } from './reports/reports.module';
 import { StorageModule } from './storage/storage.module';
+import { OffersModule } from './offers/offers.module';
+import { JobRequestsModule } from './job-requests/job-requests.module';
+import { FeesModule } from './fees/fees.module';
+import { LedgerModule } from './ledger/ledger.module';
+import { PayoutsModule } from './payouts/payouts.module';
+import { VouchersModule } from './vouchers/vouchers.module';
+import { ReferralsModule } from './referrals/referrals.module';
 import { SecurityMiddleware } from './common/security.middleware';
 import { LogService } from './common/log.service';
 
@@ -45,6 +52,13 @@ import { LogService } from './common/log.service';
     TasksModule,
     ReportsModule,
     StorageModule,
+    OffersModule,
+    JobRequestsModule,
+    FeesModule,
+    LedgerModule,
+    PayoutsModule,
+    VouchersModule,
+    ReferralsModule,
   ],
   controllers: [AppController],
   providers: [AppService, PrismaService, LogService],
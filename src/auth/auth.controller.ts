@@ -1,4 +1,12 @@
-import { Controller, Get, Post, Req, Res, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Logger,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { GoogleAuthGuard } from './guards/google-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
@@ -7,11 +15,14 @@ import { GetUser } from './decorators/get-user.decorator';
 import type { Response, Request } from 'express';
 import { ConfigService } from '@nestjs/config';
 import type { User } from '@prisma/client';
-import { GoogleUserDto } from './dto/google-auth.dto';
+import { GoogleOAuthStateSchema, GoogleUserDto } from './dto/google-auth.dto';
+import type { GoogleOAuthState } from './dto/google-auth.dto';
 import { LogService } from '../common/log.service';
 
 @Controller('auth')
 export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
   constructor(
     private readonly authService: AuthService,
     private readonly configService: ConfigService,
@@ -31,15 +42,26 @@ export class AuthController {
   async googleAuthRedirect(@Req() req: Request, @Res() res: Response) {
     try {
       const googleUser = req.user as GoogleUserDto;
-      const result = await this.authService.googleLogin({
-        email: googleUser.email,
-        fullName: googleUser.fullName,
-        picture: googleUser.picture,
-        googleId: googleUser.googleId,
-        nim: googleUser.nim,
-        major: googleUser.major,
-        batch: googleUser.batch,
-      });
+      const state = this.parseOAuthState(req.query.state);
+      const result = await this.authService.googleLogin(
+        {
+          email: googleUser.email,
+          fullName: googleUser.fullName,
+          picture: googleUser.picture,
+          googleId: googleUser.googleId,
+          nim: googleUser.nim,
+          major: googleUser.major,
+          batch: googleUser.batch,
+        },
+        {
+          referralCode: state.ref,
+          device: {
+            deviceId: state.deviceId,
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          },
+        },
+      );
 
       // LOG LOGIN BERHASIL
       await this.logService.userActivityLog({
@@ -52,18 +74,8 @@ export class AuthController {
       });
 
       let frontendUrl = this.configService.get<string>('FRONTEND_URL')!;
-      if (req.query.state && typeof req.query.state === 'string') {
-        try {
-          const stateJson = JSON.parse(
-            Buffer.from(req.query.state, 'base64').toString('utf-8'),
-          ) as { returnUrl?: string };
-          if (stateJson.returnUrl) {
-            frontendUrl = stateJson.returnUrl;
-            console.log('Dynamic redirect to:', frontendUrl);
-          }
-        } catch (error) {
-          console.error('Failed to parse OAuth state:', error);
-        }
+      if (state.returnUrl) {
+        frontendUrl = state.returnUrl;
       }
       frontendUrl = frontendUrl.replace(/\/$/, '');
       const redirectUrl = `${frontendUrl}/auth/callback?token=${result.access_token}`;
@@ -141,4 +153,24 @@ export class AuthController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  /**
+   * Decode 'state' OAuth (Base64 JSON) dari GoogleAuthGuard
+   * State yang rusak diabaikan agar login tetap berjalan
+   */
+  private parseOAuthState(raw: unknown): GoogleOAuthState {
+    if (!raw || typeof raw !== 'string') {
+      return {};
+    }
+
+    try {
+      const parsed = GoogleOAuthStateSchema.safeParse(
+        JSON.parse(Buffer.from(raw, 'base64').toString('utf-8')),
+      );
+      return parsed.success ? parsed.data : {};
+    } catch (error) {
+      this.logger.warn('Failed to parse OAuth state:', error);
+      return {};
+    }
+  }
 }
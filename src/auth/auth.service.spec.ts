@@ -3,6 +3,7 @@ import { AuthService } from './auth.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { WalletsService } from '../wallets/wallets.service';
+import { ReferralsService } from '../referrals/referrals.service';
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -10,6 +11,7 @@ describe('AuthService', () => {
   const mockPrismaService = {};
   const mockJwtService = {};
   const mockWalletsService = {};
+  const mockReferralsService = {};
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -18,6 +20,7 @@ describe('AuthService', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: JwtService, useValue: mockJwtService },
         { provide: WalletsService, useValue: mockWalletsService },
+        { provide: ReferralsService, useValue: mockReferralsService },
       ],
     }).compile();
 
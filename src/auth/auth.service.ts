@@ -1,25 +1,35 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
 import {
   GoogleUserDto,
   AuthResponseDto,
   JwtPayload,
+  GoogleLoginContext,
 } from './dto/google-auth.dto';
 import { User } from '@prisma/client';
 import { WalletsService } from '../wallets/wallets.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import { hashDevice } from '../referrals/utils/referral-rules';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
     private walletService: WalletsService,
+    private referralsService: ReferralsService,
   ) { }
 
-  async googleLogin(googleUser: GoogleUserDto): Promise<AuthResponseDto> {
+  async googleLogin(
+    googleUser: GoogleUserDto,
+    context?: GoogleLoginContext,
+  ): Promise<AuthResponseDto> {
     const { email, fullName, nim, major, batch, picture, googleId } =
       googleUser;
+    const deviceHash = context ? hashDevice(context.device) : null;
 
     // Cari atau buat user
     let user = await this.prisma.user.findUnique({
@@ -45,6 +55,20 @@ export class AuthService {
 
       // BUATKAN WALLET UNTUK USER BARU
       await this.walletService.createWallet(user.id);
+
+      // Catat referral jika mendaftar lewat link undangan
+      // Kegagalan referral tidak boleh menggagalkan pendaftaran
+      if (context?.referralCode) {
+        try {
+          await this.referralsService.captureForNewUser(
+            user,
+            context.referralCode,
+            deviceHash,
+          );
+        } catch (error) {
+          this.logger.error('Failed to capture referral:', error);
+        }
+      }
     } else {
       // Prepare update data
       const updateData: any = {};
@@ -71,6 +95,15 @@ export class AuthService {
       }
     }
 
+    // Catat perangkat login (untuk deteksi kecurangan referral)
+    if (deviceHash) {
+      try {
+        await this.referralsService.recordDevice(user.id, deviceHash);
+      } catch (error) {
+        this.logger.error('Failed to record device:', error);
+      }
+    }
+
     // Check if user is active
     if (user.status !== 'active') {
       throw new UnauthorizedException('Account is not active');
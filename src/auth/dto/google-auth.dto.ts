@@ -14,6 +14,25 @@ export const GoogleUserSchema = z.object({
 
 export class GoogleUserDto extends createZodDto(GoogleUserSchema) {}
 
+// Schema untuk 'state' OAuth yang dibawa bolak-balik lewat Google
+export const GoogleOAuthStateSchema = z.object({
+  returnUrl: z.string().optional(),
+  ref: z.string().optional(), // Kode referral dari link undangan
+  deviceId: z.string().optional(), // ID perangkat dari frontend
+});
+
+export type GoogleOAuthState = z.infer<typeof GoogleOAuthStateSchema>;
+
+// Konteks login (dipakai untuk referral & deteksi perangkat)
+export type GoogleLoginContext = {
+  referralCode?: string;
+  device: {
+    deviceId?: string;
+    ip?: string;
+    userAgent?: string;
+  };
+};
+
 // Schema untuk Auth Response
 export const AuthResponseSchema = z.object({
   access_token: z.string(),
@@ -1,37 +1,54 @@
 import { ExecutionContext, Injectable } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import type { Request } from 'express';
 
 @Injectable()
 export class GoogleAuthGuard extends AuthGuard('google') {
   getAuthenticateOptions(context: ExecutionContext) {
-    const req = context.switchToHttp().getRequest();
+    const req = context.switchToHttp().getRequest<Request>();
 
     // 1. Deteksi Host secara Dinamis (Localhost vs Ngrok)
     // 'x-forwarded-proto' biasanya diset oleh Ngrok/Proxy (http vs https)
-    const protocol = req.headers['x-forwarded-proto'] || 'http';
+    const forwardedProto = req.headers['x-forwarded-proto'];
+    const protocol =
+      (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) ||
+      'http';
     const host = req.headers.host; // Ini akan berisi 'localhost:5500' atau 'xxxx.ngrok-free.dev'
 
     const dynamicCallbackURL = `${protocol}://${host}/api/auth/google/callback`;
 
     // 2. Deteksi Frontend URL (Asal User)
     // Kita ambil dari query param ?returnUrl=... atau fallback ke Referer header
-    let returnUrl = req.query.returnUrl || req.headers.referer;
+    const { query } = req;
+    let returnUrl =
+      typeof query.returnUrl === 'string' && query.returnUrl
+        ? query.returnUrl
+        : req.headers.referer;
 
     // Bersihkan trailing slash jika ada (misal: http://localhost:3000/ -> http://localhost:3000)
     if (returnUrl) {
       try {
         const urlObj = new URL(returnUrl);
         returnUrl = urlObj.origin; // Ambil origin saja (http://localhost:3000)
-      } catch (e) {
+      } catch {
         // Ignore error if invalid URL
       }
     }
 
-    // 3. Simpan URL Frontend di dalam 'state' OAuth (Base64 encoded)
+    // 3. Kode referral (?ref=...) & ID perangkat dari frontend (?deviceId=...)
+    // Dipakai saat pendaftaran user baru lewat link undangan
+    const ref = typeof query.ref === 'string' ? query.ref : undefined;
+    const deviceId =
+      typeof query.deviceId === 'string' ? query.deviceId : undefined;
+
+    // 4. Simpan URL Frontend & data referral di dalam 'state' OAuth (Base64 encoded)
     // Google akan mengembalikan 'state' ini ke kita setelah login sukses
-    const state = returnUrl
-      ? Buffer.from(JSON.stringify({ returnUrl })).toString('base64')
-      : undefined;
+    const state =
+      returnUrl || ref || deviceId
+        ? Buffer.from(JSON.stringify({ returnUrl, ref, deviceId })).toString(
+            'base64',
+          )
+        : undefined;
 
     return {
       callbackURL: dynamicCallbackURL,
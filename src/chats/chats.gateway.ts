@@ -186,6 +186,19 @@ export class ChatsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     return false; // Offline
   }
 
+  /**
+   * [PUBLIC] Kirim perubahan status custom offer ke user tertentu
+   * (diterima / ditolak / kedaluwarsa)
+   */
+  broadcastOfferUpdate(userId: string, offer: { id: string }) {
+    const socket = this.connectedUsers.get(userId);
+    if (socket) {
+      socket.emit('offerUpdated', offer);
+      return true; // Online
+    }
+    return false; // Offline
+  }
+
   @SubscribeMessage('sendMessage')
   async handleSendMessage(
     @MessageBody() dto: SendMessageDto,
@@ -9,5 +9,6 @@ import { NotificationsModule } from '../notifications/notifications.module';
   imports: [AuthModule, NotificationsModule], // Impor AuthModule untuk akses AuthService
   providers: [ChatsGateway, ChatsService],
   controllers: [ChatsController],
+  exports: [ChatsService, ChatsGateway], // Dipakai OffersModule
 })
 export class ChatsModule { }
@@ -149,6 +149,20 @@ export class ChatsService {
     }
 
     // 4. [FIX] Broadcast Real-Time via Socket
+    await this.broadcastToConversation(conversationId, senderId, message);
+
+    return message;
+  }
+
+  /**
+   * [Internal] Broadcast pesan ke semua peserta obrolan via Socket
+   * Dipakai juga oleh OffersService untuk pesan bertipe CUSTOM_OFFER
+   */
+  async broadcastToConversation(
+    conversationId: string,
+    senderId: string,
+    message: { id: string },
+  ) {
     const recipientIds = await this.getRecipientIds(conversationId, senderId);
     // Broadcast ke lawan bicara
     for (const id of recipientIds) {
@@ -156,8 +170,6 @@ export class ChatsService {
     }
     // Broadcast ke diri sendiri (untuk konfirmasi/update UI)
     this.chatsGateway.broadcastMessage(senderId, message);
-
-    return message;
   }
 
   /**
@@ -232,6 +244,8 @@ export class ChatsService {
       throw new ForbiddenException('Akses ditolak');
     }
 
+    // Pesan bertipe CUSTOM_OFFER menyertakan detail penawaran
+    // agar bisa dirender sebagai kartu khusus di frontend
     return this.prisma.message.findMany({
       where: { conversationId },
       orderBy: { createdAt: 'asc' },
@@ -239,6 +253,7 @@ export class ChatsService {
         sender: {
           select: { id: true, fullName: true, profilePicture: true },
         },
+        customOffer: true,
       },
     });
   }
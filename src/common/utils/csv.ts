@@ -0,0 +1,20 @@
+/**
+ * Helper penyusunan file CSV
+ */
+
+/**
+ * Escape nilai CSV. Nilai yang diawali karakter formula (=, +, -, @)
+ * diberi prefix ' agar tidak dieksekusi spreadsheet.
+ */
+export function escapeCsvField(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Gabungkan baris menjadi isi CSV (pemisah baris CRLF)
+ */
+export function toCsv(rows: string[][]) {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,42 @@
+import { escapePdfText, SimplePdfDocument } from './simple-pdf';
+
+describe('SimplePdfDocument', () => {
+  it('writes a valid cross-reference table for every page', () => {
+    const pdf = new SimplePdfDocument();
+    pdf.text(40, 50, 'Halaman pertama');
+    pdf.addPage();
+    pdf.text(40, 50, 'Halaman kedua', { bold: true });
+
+    const output = pdf.toBuffer().toString('latin1');
+
+    expect(output).toContain('/Count 2');
+    expect(output).toContain('(Halaman pertama) Tj');
+    expect(output).toContain('/F2 10 Tf');
+
+    // Setiap offset di xref menunjuk ke awal objek yang benar
+    const xref = output.substring(output.indexOf('xref\n'));
+    const offsets = xref
+      .split('\n')
+      .filter((line) => line.endsWith(' n '))
+      .map((line) => Number(line.substring(0, 10)));
+
+    offsets.forEach((offset, index) => {
+      expect(output.substring(offset).startsWith(`${index + 1} 0 obj`)).toBe(
+        true,
+      );
+    });
+
+    const startxref = Number(/startxref\n(\d+)/.exec(output)?.[1]);
+    expect(output.substring(startxref).startsWith('xref')).toBe(true);
+  });
+
+  it('right-aligns text using the Helvetica widths', () => {
+    expect(SimplePdfDocument.textWidth('100', 10)).toBeCloseTo(16.68);
+  });
+});
+
+describe('escapePdfText', () => {
+  it('escapes delimiters and replaces unsupported characters', () => {
+    expect(escapePdfText('Nilai (a\\b) 🚀')).toBe('Nilai \\(a\\\\b\\) ??');
+  });
+});
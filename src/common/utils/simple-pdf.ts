@@ -0,0 +1,158 @@
+/**
+ * Penyusun PDF sederhana (teks & garis) tanpa dependensi eksternal
+ *
+ * Cukup untuk dokumen tabular seperti laporan mutasi: ukuran A4, font
+ * standar Helvetica/Helvetica-Bold (encoding WinAnsi), koordinat dalam
+ * point dengan titik (0, 0) di pojok kiri ATAS halaman.
+ */
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+export type PdfTextOptions = {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+};
+
+// Lebar glyph Helvetica (per 1000 unit) untuk karakter yang umum dipakai
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278,
+  ',': 278,
+  '.': 278,
+  ':': 278,
+  '-': 333,
+  '/': 278,
+  '(': 333,
+  ')': 333,
+  R: 722,
+  I: 278,
+  i: 222,
+  l: 222,
+  j: 222,
+  t: 278,
+  f: 278,
+  r: 333,
+  m: 833,
+  w: 722,
+  M: 833,
+  W: 944,
+};
+const HELVETICA_DEFAULT_WIDTH = 556;
+
+export class SimplePdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  /**
+   * Perkiraan lebar teks (point) untuk perataan kanan
+   */
+  static textWidth(text: string, size: number) {
+    const units = [...text].reduce(
+      (total, char) =>
+        total + (HELVETICA_WIDTHS[char] ?? HELVETICA_DEFAULT_WIDTH),
+      0,
+    );
+    return (units / 1000) * size;
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.bold ? 'F2' : 'F1';
+    const left =
+      options.align === 'right'
+        ? x - SimplePdfDocument.textWidth(value, size)
+        : x;
+
+    this.current.push(
+      `BT /${font} ${size} Tf ${left.toFixed(2)} ${this.toPdfY(y).toFixed(2)} Td (${escapePdfText(value)}) Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.current.push(
+      `${width} w ${x1.toFixed(2)} ${this.toPdfY(y1).toFixed(2)} m ${x2.toFixed(2)} ${this.toPdfY(y2).toFixed(2)} l S`,
+    );
+  }
+
+  /**
+   * Susun file PDF lengkap (objek, xref & trailer)
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: pages, 3-4: font, selanjutnya pasangan page + content
+    const fontRegular = 3;
+    const fontBold = 4;
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[fontRegular] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[fontBold] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((commands, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const content = commands.join('\n');
+
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontRegular} 0 R /F2 ${fontBold} 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] =
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[2] =
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] ` +
+      `/Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private toPdfY(y: number) {
+    return PDF_PAGE_HEIGHT - y;
+  }
+}
+
+/**
+ * Escape string literal PDF. Karakter di luar Latin-1 diganti '?'.
+ */
+export function escapePdfText(value: string) {
+  return value
+    .replace(/[^\x20-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
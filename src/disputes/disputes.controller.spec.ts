@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ZodValidationPipe } from 'nestjs-zod';
 import { DisputesController } from './disputes.controller';
 import { DisputesService } from './disputes.service';
+import { RespondDisputeSchema } from './dto/respond-dispute.dto';
 
 describe('DisputesController', () => {
   let controller: DisputesController;
@@ -19,4 +21,18 @@ describe('DisputesController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('rejects evidence that is not a URL', () => {
+    const pipe = new ZodValidationPipe(RespondDisputeSchema);
+
+    expect(() => {
+      pipe.transform(
+        {
+          content: 'Pekerjaan sudah dikirim sesuai brief awal',
+          evidence: ['bukan-url'],
+        },
+        { type: 'body' },
+      );
+    }).toThrow();
+  });
 });
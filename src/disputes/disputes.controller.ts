@@ -13,6 +13,11 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { GetUser } from '../auth/decorators/get-user.decorator';
 import type { CreateDisputeDto } from './dto/create-dispute.dto';
 import type { AddDisputeMessageDto } from './dto/add-message.dto';
+import type { RespondDisputeDto } from './dto/respond-dispute.dto';
+import { CreateDisputeSchema } from './dto/create-dispute.dto';
+import { AddDisputeMessageSchema } from './dto/add-message.dto';
+import { RespondDisputeSchema } from './dto/respond-dispute.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
 
 @Controller('disputes')
 @UseGuards(JwtAuthGuard) // Amankan semua endpoint
@@ -28,7 +33,7 @@ export class DisputesController {
   async openDispute(
     @GetUser('id') userId: string,
     @Param('orderId') orderId: string,
-    @Body() dto: CreateDisputeDto,
+    @Body(new ZodValidationPipe(CreateDisputeSchema)) dto: CreateDisputeDto,
   ) {
     const dispute = await this.disputesService.openDispute(
       userId,
@@ -61,6 +66,29 @@ export class DisputesController {
     };
   }
 
+  /**
+   * [User] Pihak lain menanggapi sengketa beserta bukti
+   * POST /api/disputes/:disputeId/respond
+   */
+  @Post(':disputeId/respond')
+  @HttpCode(HttpStatus.OK)
+  async respondToDispute(
+    @GetUser('id') userId: string,
+    @Param('disputeId') disputeId: string,
+    @Body(new ZodValidationPipe(RespondDisputeSchema)) dto: RespondDisputeDto,
+  ) {
+    const dispute = await this.disputesService.respondToDispute(
+      userId,
+      disputeId,
+      dto,
+    );
+    return {
+      success: true,
+      message: 'Tanggapan terkirim. Admin akan meninjau sengketa ini.',
+      data: dispute,
+    };
+  }
+
   /**
    * [User] Menambahkan pesan ke sengketa
    * POST /api/disputes/:disputeId/message
@@ -70,7 +98,8 @@ export class DisputesController {
   async addMessage(
     @GetUser('id') userId: string,
     @Param('disputeId') disputeId: string,
-    @Body() dto: AddDisputeMessageDto,
+    @Body(new ZodValidationPipe(AddDisputeMessageSchema))
+    dto: AddDisputeMessageDto,
   ) {
     const message = await this.disputesService.addMessage(
       userId,
@@ -7,7 +7,15 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import type { CreateDisputeDto } from './dto/create-dispute.dto';
 import type { AddDisputeMessageDto } from './dto/add-message.dto';
+import type { RespondDisputeDto } from './dto/respond-dispute.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { transitionOrderStatus } from '../orders/utils/order-state-machine';
+
+// Batas waktu pihak lain menanggapi sengketa sebelum diputus otomatis
+export const DISPUTE_RESPONSE_HOURS = 72;
+
+// Batas waktu peninjauan admin sebelum sengketa dieskalasi
+export const DISPUTE_REVIEW_HOURS = 120;
 
 @Injectable()
 export class DisputesService {
@@ -18,6 +26,9 @@ export class DisputesService {
 
   /**
    * [User] Membuka sengketa baru
+   *
+   * Pembuka sengketa wajib melampirkan bukti. Pihak lain diberi waktu
+   * DISPUTE_RESPONSE_HOURS untuk menanggapi (status AWAITING_RESPONSE).
    */
   async openDispute(userId: string, orderId: string, dto: CreateDisputeDto) {
     // 1. Validasi Order
@@ -38,41 +49,49 @@ export class DisputesService {
       throw new ForbiddenException('Anda tidak terkait dengan pesanan ini');
     }
 
-    // 3. Validasi Status Order
-    // Hanya order yang sedang berjalan/terkirim yang bisa didispute
-    const disputableStatuses = ['in_progress', 'delivered', 'revision'];
-    if (!disputableStatuses.includes(order.status)) {
-      throw new BadRequestException(
-        `Pesanan dengan status ${order.status} tidak dapat disengketakan`,
-      );
-    }
-
-    // 4. Buat Dispute dan update status Order (transaksional)
+    // 3. Buat Dispute dan update status Order (transaksional)
+    // Status order divalidasi oleh state machine: hanya order yang sedang
+    // berjalan/terkirim (IN_PROGRESS, DELIVERED, REVISION) yang bisa didispute
     return this.prisma.$transaction(async (tx) => {
       // Update status order menjadi 'disputed'
-      await tx.order.update({
-        where: { id: orderId },
-        data: { status: 'DISPUTED' },
+      await transitionOrderStatus(tx, orderId, 'DISPUTED', {
+        actor: isBuyer ? 'BUYER' : 'SELLER',
+        actorId: userId,
+        reason: dto.reason,
       });
 
-      // Buat entri dispute
+      const responseDeadline = new Date();
+      responseDeadline.setHours(
+        responseDeadline.getHours() + DISPUTE_RESPONSE_HOURS,
+      );
+
+      // Buat entri dispute beserta bukti dari pembuka sengketa
       const dispute = await tx.dispute.create({
         data: {
           orderId,
           openedById: userId,
           reason: dto.reason,
-          status: 'OPEN',
+          status: 'AWAITING_RESPONSE',
+          responseDeadline,
+          messages: {
+            create: {
+              senderId: userId,
+              content: dto.reason,
+              attachments: [],
+              party: isBuyer ? 'BUYER' : 'SELLER',
+              evidence: dto.evidence,
+            },
+          },
         },
       });
 
       // Tentukan pihak lain
-      const isBuyer = order.buyerId === userId;
       const otherPartyId = isBuyer ? order.service.sellerId : order.buyerId;
 
       // Buat notifikasi untuk pihak lain
       await this.notificationService.createInTx(tx, {
         userId: otherPartyId,
-        content: `Sengketa telah dibuka untuk pesanan #${orderId.substring(0, 8)}.`,
+        content: `Sengketa telah dibuka untuk pesanan #${orderId.substring(0, 8)}. Tanggapi dalam ${DISPUTE_RESPONSE_HOURS} jam atau sengketa akan diputus tanpa tanggapan Anda.`,
         link: `/orders/${orderId}/dispute`,
         type: 'DISPUTE',
       });
@@ -132,7 +151,91 @@ export class DisputesService {
       throw new ForbiddenException('Anda tidak memiliki akses ke sengketa ini');
     }
 
-    return dispute;
+    // Kelompokkan bukti per pihak
+    const evidence = {
+      buyer: dispute.messages
+        .filter((message) => message.party === 'BUYER')
+        .flatMap((message) => message.evidence),
+      seller: dispute.messages
+        .filter((message) => message.party === 'SELLER')
+        .flatMap((message) => message.evidence),
+    };
+
+    return { ...dispute, evidence };
+  }
+
+  /**
+   * [User] Pihak lain menanggapi sengketa beserta buktinya
+   *
+   * Status berubah dari AWAITING_RESPONSE ke UNDER_REVIEW dan admin
+   * memiliki waktu DISPUTE_REVIEW_HOURS sebelum sengketa dieskalasi.
+   */
+  async respondToDispute(
+    userId: string,
+    disputeId: string,
+    dto: RespondDisputeDto,
+  ) {
+    const dispute = await this.getDisputeDetails(userId, disputeId);
+
+    if (dispute.openedById === userId) {
+      throw new BadRequestException(
+        'Tanggapan hanya bisa dikirim oleh pihak lain',
+      );
+    }
+
+    if (dispute.status !== 'AWAITING_RESPONSE') {
+      throw new BadRequestException('Sengketa ini tidak menunggu tanggapan');
+    }
+
+    const reviewDeadline = new Date();
+    reviewDeadline.setHours(reviewDeadline.getHours() + DISPUTE_REVIEW_HOURS);
+
+    const isBuyer = dispute.order.buyerId === userId;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.disputeMessage.create({
+        data: {
+          disputeId,
+          senderId: userId,
+          content: dto.content,
+          attachments: [],
+          party: isBuyer ? 'BUYER' : 'SELLER',
+          evidence: dto.evidence,
+        },
+      });
+
+      return tx.dispute.update({
+        where: { id: disputeId },
+        data: {
+          status: 'UNDER_REVIEW',
+          respondedAt: new Date(),
+          reviewDeadline,
+        },
+      });
+    });
+
+    // Notifikasi ke pembuka sengketa & admin
+    await this.notificationService.create({
+      userId: dispute.openedById,
+      content: `Sengketa pesanan #${dispute.orderId.substring(0, 8)} telah ditanggapi dan sedang ditinjau admin.`,
+      link: `/orders/${dispute.orderId}/dispute`,
+      type: 'DISPUTE',
+    });
+
+    const admins = await this.prisma.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { id: true },
+    });
+    for (const admin of admins) {
+      await this.notificationService.create({
+        userId: admin.id,
+        content: `Sengketa order #${dispute.orderId.substring(0, 8)} siap ditinjau.`,
+        link: `/admin/disputes/${disputeId}`,
+        type: 'DISPUTE',
+      });
+    }
+
+    return updated;
   }
 
   /**
@@ -146,7 +249,7 @@ export class DisputesService {
     // Validasi kepemilikan
     const dispute = await this.getDisputeDetails(userId, disputeId);
 
-    if (dispute.status !== 'OPEN') {
+    if (dispute.status === 'RESOLVED') {
       throw new BadRequestException('Sengketa ini sudah ditutup');
     }
 
@@ -156,6 +259,8 @@ export class DisputesService {
         senderId: userId,
         content: dto.content,
         attachments: dto.attachments,
+        party: dispute.order.buyerId === userId ? 'BUYER' : 'SELLER',
+        evidence: dto.evidence,
       },
     });
 
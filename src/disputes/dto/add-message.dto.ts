@@ -10,6 +10,12 @@ export const AddDisputeMessageSchema = z.object({
     .array(z.string().url({ message: 'URL attachment tidak valid' }))
     .max(5, { message: 'Maksimal 5 file attachment' })
     .default([]),
+
+  // Bukti tambahan selama sengketa berjalan
+  evidence: z
+    .array(z.string().url({ message: 'URL bukti tidak valid' }))
+    .max(10, { message: 'Maksimal 10 file bukti' })
+    .default([]),
 });
 
 export type AddDisputeMessageDto = z.infer<typeof AddDisputeMessageSchema>;
@@ -5,6 +5,12 @@ export const CreateDisputeSchema = z.object({
     .string()
     .min(50, { message: 'Alasan dispute minimal 50 karakter' })
     .max(2000, { message: 'Alasan dispute maksimal 2000 karakter' }),
+
+  // URL bukti hasil upload melalui endpoint /api/upload
+  evidence: z
+    .array(z.string().url({ message: 'URL bukti tidak valid' }))
+    .min(1, { message: 'Minimal 1 file bukti diperlukan' })
+    .max(10, { message: 'Maksimal 10 file bukti' }),
 });
 
 export type CreateDisputeDto = z.infer<typeof CreateDisputeSchema>;
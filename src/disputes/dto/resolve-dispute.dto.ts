@@ -1,14 +1,37 @@
 import { z } from 'zod';
 
 // Ambil enum dari Prisma (atau definisikan ulang)
-export const ResolveDisputeSchema = z.object({
-  resolution: z.enum(['RELEASE_TO_SELLER', 'REFUND_TO_BUYER'], {
-    message: 'Keputusan resolusi wajib diisi',
-  }),
-  adminNotes: z
-    .string()
-    .min(20, { message: 'Catatan admin minimal 20 karakter' })
-    .max(2000, { message: 'Catatan admin maksimal 2000 karakter' }),
-});
+export const ResolveDisputeSchema = z
+  .object({
+    resolution: z.enum(['RELEASE_TO_SELLER', 'REFUND_TO_BUYER', 'SPLIT'], {
+      message: 'Keputusan resolusi wajib diisi',
+    }),
+    adminNotes: z
+      .string()
+      .min(20, { message: 'Catatan admin minimal 20 karakter' })
+      .max(2000, { message: 'Catatan admin maksimal 2000 karakter' }),
+
+    // Khusus SPLIT: bagian seller dalam persen ATAU nominal (pilih salah satu)
+    sellerPercentage: z.coerce
+      .number()
+      .min(0, { message: 'Persentase minimal 0' })
+      .max(100, { message: 'Persentase maksimal 100' })
+      .optional(),
+    sellerAmount: z.coerce
+      .number()
+      .min(0, { message: 'Nominal untuk penyedia jasa tidak boleh negatif' })
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.resolution !== 'SPLIT' ||
+      (data.sellerPercentage === undefined) !==
+        (data.sellerAmount === undefined),
+    {
+      message:
+        'Resolusi SPLIT membutuhkan salah satu dari sellerPercentage atau sellerAmount',
+      path: ['sellerPercentage'],
+    },
+  );
 
 export type ResolveDisputeDto = z.infer<typeof ResolveDisputeSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const RespondDisputeSchema = z.object({
+  content: z
+    .string()
+    .min(20, { message: 'Tanggapan minimal 20 karakter' })
+    .max(2000, { message: 'Tanggapan maksimal 2000 karakter' }),
+
+  // URL bukti hasil upload melalui endpoint /api/upload
+  evidence: z
+    .array(z.string().url({ message: 'URL bukti tidak valid' }))
+    .max(10, { message: 'Maksimal 10 file bukti' })
+    .default([]),
+});
+
+export type RespondDisputeDto = z.infer<typeof RespondDisputeSchema>;
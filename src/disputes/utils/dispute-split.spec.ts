@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import { calculateDisputeSplit } from './dispute-split';
+
+describe('calculateDisputeSplit', () => {
+  const escrow = new Prisma.Decimal(500000);
+  const feeQuote = {
+    ruleId: null,
+    rate: new Prisma.Decimal(0.1),
+    minFee: new Prisma.Decimal(0),
+  };
+
+  it('splits by percentage and charges the fee on the seller portion only', () => {
+    const split = calculateDisputeSplit(
+      escrow,
+      { sellerPercentage: 60 },
+      feeQuote,
+    );
+
+    expect(split.sellerAmount.toNumber()).toBe(300000);
+    expect(split.platformFee.toNumber()).toBe(30000);
+    expect(split.sellerNet.toNumber()).toBe(270000);
+    expect(split.buyerAmount.toNumber()).toBe(200000);
+  });
+
+  it('splits by a fixed seller amount', () => {
+    const split = calculateDisputeSplit(
+      escrow,
+      { sellerAmount: 125000 },
+      feeQuote,
+    );
+
+    expect(split.sellerNet.toNumber()).toBe(112500);
+    expect(split.buyerAmount.toNumber()).toBe(375000);
+  });
+
+  it('applies the minimum fee of the active fee rule', () => {
+    const split = calculateDisputeSplit(
+      escrow,
+      { sellerAmount: 20000 },
+      { ...feeQuote, minFee: new Prisma.Decimal(5000) },
+    );
+
+    expect(split.platformFee.toNumber()).toBe(5000);
+    expect(split.sellerNet.toNumber()).toBe(15000);
+  });
+
+  it('charges only the minimum fee shortfall left by earlier releases', () => {
+    const split = calculateDisputeSplit(
+      escrow,
+      { sellerAmount: 20000 },
+      { ...feeQuote, minFee: new Prisma.Decimal(5000) },
+      new Prisma.Decimal(4000),
+    );
+
+    expect(split.platformFee.toNumber()).toBe(2000);
+    expect(split.sellerNet.toNumber()).toBe(18000);
+  });
+
+  it('rejects a negative seller share', () => {
+    expect(() =>
+      calculateDisputeSplit(escrow, { sellerAmount: -1000 }, feeQuote),
+    ).toThrow('Bagian penyedia jasa tidak boleh negatif');
+    expect(() =>
+      calculateDisputeSplit(escrow, { sellerPercentage: -10 }, feeQuote),
+    ).toThrow('Bagian penyedia jasa tidak boleh negatif');
+  });
+
+  it('rejects a seller amount larger than the escrow', () => {
+    expect(() =>
+      calculateDisputeSplit(escrow, { sellerAmount: 600000 }, feeQuote),
+    ).toThrow('Bagian penyedia jasa maksimal Rp 500000');
+  });
+});
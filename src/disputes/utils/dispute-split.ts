@@ -0,0 +1,55 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { applyFee, type FeeQuote } from '../../fees/utils/fee-calculator';
+
+/**
+ * Helper untuk menghitung pembagian dana escrow pada resolusi sengketa SPLIT
+ */
+
+export type DisputeSplit = {
+  sellerAmount: Prisma.Decimal; // Bagian seller sebelum fee
+  platformFee: Prisma.Decimal; // Fee hanya dipotong dari bagian seller
+  sellerNet: Prisma.Decimal; // Dana yang masuk ke wallet seller
+  buyerAmount: Prisma.Decimal; // Refund ke wallet buyer
+};
+
+/**
+ * Hitung pembagian sisa escrow antara seller & buyer
+ *
+ * Bagian seller ditentukan dari persentase atau nominal,
+ * sisanya dikembalikan penuh ke buyer tanpa potongan.
+ */
+export function calculateDisputeSplit(
+  escrowAmount: Prisma.Decimal,
+  share: { sellerPercentage?: number; sellerAmount?: number },
+  feeQuote: FeeQuote,
+  alreadyCharged: Prisma.Decimal = new Prisma.Decimal(0),
+): DisputeSplit {
+  const sellerAmount =
+    share.sellerAmount !== undefined
+      ? new Prisma.Decimal(share.sellerAmount)
+      : escrowAmount
+          .mul(share.sellerPercentage ?? 0)
+          .div(100)
+          .toDecimalPlaces(2);
+
+  if (sellerAmount.lt(0)) {
+    throw new BadRequestException('Bagian penyedia jasa tidak boleh negatif');
+  }
+
+  if (sellerAmount.gt(escrowAmount)) {
+    throw new BadRequestException(
+      `Bagian penyedia jasa maksimal Rp ${escrowAmount.toFixed(0)}`,
+    );
+  }
+
+  // Pelepasan terakhir order: kekurangan fee minimal ikut ditagih
+  const platformFee = applyFee(sellerAmount, feeQuote, { alreadyCharged });
+
+  return {
+    sellerAmount,
+    platformFee,
+    sellerNet: sellerAmount.sub(platformFee),
+    buyerAmount: escrowAmount.sub(sellerAmount),
+  };
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+const FeeRuleBaseSchema = z.object({
+  name: z
+    .string()
+    .min(3, { message: 'Nama aturan minimal 3 karakter' })
+    .max(100, { message: 'Nama aturan maksimal 100 karakter' }),
+
+  scope: z.enum(['DEFAULT', 'CATEGORY', 'SELLER_TIER', 'PROMOTION'], {
+    message: 'Cakupan aturan tidak valid',
+  }),
+
+  // Wajib untuk CATEGORY, opsional untuk PROMOTION (kosong = semua kategori)
+  category: z.string().min(1).optional(),
+
+  // Wajib untuk SELLER_TIER
+  sellerTier: z
+    .enum(['NEW', 'RISING', 'TOP'], { message: 'Tier seller tidak valid' })
+    .optional(),
+
+  // Dalam bentuk pecahan, mis. 0.1 = 10%
+  rate: z.coerce
+    .number()
+    .min(0, { message: 'Rate fee minimal 0' })
+    .max(0.5, { message: 'Rate fee maksimal 0.5 (50%)' }),
+
+  minFee: z.coerce
+    .number()
+    .min(0, { message: 'Fee minimal tidak boleh negatif' })
+    .default(0),
+
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * Schema untuk admin membuat aturan fee platform
+ */
+export const CreateFeeRuleSchema = FeeRuleBaseSchema.superRefine(
+  (data, ctx) => {
+    if (data.scope === 'CATEGORY' && !data.category) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Aturan kategori membutuhkan kategori',
+        path: ['category'],
+      });
+    }
+
+    if (data.scope === 'SELLER_TIER' && !data.sellerTier) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Aturan tier membutuhkan tier seller',
+        path: ['sellerTier'],
+      });
+    }
+
+    if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Tanggal berakhir harus setelah tanggal mulai',
+        path: ['endsAt'],
+      });
+    }
+  },
+);
+
+/**
+ * Schema untuk admin mengubah aturan fee platform
+ * Default dilepas agar field yang tidak dikirim tidak ikut tertimpa
+ */
+export const UpdateFeeRuleSchema = FeeRuleBaseSchema.omit({
+  scope: true,
+})
+  .extend({
+    minFee: FeeRuleBaseSchema.shape.minFee.unwrap(),
+    isActive: FeeRuleBaseSchema.shape.isActive.unwrap(),
+  })
+  .partial();
+
+export type CreateFeeRuleDto = z.infer<typeof CreateFeeRuleSchema>;
+export type UpdateFeeRuleDto = z.infer<typeof UpdateFeeRuleSchema>;
@@ -0,0 +1,22 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FeesController } from './fees.controller';
+import { FeesService } from './fees.service';
+
+describe('FeesController', () => {
+  let controller: FeesController;
+
+  const mockFeesService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FeesController],
+      providers: [{ provide: FeesService, useValue: mockFeesService }],
+    }).compile();
+
+    controller = module.get<FeesController>(FeesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FeesService } from './fees.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../admin/guards/admin.guard';
+import type { CreateFeeRuleDto, UpdateFeeRuleDto } from './dto/fee-rule.dto';
+import { CreateFeeRuleSchema, UpdateFeeRuleSchema } from './dto/fee-rule.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
+
+@Controller('admin/fees')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class FeesController {
+  constructor(private readonly feesService: FeesService) {}
+
+  /**
+   * [Admin] Daftar aturan fee platform
+   * GET /api/admin/fees/rules
+   */
+  @Get('rules')
+  async getRules() {
+    const rules = await this.feesService.getRules();
+    return {
+      success: true,
+      data: rules,
+    };
+  }
+
+  /**
+   * [Admin] Membuat aturan fee platform
+   * POST /api/admin/fees/rules
+   */
+  @Post('rules')
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(
+    @Body(new ZodValidationPipe(CreateFeeRuleSchema)) dto: CreateFeeRuleDto,
+  ) {
+    const rule = await this.feesService.createRule(dto);
+    return {
+      success: true,
+      message: 'Aturan fee berhasil dibuat',
+      data: rule,
+    };
+  }
+
+  /**
+   * [Admin] Mengubah aturan fee platform
+   * PATCH /api/admin/fees/rules/:id
+   */
+  @Patch('rules/:id')
+  async updateRule(
+    @Param('id') ruleId: string,
+    @Body(new ZodValidationPipe(UpdateFeeRuleSchema)) dto: UpdateFeeRuleDto,
+  ) {
+    const rule = await this.feesService.updateRule(ruleId, dto);
+    return {
+      success: true,
+      message: 'Aturan fee berhasil diperbarui',
+      data: rule,
+    };
+  }
+
+  /**
+   * [Admin] Menonaktifkan aturan fee platform
+   * DELETE /api/admin/fees/rules/:id
+   */
+  @Delete('rules/:id')
+  async deactivateRule(@Param('id') ruleId: string) {
+    const rule = await this.feesService.deactivateRule(ruleId);
+    return {
+      success: true,
+      message: 'Aturan fee dinonaktifkan',
+      data: rule,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+import { FeesService } from './fees.service';
+import { FeesController } from './fees.controller';
+
+@Global() // Dipakai oleh Orders & Admin saat melepas dana escrow
+@Module({
+  providers: [FeesService],
+  controllers: [FeesController],
+  exports: [FeesService],
+})
+export class FeesModule {}
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FeesService } from './fees.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  CreateFeeRuleSchema,
+  UpdateFeeRuleSchema,
+  type UpdateFeeRuleDto,
+} from './dto/fee-rule.dto';
+
+describe('FeesService', () => {
+  let service: FeesService;
+
+  const mockPrismaService = {
+    platformFeeRule: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const mockLedgerService = {};
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<FeesService>(FeesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('updateRule', () => {
+    beforeEach(() => {
+      mockPrismaService.platformFeeRule.findUnique.mockResolvedValue({
+        id: 'rule-1',
+        startsAt: new Date('2026-03-01'),
+        endsAt: null,
+      });
+    });
+
+    it('only writes editable fields', async () => {
+      // Field di luar schema (mis. dari body mentah) tidak boleh ikut tersimpan
+      const dto = { rate: 0.08, scope: 'PROMOTION' } as UpdateFeeRuleDto;
+
+      await service.updateRule('rule-1', dto);
+
+      expect(mockPrismaService.platformFeeRule.update).toHaveBeenCalledWith({
+        where: { id: 'rule-1' },
+        data: expect.not.objectContaining({
+          scope: expect.anything() as unknown,
+        }) as unknown,
+      });
+    });
+
+    it('checks the end date against the stored start date', async () => {
+      await expect(
+        service.updateRule('rule-1', { endsAt: new Date('2026-02-01') }),
+      ).rejects.toThrow('Tanggal berakhir harus setelah tanggal mulai');
+      expect(mockPrismaService.platformFeeRule.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fee rule schemas', () => {
+    it('rejects a rate above 50%', () => {
+      const result = CreateFeeRuleSchema.safeParse({
+        name: 'Default',
+        scope: 'DEFAULT',
+        rate: 3,
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('does not fill defaults into a partial update', () => {
+      expect(UpdateFeeRuleSchema.parse({ rate: 0.05 })).toEqual({ rate: 0.05 });
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import type { CreateFeeRuleDto, UpdateFeeRuleDto } from './dto/fee-rule.dto';
+import {
+  applyFee,
+  resolveSellerTier,
+  selectFeeRule,
+  type FeeQuote,
+} from './utils/fee-calculator';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+type FeeCharge = {
+  orderId: string;
+  amount: Prisma.Decimal; // Nominal dana yang dilepas ke seller
+  description: string;
+  disputeId?: string;
+  finalRelease?: boolean; // Default true: kekurangan fee minimal ditagih di sini
+};
+
+@Injectable()
+export class FeesService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * [Admin] Mendapatkan semua aturan fee platform
+   */
+  async getRules() {
+    return this.prisma.platformFeeRule.findMany({
+      orderBy: [{ isActive: 'desc' }, { scope: 'asc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * [Admin] Membuat aturan fee platform baru
+   */
+  async createRule(dto: CreateFeeRuleDto) {
+    return this.prisma.platformFeeRule.create({
+      data: {
+        name: dto.name,
+        scope: dto.scope,
+        category: dto.category,
+        sellerTier: dto.sellerTier,
+        rate: dto.rate,
+        minFee: dto.minFee,
+        startsAt: dto.startsAt,
+        endsAt: dto.endsAt,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /**
+   * [Admin] Mengubah aturan fee platform
+   * Fee yang sudah tercatat tidak ikut berubah
+   */
+  async updateRule(ruleId: string, dto: UpdateFeeRuleDto) {
+    const rule = await this.findRule(ruleId);
+
+    const startsAt = dto.startsAt ?? rule.startsAt;
+    const endsAt = dto.endsAt ?? rule.endsAt;
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw new BadRequestException(
+        'Tanggal berakhir harus setelah tanggal mulai',
+      );
+    }
+
+    return this.prisma.platformFeeRule.update({
+      where: { id: ruleId },
+      data: {
+        name: dto.name,
+        category: dto.category,
+        sellerTier: dto.sellerTier,
+        rate: dto.rate,
+        minFee: dto.minFee,
+        startsAt: dto.startsAt,
+        endsAt: dto.endsAt,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /**
+   * [Admin] Menonaktifkan aturan fee platform
+   * Aturan tidak dihapus agar riwayat fee tetap bisa ditelusuri
+   */
+  async deactivateRule(ruleId: string) {
+    await this.findRule(ruleId);
+
+    return this.prisma.platformFeeRule.update({
+      where: { id: ruleId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Tentukan aturan fee yang berlaku untuk sebuah order
+   * berdasarkan kategori jasa & tier seller saat ini
+   */
+  async quoteForOrder(
+    orderId: string,
+    tx: Tx = this.prisma,
+  ): Promise<FeeQuote> {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        service: {
+          select: {
+            category: true,
+            seller: { select: { totalOrdersCompleted: true } },
+          },
+        },
+      },
+    });
+
+    const rules = await tx.platformFeeRule.findMany({
+      where: { isActive: true },
+    });
+
+    return selectFeeRule(rules, {
+      category: order.service.category,
+      sellerTier: resolveSellerTier(order.service.seller.totalOrdersCompleted),
+    });
+  }
+
+  /**
+   * Hitung & catat fee platform untuk dana yang dilepas ke seller
+   * Harus dipanggil di dalam transaksi yang sama dengan pelepasan dana
+   *
+   * @returns Nominal fee yang dipotong
+   */
+  async chargeInTx(tx: Tx, charge: FeeCharge): Promise<Prisma.Decimal> {
+    const quote = await this.quoteForOrder(charge.orderId, tx);
+
+    return this.recordInTx(tx, charge, quote);
+  }
+
+  /**
+   * Catat fee platform dengan aturan yang sudah ditentukan sebelumnya
+   * Fee dipindahkan dari akun escrow ke akun pendapatan platform
+   *
+   * @returns Nominal fee yang dipotong
+   */
+  async recordInTx(
+    tx: Tx,
+    charge: FeeCharge,
+    quote: FeeQuote,
+  ): Promise<Prisma.Decimal> {
+    if (charge.amount.lte(0)) {
+      return new Prisma.Decimal(0);
+    }
+
+    const finalRelease = charge.finalRelease ?? true;
+    const fee = applyFee(charge.amount, quote, {
+      finalRelease,
+      alreadyCharged: finalRelease
+        ? await this.chargedForOrder(charge.orderId, tx)
+        : undefined,
+    });
+
+    await tx.platformFeeEntry.create({
+      data: {
+        orderId: charge.orderId,
+        disputeId: charge.disputeId,
+        ruleId: quote.ruleId,
+        baseAmount: charge.amount,
+        rate: quote.rate,
+        amount: fee,
+        description: charge.description,
+      },
+    });
+
+    await this.ledgerService.postInTx(tx, {
+      description: charge.description,
+      orderId: charge.orderId,
+      disputeId: charge.disputeId,
+      lines: [
+        { account: 'ESCROW_HOLDING', direction: 'DEBIT', amount: fee },
+        { account: 'PLATFORM_REVENUE', direction: 'CREDIT', amount: fee },
+      ],
+    });
+
+    return fee;
+  }
+
+  /**
+   * Total fee platform yang sudah dipotong untuk sebuah order
+   * Dipakai agar fee minimal hanya berlaku sekali per order
+   */
+  async chargedForOrder(
+    orderId: string,
+    tx: Tx = this.prisma,
+  ): Promise<Prisma.Decimal> {
+    const result = await tx.platformFeeEntry.aggregate({
+      where: { orderId },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Total fee platform yang benar-benar tercatat
+   */
+  async getTotalRevenue() {
+    const result = await this.prisma.platformFeeEntry.aggregate({
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Helper untuk memastikan aturan fee ada
+   */
+  private async findRule(ruleId: string) {
+    const rule = await this.prisma.platformFeeRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Aturan fee tidak ditemukan');
+    }
+
+    return rule;
+  }
+}
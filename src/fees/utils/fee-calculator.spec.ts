@@ -0,0 +1,123 @@
+import { Prisma } from '@prisma/client';
+import {
+  applyFee,
+  resolveSellerTier,
+  selectFeeRule,
+  type FeeRuleCandidate,
+} from './fee-calculator';
+
+const rule = (
+  overrides: Partial<FeeRuleCandidate> & Pick<FeeRuleCandidate, 'id'>,
+): FeeRuleCandidate => ({
+  scope: 'DEFAULT',
+  category: null,
+  sellerTier: null,
+  rate: new Prisma.Decimal(0.1),
+  minFee: new Prisma.Decimal(0),
+  startsAt: null,
+  endsAt: null,
+  isActive: true,
+  ...overrides,
+});
+
+describe('resolveSellerTier', () => {
+  it('maps completed orders to a tier', () => {
+    expect(resolveSellerTier(0)).toBe('NEW');
+    expect(resolveSellerTier(10)).toBe('RISING');
+    expect(resolveSellerTier(75)).toBe('TOP');
+  });
+});
+
+describe('selectFeeRule', () => {
+  const now = new Date('2026-01-15T00:00:00Z');
+  const context = { category: 'desain', sellerTier: 'RISING' as const, now };
+
+  it('falls back to the default rate when no rule exists', () => {
+    const quote = selectFeeRule([], context);
+
+    expect(quote.ruleId).toBeNull();
+    expect(quote.rate.toNumber()).toBe(0.1);
+  });
+
+  it('prefers category over seller tier over default', () => {
+    const rules = [
+      rule({ id: 'default' }),
+      rule({
+        id: 'tier',
+        scope: 'SELLER_TIER',
+        sellerTier: 'RISING',
+        rate: new Prisma.Decimal(0.08),
+      }),
+      rule({
+        id: 'category',
+        scope: 'CATEGORY',
+        category: 'desain',
+        rate: new Prisma.Decimal(0.12),
+      }),
+    ];
+
+    expect(selectFeeRule(rules, context).ruleId).toBe('category');
+    expect(
+      selectFeeRule(rules, { ...context, category: 'menulis' }).ruleId,
+    ).toBe('tier');
+  });
+
+  it('applies a promotion only inside its period', () => {
+    const promo = rule({
+      id: 'promo',
+      scope: 'PROMOTION',
+      rate: new Prisma.Decimal(0),
+      startsAt: new Date('2026-01-01T00:00:00Z'),
+      endsAt: new Date('2026-02-01T00:00:00Z'),
+    });
+    const rules = [rule({ id: 'default' }), promo];
+
+    expect(selectFeeRule(rules, context).ruleId).toBe('promo');
+    expect(
+      selectFeeRule(rules, { ...context, now: new Date('2026-02-01') }).ruleId,
+    ).toBe('default');
+  });
+
+  it('ignores inactive rules', () => {
+    const rules = [rule({ id: 'default', isActive: false })];
+
+    expect(selectFeeRule(rules, context).ruleId).toBeNull();
+  });
+});
+
+describe('applyFee', () => {
+  const quote = {
+    ruleId: 'default',
+    rate: new Prisma.Decimal(0.1),
+    minFee: new Prisma.Decimal(5000),
+  };
+
+  it('charges the rate on the released amount', () => {
+    expect(applyFee(new Prisma.Decimal(200000), quote).toNumber()).toBe(20000);
+  });
+
+  it('enforces the minimum fee without exceeding the amount', () => {
+    expect(applyFee(new Prisma.Decimal(20000), quote).toNumber()).toBe(5000);
+    expect(applyFee(new Prisma.Decimal(3000), quote).toNumber()).toBe(3000);
+  });
+
+  it('charges the minimum fee once across several releases', () => {
+    const first = applyFee(new Prisma.Decimal(20000), quote, {
+      finalRelease: false,
+    });
+    const last = applyFee(new Prisma.Decimal(20000), quote, {
+      alreadyCharged: first,
+    });
+
+    expect(first.toNumber()).toBe(2000);
+    expect(last.toNumber()).toBe(3000);
+  });
+
+  it('charges only the rate once the minimum is already covered', () => {
+    expect(
+      applyFee(new Prisma.Decimal(20000), quote, {
+        alreadyCharged: new Prisma.Decimal(6000),
+      }).toNumber(),
+    ).toBe(2000);
+  });
+});
@@ -0,0 +1,141 @@
+import { Prisma } from '@prisma/client';
+import type { PlatformFeeRule, SellerTier } from '@prisma/client';
+
+/**
+ * Helper untuk memilih aturan fee platform & menghitung potongannya
+ */
+
+// Dipakai bila belum ada aturan DEFAULT yang aktif
+export const FALLBACK_PLATFORM_FEE_RATE = 0.1;
+
+// Batas minimal order selesai untuk tiap tingkatan seller
+const SELLER_TIER_THRESHOLDS: { tier: SellerTier; minCompleted: number }[] = [
+  { tier: 'TOP', minCompleted: 50 },
+  { tier: 'RISING', minCompleted: 10 },
+];
+
+// Urutan prioritas aturan: promo menang atas kategori, lalu tier, lalu default
+const SCOPE_PRIORITY: PlatformFeeRule['scope'][] = [
+  'PROMOTION',
+  'CATEGORY',
+  'SELLER_TIER',
+  'DEFAULT',
+];
+
+export type FeeRuleCandidate = Pick<
+  PlatformFeeRule,
+  | 'id'
+  | 'scope'
+  | 'category'
+  | 'sellerTier'
+  | 'rate'
+  | 'minFee'
+  | 'startsAt'
+  | 'endsAt'
+  | 'isActive'
+>;
+
+export type FeeContext = {
+  category: string;
+  sellerTier: SellerTier;
+  now?: Date;
+};
+
+export type FeeQuote = {
+  ruleId: string | null;
+  rate: Prisma.Decimal;
+  minFee: Prisma.Decimal;
+};
+
+/**
+ * Tentukan tingkatan seller dari jumlah order yang sudah diselesaikan
+ */
+export function resolveSellerTier(totalOrdersCompleted: number): SellerTier {
+  const match = SELLER_TIER_THRESHOLDS.find(
+    (threshold) => totalOrdersCompleted >= threshold.minCompleted,
+  );
+
+  return match?.tier ?? 'NEW';
+}
+
+/**
+ * Pilih aturan fee yang berlaku untuk sebuah order
+ *
+ * - Hanya aturan aktif di dalam periode berlakunya yang dipertimbangkan
+ * - PROMOTION tanpa kategori berlaku untuk semua kategori
+ * - Jika beberapa aturan setara, rate terendah yang dipakai
+ */
+export function selectFeeRule(
+  rules: FeeRuleCandidate[],
+  context: FeeContext,
+): FeeQuote {
+  const now = context.now ?? new Date();
+
+  const applicable = rules.filter((rule) => {
+    if (!rule.isActive) return false;
+    if (rule.startsAt && rule.startsAt > now) return false;
+    if (rule.endsAt && rule.endsAt <= now) return false;
+
+    switch (rule.scope) {
+      case 'PROMOTION':
+        return !rule.category || rule.category === context.category;
+      case 'CATEGORY':
+        return rule.category === context.category;
+      case 'SELLER_TIER':
+        return rule.sellerTier === context.sellerTier;
+      default:
+        return true;
+    }
+  });
+
+  for (const scope of SCOPE_PRIORITY) {
+    const [best] = applicable
+      .filter((rule) => rule.scope === scope)
+      .sort((a, b) => a.rate.comparedTo(b.rate));
+
+    if (best) {
+      return { ruleId: best.id, rate: best.rate, minFee: best.minFee };
+    }
+  }
+
+  return {
+    ruleId: null,
+    rate: new Prisma.Decimal(FALLBACK_PLATFORM_FEE_RATE),
+    minFee: new Prisma.Decimal(0),
+  };
+}
+
+export type FeeReleaseContext = {
+  alreadyCharged?: Prisma.Decimal; // Fee dari pelepasan sebelumnya di order yang sama
+  finalRelease?: boolean; // Pelepasan terakhir untuk order ini
+};
+
+/**
+ * Hitung fee platform dari nominal yang dilepas ke seller
+ *
+ * Fee minimal berlaku sekali per order: pelepasan sebelumnya hanya dipotong
+ * sesuai rate, kekurangannya ditagih pada pelepasan terakhir.
+ * Fee tidak pernah melebihi nominal yang dilepas.
+ */
+export function applyFee(
+  amount: Prisma.Decimal,
+  quote: FeeQuote,
+  {
+    alreadyCharged = new Prisma.Decimal(0),
+    finalRelease = true,
+  }: FeeReleaseContext = {},
+): Prisma.Decimal {
+  if (amount.lte(0)) {
+    return new Prisma.Decimal(0);
+  }
+
+  const rateFee = amount.mul(quote.rate).toDecimalPlaces(2);
+  const minFeeShortfall = finalRelease
+    ? Prisma.Decimal.max(quote.minFee.sub(alreadyCharged), 0)
+    : new Prisma.Decimal(0);
+
+  return Prisma.Decimal.min(
+    Prisma.Decimal.max(rateFee, minFeeShortfall),
+    amount,
+  );
+}
@@ -0,0 +1,105 @@
+import { createZodDto } from 'nestjs-zod';
+import { z } from 'zod';
+import { CreateServiceSchema } from '../../services/dto/service.dto';
+
+/**
+ * Schema untuk buyer memposting permintaan pekerjaan
+ */
+const JobRequestBaseSchema = z.object({
+  title: z
+    .string()
+    .min(10, { message: 'Judul minimal 10 karakter' })
+    .max(100, { message: 'Judul maksimal 100 karakter' }),
+
+  description: z
+    .string()
+    .min(30, { message: 'Deskripsi kebutuhan minimal 30 karakter' })
+    .max(2000, { message: 'Deskripsi kebutuhan maksimal 2000 karakter' }),
+
+  // Kategori sama dengan kategori jasa
+  category: CreateServiceSchema.shape.category,
+
+  budgetMin: z.coerce
+    .number()
+    .positive({ message: 'Budget minimal harus lebih dari 0' })
+    .max(10000000, { message: 'Budget maksimal Rp 10.000.000' }),
+
+  budgetMax: z.coerce
+    .number()
+    .positive({ message: 'Budget maksimal harus lebih dari 0' })
+    .max(10000000, { message: 'Budget maksimal Rp 10.000.000' }),
+
+  deadline: z.coerce.date({ message: 'Deadline tidak valid' }),
+
+  attachments: z
+    .array(z.string().url({ message: 'URL attachment tidak valid' }))
+    .max(5, { message: 'Maksimal 5 file attachment' })
+    .default([]),
+});
+
+export const CreateJobRequestSchema = JobRequestBaseSchema.refine(
+  (dto) => dto.budgetMin <= dto.budgetMax,
+  {
+    message: 'Budget minimal tidak boleh melebihi budget maksimal',
+    path: ['budgetMin'],
+  },
+);
+
+// Default attachments dilepas agar PATCH tanpa attachments tidak menghapusnya
+export const UpdateJobRequestSchema = JobRequestBaseSchema.extend({
+  attachments: JobRequestBaseSchema.shape.attachments.unwrap(),
+}).partial();
+
+/**
+ * Schema untuk mencari permintaan pekerjaan yang masih terbuka
+ */
+export const JobRequestFilterSchema = z.object({
+  q: z.string().optional(),
+  category: CreateServiceSchema.shape.category.optional(),
+  // Cocokkan rentang budget yang beririsan dengan rentang ini
+  budgetMin: z.coerce.number().positive().optional(),
+  budgetMax: z.coerce.number().positive().optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(50).default(12),
+  sortBy: z
+    .enum(['newest', 'deadline', 'budget_high', 'budget_low'])
+    .default('newest'),
+});
+
+/**
+ * Schema untuk seller mengirim penawaran
+ */
+export const CreateJobProposalSchema = z.object({
+  coverLetter: z
+    .string()
+    .min(20, { message: 'Penjelasan penawaran minimal 20 karakter' })
+    .max(2000, { message: 'Penjelasan penawaran maksimal 2000 karakter' }),
+
+  price: z.coerce
+    .number()
+    .positive({ message: 'Harga harus lebih dari 0' })
+    .max(10000000, { message: 'Harga maksimal Rp 10.000.000' }),
+
+  deliveryDays: z.coerce
+    .number()
+    .int()
+    .positive({ message: 'Waktu pengerjaan harus lebih dari 0 hari' })
+    .max(90, { message: 'Waktu pengerjaan maksimal 90 hari' }),
+
+  revisions: z.coerce
+    .number()
+    .int()
+    .min(0, { message: 'Jumlah revisi minimal 0' })
+    .max(10, { message: 'Jumlah revisi maksimal 10' })
+    .default(1),
+});
+
+// Kelas DTO agar divalidasi ZodValidationPipe global (termasuk coerce query)
+export class CreateJobRequestDto extends createZodDto(CreateJobRequestSchema) {}
+export class UpdateJobRequestDto extends createZodDto(UpdateJobRequestSchema) {}
+export class JobRequestFilterDto extends createZodDto(JobRequestFilterSchema) {}
+export class CreateJobProposalDto extends createZodDto(
+  CreateJobProposalSchema,
+) {}
+
+export type JobRequestFilterType = z.infer<typeof JobRequestFilterSchema>;
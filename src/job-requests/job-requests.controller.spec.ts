@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JobRequestsController } from './job-requests.controller';
+import { JobRequestsService } from './job-requests.service';
+
+describe('JobRequestsController', () => {
+  let controller: JobRequestsController;
+
+  const mockJobRequestsService = {
+    acceptProposal: jest.fn(),
+    submitProposal: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JobRequestsController],
+      providers: [
+        { provide: JobRequestsService, useValue: mockJobRequestsService },
+      ],
+    }).compile();
+
+    controller = module.get<JobRequestsController>(JobRequestsController);
+  });
+
+  it('returns the order created from an accepted proposal', async () => {
+    mockJobRequestsService.acceptProposal.mockResolvedValue({
+      proposal: { id: 'proposal-1', status: 'ACCEPTED' },
+      order: { id: 'order-1', status: 'WAITING_PAYMENT' },
+    });
+
+    const result = await controller.acceptProposal('proposal-1', 'buyer-1');
+
+    expect(mockJobRequestsService.acceptProposal).toHaveBeenCalledWith(
+      'buyer-1',
+      'proposal-1',
+    );
+    expect(result.data.order).toEqual({
+      id: 'order-1',
+      status: 'WAITING_PAYMENT',
+    });
+  });
+
+  it('passes the seller and request to submitProposal', async () => {
+    mockJobRequestsService.submitProposal.mockResolvedValue({
+      id: 'proposal-1',
+    });
+    const dto = {
+      coverLetter: 'Saya sudah sering mendesain poster acara kampus',
+      price: 120000,
+      deliveryDays: 3,
+      revisions: 1,
+    };
+
+    const result = await controller.submitProposal('job-1', 'seller-1', dto);
+
+    expect(mockJobRequestsService.submitProposal).toHaveBeenCalledWith(
+      'seller-1',
+      'job-1',
+      dto,
+    );
+    expect(result).toEqual({
+      success: true,
+      message: 'Penawaran berhasil dikirim',
+      data: { id: 'proposal-1' },
+    });
+  });
+});
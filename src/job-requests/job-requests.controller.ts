@@ -0,0 +1,227 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { JobRequestsService } from './job-requests.service';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import {
+  CreateJobProposalDto,
+  CreateJobRequestDto,
+  JobRequestFilterDto,
+  UpdateJobRequestDto,
+} from './dto/job-request.dto';
+
+@Controller('job-requests')
+export class JobRequestsController {
+  constructor(private readonly jobRequestsService: JobRequestsService) {}
+
+  /**
+   * Posting permintaan pekerjaan
+   * POST /api/job-requests
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @GetUser('id') buyerId: string,
+    @Body() dto: CreateJobRequestDto,
+  ) {
+    const jobRequest = await this.jobRequestsService.create(buyerId, dto);
+    return {
+      success: true,
+      message: 'Permintaan pekerjaan berhasil diposting',
+      data: jobRequest,
+    };
+  }
+
+  /**
+   * Cari permintaan pekerjaan yang masih terbuka
+   * GET /api/job-requests?q=arduino&category=TECHNICAL&sortBy=deadline
+   * Public endpoint
+   */
+  @Public()
+  @Get()
+  async findAll(@Query() filters: JobRequestFilterDto) {
+    const result = await this.jobRequestsService.findAll(filters);
+    return {
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    };
+  }
+
+  /**
+   * Permintaan pekerjaan milik saya (buyer)
+   * GET /api/job-requests/mine
+   */
+  @Get('mine')
+  async getMyJobRequests(@GetUser('id') buyerId: string) {
+    const jobRequests = await this.jobRequestsService.getMyJobRequests(buyerId);
+    return {
+      success: true,
+      data: jobRequests,
+    };
+  }
+
+  /**
+   * Penawaran yang pernah saya kirim (seller)
+   * GET /api/job-requests/proposals/mine
+   */
+  @Get('proposals/mine')
+  async getMyProposals(@GetUser('id') sellerId: string) {
+    const proposals = await this.jobRequestsService.getMyProposals(sellerId);
+    return {
+      success: true,
+      data: proposals,
+    };
+  }
+
+  /**
+   * Terima penawaran seller
+   * POST /api/job-requests/proposals/:proposalId/accept
+   *
+   * Order dibuat dengan status WAITING_PAYMENT
+   */
+  @Post('proposals/:proposalId/accept')
+  async acceptProposal(
+    @Param('proposalId') proposalId: string,
+    @GetUser('id') buyerId: string,
+  ) {
+    const result = await this.jobRequestsService.acceptProposal(
+      buyerId,
+      proposalId,
+    );
+    return {
+      success: true,
+      message:
+        'Penawaran diterima. Silakan konfirmasi order untuk melanjutkan pembayaran.',
+      data: result,
+    };
+  }
+
+  /**
+   * Tarik penawaran yang belum ditanggapi
+   * POST /api/job-requests/proposals/:proposalId/withdraw
+   */
+  @Post('proposals/:proposalId/withdraw')
+  async withdrawProposal(
+    @Param('proposalId') proposalId: string,
+    @GetUser('id') sellerId: string,
+  ) {
+    const proposal = await this.jobRequestsService.withdrawProposal(
+      sellerId,
+      proposalId,
+    );
+    return {
+      success: true,
+      message: 'Penawaran ditarik',
+      data: proposal,
+    };
+  }
+
+  /**
+   * Detail permintaan pekerjaan
+   * GET /api/job-requests/:id
+   * Public endpoint
+   */
+  @Public()
+  @Get(':id')
+  async findOne(@Param('id') jobRequestId: string) {
+    const jobRequest = await this.jobRequestsService.findOne(jobRequestId);
+    return {
+      success: true,
+      data: jobRequest,
+    };
+  }
+
+  /**
+   * Ubah permintaan pekerjaan yang masih terbuka
+   * PATCH /api/job-requests/:id
+   */
+  @Patch(':id')
+  async update(
+    @Param('id') jobRequestId: string,
+    @GetUser('id') buyerId: string,
+    @Body() dto: UpdateJobRequestDto,
+  ) {
+    const jobRequest = await this.jobRequestsService.update(
+      buyerId,
+      jobRequestId,
+      dto,
+    );
+    return {
+      success: true,
+      message: 'Permintaan pekerjaan berhasil diperbarui',
+      data: jobRequest,
+    };
+  }
+
+  /**
+   * Tutup permintaan tanpa memilih penawaran
+   * POST /api/job-requests/:id/close
+   */
+  @Post(':id/close')
+  async close(
+    @Param('id') jobRequestId: string,
+    @GetUser('id') buyerId: string,
+  ) {
+    const jobRequest = await this.jobRequestsService.close(
+      buyerId,
+      jobRequestId,
+    );
+    return {
+      success: true,
+      message: 'Permintaan pekerjaan ditutup',
+      data: jobRequest,
+    };
+  }
+
+  /**
+   * Daftar penawaran untuk permintaan milik saya
+   * GET /api/job-requests/:id/proposals
+   */
+  @Get(':id/proposals')
+  async getProposals(
+    @Param('id') jobRequestId: string,
+    @GetUser('id') buyerId: string,
+  ) {
+    const proposals = await this.jobRequestsService.getProposals(
+      buyerId,
+      jobRequestId,
+    );
+    return {
+      success: true,
+      data: proposals,
+    };
+  }
+
+  /**
+   * Kirim penawaran (seller)
+   * POST /api/job-requests/:id/proposals
+   */
+  @Post(':id/proposals')
+  @HttpCode(HttpStatus.CREATED)
+  async submitProposal(
+    @Param('id') jobRequestId: string,
+    @GetUser('id') sellerId: string,
+    @Body() dto: CreateJobProposalDto,
+  ) {
+    const proposal = await this.jobRequestsService.submitProposal(
+      sellerId,
+      jobRequestId,
+      dto,
+    );
+    return {
+      success: true,
+      message: 'Penawaran berhasil dikirim',
+      data: proposal,
+    };
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { JobRequestsService } from './job-requests.service';
+import { JobRequestsController } from './job-requests.controller';
+import { OrdersModule } from '../orders/orders.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [OrdersModule, NotificationsModule],
+  controllers: [JobRequestsController],
+  providers: [JobRequestsService],
+  exports: [JobRequestsService],
+})
+export class JobRequestsModule {}
@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { JobRequestsService } from './job-requests.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { OrdersService } from '../orders/orders.service';
+import { UpdateJobRequestSchema } from './dto/job-request.dto';
+
+// Matcher tanggal apa pun (bertipe Date agar tidak bocor sebagai any)
+const anyDate = expect.any(Date) as Date;
+
+describe('JobRequestsService', () => {
+  let service: JobRequestsService;
+
+  const inOneWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+  const jobRequest = (overrides: Record<string, unknown> = {}) => ({
+    id: 'job-1',
+    buyerId: 'buyer-1',
+    title: 'Desain poster seminar',
+    description: 'Poster A3 untuk seminar himpunan, tema teknologi hijau',
+    attachments: ['https://files.example/brief.pdf'],
+    status: 'OPEN',
+    deadline: inOneWeek(),
+    ...overrides,
+  });
+
+  const proposal = (overrides: Record<string, unknown> = {}) => ({
+    id: 'proposal-1',
+    jobRequestId: 'job-1',
+    sellerId: 'seller-1',
+    price: new Prisma.Decimal(120000),
+    deliveryDays: 3,
+    revisions: 2,
+    status: 'PENDING',
+    jobRequest: jobRequest(),
+    ...overrides,
+  });
+
+  const tx = {
+    jobRequest: { updateMany: jest.fn(), update: jest.fn() },
+    jobProposal: {
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+  const mockPrismaService = {
+    user: { findUnique: jest.fn() },
+    jobRequest: { findUnique: jest.fn(), update: jest.fn() },
+    jobProposal: { findUnique: jest.fn() },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+  const mockNotificationsService = {
+    create: jest.fn(),
+    createInTx: jest.fn(),
+  };
+  const mockOrdersService = { createCustomOrder: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobRequestsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: OrdersService, useValue: mockOrdersService },
+      ],
+    }).compile();
+
+    service = module.get<JobRequestsService>(JobRequestsService);
+  });
+
+  describe('acceptProposal', () => {
+    it('turns the proposal into an order and rejects the other proposals', async () => {
+      mockPrismaService.jobProposal.findUnique.mockResolvedValue(proposal());
+      tx.jobRequest.updateMany.mockResolvedValue({ count: 1 });
+      tx.jobProposal.updateMany.mockResolvedValue({ count: 1 });
+      mockOrdersService.createCustomOrder.mockResolvedValue({ id: 'order-1' });
+      tx.jobProposal.update.mockResolvedValue(
+        proposal({ status: 'ACCEPTED', orderId: 'order-1' }),
+      );
+      tx.jobProposal.findMany.mockResolvedValue([
+        { id: 'proposal-2', sellerId: 'seller-2' },
+      ]);
+
+      const result = await service.acceptProposal('buyer-1', 'proposal-1');
+
+      expect(tx.jobRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'OPEN' },
+        data: { status: 'AWARDED' },
+      });
+      expect(mockOrdersService.createCustomOrder).toHaveBeenCalledWith(tx, {
+        buyerId: 'buyer-1',
+        sellerId: 'seller-1',
+        title: 'Desain poster seminar',
+        requirements: 'Poster A3 untuk seminar himpunan, tema teknologi hijau',
+        price: new Prisma.Decimal(120000),
+        deliveryDays: 3,
+        revisions: 2,
+        attachments: ['https://files.example/brief.pdf'],
+        reason: 'Penawaran untuk permintaan pekerjaan diterima',
+      });
+      expect(tx.jobProposal.update).toHaveBeenCalledWith({
+        where: { id: 'proposal-1' },
+        data: { orderId: 'order-1' },
+      });
+      expect(tx.jobProposal.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['proposal-2'] } },
+        data: { status: 'REJECTED', respondedAt: anyDate },
+      });
+      expect(mockNotificationsService.createInTx).toHaveBeenCalledWith(
+        tx,
+        expect.objectContaining({ userId: 'seller-2' }),
+      );
+      expect(result.order).toEqual({ id: 'order-1' });
+    });
+
+    it('does not create an order when the request was already awarded', async () => {
+      mockPrismaService.jobProposal.findUnique.mockResolvedValue(proposal());
+      tx.jobRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.acceptProposal('buyer-1', 'proposal-1'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(mockOrdersService.createCustomOrder).not.toHaveBeenCalled();
+    });
+
+    it('does not create an order for a withdrawn proposal', async () => {
+      mockPrismaService.jobProposal.findUnique.mockResolvedValue(proposal());
+      tx.jobRequest.updateMany.mockResolvedValue({ count: 1 });
+      tx.jobProposal.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.acceptProposal('buyer-1', 'proposal-1'),
+      ).rejects.toThrow('Penawaran ini sudah tidak berlaku');
+      expect(mockOrdersService.createCustomOrder).not.toHaveBeenCalled();
+    });
+
+    it('hides proposals on another buyer request', async () => {
+      mockPrismaService.jobProposal.findUnique.mockResolvedValue(proposal());
+
+      await expect(
+        service.acceptProposal('buyer-2', 'proposal-1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitProposal', () => {
+    const dto = {
+      coverLetter: 'Saya sudah sering mendesain poster acara kampus',
+      price: 120000,
+      deliveryDays: 3,
+      revisions: 2,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        isSeller: true,
+        status: 'active',
+        fullName: 'Sari',
+      });
+    });
+
+    it('creates the proposal and notifies the buyer', async () => {
+      mockPrismaService.jobRequest.findUnique.mockResolvedValue(jobRequest());
+      mockPrismaService.jobProposal.findUnique.mockResolvedValue(null);
+      tx.jobProposal.create.mockResolvedValue(proposal());
+
+      await service.submitProposal('seller-1', 'job-1', dto);
+
+      expect(tx.jobProposal.create).toHaveBeenCalledWith({
+        data: { ...dto, jobRequestId: 'job-1', sellerId: 'seller-1' },
+      });
+      expect(tx.jobRequest.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { proposalCount: { increment: 1 } },
+      });
+      expect(mockNotificationsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'buyer-1' }),
+      );
+    });
+
+    it('rejects a second proposal from the same seller', async () => {
+      mockPrismaService.jobRequest.findUnique.mockResolvedValue(jobRequest());
+      mockPrismaService.jobProposal.findUnique.mockResolvedValue(proposal());
+
+      await expect(
+        service.submitProposal('seller-1', 'job-1', dto),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a delivery time past the request deadline', async () => {
+      mockPrismaService.jobRequest.findUnique.mockResolvedValue(jobRequest());
+
+      await expect(
+        service.submitProposal('seller-1', 'job-1', {
+          ...dto,
+          deliveryDays: 30,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('only accepts proposals from active sellers', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        isSeller: false,
+        status: 'active',
+        fullName: 'Budi',
+      });
+
+      await expect(
+        service.submitProposal('buyer-2', 'job-1', dto),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('update', () => {
+    it('keeps the attachments on a title-only update', async () => {
+      mockPrismaService.jobRequest.findUnique.mockResolvedValue({
+        ...jobRequest(),
+        budgetMin: new Prisma.Decimal(50000),
+        budgetMax: new Prisma.Decimal(150000),
+      });
+
+      const dto = UpdateJobRequestSchema.parse({
+        title: 'Desain poster seminar nasional',
+      });
+      await service.update('buyer-1', 'job-1', dto);
+
+      expect(dto).toEqual({ title: 'Desain poster seminar nasional' });
+      expect(mockPrismaService.jobRequest.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({
+          title: 'Desain poster seminar nasional',
+          attachments: undefined,
+        }) as unknown,
+      });
+    });
+  });
+});
@@ -0,0 +1,522 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { OrdersService } from '../orders/orders.service';
+import type {
+  CreateJobProposalDto,
+  CreateJobRequestDto,
+  JobRequestFilterType,
+  UpdateJobRequestDto,
+} from './dto/job-request.dto';
+import { checkProposalEligibility } from './utils/job-rules';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+// Data buyer yang ditampilkan di listing permintaan pekerjaan
+const JOB_BUYER_SELECT = {
+  id: true,
+  fullName: true,
+  profilePicture: true,
+  major: true,
+  batch: true,
+} satisfies Prisma.UserSelect;
+
+// Data seller yang ditampilkan ke buyer saat membandingkan penawaran
+const PROPOSAL_SELLER_SELECT = {
+  id: true,
+  fullName: true,
+  profilePicture: true,
+  major: true,
+  avgRating: true,
+  totalReviews: true,
+  totalOrdersCompleted: true,
+} satisfies Prisma.UserSelect;
+
+@Injectable()
+export class JobRequestsService {
+  constructor(
+    private prisma: PrismaService,
+    private notificationService: NotificationsService,
+    private ordersService: OrdersService,
+  ) {}
+
+  /**
+   * [Buyer] Memposting permintaan pekerjaan
+   */
+  async create(buyerId: string, dto: CreateJobRequestDto) {
+    this.assertFutureDeadline(dto.deadline);
+
+    return this.prisma.jobRequest.create({
+      data: {
+        buyerId,
+        title: dto.title,
+        description: dto.description,
+        category: dto.category,
+        budgetMin: dto.budgetMin,
+        budgetMax: dto.budgetMax,
+        deadline: dto.deadline,
+        attachments: dto.attachments,
+      },
+      include: { buyer: { select: JOB_BUYER_SELECT } },
+    });
+  }
+
+  /**
+   * Daftar permintaan pekerjaan yang masih terbuka, dengan filter & pagination
+   */
+  async findAll(filters: JobRequestFilterType) {
+    const { q, category, budgetMin, budgetMax, page, limit, sortBy } = filters;
+
+    const where: Prisma.JobRequestWhereInput = {
+      status: 'OPEN',
+      deadline: { gt: new Date() },
+    };
+
+    if (q) {
+      where.OR = [
+        { title: { contains: q, mode: 'insensitive' } },
+        { description: { contains: q, mode: 'insensitive' } },
+      ];
+    }
+
+    if (category) {
+      where.category = category;
+    }
+
+    // Tampilkan permintaan yang rentang budgetnya beririsan dengan filter
+    if (budgetMin !== undefined) {
+      where.budgetMax = { gte: budgetMin };
+    }
+    if (budgetMax !== undefined) {
+      where.budgetMin = { lte: budgetMax };
+    }
+
+    let orderBy: Prisma.JobRequestOrderByWithRelationInput;
+    switch (sortBy) {
+      case 'deadline':
+        orderBy = { deadline: 'asc' };
+        break;
+      case 'budget_high':
+        orderBy = { budgetMax: 'desc' };
+        break;
+      case 'budget_low':
+        orderBy = { budgetMin: 'asc' };
+        break;
+      default:
+        orderBy = { createdAt: 'desc' };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [jobRequests, total] = await Promise.all([
+      this.prisma.jobRequest.findMany({
+        where,
+        orderBy,
+        skip,
+        take: limit,
+        include: { buyer: { select: JOB_BUYER_SELECT } },
+      }),
+      this.prisma.jobRequest.count({ where }),
+    ]);
+
+    return {
+      data: jobRequests,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Detail permintaan pekerjaan (tanpa isi penawaran seller)
+   */
+  async findOne(jobRequestId: string) {
+    const jobRequest = await this.prisma.jobRequest.findUnique({
+      where: { id: jobRequestId },
+      include: { buyer: { select: JOB_BUYER_SELECT } },
+    });
+
+    if (!jobRequest) {
+      throw new NotFoundException('Permintaan pekerjaan tidak ditemukan');
+    }
+
+    return jobRequest;
+  }
+
+  /**
+   * [Buyer] Daftar permintaan pekerjaan milik saya
+   */
+  async getMyJobRequests(buyerId: string) {
+    return this.prisma.jobRequest.findMany({
+      where: { buyerId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * [Buyer] Mengubah permintaan yang masih terbuka
+   */
+  async update(
+    buyerId: string,
+    jobRequestId: string,
+    dto: UpdateJobRequestDto,
+  ) {
+    const jobRequest = await this.findOpenJobRequestForBuyer(
+      buyerId,
+      jobRequestId,
+    );
+
+    const budgetMin = dto.budgetMin ?? jobRequest.budgetMin.toNumber();
+    const budgetMax = dto.budgetMax ?? jobRequest.budgetMax.toNumber();
+    if (budgetMin > budgetMax) {
+      throw new BadRequestException(
+        'Budget minimal tidak boleh melebihi budget maksimal',
+      );
+    }
+
+    if (dto.deadline) {
+      this.assertFutureDeadline(dto.deadline);
+    }
+
+    return this.prisma.jobRequest.update({
+      where: { id: jobRequest.id },
+      data: {
+        title: dto.title,
+        description: dto.description,
+        category: dto.category,
+        budgetMin: dto.budgetMin,
+        budgetMax: dto.budgetMax,
+        deadline: dto.deadline,
+        attachments: dto.attachments,
+      },
+    });
+  }
+
+  /**
+   * [Buyer] Menutup permintaan tanpa memilih penawaran
+   * Semua penawaran yang masih menunggu otomatis ditolak
+   */
+  async close(buyerId: string, jobRequestId: string) {
+    const jobRequest = await this.findOpenJobRequestForBuyer(
+      buyerId,
+      jobRequestId,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.jobRequest.updateMany({
+        where: { id: jobRequest.id, status: 'OPEN' },
+        data: { status: 'CLOSED' },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Permintaan ini sudah ditutup');
+      }
+
+      await this.rejectPendingProposalsInTx(
+        tx,
+        jobRequest.id,
+        `Permintaan "${jobRequest.title}" ditutup oleh pembeli.`,
+      );
+
+      return tx.jobRequest.findUniqueOrThrow({
+        where: { id: jobRequest.id },
+      });
+    });
+  }
+
+  /**
+   * [Buyer] Daftar penawaran untuk permintaan milik saya
+   */
+  async getProposals(buyerId: string, jobRequestId: string) {
+    const jobRequest = await this.prisma.jobRequest.findUnique({
+      where: { id: jobRequestId },
+      select: { buyerId: true },
+    });
+
+    if (!jobRequest || jobRequest.buyerId !== buyerId) {
+      throw new NotFoundException('Permintaan pekerjaan tidak ditemukan');
+    }
+
+    return this.prisma.jobProposal.findMany({
+      where: { jobRequestId, status: { not: 'WITHDRAWN' } },
+      include: { seller: { select: PROPOSAL_SELLER_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * [Seller] Mengirim penawaran untuk permintaan pekerjaan
+   * Seller yang pernah menarik penawarannya boleh mengirim ulang
+   */
+  async submitProposal(
+    sellerId: string,
+    jobRequestId: string,
+    dto: CreateJobProposalDto,
+  ) {
+    const seller = await this.prisma.user.findUnique({
+      where: { id: sellerId },
+      select: { isSeller: true, status: true, fullName: true },
+    });
+
+    if (!seller?.isSeller || seller.status !== 'active') {
+      throw new ForbiddenException(
+        'Hanya penyedia jasa yang dapat mengirim penawaran',
+      );
+    }
+
+    const jobRequest = await this.findOne(jobRequestId);
+
+    const error = checkProposalEligibility(
+      jobRequest,
+      sellerId,
+      dto.deliveryDays,
+    );
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const existing = await this.prisma.jobProposal.findUnique({
+      where: { jobRequestId_sellerId: { jobRequestId, sellerId } },
+    });
+
+    if (existing && existing.status !== 'WITHDRAWN') {
+      throw new ConflictException(
+        'Anda sudah mengirim penawaran untuk permintaan ini',
+      );
+    }
+
+    const terms = {
+      coverLetter: dto.coverLetter,
+      price: dto.price,
+      deliveryDays: dto.deliveryDays,
+      revisions: dto.revisions,
+    };
+
+    const proposal = await this.prisma.$transaction(async (tx) => {
+      const proposal = existing
+        ? await tx.jobProposal.update({
+            where: { id: existing.id },
+            data: { ...terms, status: 'PENDING', respondedAt: null },
+          })
+        : await tx.jobProposal.create({
+            data: { ...terms, jobRequestId, sellerId },
+          });
+
+      await tx.jobRequest.update({
+        where: { id: jobRequestId },
+        data: { proposalCount: { increment: 1 } },
+      });
+
+      return proposal;
+    });
+
+    await this.notificationService.create({
+      userId: jobRequest.buyerId,
+      content: `${seller.fullName} mengirim penawaran untuk "${jobRequest.title}"`,
+      link: `/jobs/${jobRequestId}`,
+      type: 'GENERAL',
+    });
+
+    return proposal;
+  }
+
+  /**
+   * [Seller] Menarik penawaran yang belum ditanggapi
+   */
+  async withdrawProposal(sellerId: string, proposalId: string) {
+    const proposal = await this.prisma.jobProposal.findUnique({
+      where: { id: proposalId },
+    });
+
+    if (!proposal || proposal.sellerId !== sellerId) {
+      throw new NotFoundException('Penawaran tidak ditemukan');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.jobProposal.updateMany({
+        where: { id: proposal.id, status: 'PENDING' },
+        data: { status: 'WITHDRAWN' },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException(
+          `Penawaran ini sudah berstatus ${proposal.status}`,
+        );
+      }
+
+      await tx.jobRequest.update({
+        where: { id: proposal.jobRequestId },
+        data: { proposalCount: { decrement: 1 } },
+      });
+
+      return tx.jobProposal.findUniqueOrThrow({ where: { id: proposal.id } });
+    });
+  }
+
+  /**
+   * [Seller] Daftar penawaran yang pernah saya kirim
+   */
+  async getMyProposals(sellerId: string) {
+    return this.prisma.jobProposal.findMany({
+      where: { sellerId },
+      include: {
+        jobRequest: {
+          select: {
+            id: true,
+            title: true,
+            category: true,
+            deadline: true,
+            status: true,
+          },
+        },
+        order: { select: { id: true, status: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * [Buyer] Menerima penawaran seller
+   *
+   * Membuat order berstatus WAITING_PAYMENT dengan ketentuan penawaran,
+   * lalu buyer melanjutkan pembayaran lewat POST /orders/:id/confirm.
+   * Penawaran lain yang masih menunggu otomatis ditolak.
+   */
+  async acceptProposal(buyerId: string, proposalId: string) {
+    const proposal = await this.prisma.jobProposal.findUnique({
+      where: { id: proposalId },
+      include: { jobRequest: true },
+    });
+
+    if (!proposal || proposal.jobRequest.buyerId !== buyerId) {
+      throw new NotFoundException('Penawaran tidak ditemukan');
+    }
+
+    const { jobRequest } = proposal;
+
+    return this.prisma.$transaction(async (tx) => {
+      // Kunci status agar permintaan tidak diberikan ke dua seller
+      const { count: awarded } = await tx.jobRequest.updateMany({
+        where: { id: jobRequest.id, status: 'OPEN' },
+        data: { status: 'AWARDED' },
+      });
+
+      if (awarded === 0) {
+        throw new ConflictException('Permintaan ini sudah ditutup');
+      }
+
+      const { count: accepted } = await tx.jobProposal.updateMany({
+        where: { id: proposal.id, status: 'PENDING' },
+        data: { status: 'ACCEPTED', respondedAt: new Date() },
+      });
+
+      if (accepted === 0) {
+        throw new ConflictException('Penawaran ini sudah tidak berlaku');
+      }
+
+      const order = await this.ordersService.createCustomOrder(tx, {
+        buyerId,
+        sellerId: proposal.sellerId,
+        title: jobRequest.title,
+        requirements: jobRequest.description,
+        price: proposal.price,
+        deliveryDays: proposal.deliveryDays,
+        revisions: proposal.revisions,
+        attachments: jobRequest.attachments,
+        reason: 'Penawaran untuk permintaan pekerjaan diterima',
+      });
+
+      const acceptedProposal = await tx.jobProposal.update({
+        where: { id: proposal.id },
+        data: { orderId: order.id },
+      });
+
+      await this.rejectPendingProposalsInTx(
+        tx,
+        jobRequest.id,
+        `Permintaan "${jobRequest.title}" sudah diberikan ke penyedia jasa lain.`,
+      );
+
+      return { proposal: acceptedProposal, order };
+    });
+  }
+
+  /**
+   * Helper untuk menolak semua penawaran yang masih menunggu & memberi tahu seller
+   */
+  private async rejectPendingProposalsInTx(
+    tx: Tx,
+    jobRequestId: string,
+    content: string,
+  ) {
+    const pending = await tx.jobProposal.findMany({
+      where: { jobRequestId, status: 'PENDING' },
+      select: { id: true, sellerId: true },
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    await tx.jobProposal.updateMany({
+      where: { id: { in: pending.map((proposal) => proposal.id) } },
+      data: { status: 'REJECTED', respondedAt: new Date() },
+    });
+
+    for (const proposal of pending) {
+      await this.notificationService.createInTx(tx, {
+        userId: proposal.sellerId,
+        content,
+        link: `/jobs/${jobRequestId}`,
+        type: 'GENERAL',
+      });
+    }
+  }
+
+  /**
+   * Helper untuk validasi permintaan milik buyer yang masih terbuka
+   */
+  private async findOpenJobRequestForBuyer(
+    buyerId: string,
+    jobRequestId: string,
+  ) {
+    const jobRequest = await this.prisma.jobRequest.findUnique({
+      where: { id: jobRequestId },
+    });
+
+    if (!jobRequest || jobRequest.buyerId !== buyerId) {
+      throw new NotFoundException('Permintaan pekerjaan tidak ditemukan');
+    }
+
+    if (jobRequest.status !== 'OPEN') {
+      throw new BadRequestException(
+        `Permintaan ini sudah berstatus ${jobRequest.status}`,
+      );
+    }
+
+    return jobRequest;
+  }
+
+  /**
+   * Helper untuk memastikan deadline ada di masa depan
+   */
+  private assertFutureDeadline(deadline: Date) {
+    if (deadline <= new Date()) {
+      throw new BadRequestException('Deadline harus di masa depan');
+    }
+  }
+}
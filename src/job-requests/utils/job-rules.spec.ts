@@ -0,0 +1,56 @@
+import { checkProposalEligibility, fitsDeadline } from './job-rules';
+import type { ProposalTarget } from './job-rules';
+
+const now = new Date('2026-10-01T00:00:00Z');
+
+const job = (overrides: Partial<ProposalTarget> = {}): ProposalTarget => ({
+  buyerId: 'buyer-1',
+  status: 'OPEN',
+  deadline: new Date('2026-10-08T00:00:00Z'),
+  ...overrides,
+});
+
+describe('fitsDeadline', () => {
+  it('accepts delivery that ends exactly at the deadline', () => {
+    expect(fitsDeadline(7, new Date('2026-10-08T00:00:00Z'), now)).toBe(true);
+  });
+
+  it('rejects delivery that ends after the deadline', () => {
+    expect(fitsDeadline(8, new Date('2026-10-08T00:00:00Z'), now)).toBe(false);
+  });
+});
+
+describe('checkProposalEligibility', () => {
+  it('accepts a proposal for an open request', () => {
+    expect(checkProposalEligibility(job(), 'seller-1', 3, now)).toBeNull();
+  });
+
+  it('rejects proposals from the buyer who posted the request', () => {
+    expect(checkProposalEligibility(job(), 'buyer-1', 3, now)).toBe(
+      'Tidak bisa mengajukan penawaran untuk permintaan sendiri',
+    );
+  });
+
+  it('rejects proposals for requests that are no longer open', () => {
+    expect(
+      checkProposalEligibility(job({ status: 'AWARDED' }), 'seller-1', 3, now),
+    ).toBe('Permintaan ini sudah tidak menerima penawaran');
+  });
+
+  it('rejects proposals after the deadline', () => {
+    expect(
+      checkProposalEligibility(
+        job({ deadline: new Date('2026-09-30T00:00:00Z') }),
+        'seller-1',
+        1,
+        now,
+      ),
+    ).toBe('Deadline permintaan ini sudah lewat');
+  });
+
+  it('rejects delivery times that miss the deadline', () => {
+    expect(checkProposalEligibility(job(), 'seller-1', 10, now)).toBe(
+      'Waktu pengerjaan melewati deadline permintaan',
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import type { JobRequest } from '@prisma/client';
+
+/**
+ * Aturan penawaran (proposal) seller untuk permintaan pekerjaan buyer
+ */
+
+export type ProposalTarget = Pick<
+  JobRequest,
+  'buyerId' | 'status' | 'deadline'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Apakah pekerjaan selesai sebelum deadline jika dimulai sekarang
+ */
+export function fitsDeadline(deliveryDays: number, deadline: Date, now: Date) {
+  return now.getTime() + deliveryDays * DAY_MS <= deadline.getTime();
+}
+
+/**
+ * Periksa apakah seller boleh mengirim penawaran
+ *
+ * @returns Pesan error, atau null jika penawaran boleh dikirim
+ */
+export function checkProposalEligibility(
+  job: ProposalTarget,
+  sellerId: string,
+  deliveryDays: number,
+  now = new Date(),
+): string | null {
+  if (job.buyerId === sellerId) {
+    return 'Tidak bisa mengajukan penawaran untuk permintaan sendiri';
+  }
+  if (job.status !== 'OPEN') {
+    return 'Permintaan ini sudah tidak menerima penawaran';
+  }
+  if (job.deadline <= now) {
+    return 'Deadline permintaan ini sudah lewat';
+  }
+  if (!fitsDeadline(deliveryDays, job.deadline, now)) {
+    return 'Waktu pengerjaan melewati deadline permintaan';
+  }
+
+  return null;
+}
@@ -0,0 +1,22 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+
+describe('LedgerController', () => {
+  let controller: LedgerController;
+
+  const mockLedgerService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [LedgerController],
+      providers: [{ provide: LedgerService, useValue: mockLedgerService }],
+    }).compile();
+
+    controller = module.get<LedgerController>(LedgerController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
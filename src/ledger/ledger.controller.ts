@@ -0,0 +1,36 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../admin/guards/admin.guard';
+
+@Controller('admin/ledger')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  /**
+   * [Admin] Saldo akun sistem (escrow, pendapatan, kliring, kas)
+   * GET /api/admin/ledger/accounts
+   */
+  @Get('accounts')
+  async getSystemBalances() {
+    const accounts = await this.ledgerService.getSystemBalances();
+    return {
+      success: true,
+      data: accounts,
+    };
+  }
+
+  /**
+   * [Admin] Rekonsiliasi ledger terhadap order & wallet
+   * GET /api/admin/ledger/reconciliation
+   */
+  @Get('reconciliation')
+  async getReconciliation() {
+    const report = await this.ledgerService.getReconciliation();
+    return {
+      success: true,
+      data: report,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { Global, Module } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { LedgerController } from './ledger.controller';
+
+@Global() // Setiap perpindahan dana harus bisa mencatat jurnal
+@Module({
+  providers: [LedgerService],
+  controllers: [LedgerController],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
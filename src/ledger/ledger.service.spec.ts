@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LedgerService } from './ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+
+  const mockPrismaService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<LedgerService>(LedgerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
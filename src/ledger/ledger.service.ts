@@ -0,0 +1,267 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type {
+  OrderStatus,
+  PrismaClient,
+  WalletTransaction,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  SYSTEM_ACCOUNTS,
+  accountBalance,
+  assertBalanced,
+  walletAccountCode,
+  walletTransactionLines,
+  type LedgerLine,
+  type SystemAccountCode,
+} from './utils/ledger-posting';
+import { remainingBuyerEscrow } from '../orders/utils/order-escrow';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+// Akun bisa berupa akun sistem atau wallet user
+type AccountRef = SystemAccountCode | { walletId: string };
+
+type JournalInput = {
+  description: string;
+  lines: LedgerLine<AccountRef>[];
+  orderId?: string;
+  paymentId?: string;
+  payoutRequestId?: string;
+  disputeId?: string;
+  walletTransactionId?: string;
+};
+
+// Status order yang dananya masih (sebagian) ditahan di escrow
+const ESCROW_HOLDING_STATUSES: OrderStatus[] = [
+  'PAID_ESCROW',
+  'IN_PROGRESS',
+  'DELIVERED',
+  'REVISION',
+  'DISPUTED',
+];
+
+@Injectable()
+export class LedgerService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Mencatat jurnal berpasangan (double-entry) di dalam transaksi
+   * Jurnal yang tidak seimbang akan menggagalkan seluruh transaksi
+   */
+  async postInTx(tx: Tx, journal: JournalInput) {
+    const lines = assertBalanced(journal.lines);
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const entries: Prisma.LedgerEntryCreateManyJournalInput[] = [];
+    for (const line of lines) {
+      const account = await this.resolveAccount(tx, line.account);
+      entries.push({
+        accountId: account.id,
+        direction: line.direction,
+        amount: line.amount,
+      });
+    }
+
+    return tx.ledgerJournal.create({
+      data: {
+        description: journal.description,
+        orderId: journal.orderId,
+        paymentId: journal.paymentId,
+        payoutRequestId: journal.payoutRequestId,
+        disputeId: journal.disputeId,
+        walletTransactionId: journal.walletTransactionId,
+        entries: { createMany: { data: entries } },
+      },
+    });
+  }
+
+  /**
+   * Mencatat pasangan jurnal untuk satu transaksi wallet
+   * Dipanggil oleh WalletsService.createTransaction
+   */
+  async postWalletTransactionInTx(tx: Tx, transaction: WalletTransaction) {
+    return this.postInTx(tx, {
+      description: transaction.description,
+      orderId: transaction.orderId ?? undefined,
+      paymentId: transaction.paymentId ?? undefined,
+      payoutRequestId: transaction.payoutRequestId ?? undefined,
+      disputeId: transaction.disputeId ?? undefined,
+      walletTransactionId: transaction.id,
+      lines: walletTransactionLines<AccountRef>(
+        transaction.type,
+        transaction.amount,
+        { walletId: transaction.walletId },
+        (code) => code,
+      ),
+    });
+  }
+
+  /**
+   * [Admin] Saldo setiap akun sistem
+   */
+  async getSystemBalances() {
+    const balances = await this.getAccountBalances();
+
+    return balances.filter((account) => account.walletId === null);
+  }
+
+  /**
+   * [Admin] Rekonsiliasi ledger
+   *
+   * Membuktikan bahwa:
+   * - total debit sama dengan total kredit
+   * - saldo akun escrow sama dengan sisa dana order berbayar yang belum dilepas
+   *   (ditambah saldo wallet yang sudah dipotong untuk order yang belum lunas)
+   * - saldo akun wallet di ledger sama dengan saldo wallet user
+   */
+  async getReconciliation() {
+    const balances = await this.getAccountBalances();
+    const zero = new Prisma.Decimal(0);
+
+    const totalDebit = balances.reduce((sum, a) => sum.add(a.debit), zero);
+    const totalCredit = balances.reduce((sum, a) => sum.add(a.credit), zero);
+    const balanceOf = (code: SystemAccountCode) =>
+      balances.find((account) => account.code === code)?.balance ?? zero;
+
+    // Sisa escrow yang seharusnya ditahan
+    const heldOrders = await this.prisma.order.findMany({
+      where: { isPaid: true, status: { in: ESCROW_HOLDING_STATUSES } },
+      select: {
+        price: true,
+        discountAmount: true,
+        discountFundedBy: true,
+        escrowReleased: true,
+      },
+    });
+    // Saldo wallet yang sudah dipotong untuk order yang menunggu sisa pembayaran
+    const pendingWalletPayments = await this.prisma.payment.aggregate({
+      where: { order: { status: 'WAITING_PAYMENT', isPaid: false } },
+      _sum: { walletAmount: true },
+    });
+    // Dana order batal yang refund-nya belum selesai
+    const pendingRefunds = await this.prisma.payment.aggregate({
+      where: { refundStatus: { in: ['REQUESTED', 'PROCESSING', 'FAILED'] } },
+      _sum: { refundAmount: true },
+    });
+    const expectedEscrow = heldOrders
+      .reduce((sum, order) => sum.add(remainingBuyerEscrow(order)), zero)
+      .add(pendingWalletPayments._sum.walletAmount ?? zero)
+      .add(pendingRefunds._sum.refundAmount ?? zero);
+
+    // Saldo wallet user
+    const walletLedger = balances
+      .filter((account) => account.walletId !== null)
+      .reduce((sum, account) => sum.add(account.balance), zero);
+    const walletResult = await this.prisma.wallet.aggregate({
+      _sum: { balance: true },
+    });
+    const walletActual = walletResult._sum.balance ?? zero;
+
+    // Fee yang tercatat di ledger fee platform
+    const feeResult = await this.prisma.platformFeeEntry.aggregate({
+      _sum: { amount: true },
+    });
+    const recordedFees = feeResult._sum.amount ?? zero;
+
+    const escrowBalance = balanceOf('ESCROW_HOLDING');
+    const revenueBalance = balanceOf('PLATFORM_REVENUE');
+
+    return {
+      isBalanced: totalDebit.eq(totalCredit),
+      totalDebit: totalDebit.toNumber(),
+      totalCredit: totalCredit.toNumber(),
+      escrow: {
+        ledgerBalance: escrowBalance.toNumber(),
+        expectedBalance: expectedEscrow.toNumber(),
+        difference: escrowBalance.sub(expectedEscrow).toNumber(),
+        isReconciled: escrowBalance.eq(expectedEscrow),
+        heldOrders: heldOrders.length,
+      },
+      wallets: {
+        ledgerBalance: walletLedger.toNumber(),
+        actualBalance: walletActual.toNumber(),
+        difference: walletLedger.sub(walletActual).toNumber(),
+        isReconciled: walletLedger.eq(walletActual),
+      },
+      platformRevenue: {
+        ledgerBalance: revenueBalance.toNumber(),
+        recordedFees: recordedFees.toNumber(),
+        isReconciled: revenueBalance.eq(recordedFees),
+      },
+      payoutClearing: {
+        ledgerBalance: balanceOf('PAYOUT_CLEARING').toNumber(),
+      },
+      promotionExpense: {
+        ledgerBalance: balanceOf('PROMOTION_EXPENSE').toNumber(),
+      },
+      paymentGateway: {
+        ledgerBalance: balanceOf('PAYMENT_GATEWAY').toNumber(),
+      },
+    };
+  }
+
+  /**
+   * Helper untuk menghitung total debit, kredit & saldo tiap akun
+   */
+  private async getAccountBalances() {
+    const [accounts, sums] = await Promise.all([
+      this.prisma.ledgerAccount.findMany({ orderBy: { createdAt: 'asc' } }),
+      this.prisma.ledgerEntry.groupBy({
+        by: ['accountId', 'direction'],
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const sumOf = (accountId: string, direction: 'DEBIT' | 'CREDIT') =>
+      sums.find(
+        (row) => row.accountId === accountId && row.direction === direction,
+      )?._sum.amount ?? new Prisma.Decimal(0);
+
+    return accounts.map((account) => {
+      const debit = sumOf(account.id, 'DEBIT');
+      const credit = sumOf(account.id, 'CREDIT');
+
+      return {
+        id: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        walletId: account.walletId,
+        debit,
+        credit,
+        balance: accountBalance(account.type, debit, credit),
+      };
+    });
+  }
+
+  /**
+   * Helper untuk mengambil (atau membuat) akun ledger
+   */
+  private async resolveAccount(tx: Tx, ref: AccountRef) {
+    if (typeof ref === 'string') {
+      return tx.ledgerAccount.upsert({
+        where: { code: ref },
+        update: {},
+        create: { code: ref, ...SYSTEM_ACCOUNTS[ref] },
+      });
+    }
+
+    return tx.ledgerAccount.upsert({
+      where: { walletId: ref.walletId },
+      update: {},
+      create: {
+        code: walletAccountCode(ref.walletId),
+        name: 'Wallet Pengguna',
+        type: 'LIABILITY',
+        walletId: ref.walletId,
+      },
+    });
+  }
+}
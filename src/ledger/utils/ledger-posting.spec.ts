@@ -0,0 +1,96 @@
+import { Prisma } from '@prisma/client';
+import {
+  accountBalance,
+  assertBalanced,
+  walletTransactionLines,
+} from './ledger-posting';
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+describe('walletTransactionLines', () => {
+  it('credits the wallet from escrow for a release', () => {
+    const lines = walletTransactionLines(
+      'ESCROW_RELEASE',
+      d(90000),
+      'wallet',
+      (code) => code,
+    );
+
+    expect(lines).toEqual([
+      { account: 'ESCROW_HOLDING', direction: 'DEBIT', amount: d(90000) },
+      { account: 'wallet', direction: 'CREDIT', amount: d(90000) },
+    ]);
+  });
+
+  it('moves a wallet order payment into escrow', () => {
+    const lines = walletTransactionLines(
+      'ORDER_PAYMENT',
+      d(-75000),
+      'wallet',
+      (code) => code,
+    );
+
+    expect(lines).toEqual([
+      { account: 'wallet', direction: 'DEBIT', amount: d(75000) },
+      { account: 'ESCROW_HOLDING', direction: 'CREDIT', amount: d(75000) },
+    ]);
+  });
+
+  it('debits the wallet into payout clearing for a payout request', () => {
+    const lines = walletTransactionLines(
+      'PAYOUT_REQUEST',
+      d(-50000),
+      'wallet',
+      (code) => code,
+    );
+
+    expect(lines).toEqual([
+      { account: 'wallet', direction: 'DEBIT', amount: d(50000) },
+      { account: 'PAYOUT_CLEARING', direction: 'CREDIT', amount: d(50000) },
+    ]);
+  });
+
+  it('books a referral reward as a promotion expense', () => {
+    const lines = walletTransactionLines(
+      'REFERRAL_REWARD',
+      d(10000),
+      'wallet',
+      (code) => code,
+    );
+
+    expect(lines).toEqual([
+      { account: 'PROMOTION_EXPENSE', direction: 'DEBIT', amount: d(10000) },
+      { account: 'wallet', direction: 'CREDIT', amount: d(10000) },
+    ]);
+  });
+});
+
+describe('assertBalanced', () => {
+  it('drops zero lines from a balanced journal', () => {
+    const lines = assertBalanced([
+      { account: 'a', direction: 'DEBIT', amount: d(100) },
+      { account: 'b', direction: 'CREDIT', amount: d(100) },
+      { account: 'c', direction: 'CREDIT', amount: d(0) },
+    ]);
+
+    expect(lines).toHaveLength(2);
+  });
+
+  it('rejects an unbalanced journal', () => {
+    expect(() =>
+      assertBalanced([
+        { account: 'a', direction: 'DEBIT', amount: d(100) },
+        { account: 'b', direction: 'CREDIT', amount: d(90) },
+      ]),
+    ).toThrow('Jurnal tidak seimbang: debit 100.00, kredit 90.00');
+  });
+});
+
+describe('accountBalance', () => {
+  it('uses the normal balance side of the account type', () => {
+    expect(accountBalance('ASSET', d(300), d(100)).toNumber()).toBe(200);
+    expect(accountBalance('LIABILITY', d(300), d(100)).toNumber()).toBe(-200);
+    expect(accountBalance('REVENUE', d(0), d(50)).toNumber()).toBe(50);
+    expect(accountBalance('EXPENSE', d(40), d(0)).toNumber()).toBe(40);
+  });
+});
@@ -0,0 +1,123 @@
+import { InternalServerErrorException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type {
+  LedgerAccountType,
+  LedgerDirection,
+  WalletTransactionType,
+} from '@prisma/client';
+
+/**
+ * Helper pembukuan berpasangan (double-entry) untuk ledger sistem
+ */
+
+// Akun sistem milik platform
+export const SYSTEM_ACCOUNTS = {
+  // Dana yang diterima dari Midtrans / dikirim ke rekening user
+  PAYMENT_GATEWAY: { name: 'Kas Payment Gateway', type: 'ASSET' },
+  // Dana order yang ditahan sampai dilepas ke seller atau di-refund
+  ESCROW_HOLDING: { name: 'Dana Escrow', type: 'LIABILITY' },
+  // Fee platform yang sudah diakui sebagai pendapatan
+  PLATFORM_REVENUE: { name: 'Pendapatan Platform', type: 'REVENUE' },
+  // Dana penarikan yang sudah dipotong dari wallet tapi belum ditransfer
+  PAYOUT_CLEARING: { name: 'Kliring Penarikan', type: 'LIABILITY' },
+  // Potongan voucher yang ditanggung platform
+  PROMOTION_EXPENSE: { name: 'Beban Promosi Voucher', type: 'EXPENSE' },
+} as const satisfies Record<string, { name: string; type: LedgerAccountType }>;
+
+export type SystemAccountCode = keyof typeof SYSTEM_ACCOUNTS;
+
+// Akun lawan untuk setiap tipe transaksi wallet
+const WALLET_COUNTER_ACCOUNTS: Record<
+  WalletTransactionType,
+  SystemAccountCode
+> = {
+  ESCROW_RELEASE: 'ESCROW_HOLDING',
+  ESCROW_REFUND: 'ESCROW_HOLDING',
+  DISPUTE_RELEASE: 'ESCROW_HOLDING',
+  DISPUTE_REFUND: 'ESCROW_HOLDING',
+  PAYOUT_REQUEST: 'PAYOUT_CLEARING',
+  PAYOUT_REJECTED: 'PAYOUT_CLEARING',
+  ORDER_PAYMENT: 'ESCROW_HOLDING',
+  REFERRAL_REWARD: 'PROMOTION_EXPENSE',
+};
+
+export type LedgerLine<TAccount> = {
+  account: TAccount;
+  direction: LedgerDirection;
+  amount: Prisma.Decimal;
+};
+
+/**
+ * Kode akun ledger untuk wallet user
+ */
+export function walletAccountCode(walletId: string) {
+  return `WALLET-${walletId}`;
+}
+
+/**
+ * Susun baris jurnal untuk satu transaksi wallet
+ *
+ * Wallet adalah kewajiban platform ke user: saldo bertambah = CREDIT wallet,
+ * saldo berkurang = DEBIT wallet. Sisi lawannya ditentukan dari tipe transaksi.
+ */
+export function walletTransactionLines<TAccount>(
+  type: WalletTransactionType,
+  amount: Prisma.Decimal,
+  walletAccount: TAccount,
+  counterAccount: (code: SystemAccountCode) => TAccount,
+): LedgerLine<TAccount>[] {
+  const counter = counterAccount(WALLET_COUNTER_ACCOUNTS[type]);
+  const value = amount.abs();
+
+  return amount.gte(0)
+    ? [
+        { account: counter, direction: 'DEBIT', amount: value },
+        { account: walletAccount, direction: 'CREDIT', amount: value },
+      ]
+    : [
+        { account: walletAccount, direction: 'DEBIT', amount: value },
+        { account: counter, direction: 'CREDIT', amount: value },
+      ];
+}
+
+/**
+ * Pastikan total debit sama dengan total kredit
+ *
+ * @returns Baris jurnal tanpa nominal nol
+ */
+export function assertBalanced<TAccount>(
+  lines: LedgerLine<TAccount>[],
+): LedgerLine<TAccount>[] {
+  if (lines.some((line) => line.amount.lt(0))) {
+    throw new InternalServerErrorException(
+      'Nominal jurnal tidak boleh negatif',
+    );
+  }
+
+  const total = (direction: LedgerDirection) =>
+    lines
+      .filter((line) => line.direction === direction)
+      .reduce((sum, line) => sum.add(line.amount), new Prisma.Decimal(0));
+
+  if (!total('DEBIT').eq(total('CREDIT'))) {
+    throw new InternalServerErrorException(
+      `Jurnal tidak seimbang: debit ${total('DEBIT').toFixed(2)}, kredit ${total('CREDIT').toFixed(2)}`,
+    );
+  }
+
+  return lines.filter((line) => line.amount.gt(0));
+}
+
+/**
+ * Saldo akun sesuai saldo normalnya
+ * (aset & beban bertambah di debit; kewajiban & pendapatan bertambah di kredit)
+ */
+export function accountBalance(
+  type: LedgerAccountType,
+  debit: Prisma.Decimal,
+  credit: Prisma.Decimal,
+): Prisma.Decimal {
+  return type === 'ASSET' || type === 'EXPENSE'
+    ? debit.sub(credit)
+    : credit.sub(debit);
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Schema untuk seller mengirim custom offer di dalam obrolan
+ */
+export const CreateCustomOfferSchema = z.object({
+  conversationId: z.string().cuid({ message: 'ID obrolan tidak valid' }),
+
+  // Opsional: hubungkan penawaran ke salah satu jasa milik seller
+  serviceId: z.string().cuid({ message: 'ID jasa tidak valid' }).optional(),
+
+  title: z
+    .string()
+    .min(5, { message: 'Judul penawaran minimal 5 karakter' })
+    .max(100, { message: 'Judul penawaran maksimal 100 karakter' }),
+
+  description: z
+    .string()
+    .min(20, { message: 'Lingkup pekerjaan minimal 20 karakter' })
+    .max(2000, { message: 'Lingkup pekerjaan maksimal 2000 karakter' }),
+
+  price: z.coerce
+    .number()
+    .positive({ message: 'Harga harus lebih dari 0' })
+    .max(10000000, { message: 'Harga maksimal Rp 10.000.000' }),
+
+  deliveryDays: z.coerce
+    .number()
+    .int()
+    .positive({ message: 'Waktu pengerjaan harus lebih dari 0 hari' })
+    .max(90, { message: 'Waktu pengerjaan maksimal 90 hari' }),
+
+  revisions: z.coerce
+    .number()
+    .int()
+    .min(0, { message: 'Jumlah revisi minimal 0' })
+    .max(10, { message: 'Jumlah revisi maksimal 10' })
+    .default(1),
+
+  expiresInDays: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'Masa berlaku minimal 1 hari' })
+    .max(14, { message: 'Masa berlaku maksimal 14 hari' })
+    .default(3),
+});
+
+/**
+ * Schema untuk buyer menolak custom offer
+ */
+export const DeclineCustomOfferSchema = z.object({
+  reason: z
+    .string()
+    .max(500, { message: 'Alasan penolakan maksimal 500 karakter' })
+    .optional(),
+});
+
+export type CreateCustomOfferDto = z.infer<typeof CreateCustomOfferSchema>;
+export type DeclineCustomOfferDto = z.infer<typeof DeclineCustomOfferSchema>;
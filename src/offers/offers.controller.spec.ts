@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ZodValidationPipe } from 'nestjs-zod';
+import { OffersController } from './offers.controller';
+import { OffersService } from './offers.service';
+import { CreateCustomOfferSchema } from './dto/offer.dto';
+
+describe('OffersController', () => {
+  let controller: OffersController;
+
+  const mockOffersService = {
+    sendOffer: jest.fn(),
+    acceptOffer: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OffersController],
+      providers: [{ provide: OffersService, useValue: mockOffersService }],
+    }).compile();
+
+    controller = module.get<OffersController>(OffersController);
+  });
+
+  it('applies schema defaults to the offer body', () => {
+    const pipe = new ZodValidationPipe(CreateCustomOfferSchema);
+
+    const dto = pipe.transform(
+      {
+        conversationId: 'ckz1x2y3z0000abcdefghijkl',
+        title: 'Perbaikan Arduino',
+        description: 'Perbaiki sensor & rangkaian motor pada proyek Arduino',
+        price: '150000',
+        deliveryDays: '3',
+      },
+      { type: 'body' },
+    ) as { price: number; revisions: number; expiresInDays: number };
+
+    expect(dto).toMatchObject({
+      price: 150000,
+      revisions: 1,
+      expiresInDays: 3,
+    });
+  });
+
+  it('returns the created offer message', async () => {
+    mockOffersService.sendOffer.mockResolvedValue({ id: 'message-1' });
+
+    const result = await controller.sendOffer('seller-1', {
+      conversationId: 'conversation-1',
+      title: 'Perbaikan Arduino',
+      description: 'Perbaiki sensor & rangkaian motor pada proyek Arduino',
+      price: 150000,
+      deliveryDays: 3,
+      revisions: 1,
+      expiresInDays: 3,
+    });
+
+    expect(result).toEqual({
+      success: true,
+      message: 'Penawaran berhasil dikirim',
+      data: { id: 'message-1' },
+    });
+  });
+
+  it('passes the buyer to acceptOffer', async () => {
+    mockOffersService.acceptOffer.mockResolvedValue({ order: { id: 'o-1' } });
+
+    const result = await controller.acceptOffer('offer-1', 'buyer-1');
+
+    expect(mockOffersService.acceptOffer).toHaveBeenCalledWith(
+      'buyer-1',
+      'offer-1',
+    );
+    expect(result.data).toEqual({ order: { id: 'o-1' } });
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { OffersService } from './offers.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type {
+  CreateCustomOfferDto,
+  DeclineCustomOfferDto,
+} from './dto/offer.dto';
+import {
+  CreateCustomOfferSchema,
+  DeclineCustomOfferSchema,
+} from './dto/offer.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
+
+@Controller('offers')
+@UseGuards(JwtAuthGuard)
+export class OffersController {
+  constructor(private readonly offersService: OffersService) {}
+
+  /**
+   * Kirim custom offer di dalam obrolan
+   * POST /api/offers
+   *
+   * Seller mengirim penawaran dengan harga & lingkup kerja khusus
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async sendOffer(
+    @GetUser('id') sellerId: string,
+    @Body(new ZodValidationPipe(CreateCustomOfferSchema))
+    createOfferDto: CreateCustomOfferDto,
+  ) {
+    const message = await this.offersService.sendOffer(
+      sellerId,
+      createOfferDto,
+    );
+
+    return {
+      success: true,
+      message: 'Penawaran berhasil dikirim',
+      data: message,
+    };
+  }
+
+  /**
+   * Detail custom offer
+   * GET /api/offers/:id
+   */
+  @Get(':id')
+  async getOffer(@Param('id') offerId: string, @GetUser('id') userId: string) {
+    const offer = await this.offersService.getOffer(userId, offerId);
+
+    return {
+      success: true,
+      data: offer,
+    };
+  }
+
+  /**
+   * Terima custom offer
+   * POST /api/offers/:id/accept
+   *
+   * Buyer menerima penawaran, order dibuat dengan status WAITING_PAYMENT
+   */
+  @Post(':id/accept')
+  async acceptOffer(
+    @Param('id') offerId: string,
+    @GetUser('id') buyerId: string,
+  ) {
+    const result = await this.offersService.acceptOffer(buyerId, offerId);
+
+    return {
+      success: true,
+      message:
+        'Penawaran diterima. Silakan konfirmasi order untuk melanjutkan pembayaran.',
+      data: result,
+    };
+  }
+
+  /**
+   * Tolak custom offer
+   * POST /api/offers/:id/decline
+   */
+  @Post(':id/decline')
+  async declineOffer(
+    @Param('id') offerId: string,
+    @GetUser('id') buyerId: string,
+    @Body(new ZodValidationPipe(DeclineCustomOfferSchema))
+    declineOfferDto: DeclineCustomOfferDto,
+  ) {
+    const offer = await this.offersService.declineOffer(
+      buyerId,
+      offerId,
+      declineOfferDto,
+    );
+
+    return {
+      success: true,
+      message: 'Penawaran ditolak',
+      data: offer,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { OffersService } from './offers.service';
+import { OffersController } from './offers.controller';
+import { ChatsModule } from '../chats/chats.module';
+import { OrdersModule } from '../orders/orders.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [ChatsModule, OrdersModule, NotificationsModule],
+  controllers: [OffersController],
+  providers: [OffersService],
+  exports: [OffersService],
+})
+export class OffersModule {}
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { OffersService } from './offers.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ChatsService } from '../chats/chats.service';
+import { ChatsGateway } from '../chats/chats.gateway';
+import { OrdersService } from '../orders/orders.service';
+
+// Matcher tanggal apa pun (bertipe Date agar tidak bocor sebagai any)
+const anyDate = expect.any(Date) as Date;
+
+describe('OffersService', () => {
+  let service: OffersService;
+
+  const offer = (overrides: Record<string, unknown> = {}) => ({
+    id: 'offer-1',
+    conversationId: 'conversation-1',
+    sellerId: 'seller-1',
+    buyerId: 'buyer-1',
+    serviceId: null,
+    title: 'Perbaikan proyek Arduino',
+    description: 'Perbaiki sensor & rangkaian motor pada proyek Arduino',
+    price: new Prisma.Decimal(150000),
+    deliveryDays: 3,
+    revisions: 1,
+    status: 'PENDING',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    ...overrides,
+  });
+
+  const tx = {
+    customOffer: { updateMany: jest.fn(), update: jest.fn() },
+  };
+  const mockPrismaService = {
+    customOffer: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+  const mockNotificationsService = { create: jest.fn() };
+  const mockChatsService = {};
+  const mockChatsGateway = { broadcastOfferUpdate: jest.fn() };
+  const mockOrdersService = { createCustomOrder: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OffersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: ChatsService, useValue: mockChatsService },
+        { provide: ChatsGateway, useValue: mockChatsGateway },
+        { provide: OrdersService, useValue: mockOrdersService },
+      ],
+    }).compile();
+
+    service = module.get<OffersService>(OffersService);
+  });
+
+  describe('acceptOffer', () => {
+    it('creates a custom order with the offer terms', async () => {
+      mockPrismaService.customOffer.findUnique.mockResolvedValue(offer());
+      tx.customOffer.updateMany.mockResolvedValue({ count: 1 });
+      mockOrdersService.createCustomOrder.mockResolvedValue({ id: 'order-1' });
+      tx.customOffer.update.mockResolvedValue(
+        offer({ status: 'ACCEPTED', orderId: 'order-1' }),
+      );
+
+      const result = await service.acceptOffer('buyer-1', 'offer-1');
+
+      expect(tx.customOffer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'offer-1', status: 'PENDING' },
+        data: { status: 'ACCEPTED', respondedAt: anyDate },
+      });
+      expect(mockOrdersService.createCustomOrder).toHaveBeenCalledWith(tx, {
+        buyerId: 'buyer-1',
+        sellerId: 'seller-1',
+        serviceId: null,
+        title: 'Perbaikan proyek Arduino',
+        requirements: 'Perbaiki sensor & rangkaian motor pada proyek Arduino',
+        price: new Prisma.Decimal(150000),
+        deliveryDays: 3,
+        revisions: 1,
+      });
+      expect(result.order).toEqual({ id: 'order-1' });
+      expect(mockChatsGateway.broadcastOfferUpdate).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not create a second order when the offer was already accepted', async () => {
+      mockPrismaService.customOffer.findUnique.mockResolvedValue(offer());
+      tx.customOffer.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.acceptOffer('buyer-1', 'offer-1'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(mockOrdersService.createCustomOrder).not.toHaveBeenCalled();
+    });
+
+    it('hides offers addressed to another buyer', async () => {
+      mockPrismaService.customOffer.findUnique.mockResolvedValue(offer());
+
+      await expect(
+        service.acceptOffer('buyer-2', 'offer-1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('marks an offer past its expiry as EXPIRED instead of accepting it', async () => {
+      mockPrismaService.customOffer.findUnique.mockResolvedValue(
+        offer({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+      mockPrismaService.customOffer.update.mockResolvedValue(
+        offer({ status: 'EXPIRED' }),
+      );
+
+      await expect(service.acceptOffer('buyer-1', 'offer-1')).rejects.toThrow(
+        'Penawaran sudah kedaluwarsa',
+      );
+      expect(mockPrismaService.customOffer.update).toHaveBeenCalledWith({
+        where: { id: 'offer-1' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineOffer', () => {
+    it('stores the reason and notifies the seller', async () => {
+      mockPrismaService.customOffer.findUnique.mockResolvedValue(offer());
+      mockPrismaService.customOffer.update.mockResolvedValue(
+        offer({ status: 'DECLINED' }),
+      );
+
+      await service.declineOffer('buyer-1', 'offer-1', {
+        reason: 'Budget tidak cukup',
+      });
+
+      expect(mockPrismaService.customOffer.update).toHaveBeenCalledWith({
+        where: { id: 'offer-1' },
+        data: {
+          status: 'DECLINED',
+          declineReason: 'Budget tidak cukup',
+          respondedAt: anyDate,
+        },
+      });
+      expect(mockNotificationsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'seller-1', type: 'CHAT' }),
+      );
+    });
+
+    it('rejects offers that were already answered', async () => {
+      mockPrismaService.customOffer.findUnique.mockResolvedValue(
+        offer({ status: 'ACCEPTED' }),
+      );
+
+      await expect(
+        service.declineOffer('buyer-1', 'offer-1', {}),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockPrismaService.customOffer.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('expires stale pending offers and notifies each seller', async () => {
+      mockPrismaService.customOffer.findMany.mockResolvedValue([
+        offer({ id: 'offer-1' }),
+        offer({ id: 'offer-2', sellerId: 'seller-2' }),
+      ]);
+      mockPrismaService.customOffer.update.mockImplementation(
+        ({ where }: { where: { id: string } }) =>
+          Promise.resolve(offer({ id: where.id, status: 'EXPIRED' })),
+      );
+
+      const expired = await service.expireOffers();
+
+      expect(expired).toBe(2);
+      expect(mockPrismaService.customOffer.findMany).toHaveBeenCalledWith({
+        where: { status: 'PENDING', expiresAt: { lte: anyDate } },
+      });
+      expect(mockNotificationsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'seller-2' }),
+      );
+      expect(mockChatsGateway.broadcastOfferUpdate).toHaveBeenCalledTimes(4);
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import type { CustomOffer } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ChatsService } from '../chats/chats.service';
+import { ChatsGateway } from '../chats/chats.gateway';
+import { OrdersService } from '../orders/orders.service';
+import type {
+  CreateCustomOfferDto,
+  DeclineCustomOfferDto,
+} from './dto/offer.dto';
+
+@Injectable()
+export class OffersService {
+  constructor(
+    private prisma: PrismaService,
+    private notificationService: NotificationsService,
+    private chatsService: ChatsService,
+    private chatsGateway: ChatsGateway,
+    private ordersService: OrdersService,
+  ) {}
+
+  /**
+   * [Seller] Mengirim custom offer ke dalam obrolan
+   *
+   * Offer disimpan sebagai pesan bertipe CUSTOM_OFFER agar muncul
+   * di riwayat obrolan dan di-broadcast seperti pesan biasa.
+   */
+  async sendOffer(sellerId: string, dto: CreateCustomOfferDto) {
+    const seller = await this.prisma.user.findUnique({
+      where: { id: sellerId },
+      select: { isSeller: true, fullName: true },
+    });
+
+    if (!seller?.isSeller) {
+      throw new ForbiddenException(
+        'Hanya penyedia jasa yang dapat mengirim penawaran',
+      );
+    }
+
+    // Validasi seller adalah peserta obrolan & tentukan buyer
+    const participants = await this.prisma.conversationParticipant.findMany({
+      where: { conversationId: dto.conversationId },
+      select: { userId: true },
+    });
+
+    if (!participants.some((p) => p.userId === sellerId)) {
+      throw new ForbiddenException('Akses ditolak');
+    }
+
+    const buyerId = participants.find((p) => p.userId !== sellerId)?.userId;
+    if (!buyerId) {
+      throw new BadRequestException('Penerima penawaran tidak ditemukan');
+    }
+
+    // Validasi jasa yang dihubungkan (opsional)
+    if (dto.serviceId) {
+      const service = await this.prisma.service.findUnique({
+        where: { id: dto.serviceId },
+        select: { sellerId: true, status: true, isCustom: true },
+      });
+
+      if (
+        !service ||
+        service.sellerId !== sellerId ||
+        service.status === 'DELETED' ||
+        service.isCustom
+      ) {
+        throw new NotFoundException('Jasa tidak ditemukan');
+      }
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + dto.expiresInDays);
+
+    const message = await this.prisma.$transaction(async (tx) => {
+      const message = await tx.message.create({
+        data: {
+          conversationId: dto.conversationId,
+          senderId: sellerId,
+          type: 'CUSTOM_OFFER',
+          content: `Penawaran khusus: ${dto.title}`,
+          customOffer: {
+            create: {
+              conversationId: dto.conversationId,
+              sellerId,
+              buyerId,
+              serviceId: dto.serviceId,
+              title: dto.title,
+              description: dto.description,
+              price: dto.price,
+              deliveryDays: dto.deliveryDays,
+              revisions: dto.revisions,
+              expiresAt,
+            },
+          },
+        },
+        include: {
+          sender: {
+            select: { id: true, fullName: true, profilePicture: true },
+          },
+          customOffer: true,
+        },
+      });
+
+      // Naikkan obrolan ke atas inbox
+      await tx.conversation.update({
+        where: { id: dto.conversationId },
+        data: {
+          updatedAt: new Date(),
+          lastMessageId: message.id,
+        },
+      });
+
+      return message;
+    });
+
+    // Broadcast Real-Time via Socket
+    await this.chatsService.broadcastToConversation(
+      dto.conversationId,
+      sellerId,
+      message,
+    );
+
+    // Notifikasi ke Buyer
+    await this.notificationService.create({
+      userId: buyerId,
+      content: `${seller.fullName} mengirim penawaran khusus: "${dto.title}"`,
+      link: `/chat?id=${dto.conversationId}`,
+      type: 'CHAT',
+    });
+
+    return message;
+  }
+
+  /**
+   * [User] Mendapatkan detail custom offer (buyer atau seller terkait)
+   */
+  async getOffer(userId: string, offerId: string) {
+    const offer = await this.prisma.customOffer.findUnique({
+      where: { id: offerId },
+      include: {
+        service: { select: { id: true, title: true, images: true } },
+        order: { select: { id: true, status: true } },
+      },
+    });
+
+    if (!offer || (offer.buyerId !== userId && offer.sellerId !== userId)) {
+      throw new NotFoundException('Penawaran tidak ditemukan');
+    }
+
+    return offer;
+  }
+
+  /**
+   * [Buyer] Menerima custom offer
+   *
+   * Membuat order berstatus WAITING_PAYMENT dengan ketentuan penawaran.
+   * Buyer lalu melanjutkan pembayaran lewat POST /orders/:id/confirm.
+   */
+  async acceptOffer(buyerId: string, offerId: string) {
+    const offer = await this.findPendingOfferForBuyer(buyerId, offerId);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Kunci status agar offer tidak diterima dua kali
+      const { count } = await tx.customOffer.updateMany({
+        where: { id: offer.id, status: 'PENDING' },
+        data: { status: 'ACCEPTED', respondedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Penawaran ini sudah ditanggapi');
+      }
+
+      const order = await this.ordersService.createCustomOrder(tx, {
+        buyerId: offer.buyerId,
+        sellerId: offer.sellerId,
+        serviceId: offer.serviceId,
+        title: offer.title,
+        requirements: offer.description,
+        price: offer.price,
+        deliveryDays: offer.deliveryDays,
+        revisions: offer.revisions,
+      });
+
+      const acceptedOffer = await tx.customOffer.update({
+        where: { id: offer.id },
+        data: { orderId: order.id },
+      });
+
+      return { offer: acceptedOffer, order };
+    });
+
+    this.broadcastOfferUpdate(result.offer);
+
+    return result;
+  }
+
+  /**
+   * [Buyer] Menolak custom offer
+   */
+  async declineOffer(
+    buyerId: string,
+    offerId: string,
+    dto: DeclineCustomOfferDto,
+  ) {
+    const offer = await this.findPendingOfferForBuyer(buyerId, offerId);
+
+    const declined = await this.prisma.customOffer.update({
+      where: { id: offer.id },
+      data: {
+        status: 'DECLINED',
+        declineReason: dto.reason,
+        respondedAt: new Date(),
+      },
+    });
+
+    await this.notificationService.create({
+      userId: offer.sellerId,
+      content: `Penawaran "${offer.title}" ditolak oleh pembeli.`,
+      link: `/chat?id=${offer.conversationId}`,
+      type: 'CHAT',
+    });
+
+    this.broadcastOfferUpdate(declined);
+
+    return declined;
+  }
+
+  /**
+   * [System] Menandai offer yang melewati expiresAt sebagai EXPIRED
+   * Dipanggil oleh TasksService
+   */
+  async expireOffers() {
+    const staleOffers = await this.prisma.customOffer.findMany({
+      where: {
+        status: 'PENDING',
+        expiresAt: { lte: new Date() },
+      },
+    });
+
+    for (const offer of staleOffers) {
+      const expired = await this.prisma.customOffer.update({
+        where: { id: offer.id },
+        data: { status: 'EXPIRED' },
+      });
+
+      await this.notificationService.create({
+        userId: offer.sellerId,
+        content: `Penawaran "${offer.title}" kedaluwarsa tanpa tanggapan.`,
+        link: `/chat?id=${offer.conversationId}`,
+        type: 'CHAT',
+      });
+
+      this.broadcastOfferUpdate(expired);
+    }
+
+    return staleOffers.length;
+  }
+
+  /**
+   * Helper untuk validasi offer milik buyer yang masih bisa ditanggapi
+   */
+  private async findPendingOfferForBuyer(buyerId: string, offerId: string) {
+    const offer = await this.prisma.customOffer.findUnique({
+      where: { id: offerId },
+    });
+
+    if (!offer || offer.buyerId !== buyerId) {
+      throw new NotFoundException('Penawaran tidak ditemukan');
+    }
+
+    if (offer.status !== 'PENDING') {
+      throw new BadRequestException(
+        `Penawaran ini sudah berstatus ${offer.status}`,
+      );
+    }
+
+    if (offer.expiresAt < new Date()) {
+      const expired = await this.prisma.customOffer.update({
+        where: { id: offer.id },
+        data: { status: 'EXPIRED' },
+      });
+      this.broadcastOfferUpdate(expired);
+
+      throw new BadRequestException('Penawaran sudah kedaluwarsa');
+    }
+
+    return offer;
+  }
+
+  /**
+   * Helper untuk mengirim perubahan status offer ke buyer & seller
+   */
+  private broadcastOfferUpdate(offer: CustomOffer) {
+    this.chatsGateway.broadcastOfferUpdate(offer.buyerId, offer);
+    this.chatsGateway.broadcastOfferUpdate(offer.sellerId, offer);
+  }
+}
@@ -1,11 +1,35 @@
 import { z } from 'zod';
 
+/**
+ * Schema untuk satu milestone (tahapan) pesanan
+ */
+export const OrderMilestoneSchema = z.object({
+  title: z
+    .string()
+    .min(3, { message: 'Judul milestone minimal 3 karakter' })
+    .max(100, { message: 'Judul milestone maksimal 100 karakter' }),
+
+  description: z
+    .string()
+    .max(1000, { message: 'Deskripsi milestone maksimal 1000 karakter' })
+    .optional(),
+
+  amount: z.coerce
+    .number()
+    .positive({ message: 'Nominal milestone harus lebih dari 0' }),
+
+  dueDate: z.coerce.date({ message: 'Tenggat milestone tidak valid' }),
+});
+
 /**
  * Schema untuk membuat pesanan baru
  */
 export const CreateOrderSchema = z.object({
   serviceId: z.string().uuid({ message: 'ID jasa tidak valid' }),
 
+  // Wajib diisi jika jasa memiliki paket (Basic / Standard / Premium)
+  packageId: z.string().cuid({ message: 'ID paket tidak valid' }).optional(),
+
   requirements: z
     .string()
     .min(20, { message: 'Deskripsi kebutuhan minimal 20 karakter' })
@@ -17,6 +41,28 @@ export const CreateOrderSchema = z.object({
     .default([]),
 
   customDeadline: z.coerce.date().optional(), // Gunakan coerce untuk date juga jika perlu
+
+  // Jumlah unit untuk jasa PER_PAGE, PER_HOUR, dll (default: minimumOrder)
+  quantity: z.coerce
+    .number()
+    .int()
+    .positive({ message: 'Jumlah pesanan harus lebih dari 0' })
+    .max(10000, { message: 'Jumlah pesanan maksimal 10000 unit' })
+    .optional(),
+
+  // Extras (add-on) yang dipilih dari katalog jasa
+  extraIds: z
+    .array(z.string().cuid({ message: 'ID extra tidak valid' }))
+    .max(10, { message: 'Maksimal 10 extra' })
+    .default([]),
+
+  // Opsional: pecah pesanan menjadi beberapa milestone dengan escrow terpisah.
+  // Total nominal harus sama dengan harga pesanan.
+  milestones: z
+    .array(OrderMilestoneSchema, { message: 'Milestone harus berupa daftar' })
+    .min(2, { message: 'Minimal 2 milestone' })
+    .max(10, { message: 'Maksimal 10 milestone' })
+    .optional(),
 });
 
 /**
@@ -83,6 +129,21 @@ export const OrderFilterSchema = z.object({
     .default('newest'),
 });
 
+/**
+ * Schema untuk konfirmasi & pembayaran order
+ */
+export const ConfirmOrderSchema = z.object({
+  // Nominal yang dibayar dari saldo wallet. Sisanya dibayar lewat Midtrans.
+  // 0 = bayar penuh lewat Midtrans.
+  walletAmount: z.coerce
+    .number()
+    .min(0, { message: 'Nominal wallet tidak boleh negatif' })
+    .default(0),
+
+  // Kode voucher/promo (opsional), diterapkan sebelum pembayaran
+  voucherCode: z.string().trim().min(1).optional(),
+});
+
 /**
  * Schema untuk membatalkan order
  */
@@ -91,6 +152,67 @@ export const CancelOrderSchema = z.object({
     .string()
     .min(20, { message: 'Alasan pembatalan minimal 20 karakter' })
     .max(500, { message: 'Alasan pembatalan maksimal 500 karakter' }),
+
+  // Tujuan refund jika order sudah dibayar (hanya dipakai saat buyer membatalkan)
+  refundMethod: z.enum(['WALLET', 'ORIGINAL_METHOD']).default('WALLET'),
+});
+
+/**
+ * Schema untuk buyer memilih metode refund setelah seller membatalkan order
+ */
+export const ChooseRefundMethodSchema = z.object({
+  method: z.enum(['WALLET', 'ORIGINAL_METHOD'], {
+    message: 'Metode refund tidak valid',
+  }),
+});
+
+/**
+ * Schema untuk seller mengajukan perpanjangan deadline
+ */
+export const RequestDeadlineExtensionSchema = z.object({
+  requestedDueDate: z.coerce.date({ message: 'Deadline baru tidak valid' }),
+
+  reason: z
+    .string()
+    .min(10, { message: 'Alasan perpanjangan minimal 10 karakter' })
+    .max(500, { message: 'Alasan perpanjangan maksimal 500 karakter' }),
+});
+
+/**
+ * Schema untuk buyer menanggapi pengajuan perpanjangan deadline
+ */
+export const RespondDeadlineExtensionSchema = z.object({
+  note: z
+    .string()
+    .max(500, { message: 'Catatan maksimal 500 karakter' })
+    .optional(),
+});
+
+/**
+ * Schema untuk mengajukan pembatalan bersama (buyer atau seller)
+ */
+export const RequestMutualCancellationSchema = z.object({
+  reason: z
+    .string()
+    .min(20, { message: 'Alasan pembatalan minimal 20 karakter' })
+    .max(500, { message: 'Alasan pembatalan maksimal 500 karakter' }),
+
+  // Bagian dana escrow untuk seller atas pekerjaan yang sudah dilakukan.
+  // Sisanya dikembalikan ke buyer. Default 0 (refund penuh).
+  sellerAmount: z.coerce
+    .number()
+    .min(0, { message: 'Nominal untuk penyedia jasa tidak boleh negatif' })
+    .default(0),
+});
+
+/**
+ * Schema untuk menanggapi pengajuan pembatalan bersama
+ */
+export const RespondMutualCancellationSchema = z.object({
+  note: z
+    .string()
+    .max(500, { message: 'Catatan maksimal 500 karakter' })
+    .optional(),
 });
 
 /**
@@ -113,9 +235,24 @@ export const AddProgressSchema = z.object({
 
 export type AddProgressDto = z.infer<typeof AddProgressSchema>;
 
+export type OrderMilestoneDto = z.infer<typeof OrderMilestoneSchema>;
 export type CreateOrderDto = z.infer<typeof CreateOrderSchema>;
 export type DeliverOrderDto = z.infer<typeof DeliverOrderSchema>;
 export type RequestRevisionDto = z.infer<typeof RequestRevisionSchema>;
 export type OrderFilterDto = z.infer<typeof OrderFilterSchema>;
+export type ConfirmOrderDto = z.infer<typeof ConfirmOrderSchema>;
 export type CancelOrderDto = z.infer<typeof CancelOrderSchema>;
+export type ChooseRefundMethodDto = z.infer<typeof ChooseRefundMethodSchema>;
+export type RequestDeadlineExtensionDto = z.infer<
+  typeof RequestDeadlineExtensionSchema
+>;
+export type RespondDeadlineExtensionDto = z.infer<
+  typeof RespondDeadlineExtensionSchema
+>;
+export type RequestMutualCancellationDto = z.infer<
+  typeof RequestMutualCancellationSchema
+>;
+export type RespondMutualCancellationDto = z.infer<
+  typeof RespondMutualCancellationSchema
+>;
 export type PaymentCallbackDto = z.infer<typeof PaymentCallbackSchema>;
@@ -16,10 +16,24 @@ import type {
   CreateOrderDto,
   DeliverOrderDto,
   OrderFilterDto,
+  ConfirmOrderDto,
   CancelOrderDto,
+  ChooseRefundMethodDto,
   RequestRevisionDto,
   AddProgressDto,
+  RequestDeadlineExtensionDto,
+  RespondDeadlineExtensionDto,
+  RequestMutualCancellationDto,
+  RespondMutualCancellationDto,
 } from './dto/order.dto';
+import {
+  CancelOrderSchema,
+  ChooseRefundMethodSchema,
+  ConfirmOrderSchema,
+  RequestDeadlineExtensionSchema,
+  RequestMutualCancellationSchema,
+} from './dto/order.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
 import { Order } from '@prisma/client';
 import { LogService } from 'src/common/log.service';
 
@@ -70,27 +84,40 @@ export class OrdersController {
    *
    * Buyer mengonfirmasi order yang masih draft
    * Status berubah dari DRAFT -> WAITING_PAYMENT
+   *
+   * Buyer bisa membayar sebagian/seluruhnya dari saldo wallet (walletAmount).
+   * Jika lunas dari wallet, order langsung berstatus PAID_ESCROW.
    */
   @Post(':id/confirm')
   async confirmOrder(
     @Param('id') orderId: string,
     @GetUser('id') buyerId: string,
+    @Body(new ZodValidationPipe(ConfirmOrderSchema))
+    confirmDto: ConfirmOrderDto,
   ) {
-    const result = await this.ordersService.confirmOrder(orderId, buyerId);
+    const result = await this.ordersService.confirmOrder(
+      orderId,
+      buyerId,
+      confirmDto,
+    );
 
     // Log Konfirmasi Orderan
     await this.logService.userActivityLog({
       userId: buyerId,
       action: 'confirm_order',
       status: 'success',
-      details: `Confirmed order ID: ${orderId}, Waiting For Payment.`,
+      details: result.paymentToken
+        ? `Confirmed order ID: ${orderId}, Waiting For Payment (wallet: ${result.walletAmount.toFixed(0)}).`
+        : `Confirmed order ID: ${orderId}, Paid from wallet.`,
     });
 
     return {
       success: true,
       message: result.message,
       data: result.order,
-      paymentToken: result.paymentToken, // Kirim Snap Token ke frontend
+      walletAmount: result.walletAmount, // Bagian yang dibayar dari wallet
+      gatewayAmount: result.gatewayAmount, // Sisa yang dibayar lewat Midtrans
+      paymentToken: result.paymentToken, // Kirim Snap Token ke frontend (null jika lunas dari wallet)
       paymentRedirectUrl: result.paymentRedirectUrl, // Kirim redirect URL ke frontend
     };
   }
@@ -221,6 +248,349 @@ export class OrdersController {
     };
   }
 
+  /**
+   * Seller mengirimkan hasil kerja untuk satu milestone
+   * POST /api/orders/:id/milestones/:milestoneId/deliver
+   *
+   * Mengubah status milestone dari IN_PROGRESS atau REVISION -> DELIVERED
+   */
+  @Post(':id/milestones/:milestoneId/deliver')
+  async deliverMilestone(
+    @Param('id') orderId: string,
+    @Param('milestoneId') milestoneId: string,
+    @GetUser('id') sellerId: string,
+    @Body() deliverDto: DeliverOrderDto,
+  ) {
+    const milestone = await this.ordersService.deliverMilestone(
+      orderId,
+      milestoneId,
+      sellerId,
+      deliverDto,
+    );
+
+    // Log Pengiriman Milestone
+    await this.logService.userActivityLog({
+      userId: sellerId,
+      action: 'deliver_milestone',
+      status: 'success',
+      details: `Delivered milestone ID: ${milestoneId} for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Milestone berhasil dikirim. Menunggu persetujuan buyer.',
+      data: milestone,
+    };
+  }
+
+  /**
+   * Buyer meminta revisi untuk satu milestone
+   * POST /api/orders/:id/milestones/:milestoneId/revision
+   *
+   * Mengubah status milestone dari DELIVERED -> REVISION
+   */
+  @Post(':id/milestones/:milestoneId/revision')
+  async requestMilestoneRevision(
+    @Param('id') orderId: string,
+    @Param('milestoneId') milestoneId: string,
+    @GetUser('id') buyerId: string,
+    @Body() dto: RequestRevisionDto,
+  ) {
+    const milestone = await this.ordersService.requestMilestoneRevision(
+      orderId,
+      milestoneId,
+      buyerId,
+      dto,
+    );
+
+    // Log Permintaan Revisi Milestone
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: 'request_milestone_revision',
+      status: 'success',
+      details: `Requested revision for milestone ID: ${milestoneId} on order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Permintaan revisi milestone berhasil dikirim.',
+      data: milestone,
+    };
+  }
+
+  /**
+   * Buyer menyetujui satu milestone
+   * POST /api/orders/:id/milestones/:milestoneId/approve
+   *
+   * Melepas dana milestone ke seller. Milestone terakhir menyelesaikan order.
+   */
+  @Post(':id/milestones/:milestoneId/approve')
+  async approveMilestone(
+    @Param('id') orderId: string,
+    @Param('milestoneId') milestoneId: string,
+    @GetUser('id') buyerId: string,
+  ) {
+    const result = await this.ordersService.approveMilestone(
+      orderId,
+      milestoneId,
+      buyerId,
+    );
+
+    // Log Persetujuan Milestone
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: 'approve_milestone',
+      status: 'success',
+      details: `Approved milestone ID: ${milestoneId} for order ID: ${orderId}`,
+    });
+
+    return {
+      success: true,
+      message:
+        result.order.status === 'COMPLETED'
+          ? 'Semua milestone selesai! Dana telah diteruskan ke penyedia jasa. Jangan lupa berikan review.'
+          : 'Milestone disetujui. Dana milestone telah diteruskan ke penyedia jasa.',
+      data: result,
+    };
+  }
+
+  /**
+   * Seller mengajukan perpanjangan deadline
+   * POST /api/orders/:id/extensions
+   */
+  @Post(':id/extensions')
+  @HttpCode(HttpStatus.CREATED)
+  async requestDeadlineExtension(
+    @Param('id') orderId: string,
+    @GetUser('id') sellerId: string,
+    @Body(new ZodValidationPipe(RequestDeadlineExtensionSchema))
+    dto: RequestDeadlineExtensionDto,
+  ) {
+    const extension = await this.ordersService.requestDeadlineExtension(
+      orderId,
+      sellerId,
+      dto,
+    );
+
+    // Log Pengajuan Perpanjangan Deadline
+    await this.logService.userActivityLog({
+      userId: sellerId,
+      action: 'request_deadline_extension',
+      status: 'success',
+      details: `Requested deadline extension for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Pengajuan perpanjangan deadline berhasil dikirim.',
+      data: extension,
+    };
+  }
+
+  /**
+   * Buyer menerima perpanjangan deadline
+   * POST /api/orders/:id/extensions/:extensionId/accept
+   */
+  @Post(':id/extensions/:extensionId/accept')
+  async acceptDeadlineExtension(
+    @Param('id') orderId: string,
+    @Param('extensionId') extensionId: string,
+    @GetUser('id') buyerId: string,
+    @Body() dto: RespondDeadlineExtensionDto,
+  ) {
+    const extension = await this.ordersService.respondDeadlineExtension(
+      orderId,
+      extensionId,
+      buyerId,
+      'ACCEPTED',
+      dto,
+    );
+
+    // Log Persetujuan Perpanjangan Deadline
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: 'accept_deadline_extension',
+      status: 'success',
+      details: `Accepted deadline extension ID: ${extensionId} for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Perpanjangan deadline disetujui.',
+      data: extension,
+    };
+  }
+
+  /**
+   * Buyer menolak perpanjangan deadline
+   * POST /api/orders/:id/extensions/:extensionId/reject
+   */
+  @Post(':id/extensions/:extensionId/reject')
+  async rejectDeadlineExtension(
+    @Param('id') orderId: string,
+    @Param('extensionId') extensionId: string,
+    @GetUser('id') buyerId: string,
+    @Body() dto: RespondDeadlineExtensionDto,
+  ) {
+    const extension = await this.ordersService.respondDeadlineExtension(
+      orderId,
+      extensionId,
+      buyerId,
+      'REJECTED',
+      dto,
+    );
+
+    // Log Penolakan Perpanjangan Deadline
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: 'reject_deadline_extension',
+      status: 'success',
+      details: `Rejected deadline extension ID: ${extensionId} for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Perpanjangan deadline ditolak.',
+      data: extension,
+    };
+  }
+
+  /**
+   * Buyer membatalkan order yang melewati deadline
+   * POST /api/orders/:id/cancel/overdue
+   *
+   * Tersedia setelah masa tenggang, dana dikembalikan tanpa perlu dispute
+   */
+  @Post(':id/cancel/overdue')
+  async cancelOverdue(
+    @Param('id') orderId: string,
+    @GetUser('id') buyerId: string,
+  ) {
+    const result = await this.ordersService.cancelOverdueOrder(
+      orderId,
+      buyerId,
+    );
+
+    // Log Pembatalan Order Terlambat
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: 'cancel_overdue_order',
+      status: 'success',
+      details: `Cancelled overdue order ID: ${orderId} (refunded)`,
+    });
+
+    return {
+      success: true,
+      message: 'Order dibatalkan karena terlambat dan dana dikembalikan',
+      data: result,
+    };
+  }
+
+  /**
+   * Buyer atau seller mengajukan pembatalan bersama
+   * POST /api/orders/:id/cancellation-requests
+   *
+   * Untuk order yang sudah dibayar, sebagai alternatif membuka dispute
+   */
+  @Post(':id/cancellation-requests')
+  @HttpCode(HttpStatus.CREATED)
+  async requestMutualCancellation(
+    @Param('id') orderId: string,
+    @GetUser('id') userId: string,
+    @Body(new ZodValidationPipe(RequestMutualCancellationSchema))
+    dto: RequestMutualCancellationDto,
+  ) {
+    const request = await this.ordersService.requestMutualCancellation(
+      orderId,
+      userId,
+      dto,
+    );
+
+    // Log Pengajuan Pembatalan Bersama
+    await this.logService.userActivityLog({
+      userId,
+      action: 'request_mutual_cancellation',
+      status: 'success',
+      details: `Requested mutual cancellation for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Pengajuan pembatalan berhasil dikirim.',
+      data: request,
+    };
+  }
+
+  /**
+   * Pihak lain menyetujui pembatalan bersama
+   * POST /api/orders/:id/cancellation-requests/:requestId/accept
+   *
+   * Escrow dibagi otomatis antara refund buyer dan dana seller
+   */
+  @Post(':id/cancellation-requests/:requestId/accept')
+  async acceptMutualCancellation(
+    @Param('id') orderId: string,
+    @Param('requestId') requestId: string,
+    @GetUser('id') userId: string,
+    @Body() dto: RespondMutualCancellationDto,
+  ) {
+    const result = await this.ordersService.respondMutualCancellation(
+      orderId,
+      requestId,
+      userId,
+      'ACCEPTED',
+      dto,
+    );
+
+    // Log Persetujuan Pembatalan Bersama
+    await this.logService.userActivityLog({
+      userId,
+      action: 'accept_mutual_cancellation',
+      status: 'success',
+      details: `Accepted mutual cancellation ID: ${requestId} for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Order dibatalkan dan dana escrow telah dibagikan',
+      data: result,
+    };
+  }
+
+  /**
+   * Pihak lain menolak pembatalan bersama
+   * POST /api/orders/:id/cancellation-requests/:requestId/decline
+   */
+  @Post(':id/cancellation-requests/:requestId/decline')
+  async declineMutualCancellation(
+    @Param('id') orderId: string,
+    @Param('requestId') requestId: string,
+    @GetUser('id') userId: string,
+    @Body() dto: RespondMutualCancellationDto,
+  ) {
+    const result = await this.ordersService.respondMutualCancellation(
+      orderId,
+      requestId,
+      userId,
+      'DECLINED',
+      dto,
+    );
+
+    // Log Penolakan Pembatalan Bersama
+    await this.logService.userActivityLog({
+      userId,
+      action: 'decline_mutual_cancellation',
+      status: 'success',
+      details: `Declined mutual cancellation ID: ${requestId} for order ID: ${orderId}.`,
+    });
+
+    return {
+      success: true,
+      message: 'Pengajuan pembatalan ditolak.',
+      data: result,
+    };
+  }
+
   /**
    * Buyer membatalkan order
    * POST /api/orders/:id/cancel/buyer
@@ -231,7 +601,7 @@ export class OrdersController {
   async cancelByBuyer(
     @Param('id') orderId: string,
     @GetUser('id') buyerId: string,
-    @Body() cancelDto: CancelOrderDto,
+    @Body(new ZodValidationPipe(CancelOrderSchema)) cancelDto: CancelOrderDto,
   ) {
     const result: Order & { refunded: boolean } =
       await this.ordersService.cancelOrder(
@@ -268,7 +638,7 @@ export class OrdersController {
   async cancelBySeller(
     @Param('id') orderId: string,
     @GetUser('id') sellerId: string,
-    @Body() cancelDto: CancelOrderDto,
+    @Body(new ZodValidationPipe(CancelOrderSchema)) cancelDto: CancelOrderDto,
   ) {
     const result: Order & { refunded: boolean } =
       await this.ordersService.cancelOrder(
@@ -293,6 +663,43 @@ export class OrdersController {
     };
   }
 
+  /**
+   * Buyer memilih metode refund setelah order dibatalkan seller
+   * POST /api/orders/:id/refund-method
+   *
+   * WALLET (saldo wallet) atau ORIGINAL_METHOD (metode pembayaran asal)
+   */
+  @Post(':id/refund-method')
+  @HttpCode(HttpStatus.OK)
+  async chooseRefundMethod(
+    @Param('id') orderId: string,
+    @GetUser('id') buyerId: string,
+    @Body(new ZodValidationPipe(ChooseRefundMethodSchema))
+    refundDto: ChooseRefundMethodDto,
+  ) {
+    const payment = await this.ordersService.chooseRefundMethod(
+      orderId,
+      buyerId,
+      refundDto,
+    );
+
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: 'choose_refund_method',
+      status: 'success',
+      details: `Chose ${refundDto.method} refund for order ID: ${orderId}`,
+    });
+
+    return {
+      success: true,
+      message:
+        payment.refundStatus === 'FAILED'
+          ? 'Refund ke metode pembayaran asal gagal, tim kami akan menindaklanjuti'
+          : 'Metode refund berhasil dipilih',
+      data: payment,
+    };
+  }
+
   /**
    * Get all orders
    * GET /api/orders
@@ -1,21 +1,43 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { OrdersService } from './orders.service';
+import { Prisma } from '@prisma/client';
+import { OrdersService, OVERDUE_GRACE_PERIOD_HOURS } from './orders.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { PaymentsService } from '../payments/payments.service';
 import { WalletsService } from '../wallets/wallets.service';
 import { NotificationsService } from '../notifications/notifications.service';
+import { FeesService } from '../fees/fees.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { VouchersService } from '../vouchers/vouchers.service';
+import { ReferralsService } from '../referrals/referrals.service';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 
 describe('OrdersService', () => {
   let service: OrdersService;
 
-  const mockPrismaService = {};
+  const tx = {
+    order: { findUniqueOrThrow: jest.fn(), update: jest.fn() },
+    orderStatusHistory: { create: jest.fn() },
+    orderDeadlineExtension: { updateMany: jest.fn() },
+    wallet: { findUniqueOrThrow: jest.fn() },
+  };
+  const mockPrismaService = {
+    order: { findFirst: jest.fn() },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
   const mockPaymentsService = {};
-  const mockWalletsService = {};
-  const mockNotificationsService = {};
+  const mockWalletsService = { createTransaction: jest.fn() };
+  const mockNotificationsService = { createInTx: jest.fn() };
+  const mockFeesService = {};
+  const mockLedgerService = {};
+  const mockVouchersService = { releaseInTx: jest.fn() };
+  const mockReferralsService = {};
   const mockEventEmitter = { emit: jest.fn() };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OrdersService,
@@ -23,6 +45,10 @@ describe('OrdersService', () => {
         { provide: PaymentsService, useValue: mockPaymentsService },
         { provide: WalletsService, useValue: mockWalletsService },
         { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: FeesService, useValue: mockFeesService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: VouchersService, useValue: mockVouchersService },
+        { provide: ReferralsService, useValue: mockReferralsService },
         { provide: EventEmitter2, useValue: mockEventEmitter },
       ],
     }).compile();
@@ -33,4 +59,48 @@ describe('OrdersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('cancelOverdueOrder', () => {
+    const overdueDate = () => {
+      const date = new Date();
+      date.setHours(date.getHours() - OVERDUE_GRACE_PERIOD_HOURS - 1);
+      return date;
+    };
+
+    it('refunds the buyer and releases the voucher quota', async () => {
+      mockPrismaService.order.findFirst.mockResolvedValue({
+        id: 'order-1',
+        buyerId: 'buyer-1',
+        status: 'IN_PROGRESS',
+        isPaid: true,
+        dueDate: overdueDate(),
+        price: new Prisma.Decimal(500000),
+        discountAmount: new Prisma.Decimal(50000),
+        discountFundedBy: 'PLATFORM',
+        escrowReleased: new Prisma.Decimal(0),
+        service: { sellerId: 'seller-1' },
+      });
+      tx.order.findUniqueOrThrow.mockResolvedValue({ status: 'IN_PROGRESS' });
+      tx.order.update.mockResolvedValue({
+        id: 'order-1',
+        status: 'CANCELLED',
+      });
+      tx.wallet.findUniqueOrThrow.mockResolvedValue({ id: 'wallet-buyer' });
+
+      const result = await service.cancelOverdueOrder('order-1', 'buyer-1');
+
+      expect(mockVouchersService.releaseInTx).toHaveBeenCalledWith(
+        tx,
+        'order-1',
+      );
+      expect(mockWalletsService.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          walletId: 'wallet-buyer',
+          type: 'ESCROW_REFUND',
+          amount: new Prisma.Decimal(450000),
+        }),
+      );
+      expect(result.refunded).toBe(true);
+    });
+  });
 });
@@ -5,18 +5,92 @@ import {
 } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { PrismaService } from '../prisma/prisma.service';
-import { PaymentsService } from '../payments/payments.service';
+import {
+  PaymentsService,
+  REFUND_CHOICE_HOURS,
+} from '../payments/payments.service';
 import { WalletsService } from '../wallets/wallets.service';
 import type {
   CreateOrderDto,
   DeliverOrderDto,
   OrderFilterDto,
+  ConfirmOrderDto,
   CancelOrderDto,
+  ChooseRefundMethodDto,
   RequestRevisionDto,
   AddProgressDto,
+  RequestDeadlineExtensionDto,
+  RespondDeadlineExtensionDto,
+  RequestMutualCancellationDto,
+  RespondMutualCancellationDto,
 } from './dto/order.dto';
-import { Order, Service, Prisma } from '@prisma/client';
+import {
+  Order,
+  OrderStatus,
+  Service,
+  ServicePackage,
+  Prisma,
+  PrismaClient,
+  RefundStatus,
+} from '@prisma/client';
 import { NotificationsService } from '../notifications/notifications.service';
+import { FeesService } from '../fees/fees.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { VouchersService } from '../vouchers/vouchers.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import { calculateOrderPricing, summarizeExtras } from './utils/order-pricing';
+import { prepareMilestones } from './utils/order-milestones';
+import { transitionOrderStatus } from './utils/order-state-machine';
+import type { OrderActorRef } from './utils/order-state-machine';
+import {
+  buyerPayableAmount,
+  platformDiscountTopUp,
+  remainingBuyerEscrow,
+  remainingSellerRelease,
+} from './utils/order-escrow';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+// Masa tenggang setelah deadline lewat sebelum buyer boleh membatalkan sendiri
+export const OVERDUE_GRACE_PERIOD_HOURS = 48;
+
+// Batas waktu pihak lain menanggapi pengajuan pembatalan bersama
+export const CANCELLATION_REQUEST_EXPIRY_HOURS = 72;
+
+// Status order berbayar yang bisa dibatalkan lewat kesepakatan bersama
+const MUTUAL_CANCELLABLE_STATUSES: OrderStatus[] = [
+  'PAID_ESCROW',
+  'IN_PROGRESS',
+  'DELIVERED',
+  'REVISION',
+];
+
+// Status order yang masih dalam masa pengerjaan (deadline berlaku)
+const ACTIVE_WORK_STATUSES: OrderStatus[] = [
+  'PAID_ESCROW',
+  'IN_PROGRESS',
+  'REVISION',
+];
+
+/**
+ * Ketentuan order yang disepakati di luar listing jasa (misal custom offer)
+ */
+export type CustomOrderTerms = {
+  buyerId: string;
+  sellerId: string;
+  serviceId?: string | null;
+  title: string;
+  requirements: string;
+  price: Prisma.Decimal | number;
+  deliveryDays: number;
+  revisions: number;
+  attachments?: string[];
+  // Alasan di riwayat status (default: penawaran khusus diterima)
+  reason?: string;
+};
 
 @Injectable()
 export class OrdersService {
@@ -25,6 +99,10 @@ export class OrdersService {
     private paymentsService: PaymentsService,
     private walletService: WalletsService,
     private notificationService: NotificationsService,
+    private feesService: FeesService,
+    private ledgerService: LedgerService,
+    private vouchersService: VouchersService,
+    private referralsService: ReferralsService,
   ) { }
 
   /**
@@ -33,10 +111,14 @@ export class OrdersService {
    * Proses ini melibatkan beberapa langkah:
    * 1. Validasi bahwa service exists dan aktif
    * 2. Validasi bahwa buyer bukan pemilik service (tidak bisa order jasa sendiri)
-   * 3. Hitung deadline berdasarkan deliveryTime service
-   * 4. Buat snapshot data service saat itu (harga, deliveryTime, revisions)
+   * 3. Jika service memiliki paket, pastikan buyer memilih salah satunya
+   * 4. Hitung deadline berdasarkan deliveryTime service/paket
+   * 5. Hitung harga dari paket, atau tipe pricing, harga per unit, dan jumlah unit
+   * 6. Terapkan extras yang dipilih (harga, waktu pengerjaan, revisi)
+   * 7. Jika buyer membagi pesanan menjadi milestone, validasi total & tenggatnya
+   * 8. Buat snapshot data service/paket/extras saat itu (harga, deliveryTime, revisions)
    *    karena seller bisa mengubah service tapi order harus tetap sesuai agreement awal
-   * 5. Set status awal sebagai DRAFT
+   * 9. Set status awal sebagai DRAFT
    */
   async create(buyerId: string, dto: CreateOrderDto) {
     // Ambil data service lengkap
@@ -50,6 +132,8 @@ export class OrdersService {
             email: true,
           },
         },
+        packages: true,
+        extras: true,
       },
     });
 
@@ -69,11 +153,60 @@ export class OrdersService {
       );
     }
 
+    // Validasi paket yang dipilih
+    let servicePackage: ServicePackage | undefined;
+    if (dto.packageId) {
+      servicePackage = service.packages.find((pkg) => pkg.id === dto.packageId);
+      if (!servicePackage) {
+        throw new NotFoundException('Paket tidak ditemukan pada jasa ini');
+      }
+    } else if (service.packages.length > 0) {
+      throw new BadRequestException('Silakan pilih paket terlebih dahulu');
+    }
+
+    // Validasi extras yang dipilih
+    const extraIds = [...new Set(dto.extraIds)];
+    const selectedExtras = service.extras.filter((extra) =>
+      extraIds.includes(extra.id),
+    );
+    if (selectedExtras.length !== extraIds.length) {
+      throw new NotFoundException('Extra tidak ditemukan pada jasa ini');
+    }
+    const extrasSummary = summarizeExtras(selectedExtras);
+
+    // Ketentuan order mengikuti paket jika ada, lalu disesuaikan dengan extras
+    // (waktu pengerjaan minimal tetap 1 hari)
+    const deliveryTime = Math.max(
+      1,
+      (servicePackage?.deliveryTime ?? service.deliveryTime) +
+        extrasSummary.deliveryDays,
+    );
+    const maxRevisions =
+      (servicePackage?.revisions ?? service.revisions) +
+      extrasSummary.revisions;
+
+    // Hitung harga berdasarkan paket, atau pricingType & quantity
+    const pricing = calculateOrderPricing(
+      service,
+      dto.quantity,
+      servicePackage,
+    );
+
+    const price = pricing.price.add(extrasSummary.price);
+
+    // Validasi milestone (opsional), total harus sama dengan harga pesanan
+    const milestones = dto.milestones
+      ? prepareMilestones(dto.milestones, price)
+      : [];
+
     // Hitung deadline
+    // Jika pesanan memakai milestone, deadline = tenggat milestone terakhir
     // Jika custom deadline diberikan, gunakan itu
     // Jika tidak, tambahkan deliveryTime ke tanggal sekarang
     let dueDate: Date;
-    if (dto.customDeadline) {
+    if (milestones.length > 0) {
+      dueDate = milestones[milestones.length - 1].dueDate;
+    } else if (dto.customDeadline) {
       dueDate = dto.customDeadline;
       // Validasi bahwa custom deadline tidak di masa lalu
       if (dueDate < new Date()) {
@@ -81,7 +214,7 @@ export class OrdersService {
       }
     } else {
       dueDate = new Date();
-      dueDate.setDate(dueDate.getDate() + service.deliveryTime);
+      dueDate.setDate(dueDate.getDate() + deliveryTime);
     }
 
     // Buat order dengan snapshot data service
@@ -89,18 +222,44 @@ export class OrdersService {
       data: {
         serviceId: service.id,
         buyerId,
+        packageId: servicePackage?.id,
+        packageTier: servicePackage?.tier, // Snapshot tingkatan paket
+        packageName: servicePackage?.name, // Snapshot nama paket
         title: service.title, // Snapshot title
-        price: service.price, // Snapshot harga
-        deliveryTime: service.deliveryTime, // Snapshot delivery time
-        maxRevisions: service.revisions, // Snapshot jumlah revisi
+        price, // Snapshot harga total
+        pricingType: pricing.pricingType, // Snapshot tipe pricing
+        unitPrice: pricing.unitPrice, // Snapshot harga per unit
+        quantity: pricing.quantity,
+        deliveryTime, // Snapshot delivery time
+        maxRevisions, // Snapshot jumlah revisi
         requirements: dto.requirements,
         attachments: dto.attachments,
         dueDate,
         status: 'DRAFT',
         isPaid: false,
         revisionCount: 0,
+        extras: {
+          // Snapshot extras yang dipilih
+          create: selectedExtras.map((extra) => ({
+            extraId: extra.id,
+            title: extra.title,
+            price: extra.price,
+            deliveryDays: extra.deliveryDays,
+            revisions: extra.revisions,
+          })),
+        },
+        milestones: {
+          create: milestones,
+        },
+        statusHistory: {
+          create: { toStatus: 'DRAFT', actor: 'BUYER', actorId: buyerId },
+        },
       },
       include: {
+        extras: true,
+        milestones: {
+          orderBy: { sequence: 'asc' },
+        },
         service: {
           select: {
             id: true,
@@ -130,52 +289,166 @@ export class OrdersService {
     return order;
   }
 
+  /**
+   * Membuat order dari ketentuan yang disepakati langsung dengan seller
+   *
+   * Dipakai saat buyer menerima custom offer atau penawaran untuk
+   * permintaan pekerjaan. Order langsung berstatus WAITING_PAYMENT karena
+   * harga & ketentuan sudah disetujui kedua pihak.
+   * Jika tidak terhubung ke jasa tertentu, order dikaitkan ke jasa internal
+   * "Penawaran Khusus" milik seller (tidak tampil di listing).
+   */
+  async createCustomOrder(tx: Tx, terms: CustomOrderTerms) {
+    const serviceId =
+      terms.serviceId ??
+      (await this.getOrCreateCustomService(tx, terms.sellerId)).id;
+
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + terms.deliveryDays);
+
+    const order = await tx.order.create({
+      data: {
+        serviceId,
+        buyerId: terms.buyerId,
+        title: terms.title,
+        price: terms.price,
+        pricingType: 'CUSTOM',
+        unitPrice: terms.price,
+        quantity: 1,
+        deliveryTime: terms.deliveryDays,
+        maxRevisions: terms.revisions,
+        requirements: terms.requirements,
+        attachments: terms.attachments ?? [],
+        dueDate,
+        status: 'WAITING_PAYMENT',
+        isPaid: false,
+        revisionCount: 0,
+        statusHistory: {
+          create: {
+            toStatus: 'WAITING_PAYMENT',
+            actor: 'BUYER',
+            actorId: terms.buyerId,
+            reason: terms.reason ?? 'Penawaran khusus diterima',
+          },
+        },
+      },
+    });
+
+    await this.notificationService.createInTx(tx, {
+      userId: terms.sellerId,
+      content: `Penawaran Anda diterima! Pesanan #${order.id.substring(0, 8)} menunggu pembayaran.`,
+      link: `/seller/orders/${order.id}`,
+      type: 'ORDER',
+    });
+
+    return order;
+  }
+
   /**
    * Konfirmasi order dan siap untuk pembayaran
    *
    * Mengubah status dari DRAFT ke WAITING_PAYMENT
    * Di sini seharusnya kita juga generate payment link dari Midtrans/Xendit
    * Untuk sekarang, kita akan return payment instructions
+   *
+   * Voucher (jika ada) diterapkan lebih dulu, sehingga potongan saldo wallet
+   * & tagihan gateway dihitung dari harga setelah diskon.
    */
   async confirmOrder(
     orderId: string,
     buyerId: string,
+    dto: ConfirmOrderDto,
   ): Promise<{
     order: Order;
     message: string;
-    paymentToken: string;
-    paymentRedirectUrl: string;
+    paymentToken: string | null;
+    paymentRedirectUrl: string | null;
+    walletAmount: Prisma.Decimal;
+    gatewayAmount: Prisma.Decimal;
   }> {
     const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
 
-    // [FIX START] Izinkan konfirmasi jika status DRAFT atau WAITING_PAYMENT
-    const reconfirmableStatuses = ['DRAFT', 'WAITING_PAYMENT'];
-    if (!reconfirmableStatuses.includes(order.status)) {
-      throw new BadRequestException(
-        `Hanya order dengan status draft atau menunggu pembayaran yang bisa dikonfirmasi ulang. Status saat ini: ${order.status}`,
-      );
-    }
+    // Konfirmasi ulang order WAITING_PAYMENT hanya membuat ulang link pembayaran.
+    // Selain itu, transisi ke WAITING_PAYMENT divalidasi state machine.
+    const { updated, walletAmount } = await this.prisma.$transaction(
+      async (tx) => {
+        if (order.status !== 'WAITING_PAYMENT') {
+          await transitionOrderStatus(tx, orderId, 'WAITING_PAYMENT', {
+            actor: 'BUYER',
+            actorId: buyerId,
+          });
+        }
+
+        if (dto.voucherCode) {
+          await this.vouchersService.applyInTx(
+            tx,
+            orderId,
+            buyerId,
+            dto.voucherCode,
+          );
+        }
+
+        const walletAmount = await this.reserveWalletPaymentInTx(
+          tx,
+          orderId,
+          buyerId,
+          new Prisma.Decimal(dto.walletAmount ?? 0),
+        );
+
+        // Dibayar penuh dari wallet (atau seluruhnya ditanggung voucher):
+        // langsung masuk escrow
+        const payable = buyerPayableAmount(
+          await tx.order.findUniqueOrThrow({ where: { id: orderId } }),
+        );
+        if (walletAmount.eq(payable)) {
+          await this.settlePaymentInTx(tx, orderId, {
+            payment_type: walletAmount.gt(0) ? 'wallet' : 'voucher',
+          });
+        }
+
+        const updated = await tx.order.findUniqueOrThrow({
+          where: { id: orderId },
+          include: {
+            buyer: true,
+            extras: true,
+          },
+        });
 
-    // Update status ke waiting_payment
-    const updated = await this.prisma.order.update({
-      where: { id: orderId },
-      data: { status: 'WAITING_PAYMENT' },
-      include: {
-        buyer: true,
+        return { updated, walletAmount };
       },
-    });
+    );
+
+    const gatewayAmount = buyerPayableAmount(updated).sub(walletAmount);
+
+    if (gatewayAmount.lte(0)) {
+      return {
+        order: updated,
+        message: walletAmount.gt(0)
+          ? 'Pembayaran dari saldo wallet berhasil'
+          : 'Pesanan lunas dengan voucher',
+        paymentToken: null,
+        paymentRedirectUrl: null,
+        walletAmount,
+        gatewayAmount,
+      };
+    }
 
-    // Implementasi TODO: Integrate dengan payment gateway
+    // Sisa tagihan dibayar lewat payment gateway
     const paymentDetails = await this.paymentsService.createPayment(
       updated,
       updated.buyer,
+      gatewayAmount,
     );
 
     return {
       order: updated,
-      message: 'Silakan lakukan pembayaran untuk melanjutkan pesanan',
+      message: walletAmount.gt(0)
+        ? 'Saldo wallet terpakai. Silakan bayar sisa tagihan untuk melanjutkan pesanan'
+        : 'Silakan lakukan pembayaran untuk melanjutkan pesanan',
       paymentToken: paymentDetails.token!,
       paymentRedirectUrl: paymentDetails.redirectUrl!,
+      walletAmount,
+      gatewayAmount,
     };
   }
 
@@ -207,42 +480,9 @@ export class OrdersService {
     }
 
     try {
-      await this.prisma.$transaction(async (tx) => {
-        // Update order status
-        await tx.order.update({
-          where: { id: orderId },
-          data: {
-            status: 'PAID_ESCROW',
-            isPaid: true,
-            paidAt: new Date(),
-          },
-        });
-
-        const txId = transactionData.transaction_id as string;
-        const pType = transactionData.payment_type as string;
-
-        await tx.payment.update({
-          where: { orderId: orderId },
-          data: {
-            status: 'SETTLEMENT',
-            transactionId: txId,
-            paymentType: pType,
-          },
-        });
-
-        const service = await tx.service.findUniqueOrThrow({
-          where: { id: order.serviceId },
-          select: { sellerId: true },
-        });
-
-        // Buat notifikasi untuk Seller
-        await this.notificationService.createInTx(tx, {
-          userId: service.sellerId,
-          content: `Pesanan baru #${order.id.substring(0, 8)} telah dibayar!`,
-          link: `/seller/orders/${order.id}`,
-          type: 'ORDER',
-        });
-      });
+      await this.prisma.$transaction((tx) =>
+        this.settlePaymentInTx(tx, orderId, transactionData),
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(
@@ -256,6 +496,7 @@ export class OrdersService {
    * Seller memulai pengerjaan
    *
    * Mengubah status dari PAID_ESCROW ke IN_PROGRESS
+   * Untuk pesanan bermilestone, milestone pertama ikut dimulai
    */
   async startWork(orderId: string, sellerId: string) {
     // Ambil order dengan validasi akses seller
@@ -272,24 +513,29 @@ export class OrdersService {
       throw new NotFoundException('Order tidak ditemukan');
     }
 
-    if (order.status !== 'PAID_ESCROW') {
-      throw new BadRequestException(
-        'Hanya order yang sudah dibayar yang bisa dimulai',
-      );
-    }
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await transitionOrderStatus(tx, orderId, 'IN_PROGRESS', {
+        actor: 'SELLER',
+        actorId: sellerId,
+      });
 
-    const updated = await this.prisma.order.update({
-      where: { id: orderId },
-      data: { status: 'IN_PROGRESS' },
-      include: {
-        buyer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
+      await tx.orderMilestone.updateMany({
+        where: { orderId, sequence: 1, status: 'PENDING' },
+        data: { status: 'IN_PROGRESS' },
+      });
+
+      return tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: {
+          buyer: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true,
+            },
           },
         },
-      },
+      });
     });
 
     // TODO: Kirim notifikasi ke buyer bahwa pekerjaan dimulai
@@ -316,23 +562,27 @@ export class OrdersService {
       throw new NotFoundException('Order tidak ditemukan');
     }
 
-    if (order.status !== 'IN_PROGRESS' && order.status !== 'REVISION') {
-      throw new BadRequestException(
-        'Order harus dalam status dikerjakan atau revisi',
+    await this.assertWithoutMilestones(orderId);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await transitionOrderStatus(
+        tx,
+        orderId,
+        'DELIVERED',
+        { actor: 'SELLER', actorId: sellerId },
+        {
+          deliveryFiles: dto.deliveryFiles,
+          deliveryNote: dto.deliveryNote,
+          deliveredAt: new Date(),
+        },
       );
-    }
 
-    const updated = await this.prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'DELIVERED',
-        deliveryFiles: dto.deliveryFiles,
-        deliveryNote: dto.deliveryNote,
-        deliveredAt: new Date(),
-      },
-      include: {
-        buyer: true,
-      },
+      return tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: {
+          buyer: true,
+        },
+      });
     });
 
     // Buat notifikasi untuk Buyer
@@ -359,11 +609,7 @@ export class OrdersService {
   ) {
     const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
 
-    if (order.status !== 'DELIVERED') {
-      throw new BadRequestException(
-        'Revisi hanya bisa diminta setelah hasil dikirim',
-      );
-    }
+    await this.assertWithoutMilestones(orderId);
 
     // Cek apakah masih ada jatah revisi
     if (order.revisionCount >= order.maxRevisions) {
@@ -372,18 +618,22 @@ export class OrdersService {
       );
     }
 
-    const updated = await this.prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'REVISION',
-        revisionCount: {
-          increment: 1,
-        },
-        revisionNotes: {
-          push: dto.revisionNote,
+    const updated = await this.prisma.$transaction((tx) =>
+      transitionOrderStatus(
+        tx,
+        orderId,
+        'REVISION',
+        { actor: 'BUYER', actorId: buyerId, reason: dto.revisionNote },
+        {
+          revisionCount: {
+            increment: 1,
+          },
+          revisionNotes: {
+            push: dto.revisionNote,
+          },
         },
-      },
-    });
+      ),
+    );
 
     // TODO: Simpan detail revisi request
     // TODO: Kirim notifikasi ke seller tentang revisi
@@ -403,13 +653,217 @@ export class OrdersService {
   async approveWork(orderId: string, buyerId: string) {
     const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
 
-    if (order.status !== 'DELIVERED') {
+    await this.assertWithoutMilestones(orderId);
+
+    return this.completeOrder(orderId, order.service.sellerId, {
+      actor: 'BUYER',
+      actorId: buyerId,
+    });
+  }
+
+  /**
+   * Seller mengirimkan hasil kerja untuk satu milestone
+   *
+   * Milestone berubah dari IN_PROGRESS atau REVISION ke DELIVERED,
+   * status order ikut menjadi DELIVERED sampai buyer menanggapi
+   */
+  async deliverMilestone(
+    orderId: string,
+    milestoneId: string,
+    sellerId: string,
+    dto: DeliverOrderDto,
+  ) {
+    const order = await this.findOneWithAccess(orderId, sellerId, 'seller');
+    const milestone = await this.findMilestone(orderId, milestoneId);
+
+    if (milestone.status !== 'IN_PROGRESS' && milestone.status !== 'REVISION') {
+      throw new BadRequestException(
+        'Milestone harus dalam status dikerjakan atau revisi',
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const deliveredMilestone = await tx.orderMilestone.update({
+        where: { id: milestoneId },
+        data: {
+          status: 'DELIVERED',
+          deliveryFiles: dto.deliveryFiles,
+          deliveryNote: dto.deliveryNote,
+          deliveredAt: new Date(),
+        },
+      });
+
+      await transitionOrderStatus(tx, orderId, 'DELIVERED', {
+        actor: 'SELLER',
+        actorId: sellerId,
+        reason: `Milestone "${milestone.title}" dikirim`,
+      });
+
+      return deliveredMilestone;
+    });
+
+    // Buat notifikasi untuk Buyer
+    await this.notificationService.create({
+      userId: order.buyerId,
+      content: `Milestone "${milestone.title}" untuk pesanan #${orderId.substring(0, 8)} telah dikirim!`,
+      link: `/buyer/orders/${orderId}`,
+      type: 'ORDER',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Buyer meminta revisi untuk satu milestone
+   *
+   * Jatah revisi dihitung per order (dipakai bersama oleh semua milestone)
+   */
+  async requestMilestoneRevision(
+    orderId: string,
+    milestoneId: string,
+    buyerId: string,
+    dto: RequestRevisionDto,
+  ) {
+    const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
+    const milestone = await this.findMilestone(orderId, milestoneId);
+
+    if (milestone.status !== 'DELIVERED') {
+      throw new BadRequestException(
+        'Revisi hanya bisa diminta setelah milestone dikirim',
+      );
+    }
+
+    if (order.revisionCount >= order.maxRevisions) {
+      throw new BadRequestException(
+        `Anda sudah menggunakan semua ${order.maxRevisions} kali revisi yang tersedia`,
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await transitionOrderStatus(
+        tx,
+        orderId,
+        'REVISION',
+        { actor: 'BUYER', actorId: buyerId, reason: dto.revisionNote },
+        {
+          revisionCount: {
+            increment: 1,
+          },
+          revisionNotes: {
+            push: `[${milestone.title}] ${dto.revisionNote}`,
+          },
+        },
+      );
+
+      return tx.orderMilestone.update({
+        where: { id: milestoneId },
+        data: { status: 'REVISION' },
+      });
+    });
+
+    // Notifikasi ke Seller
+    await this.notificationService.create({
+      userId: order.service.sellerId,
+      content: `Buyer meminta revisi untuk milestone "${milestone.title}" pada pesanan #${orderId.substring(0, 8)}.`,
+      link: `/seller/orders/${orderId}`,
+      type: 'ORDER',
+    });
+
+    return updated;
+  }
+
+  /**
+   * Buyer menyetujui satu milestone
+   *
+   * Dana milestone dilepas ke seller (dikurangi fee platform).
+   * Jika ini milestone terakhir, order otomatis COMPLETED.
+   */
+  async approveMilestone(
+    orderId: string,
+    milestoneId: string,
+    buyerId: string,
+  ) {
+    const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
+    const milestone = await this.findMilestone(orderId, milestoneId);
+
+    if (milestone.status !== 'DELIVERED') {
       throw new BadRequestException(
-        'Hanya hasil yang sudah dikirim yang bisa disetujui',
+        'Hanya milestone yang sudah dikirim yang bisa disetujui',
       );
     }
 
-    return this.completeOrder(orderId, order.service.sellerId);
+    return this.releaseMilestone(orderId, milestoneId, order.service.sellerId, {
+      actor: 'BUYER',
+      actorId: buyerId,
+    });
+  }
+
+  /**
+   * Helper terpusat untuk menyetujui milestone & melepas dananya
+   * Dipanggil oleh approveMilestone (buyer) atau auto-approve (TasksService)
+   */
+  async releaseMilestone(
+    orderId: string,
+    milestoneId: string,
+    sellerId: string,
+    by: OrderActorRef,
+  ) {
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Kunci status agar dana milestone tidak dilepas dua kali
+      const { count } = await tx.orderMilestone.updateMany({
+        where: { id: milestoneId, orderId, status: 'DELIVERED' },
+        data: { status: 'APPROVED', approvedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Milestone ini sudah disetujui');
+      }
+
+      const milestone = await tx.orderMilestone.findUniqueOrThrow({
+        where: { id: milestoneId },
+      });
+
+      await this.releaseEscrow(
+        tx,
+        orderId,
+        sellerId,
+        milestone.amount,
+        `Dana milestone "${milestone.title}" untuk order #${orderId.substring(0, 8)}`,
+      );
+
+      // Lanjut ke milestone berikutnya, atau selesaikan order
+      const nextMilestone = await tx.orderMilestone.findFirst({
+        where: { orderId, status: 'PENDING' },
+        orderBy: { sequence: 'asc' },
+      });
+
+      if (!nextMilestone) {
+        const order = await this.completeOrderInTx(tx, orderId, sellerId, by);
+        return { milestone, order };
+      }
+
+      await tx.orderMilestone.update({
+        where: { id: nextMilestone.id },
+        data: { status: 'IN_PROGRESS' },
+      });
+
+      const order = await transitionOrderStatus(tx, orderId, 'IN_PROGRESS', {
+        ...by,
+        reason: `Milestone "${milestone.title}" disetujui`,
+      });
+
+      return { milestone, order };
+    });
+
+    // Notifikasi ke Seller
+    await this.notificationService.create({
+      userId: sellerId,
+      content: `Milestone "${result.milestone.title}" disetujui, dana telah diteruskan ke dompet Anda.`,
+      link: `/seller/orders/${orderId}`,
+      type: 'ORDER',
+    });
+
+    return result;
   }
 
   /**
@@ -425,7 +879,7 @@ export class OrdersService {
     userId: string,
     role: 'buyer' | 'seller',
     dto: CancelOrderDto,
-  ): Promise<Order & { refunded: boolean }> {
+  ): Promise<Order & { refunded: boolean; refundStatus: RefundStatus | null }> {
     const order = await this.prisma.order.findFirst({
       where: {
         id: orderId,
@@ -449,59 +903,111 @@ export class OrdersService {
 
     // Jika order sudah dibayar, perlu refund
     const needsRefund = order.isPaid;
-    let cancelled: Order;
 
-    // Gunakan transaction jika perlu refund
-    if (needsRefund) {
-      cancelled = await this.prisma.$transaction(async (tx) => {
-        const cancelledOrder = await tx.order.update({
-          where: { id: orderId },
-          data: {
-            status: 'CANCELLED',
+    const { cancelled, payment } = await this.prisma.$transaction(
+      async (tx) => {
+        const cancelledOrder = await transitionOrderStatus(
+          tx,
+          orderId,
+          'CANCELLED',
+          {
+            actor: role === 'buyer' ? 'BUYER' : 'SELLER',
+            actorId: userId,
+            reason: dto.reason,
+          },
+          {
             cancelledAt: new Date(),
             cancellationReason: dto.reason,
           },
-        });
+        );
 
-        // Implementasi TODO: Jika needs refund, proses refund
-        // Kembalikan dana ke wallet buyer
-        const buyerWallet = await tx.wallet.findUniqueOrThrow({
-          where: { userId: order.buyerId },
-        });
+        // Kuota voucher dikembalikan karena pesanan batal sebelum dikerjakan
+        await this.vouchersService.releaseInTx(tx, order.id);
 
-        await this.walletService.createTransaction({
+        if (!needsRefund) {
+          // Saldo wallet yang sudah terpotong untuk order ini dikembalikan
+          await this.refundWalletPaymentInTx(tx, order.id);
+          return { cancelled: cancelledOrder, payment: null };
+        }
+
+        // Buyer yang membatalkan langsung memilih tujuan refund. Jika seller
+        // yang membatalkan, buyer diberi waktu REFUND_CHOICE_HOURS untuk memilih.
+        const payment = await this.paymentsService.openRefundInTx(
           tx,
-          walletId: buyerWallet.id,
-          orderId: order.id,
-          type: 'ESCROW_REFUND',
-          amount: order.price.toNumber(), // Positif
-          description: `Refund untuk order dibatalkan #${order.id.substring(0, 8)}`,
-        });
+          order.id,
+          {
+            method:
+              role === 'buyer' ? (dto.refundMethod ?? 'WALLET') : undefined,
+            reason: dto.reason,
+          },
+        );
+
+        if (payment.refundStatus === 'REQUESTED' && !payment.refundMethod) {
+          await this.notificationService.createInTx(tx, {
+            userId: order.buyerId,
+            content: `Pesanan #${order.id.substring(0, 8)} dibatalkan seller. Pilih refund ke wallet atau ke metode pembayaran asal dalam ${REFUND_CHOICE_HOURS} jam.`,
+            link: `/orders/${order.id}`,
+            type: 'ORDER',
+          });
+        }
+
+        return { cancelled: cancelledOrder, payment };
+      },
+    );
 
-        return cancelledOrder;
-      });
-    } else {
-      // Jika tidak perlu refund, update biasa
-      cancelled = await this.prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CANCELLED',
-          cancelledAt: new Date(),
-          cancellationReason: dto.reason,
-        },
-      });
-    }
+    // Refund ke metode pembayaran asal dikirim ke gateway setelah commit
+    const refunded =
+      payment?.refundMethod === 'ORIGINAL_METHOD'
+        ? await this.paymentsService.processGatewayRefund(payment.id)
+        : payment;
 
-    return { ...cancelled, refunded: needsRefund };
+    return {
+      ...cancelled,
+      refunded: needsRefund,
+      refundStatus: refunded?.refundStatus ?? null,
+    };
   }
 
   /**
-   * Get all orders dengan filtering
-   *
-   * Mendukung view dari perspektif buyer atau seller
+   * Buyer memilih metode refund untuk order yang dibatalkan seller
    */
-  async findAll(userId: string, filters: OrderFilterDto) {
-    const { role, status, search, page, limit, sortBy } = filters;
+  async chooseRefundMethod(
+    orderId: string,
+    buyerId: string,
+    dto: ChooseRefundMethodDto,
+  ) {
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, buyerId },
+      include: { payment: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order tidak ditemukan');
+    }
+
+    if (!order.payment || order.payment.refundStatus !== 'REQUESTED') {
+      throw new BadRequestException('Tidak ada refund yang menunggu pilihan');
+    }
+
+    const paymentId = order.payment.id;
+    const payment = await this.prisma.$transaction((tx) =>
+      this.paymentsService.applyRefundMethodInTx(tx, paymentId, dto.method),
+    );
+
+    if (payment.refundMethod === 'ORIGINAL_METHOD') {
+      return this.paymentsService.processGatewayRefund(payment.id);
+    }
+
+    return payment;
+  }
+
+  /**
+   * Get all orders dengan filtering
+   *
+   * Mendukung view dari perspektif buyer atau seller
+   */
+  async findAll(userId: string, filters: OrderFilterDto) {
+    const { role, status, search, page, limit, sortBy } = filters;
 
     // --- TAMBAHKAN KONVERSI MANUAL DI SINI ---
     // Pastikan page dan limit adalah number valid
@@ -640,6 +1146,24 @@ export class OrdersService {
           },
         },
         review: true,
+        extras: true,
+        milestones: {
+          orderBy: { sequence: 'asc' },
+        },
+        deadlineExtensions: {
+          orderBy: { createdAt: 'desc' },
+        },
+        cancellationRequests: {
+          orderBy: { createdAt: 'desc' },
+        },
+        statusHistory: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            actorUser: {
+              select: { id: true, fullName: true },
+            },
+          },
+        },
         progressLogs: {
           orderBy: { createdAt: 'asc' },
         },
@@ -686,6 +1210,503 @@ export class OrdersService {
     return progress;
   }
 
+  /**
+   * Seller mengajukan perpanjangan deadline
+   *
+   * Hanya satu pengajuan yang boleh menunggu tanggapan buyer dalam satu waktu
+   */
+  async requestDeadlineExtension(
+    orderId: string,
+    sellerId: string,
+    dto: RequestDeadlineExtensionDto,
+  ) {
+    const order = await this.findOneWithAccess(orderId, sellerId, 'seller');
+
+    if (!ACTIVE_WORK_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        'Perpanjangan deadline hanya bisa diajukan saat pesanan dikerjakan',
+      );
+    }
+
+    // Body bisa berupa string ISO jika tidak melewati ZodValidationPipe
+    const requestedDueDate = new Date(dto.requestedDueDate);
+    if (Number.isNaN(requestedDueDate.getTime())) {
+      throw new BadRequestException('Deadline baru tidak valid');
+    }
+
+    if (requestedDueDate <= order.dueDate) {
+      throw new BadRequestException(
+        'Deadline baru harus setelah deadline saat ini',
+      );
+    }
+
+    const pendingExtension = await this.prisma.orderDeadlineExtension.findFirst(
+      {
+        where: { orderId, status: 'PENDING' },
+      },
+    );
+
+    if (pendingExtension) {
+      throw new BadRequestException(
+        'Masih ada pengajuan perpanjangan yang menunggu tanggapan buyer',
+      );
+    }
+
+    const extension = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.orderDeadlineExtension.create({
+        data: {
+          orderId,
+          requestedById: sellerId,
+          reason: dto.reason,
+          previousDueDate: order.dueDate,
+          requestedDueDate,
+        },
+      });
+
+      // Catat di riwayat pesanan
+      await tx.orderProgress.create({
+        data: {
+          orderId,
+          title: 'Perpanjangan deadline diajukan',
+          description: `Deadline diajukan menjadi ${requestedDueDate.toISOString()}. Alasan: ${dto.reason}`,
+          images: [],
+        },
+      });
+
+      return created;
+    });
+
+    // Notifikasi ke Buyer
+    await this.notificationService.create({
+      userId: order.buyerId,
+      content: `Penyedia jasa mengajukan perpanjangan deadline untuk pesanan #${orderId.substring(0, 8)}.`,
+      link: `/orders/${orderId}`,
+      type: 'ORDER',
+    });
+
+    return extension;
+  }
+
+  /**
+   * Buyer menerima atau menolak pengajuan perpanjangan deadline
+   *
+   * Jika diterima, dueDate order diperbarui dan status overdue direset
+   */
+  async respondDeadlineExtension(
+    orderId: string,
+    extensionId: string,
+    buyerId: string,
+    decision: 'ACCEPTED' | 'REJECTED',
+    dto: RespondDeadlineExtensionDto,
+  ) {
+    const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
+
+    const extension = await this.prisma.orderDeadlineExtension.findFirst({
+      where: { id: extensionId, orderId },
+    });
+
+    if (!extension) {
+      throw new NotFoundException('Pengajuan perpanjangan tidak ditemukan');
+    }
+
+    if (extension.status !== 'PENDING') {
+      throw new BadRequestException('Pengajuan ini sudah ditanggapi');
+    }
+
+    const accepted = decision === 'ACCEPTED';
+
+    if (accepted && !ACTIVE_WORK_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        'Pesanan ini sudah tidak dalam masa pengerjaan',
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const respondedExtension = await tx.orderDeadlineExtension.update({
+        where: { id: extensionId },
+        data: {
+          status: decision,
+          responseNote: dto.note,
+          respondedAt: new Date(),
+        },
+      });
+
+      if (accepted) {
+        await tx.order.update({
+          where: { id: orderId },
+          data: {
+            dueDate: extension.requestedDueDate,
+            deadlineWarnedAt: null,
+            overdueAt: null,
+          },
+        });
+      }
+
+      // Catat keputusan di riwayat pesanan
+      await tx.orderProgress.create({
+        data: {
+          orderId,
+          title: accepted
+            ? 'Perpanjangan deadline disetujui'
+            : 'Perpanjangan deadline ditolak',
+          description: accepted
+            ? `Deadline baru: ${extension.requestedDueDate.toISOString()}`
+            : dto.note,
+          images: [],
+        },
+      });
+
+      // Notifikasi ke Seller
+      await this.notificationService.createInTx(tx, {
+        userId: order.service.sellerId,
+        content: accepted
+          ? `Perpanjangan deadline pesanan #${orderId.substring(0, 8)} disetujui pembeli.`
+          : `Perpanjangan deadline pesanan #${orderId.substring(0, 8)} ditolak pembeli.`,
+        link: `/seller/orders/${orderId}`,
+        type: 'ORDER',
+      });
+
+      return respondedExtension;
+    });
+
+    return updated;
+  }
+
+  /**
+   * Buyer membatalkan order yang melewati deadline
+   *
+   * Hanya bisa dilakukan setelah masa tenggang OVERDUE_GRACE_PERIOD_HOURS,
+   * tanpa perlu membuka dispute. Sisa dana escrow dikembalikan penuh ke buyer.
+   */
+  async cancelOverdueOrder(orderId: string, buyerId: string) {
+    const order = await this.findOneWithAccess(orderId, buyerId, 'buyer');
+
+    if (!ACTIVE_WORK_STATUSES.includes(order.status) || !order.isPaid) {
+      throw new BadRequestException(
+        'Hanya pesanan yang sedang dikerjakan yang bisa dibatalkan karena terlambat',
+      );
+    }
+
+    const graceDeadline = new Date(order.dueDate);
+    graceDeadline.setHours(
+      graceDeadline.getHours() + OVERDUE_GRACE_PERIOD_HOURS,
+    );
+
+    if (new Date() < graceDeadline) {
+      throw new BadRequestException(
+        `Pesanan baru bisa dibatalkan ${OVERDUE_GRACE_PERIOD_HOURS} jam setelah deadline terlewati`,
+      );
+    }
+
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      const cancellationReason =
+        'Dibatalkan pembeli karena pesanan melewati deadline.';
+      const cancelledOrder = await transitionOrderStatus(
+        tx,
+        orderId,
+        'CANCELLED',
+        { actor: 'BUYER', actorId: buyerId, reason: cancellationReason },
+        { cancelledAt: new Date(), cancellationReason },
+      );
+
+      // Tolak pengajuan perpanjangan yang masih menggantung
+      await tx.orderDeadlineExtension.updateMany({
+        where: { orderId, status: 'PENDING' },
+        data: { status: 'REJECTED', respondedAt: new Date() },
+      });
+
+      // Kuota voucher dikembalikan karena pesanan batal
+      await this.vouchersService.releaseInTx(tx, order.id);
+
+      // Kembalikan sisa dana escrow ke wallet buyer
+      const buyerWallet = await tx.wallet.findUniqueOrThrow({
+        where: { userId: order.buyerId },
+      });
+
+      await this.walletService.createTransaction({
+        tx,
+        walletId: buyerWallet.id,
+        orderId: order.id,
+        type: 'ESCROW_REFUND',
+        amount: remainingBuyerEscrow(order),
+        description: `Refund untuk order terlambat #${order.id.substring(0, 8)}`,
+      });
+
+      await this.notificationService.createInTx(tx, {
+        userId: order.service.sellerId,
+        content: `Pesanan #${order.id.substring(0, 8)} dibatalkan pembeli karena melewati deadline.`,
+        link: `/seller/orders/${order.id}`,
+        type: 'ORDER',
+      });
+
+      return cancelledOrder;
+    });
+
+    return { ...cancelled, refunded: true };
+  }
+
+  /**
+   * Buyer atau seller mengajukan pembatalan bersama
+   *
+   * Untuk order yang sudah di escrow, sebagai alternatif dispute.
+   * Pengaju dapat mengusulkan sebagian dana untuk seller (sellerAmount),
+   * sisanya dikembalikan ke buyer saat pihak lain menyetujui.
+   */
+  async requestMutualCancellation(
+    orderId: string,
+    userId: string,
+    dto: RequestMutualCancellationDto,
+  ) {
+    const order = await this.findOneAsParticipant(orderId, userId);
+
+    if (!MUTUAL_CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        'Pembatalan bersama hanya untuk pesanan yang sudah dibayar dan belum selesai',
+      );
+    }
+
+    const remainingEscrow = remainingBuyerEscrow(order);
+    const rawSellerAmount = Number(dto.sellerAmount ?? 0);
+    if (!Number.isFinite(rawSellerAmount) || rawSellerAmount < 0) {
+      throw new BadRequestException(
+        'Nominal untuk penyedia jasa tidak boleh negatif',
+      );
+    }
+
+    const sellerAmount = new Prisma.Decimal(rawSellerAmount);
+    if (sellerAmount.gt(remainingEscrow)) {
+      throw new BadRequestException(
+        `Nominal untuk penyedia jasa maksimal Rp ${remainingEscrow.toFixed(0)}`,
+      );
+    }
+
+    const pendingRequest = await this.prisma.orderCancellationRequest.findFirst(
+      {
+        where: { orderId, status: 'PENDING' },
+      },
+    );
+
+    if (pendingRequest) {
+      throw new BadRequestException(
+        'Masih ada pengajuan pembatalan yang menunggu tanggapan',
+      );
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setHours(
+      expiresAt.getHours() + CANCELLATION_REQUEST_EXPIRY_HOURS,
+    );
+
+    const request = await this.prisma.orderCancellationRequest.create({
+      data: {
+        orderId,
+        requestedById: userId,
+        reason: dto.reason,
+        sellerAmount,
+        expiresAt,
+      },
+    });
+
+    // Notifikasi ke pihak lain
+    const isBuyer = order.buyerId === userId;
+    await this.notificationService.create({
+      userId: isBuyer ? order.service.sellerId : order.buyerId,
+      content: `${isBuyer ? 'Pembeli' : 'Penyedia jasa'} mengajukan pembatalan pesanan #${orderId.substring(0, 8)}. Tanggapi dalam ${CANCELLATION_REQUEST_EXPIRY_HOURS} jam.`,
+      link: isBuyer ? `/seller/orders/${orderId}` : `/orders/${orderId}`,
+      type: 'ORDER',
+    });
+
+    return request;
+  }
+
+  /**
+   * Pihak lain menyetujui atau menolak pengajuan pembatalan bersama
+   *
+   * Jika disetujui, sisa escrow dibagi otomatis:
+   * - sellerAmount dilepas ke seller (dikurangi fee platform)
+   * - sisanya dikembalikan ke buyer
+   */
+  async respondMutualCancellation(
+    orderId: string,
+    requestId: string,
+    userId: string,
+    decision: 'ACCEPTED' | 'DECLINED',
+    dto: RespondMutualCancellationDto,
+  ) {
+    const order = await this.findOneAsParticipant(orderId, userId);
+
+    const request = await this.prisma.orderCancellationRequest.findFirst({
+      where: { id: requestId, orderId },
+    });
+
+    if (!request) {
+      throw new NotFoundException('Pengajuan pembatalan tidak ditemukan');
+    }
+
+    if (request.requestedById === userId) {
+      throw new BadRequestException(
+        'Pengajuan pembatalan harus ditanggapi oleh pihak lain',
+      );
+    }
+
+    if (request.status !== 'PENDING' || request.expiresAt < new Date()) {
+      throw new BadRequestException(
+        'Pengajuan ini sudah ditanggapi atau kedaluwarsa',
+      );
+    }
+
+    const sellerId = order.service.sellerId;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Kunci status agar pengajuan tidak diproses dua kali
+      const { count } = await tx.orderCancellationRequest.updateMany({
+        where: { id: requestId, status: 'PENDING' },
+        data: {
+          status: decision,
+          responseNote: dto.note,
+          respondedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Pengajuan ini sudah ditanggapi');
+      }
+
+      if (decision === 'DECLINED') {
+        return { order, refunded: false };
+      }
+
+      // 1. Batalkan order (status divalidasi state machine)
+      const cancellationReason = `Pembatalan bersama: ${request.reason}`;
+      const cancelledOrder = await transitionOrderStatus(
+        tx,
+        orderId,
+        'CANCELLED',
+        {
+          actor: userId === sellerId ? 'SELLER' : 'BUYER',
+          actorId: userId,
+          reason: cancellationReason,
+        },
+        { cancelledAt: new Date(), cancellationReason },
+      );
+
+      // Kuota voucher dikembalikan karena pesanan batal
+      await this.vouchersService.releaseInTx(tx, orderId);
+
+      const remainingEscrow = remainingBuyerEscrow(cancelledOrder);
+      const sellerAmount = Prisma.Decimal.max(
+        Prisma.Decimal.min(request.sellerAmount, remainingEscrow),
+        0,
+      );
+      const buyerRefund = remainingEscrow.sub(sellerAmount);
+
+      // 2. Lepas bagian seller
+      await this.releaseEscrow(
+        tx,
+        orderId,
+        sellerId,
+        sellerAmount,
+        `Dana pembatalan bersama untuk order #${orderId.substring(0, 8)}`,
+        true,
+      );
+
+      // 3. Kembalikan sisanya ke buyer
+      if (buyerRefund.gt(0)) {
+        const buyerWallet = await tx.wallet.findUniqueOrThrow({
+          where: { userId: cancelledOrder.buyerId },
+        });
+
+        await this.walletService.createTransaction({
+          tx,
+          walletId: buyerWallet.id,
+          orderId,
+          type: 'ESCROW_REFUND',
+          amount: buyerRefund,
+          description: `Refund pembatalan bersama order #${orderId.substring(0, 8)}`,
+        });
+      }
+
+      // 4. Tolak pengajuan perpanjangan yang menggantung
+      await tx.orderDeadlineExtension.updateMany({
+        where: { orderId, status: 'PENDING' },
+        data: { status: 'REJECTED', respondedAt: new Date() },
+      });
+
+      return { order: cancelledOrder, refunded: buyerRefund.gt(0) };
+    });
+
+    // Notifikasi ke pengaju
+    await this.notificationService.create({
+      userId: request.requestedById,
+      content:
+        decision === 'ACCEPTED'
+          ? `Pengajuan pembatalan pesanan #${orderId.substring(0, 8)} disetujui. Dana escrow telah dibagikan.`
+          : `Pengajuan pembatalan pesanan #${orderId.substring(0, 8)} ditolak.`,
+      link:
+        request.requestedById === sellerId
+          ? `/seller/orders/${orderId}`
+          : `/orders/${orderId}`,
+      type: 'ORDER',
+    });
+
+    return result;
+  }
+
+  /**
+   * Helper untuk mendapatkan jasa internal "Penawaran Khusus" milik seller
+   * Jasa ini tidak aktif sehingga tidak pernah muncul di listing publik
+   */
+  private async getOrCreateCustomService(tx: Tx, sellerId: string) {
+    const existing = await tx.service.findFirst({
+      where: { sellerId, isCustom: true },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return tx.service.create({
+      data: {
+        sellerId,
+        title: 'Penawaran Khusus',
+        description: 'Jasa internal untuk pesanan dari penawaran khusus.',
+        category: 'OTHER',
+        price: 0,
+        deliveryTime: 1,
+        revisions: 0,
+        images: [],
+        pricingType: 'CUSTOM',
+        status: 'PAUSED',
+        isActive: false,
+        isCustom: true,
+      },
+    });
+  }
+
+  /**
+   * Helper untuk validasi akses buyer atau seller pada order
+   */
+  private async findOneAsParticipant(
+    orderId: string,
+    userId: string,
+  ): Promise<Order & { service: Service }> {
+    const order = await this.prisma.order.findFirst({
+      where: {
+        id: orderId,
+        OR: [{ buyerId: userId }, { service: { sellerId: userId } }],
+      },
+      include: {
+        service: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order tidak ditemukan');
+    }
+
+    return order;
+  }
+
   /**
    * Helper method untuk validasi akses
    */
@@ -714,57 +1735,347 @@ export class OrdersService {
   }
 
   /**
-   * [BARU] Helper terpusat untuk menyelesaikan order & melepas dana
-   * Dipanggil oleh approveWork (buyer) atau resolveDispute (admin)
+   * Helper untuk mengambil milestone milik order tertentu
    */
-  async completeOrder(orderId: string, sellerId: string) {
-    return this.prisma.$transaction(async (tx) => {
-      const completedOrder = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'COMPLETED', // (Gunakan Enum)
-          completedAt: new Date(),
+  private async findMilestone(orderId: string, milestoneId: string) {
+    const milestone = await this.prisma.orderMilestone.findFirst({
+      where: { id: milestoneId, orderId },
+    });
+
+    if (!milestone) {
+      throw new NotFoundException('Milestone tidak ditemukan');
+    }
+
+    return milestone;
+  }
+
+  /**
+   * Helper untuk menolak aksi level order pada pesanan bermilestone
+   * (pengiriman, revisi & persetujuan dilakukan per milestone)
+   */
+  private async assertWithoutMilestones(orderId: string) {
+    const milestoneCount = await this.prisma.orderMilestone.count({
+      where: { orderId },
+    });
+
+    if (milestoneCount > 0) {
+      throw new BadRequestException(
+        'Pesanan ini menggunakan milestone. Silakan kirim, revisi, atau setujui per milestone.',
+      );
+    }
+  }
+
+  /**
+   * Helper untuk menandai order lunas & menahan dananya di escrow
+   * Jalur yang sama dipakai pembayaran Midtrans maupun pembayaran penuh dari wallet
+   */
+  private async settlePaymentInTx(
+    tx: Tx,
+    orderId: string,
+    transactionData: Record<string, unknown>,
+  ) {
+    // Update order status
+    const order = await transitionOrderStatus(
+      tx,
+      orderId,
+      'PAID_ESCROW',
+      { actor: 'SYSTEM', reason: 'Pembayaran diterima' },
+      { isPaid: true, paidAt: new Date() },
+    );
+
+    const txId = transactionData.transaction_id as string | undefined;
+    const pType = transactionData.payment_type as string | undefined;
+
+    // Order yang seluruhnya ditanggung voucher belum punya record payment
+    const payment = await tx.payment.upsert({
+      where: { orderId: orderId },
+      update: {
+        status: 'SETTLEMENT',
+        transactionId: txId,
+        paymentType: pType,
+      },
+      create: {
+        orderId,
+        amount: 0,
+        status: 'SETTLEMENT',
+        gateway: 'voucher',
+        paymentType: pType,
+      },
+    });
+
+    // Dana masuk dari Midtrans ditahan di akun escrow
+    // (bagian wallet sudah masuk escrow saat dipotong dari wallet)
+    const gatewayAmount = buyerPayableAmount(order).sub(payment.walletAmount);
+    await this.ledgerService.postInTx(tx, {
+      description: `Pembayaran order #${orderId.substring(0, 8)}`,
+      orderId,
+      paymentId: payment.id,
+      lines: [
+        {
+          account: 'PAYMENT_GATEWAY',
+          direction: 'DEBIT',
+          amount: gatewayAmount,
         },
-        include: {
-          service: true,
+        {
+          account: 'ESCROW_HOLDING',
+          direction: 'CREDIT',
+          amount: gatewayAmount,
         },
-      });
+      ],
+    });
 
-      // 1. Update statistik service
-      await tx.service.update({
-        where: { id: completedOrder.serviceId },
-        data: {
-          totalOrders: { increment: 1 },
-        },
-      });
+    const service = await tx.service.findUniqueOrThrow({
+      where: { id: order.serviceId },
+      select: { sellerId: true },
+    });
 
-      // 2. Update statistik seller
-      await tx.user.update({
-        where: { id: sellerId },
-        data: {
-          totalOrdersCompleted: { increment: 1 },
-        },
-      });
+    // Buat notifikasi untuk Seller
+    await this.notificationService.createInTx(tx, {
+      userId: service.sellerId,
+      content: `Pesanan baru #${order.id.substring(0, 8)} telah dibayar!`,
+      link: `/seller/orders/${order.id}`,
+      type: 'ORDER',
+    });
+  }
 
-      // 3. Lepas dana (Escrow Release)
-      const sellerWallet = await tx.wallet.findUniqueOrThrow({
-        where: { userId: sellerId },
-      });
+  /**
+   * Helper untuk memotong bagian pembayaran dari saldo wallet buyer
+   *
+   * Potongan dicatat sekali per order (ORDER_PAYMENT) dan dipakai ulang
+   * saat buyer mengonfirmasi ulang untuk membuat link pembayaran baru.
+   *
+   * @returns Nominal yang dibayar dari wallet
+   */
+  private async reserveWalletPaymentInTx(
+    tx: Tx,
+    orderId: string,
+    buyerId: string,
+    requested: Prisma.Decimal,
+  ) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { payment: true },
+    });
 
-      const orderPrice = completedOrder.price.toNumber();
-      const platformFee = orderPrice * 0.1; // 10% fee
-      const amountToSeller = orderPrice - platformFee;
+    if (order.payment?.walletAmount.gt(0)) {
+      return order.payment.walletAmount;
+    }
 
-      await this.walletService.createTransaction({
-        tx,
-        walletId: sellerWallet.id,
-        orderId: completedOrder.id,
-        type: 'ESCROW_RELEASE', // (Gunakan Enum)
-        amount: amountToSeller,
-        description: `Dana Masuk untuk order #${completedOrder.id.substring(0, 8)}`,
-      });
+    if (requested.lte(0)) {
+      return new Prisma.Decimal(0);
+    }
+
+    const payable = buyerPayableAmount(order);
+    if (requested.gt(payable)) {
+      throw new BadRequestException(
+        `Nominal wallet maksimal Rp ${payable.toFixed(0)}`,
+      );
+    }
+
+    const wallet = await this.walletService.getWalletByUserId(buyerId);
+    if (wallet.balance.lt(requested)) {
+      throw new BadRequestException('Saldo wallet tidak mencukupi');
+    }
+
+    const payment = await tx.payment.upsert({
+      where: { orderId },
+      update: {
+        amount: payable,
+        walletAmount: requested,
+        gatewayAmount: payable.sub(requested),
+      },
+      create: {
+        orderId,
+        amount: payable,
+        walletAmount: requested,
+        gatewayAmount: payable.sub(requested),
+        status: 'PENDING',
+        gateway: requested.eq(payable) ? 'wallet' : 'midtrans',
+      },
+    });
+
+    await this.walletService.createTransaction({
+      tx,
+      walletId: wallet.id,
+      orderId,
+      paymentId: payment.id,
+      type: 'ORDER_PAYMENT',
+      amount: requested.neg(),
+      description: `Pembayaran order #${orderId.substring(0, 8)} dari wallet`,
+    });
+
+    return requested;
+  }
+
+  /**
+   * Mengembalikan bagian pembayaran wallet untuk order yang batal sebelum lunas
+   * Dipanggil juga oleh TasksService saat order belum dibayar kedaluwarsa
+   */
+  async refundWalletPaymentInTx(tx: Tx, orderId: string) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { payment: true },
+    });
+
+    if (order.isPaid || !order.payment?.walletAmount.gt(0)) {
+      return;
+    }
+
+    const buyerWallet = await tx.wallet.findUniqueOrThrow({
+      where: { userId: order.buyerId },
+    });
+
+    await this.walletService.createTransaction({
+      tx,
+      walletId: buyerWallet.id,
+      orderId,
+      paymentId: order.payment.id,
+      type: 'ESCROW_REFUND',
+      amount: order.payment.walletAmount,
+      description: `Pengembalian saldo wallet untuk order dibatalkan #${orderId.substring(0, 8)}`,
+    });
+
+    await tx.payment.update({
+      where: { id: order.payment.id },
+      data: { status: 'CANCELLED' },
+    });
+  }
+
+  /**
+   * Helper untuk melepas sebagian/seluruh dana escrow ke seller
+   * Fee platform (sesuai aturan fee yang berlaku) dipotong dari nominal
+   * yang dilepas dan dicatat di ledger fee platform
+   *
+   * Nominal dibatasi hak seller yang tersisa (berkurang jika diskon voucher
+   * ditanggung seller). Diskon voucher platform disetor ke escrow saat dana
+   * buyer tidak lagi mencukupi, sehingga fee dihitung dari harga penuh.
+   *
+   * Fee minimal hanya ditagih sekali, yaitu pada pelepasan terakhir (sisa hak
+   * seller habis, atau finalRelease untuk order yang dibatalkan).
+   */
+  private async releaseEscrow(
+    tx: Tx,
+    orderId: string,
+    sellerId: string,
+    requested: Prisma.Decimal,
+    description: string,
+    finalRelease?: boolean,
+  ) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+    });
+    const remaining = remainingSellerRelease(order);
+    const amount = Prisma.Decimal.min(requested, remaining);
+
+    if (amount.lte(0)) {
+      return;
+    }
+
+    const discountTopUp = platformDiscountTopUp(order, amount);
+    if (discountTopUp.gt(0)) {
+      await this.vouchersService.fundDiscountInTx(tx, orderId, discountTopUp);
+    }
+
+    const sellerWallet = await tx.wallet.findUniqueOrThrow({
+      where: { userId: sellerId },
+    });
 
-      return completedOrder;
+    const platformFee = await this.feesService.chargeInTx(tx, {
+      orderId,
+      amount,
+      description,
+      finalRelease: finalRelease ?? amount.eq(remaining),
     });
+    const amountToSeller = amount.sub(platformFee);
+
+    await this.walletService.createTransaction({
+      tx,
+      walletId: sellerWallet.id,
+      orderId,
+      type: 'ESCROW_RELEASE', // (Gunakan Enum)
+      amount: amountToSeller,
+      description,
+    });
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: { escrowReleased: { increment: amount } },
+    });
+  }
+
+  /**
+   * [BARU] Helper terpusat untuk menyelesaikan order & melepas dana
+   * Dipanggil oleh approveWork (buyer) atau auto-complete (TasksService)
+   */
+  async completeOrder(orderId: string, sellerId: string, by: OrderActorRef) {
+    return this.prisma.$transaction((tx) =>
+      this.completeOrderInTx(tx, orderId, sellerId, by),
+    );
+  }
+
+  /**
+   * Versi completeOrder di dalam transaksi yang sudah berjalan
+   *
+   * Dana yang dilepas adalah sisa escrow: seluruh harga untuk order biasa,
+   * atau milestone yang belum disetujui untuk order bermilestone
+   * (dikurangi diskon voucher yang ditanggung seller).
+   * Dipanggil juga oleh resolveDispute (admin) di dalam transaksinya.
+   */
+  async completeOrderInTx(
+    tx: Tx,
+    orderId: string,
+    sellerId: string,
+    by: OrderActorRef,
+  ) {
+    const order = await transitionOrderStatus(tx, orderId, 'COMPLETED', by, {
+      completedAt: new Date(),
+    });
+
+    // 1. Lepas sisa dana (Escrow Release)
+    await tx.orderMilestone.updateMany({
+      where: { orderId, status: { not: 'APPROVED' } },
+      data: { status: 'APPROVED', approvedAt: new Date() },
+    });
+
+    await this.releaseEscrow(
+      tx,
+      orderId,
+      sellerId,
+      remainingSellerRelease(order),
+      `Dana Masuk untuk order #${orderId.substring(0, 8)}`,
+    );
+
+    const completedOrder = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        service: true,
+      },
+    });
+
+    // 2. Update statistik service
+    await tx.service.update({
+      where: { id: completedOrder.serviceId },
+      data: {
+        totalOrders: { increment: 1 },
+      },
+    });
+
+    // 3. Update statistik seller
+    await tx.user.update({
+      where: { id: sellerId },
+      data: {
+        totalOrdersCompleted: { increment: 1 },
+      },
+    });
+
+    // 4. Bonus referral jika ini order pertama buyer yang diundang
+    await this.referralsService.rewardInTx(
+      tx,
+      completedOrder.buyerId,
+      orderId,
+      sellerId,
+    );
+
+    return completedOrder;
   }
 }
@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import {
+  buyerPayableAmount,
+  platformDiscountTopUp,
+  remainingBuyerEscrow,
+  remainingSellerRelease,
+  sellerEscrowTotal,
+  type EscrowOrder,
+} from './order-escrow';
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+const order = (overrides: Partial<EscrowOrder> = {}): EscrowOrder => ({
+  price: d(100000),
+  discountAmount: d(20000),
+  discountFundedBy: 'PLATFORM',
+  escrowReleased: d(0),
+  ...overrides,
+});
+
+describe('buyerPayableAmount', () => {
+  it('subtracts the voucher discount from the price', () => {
+    expect(buyerPayableAmount(order()).toNumber()).toBe(80000);
+  });
+
+  it('never goes below zero', () => {
+    expect(
+      buyerPayableAmount(order({ discountAmount: d(150000) })).toNumber(),
+    ).toBe(0);
+  });
+});
+
+describe('sellerEscrowTotal', () => {
+  it('keeps the full price for platform-funded discounts', () => {
+    expect(sellerEscrowTotal(order()).toNumber()).toBe(100000);
+  });
+
+  it('reduces the seller share for seller-funded discounts', () => {
+    expect(
+      sellerEscrowTotal(order({ discountFundedBy: 'SELLER' })).toNumber(),
+    ).toBe(80000);
+  });
+
+  it('equals the price without a voucher', () => {
+    expect(
+      sellerEscrowTotal(
+        order({ discountAmount: d(0), discountFundedBy: null }),
+      ).toNumber(),
+    ).toBe(100000);
+  });
+});
+
+describe('remainingBuyerEscrow', () => {
+  it('only counts money paid by the buyer', () => {
+    expect(remainingBuyerEscrow(order()).toNumber()).toBe(80000);
+    expect(
+      remainingBuyerEscrow(order({ escrowReleased: d(60000) })).toNumber(),
+    ).toBe(20000);
+    expect(
+      remainingBuyerEscrow(order({ escrowReleased: d(90000) })).toNumber(),
+    ).toBe(0);
+  });
+});
+
+describe('remainingSellerRelease', () => {
+  it('includes the platform-funded discount', () => {
+    expect(
+      remainingSellerRelease(order({ escrowReleased: d(60000) })).toNumber(),
+    ).toBe(40000);
+  });
+
+  it('excludes the seller-funded discount', () => {
+    expect(
+      remainingSellerRelease(
+        order({ discountFundedBy: 'SELLER', escrowReleased: d(60000) }),
+      ).toNumber(),
+    ).toBe(20000);
+  });
+});
+
+describe('platformDiscountTopUp', () => {
+  it('is zero while the buyer payment still covers the release', () => {
+    expect(platformDiscountTopUp(order(), d(60000)).toNumber()).toBe(0);
+  });
+
+  it('covers the part of the release above the buyer payment', () => {
+    expect(
+      platformDiscountTopUp(
+        order({ escrowReleased: d(60000) }),
+        d(40000),
+      ).toNumber(),
+    ).toBe(20000);
+    expect(platformDiscountTopUp(order(), d(100000)).toNumber()).toBe(20000);
+  });
+
+  it('does not charge the same discount twice', () => {
+    expect(
+      platformDiscountTopUp(
+        order({ escrowReleased: d(90000) }),
+        d(10000),
+      ).toNumber(),
+    ).toBe(10000);
+  });
+
+  it('is zero for seller-funded discounts', () => {
+    expect(
+      platformDiscountTopUp(
+        order({ discountFundedBy: 'SELLER' }),
+        d(80000),
+      ).toNumber(),
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { Prisma } from '@prisma/client';
+import type { Order } from '@prisma/client';
+
+/**
+ * Helper untuk menghitung dana escrow order yang memakai voucher
+ *
+ * Escrow hanya menampung uang yang benar-benar dibayar buyer
+ * (price - discountAmount). Siapa yang menanggung diskon menentukan
+ * berapa yang menjadi hak seller:
+ * - SELLER: hak seller ikut berkurang sebesar diskon
+ * - PLATFORM: hak seller tetap sebesar price, selisihnya disetor platform
+ *   ke escrow saat dana terakhir dilepas ke seller
+ */
+
+export type EscrowOrder = Pick<
+  Order,
+  'price' | 'discountAmount' | 'discountFundedBy' | 'escrowReleased'
+>;
+
+const zero = () => new Prisma.Decimal(0);
+
+/**
+ * Nominal yang dibayar buyer setelah potongan voucher
+ */
+export function buyerPayableAmount(
+  order: Pick<Order, 'price' | 'discountAmount'>,
+) {
+  return Prisma.Decimal.max(order.price.sub(order.discountAmount), zero());
+}
+
+/**
+ * Total dana (sebelum fee) yang menjadi hak seller
+ */
+export function sellerEscrowTotal(order: EscrowOrder) {
+  return order.discountFundedBy === 'SELLER'
+    ? buyerPayableAmount(order)
+    : order.price;
+}
+
+/**
+ * Sisa dana buyer yang masih ditahan di escrow (dasar refund ke buyer)
+ */
+export function remainingBuyerEscrow(order: EscrowOrder) {
+  return Prisma.Decimal.max(
+    buyerPayableAmount(order).sub(order.escrowReleased),
+    zero(),
+  );
+}
+
+/**
+ * Sisa dana yang masih bisa dilepas ke seller
+ */
+export function remainingSellerRelease(order: EscrowOrder) {
+  return Prisma.Decimal.max(
+    sellerEscrowTotal(order).sub(order.escrowReleased),
+    zero(),
+  );
+}
+
+/**
+ * Porsi diskon platform yang harus disetor ke escrow saat melepas `amount`
+ *
+ * Dana buyer dipakai lebih dulu; setoran platform hanya menutup bagian
+ * yang melebihi nominal yang dibayar buyer.
+ */
+export function platformDiscountTopUp(
+  order: EscrowOrder,
+  amount: Prisma.Decimal,
+) {
+  if (order.discountFundedBy !== 'PLATFORM') {
+    return zero();
+  }
+
+  const paid = buyerPayableAmount(order);
+  const coveredBefore = Prisma.Decimal.max(
+    order.escrowReleased.sub(paid),
+    zero(),
+  );
+  const coveredAfter = Prisma.Decimal.max(
+    order.escrowReleased.add(amount).sub(paid),
+    zero(),
+  );
+
+  return coveredAfter.sub(coveredBefore);
+}
@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { prepareMilestones } from './order-milestones';
+
+describe('prepareMilestones', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('assigns sequence numbers in the given order', () => {
+    const milestones = prepareMilestones(
+      [
+        { title: 'Desain UI', amount: 400000, dueDate: new Date('2026-01-10') },
+        { title: 'Backend', amount: 600000, dueDate: new Date('2026-01-20') },
+      ],
+      new Prisma.Decimal(1000000),
+      now,
+    );
+
+    expect(milestones.map((m) => m.sequence)).toEqual([1, 2]);
+    expect(milestones[1].amount.toNumber()).toBe(600000);
+  });
+
+  it('rejects milestones that do not add up to the order price', () => {
+    expect(() =>
+      prepareMilestones(
+        [
+          { title: 'Bab 1', amount: 100000, dueDate: new Date('2026-01-10') },
+          { title: 'Bab 2', amount: 100000, dueDate: new Date('2026-01-20') },
+        ],
+        new Prisma.Decimal(250000),
+        now,
+      ),
+    ).toThrow('harus sama dengan harga pesanan');
+  });
+
+  it('rejects due dates that are not in ascending order', () => {
+    expect(() =>
+      prepareMilestones(
+        [
+          { title: 'Bab 1', amount: 100000, dueDate: new Date('2026-01-20') },
+          { title: 'Bab 2', amount: 100000, dueDate: new Date('2026-01-10') },
+        ],
+        new Prisma.Decimal(200000),
+        now,
+      ),
+    ).toThrow('Tenggat milestone "Bab 2"');
+  });
+
+  it('coerces due dates sent as strings before comparing them', () => {
+    const milestones = prepareMilestones(
+      [
+        { title: 'Bab 1', amount: '100000', dueDate: '2026-01-10T00:00:00Z' },
+        { title: 'Bab 2', amount: '100000', dueDate: '2026-01-20T00:00:00Z' },
+      ],
+      new Prisma.Decimal(200000),
+      now,
+    );
+
+    expect(milestones[0].dueDate).toBeInstanceOf(Date);
+    expect(milestones[1].amount.toNumber()).toBe(100000);
+  });
+
+  it('rejects string due dates in the past', () => {
+    expect(() =>
+      prepareMilestones(
+        [
+          { title: 'Bab 1', amount: 100000, dueDate: '2025-12-31T00:00:00Z' },
+          { title: 'Bab 2', amount: 100000, dueDate: '2026-01-20T00:00:00Z' },
+        ],
+        new Prisma.Decimal(200000),
+        now,
+      ),
+    ).toThrow('Tenggat milestone "Bab 1"');
+  });
+
+  it('rejects milestones without a positive amount', () => {
+    expect(() =>
+      prepareMilestones(
+        [
+          { title: 'Bab 1', amount: 0, dueDate: '2026-01-10T00:00:00Z' },
+          { title: 'Bab 2', amount: 100000, dueDate: '2026-01-20T00:00:00Z' },
+        ],
+        new Prisma.Decimal(100000),
+        now,
+      ),
+    ).toThrow('Nominal milestone harus lebih dari 0');
+  });
+
+  it('rejects fewer than 2 or more than 10 milestones', () => {
+    const milestone = (day: number) => ({
+      title: `Bab ${day}`,
+      amount: 100000,
+      dueDate: new Date(`2026-01-${String(day).padStart(2, '0')}`),
+    });
+
+    expect(() =>
+      prepareMilestones([milestone(10)], new Prisma.Decimal(100000), now),
+    ).toThrow('Minimal 2 milestone');
+    expect(() =>
+      prepareMilestones(
+        Array.from({ length: 11 }, (_, index) => milestone(index + 2)),
+        new Prisma.Decimal(1100000),
+        now,
+      ),
+    ).toThrow('Maksimal 10 milestone');
+  });
+
+  it('rejects milestones that are not sent as a list', () => {
+    expect(() =>
+      prepareMilestones('Bab 1', new Prisma.Decimal(100000), now),
+    ).toThrow(new BadRequestException('Milestone harus berupa daftar'));
+  });
+});
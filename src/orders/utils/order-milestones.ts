@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { CreateOrderSchema } from '../dto/order.dto';
+
+/**
+ * Helper untuk memvalidasi & menyiapkan milestone pesanan
+ */
+
+export type PreparedMilestone = {
+  sequence: number;
+  title: string;
+  description?: string;
+  amount: Prisma.Decimal;
+  dueDate: Date;
+};
+
+/**
+ * Validasi milestone dari buyer terhadap harga total pesanan
+ *
+ * - Jumlah milestone 2 sampai 10 (sesuai CreateOrderSchema)
+ * - Total nominal milestone harus sama persis dengan harga pesanan
+ * - Nominal tiap milestone harus lebih dari 0
+ * - Tenggat tiap milestone harus di masa depan dan berurutan
+ * - Urutan (sequence) mengikuti urutan array, dimulai dari 1
+ */
+export function prepareMilestones(
+  milestones: unknown,
+  orderPrice: Prisma.Decimal,
+  now: Date = new Date(),
+): PreparedMilestone[] {
+  // Body tidak melewati ZodValidationPipe: dueDate masih string, amount dan
+  // jumlah milestone belum divalidasi, jadi parse ulang seluruh array di sini
+  const parsed = CreateOrderSchema.shape.milestones
+    .unwrap()
+    .safeParse(milestones);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const [index] = issue.path;
+    throw new BadRequestException(
+      typeof index === 'number'
+        ? `Milestone ke-${index + 1}: ${issue.message}`
+        : issue.message,
+    );
+  }
+
+  const prepared = parsed.data.map((milestone, index) => ({
+    sequence: index + 1,
+    title: milestone.title,
+    description: milestone.description,
+    amount: new Prisma.Decimal(milestone.amount),
+    dueDate: milestone.dueDate,
+  }));
+
+  const total = prepared.reduce(
+    (sum, milestone) => sum.add(milestone.amount),
+    new Prisma.Decimal(0),
+  );
+
+  if (!total.equals(orderPrice)) {
+    throw new BadRequestException(
+      `Total nominal milestone (Rp ${total.toFixed(0)}) harus sama dengan harga pesanan (Rp ${orderPrice.toFixed(0)})`,
+    );
+  }
+
+  let previousDueDate = now;
+  for (const milestone of prepared) {
+    if (milestone.dueDate <= previousDueDate) {
+      throw new BadRequestException(
+        `Tenggat milestone "${milestone.title}" harus di masa depan dan setelah milestone sebelumnya`,
+      );
+    }
+    previousDueDate = milestone.dueDate;
+  }
+
+  return prepared;
+}
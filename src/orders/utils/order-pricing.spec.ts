@@ -0,0 +1,95 @@
+import { Prisma } from '@prisma/client';
+import { calculateOrderPricing, summarizeExtras } from './order-pricing';
+
+describe('calculateOrderPricing', () => {
+  const baseService = {
+    price: new Prisma.Decimal(50000),
+    pricingType: null as string | null,
+    pricePerUnit: null as Prisma.Decimal | null,
+    minimumOrder: null as number | null,
+  };
+
+  it('uses the flat service price for FIXED services', () => {
+    const pricing = calculateOrderPricing({
+      ...baseService,
+      pricingType: 'FIXED',
+    });
+
+    expect(pricing.quantity).toBe(1);
+    expect(pricing.price.toNumber()).toBe(50000);
+  });
+
+  it('rejects quantity on flat priced services', () => {
+    expect(() => calculateOrderPricing(baseService, 3)).toThrow(
+      'Jasa ini menggunakan harga tetap',
+    );
+  });
+
+  it('multiplies pricePerUnit by quantity for PER_PAGE services', () => {
+    const pricing = calculateOrderPricing(
+      {
+        ...baseService,
+        pricingType: 'PER_PAGE',
+        pricePerUnit: new Prisma.Decimal(2500),
+        minimumOrder: 5,
+      },
+      12,
+    );
+
+    expect(pricing.quantity).toBe(12);
+    expect(pricing.unitPrice.toNumber()).toBe(2500);
+    expect(pricing.price.toNumber()).toBe(30000);
+  });
+
+  it('defaults quantity to minimumOrder', () => {
+    const pricing = calculateOrderPricing({
+      ...baseService,
+      pricingType: 'PER_HOUR',
+      pricePerUnit: new Prisma.Decimal(40000),
+      minimumOrder: 2,
+    });
+
+    expect(pricing.quantity).toBe(2);
+    expect(pricing.price.toNumber()).toBe(80000);
+  });
+
+  it('rejects quantity below minimumOrder', () => {
+    expect(() =>
+      calculateOrderPricing(
+        {
+          ...baseService,
+          pricingType: 'PER_WORD',
+          pricePerUnit: new Prisma.Decimal(100),
+          minimumOrder: 500,
+        },
+        100,
+      ),
+    ).toThrow('Minimal pemesanan untuk jasa ini adalah 500 unit');
+  });
+
+  it('uses the package price when a package is selected', () => {
+    const pricing = calculateOrderPricing(
+      {
+        ...baseService,
+        pricingType: 'PER_PAGE',
+        pricePerUnit: new Prisma.Decimal(2500),
+      },
+      undefined,
+      { price: new Prisma.Decimal(150000) },
+    );
+
+    expect(pricing.quantity).toBe(1);
+    expect(pricing.price.toNumber()).toBe(150000);
+  });
+
+  it('sums price, delivery days and revisions of selected extras', () => {
+    const summary = summarizeExtras([
+      { price: new Prisma.Decimal(20000), deliveryDays: 0, revisions: 1 },
+      { price: new Prisma.Decimal(35000), deliveryDays: -2, revisions: 0 },
+    ]);
+
+    expect(summary.price.toNumber()).toBe(55000);
+    expect(summary.deliveryDays).toBe(-2);
+    expect(summary.revisions).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { Service, ServiceExtra, ServicePackage } from '@prisma/client';
+
+/**
+ * Helper untuk menghitung harga order berdasarkan tipe pricing service
+ */
+
+/**
+ * Tipe pricing yang harganya tidak bergantung pada jumlah unit
+ */
+const FLAT_PRICING_TYPES = ['FIXED', 'CUSTOM'];
+
+export type OrderPricing = {
+  pricingType: string | null;
+  unitPrice: Prisma.Decimal;
+  quantity: number;
+  price: Prisma.Decimal;
+};
+
+/**
+ * Cek apakah service dihargai per unit (per halaman, per jam, dll)
+ */
+export function isUnitPriced(
+  service: Pick<Service, 'pricingType' | 'pricePerUnit'>,
+): boolean {
+  return (
+    !!service.pricingType &&
+    !FLAT_PRICING_TYPES.includes(service.pricingType) &&
+    !!service.pricePerUnit
+  );
+}
+
+/**
+ * Hitung harga order dari service dan jumlah unit yang dipesan
+ *
+ * - Paket dipilih: harga = harga paket, quantity = 1
+ * - FIXED / CUSTOM (atau tanpa pricePerUnit): harga = service.price, quantity = 1
+ * - PER_PAGE, PER_HOUR, dll: harga = pricePerUnit x quantity,
+ *   quantity default ke minimumOrder dan tidak boleh di bawahnya
+ */
+export function calculateOrderPricing(
+  service: Pick<
+    Service,
+    'price' | 'pricingType' | 'pricePerUnit' | 'minimumOrder'
+  >,
+  quantity?: number,
+  servicePackage?: Pick<ServicePackage, 'price'>,
+): OrderPricing {
+  if (servicePackage) {
+    if (quantity !== undefined && quantity !== 1) {
+      throw new BadRequestException(
+        'Pesanan paket tidak dapat diubah jumlahnya',
+      );
+    }
+
+    return {
+      pricingType: service.pricingType,
+      unitPrice: new Prisma.Decimal(servicePackage.price),
+      quantity: 1,
+      price: new Prisma.Decimal(servicePackage.price),
+    };
+  }
+
+  if (!isUnitPriced(service)) {
+    if (quantity !== undefined && quantity !== 1) {
+      throw new BadRequestException(
+        'Jasa ini menggunakan harga tetap, jumlah pesanan tidak dapat diubah',
+      );
+    }
+
+    return {
+      pricingType: service.pricingType,
+      unitPrice: new Prisma.Decimal(service.price),
+      quantity: 1,
+      price: new Prisma.Decimal(service.price),
+    };
+  }
+
+  const minimumOrder = service.minimumOrder ?? 1;
+  const finalQuantity = quantity ?? minimumOrder;
+
+  if (finalQuantity < minimumOrder) {
+    throw new BadRequestException(
+      `Minimal pemesanan untuk jasa ini adalah ${minimumOrder} unit`,
+    );
+  }
+
+  const unitPrice = new Prisma.Decimal(service.pricePerUnit!);
+
+  return {
+    pricingType: service.pricingType,
+    unitPrice,
+    quantity: finalQuantity,
+    price: unitPrice.mul(finalQuantity),
+  };
+}
+
+/**
+ * Hitung total penyesuaian dari extras yang dipilih buyer
+ * (tambahan harga, perubahan hari pengerjaan, tambahan revisi)
+ */
+export function summarizeExtras(
+  extras: Pick<ServiceExtra, 'price' | 'deliveryDays' | 'revisions'>[],
+) {
+  return extras.reduce(
+    (total, extra) => ({
+      price: total.price.add(extra.price),
+      deliveryDays: total.deliveryDays + extra.deliveryDays,
+      revisions: total.revisions + extra.revisions,
+    }),
+    { price: new Prisma.Decimal(0), deliveryDays: 0, revisions: 0 },
+  );
+}
@@ -0,0 +1,39 @@
+import {
+  assertOrderTransition,
+  canTransitionOrder,
+} from './order-state-machine';
+
+describe('order state machine', () => {
+  it('allows the seller to start a paid order', () => {
+    expect(canTransitionOrder('PAID_ESCROW', 'IN_PROGRESS', 'SELLER')).toBe(
+      true,
+    );
+  });
+
+  it('does not allow the buyer to start work', () => {
+    expect(canTransitionOrder('PAID_ESCROW', 'IN_PROGRESS', 'BUYER')).toBe(
+      false,
+    );
+  });
+
+  it('only lets the system mark an order as paid', () => {
+    expect(canTransitionOrder('WAITING_PAYMENT', 'PAID_ESCROW', 'SYSTEM')).toBe(
+      true,
+    );
+    expect(canTransitionOrder('WAITING_PAYMENT', 'PAID_ESCROW', 'BUYER')).toBe(
+      false,
+    );
+  });
+
+  it('only lets an admin or the system settle a disputed order', () => {
+    expect(canTransitionOrder('DISPUTED', 'COMPLETED', 'ADMIN')).toBe(true);
+    expect(canTransitionOrder('DISPUTED', 'RESOLVED', 'SYSTEM')).toBe(true);
+    expect(canTransitionOrder('DISPUTED', 'COMPLETED', 'BUYER')).toBe(false);
+  });
+
+  it('treats completed orders as final', () => {
+    expect(() =>
+      assertOrderTransition('COMPLETED', 'DISPUTED', 'BUYER'),
+    ).toThrow('Status pesanan tidak dapat diubah dari COMPLETED ke DISPUTED');
+  });
+});
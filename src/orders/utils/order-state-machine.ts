@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import type {
+  Order,
+  OrderActor,
+  OrderStatus,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+
+/**
+ * State machine terpusat untuk status order
+ *
+ * Semua perubahan Order.status harus lewat transitionOrderStatus agar
+ * aturan transisi per aktor konsisten dan setiap perubahan tercatat
+ * di OrderStatusHistory.
+ */
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+/**
+ * Pihak yang melakukan perubahan status (actorId kosong untuk SYSTEM)
+ */
+export type OrderActorRef = {
+  actor: OrderActor;
+  actorId?: string | null;
+  reason?: string;
+};
+
+/**
+ * Transisi yang diizinkan: status asal -> status tujuan -> aktor yang boleh
+ */
+const ORDER_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderActor[]>>
+> = {
+  DRAFT: {
+    WAITING_PAYMENT: ['BUYER'],
+    CANCELLED: ['BUYER', 'SELLER', 'SYSTEM'],
+  },
+  WAITING_PAYMENT: {
+    PAID_ESCROW: ['SYSTEM'],
+    CANCELLED: ['BUYER', 'SELLER', 'SYSTEM'],
+  },
+  PAID_ESCROW: {
+    IN_PROGRESS: ['SELLER'],
+    CANCELLED: ['BUYER', 'SELLER', 'SYSTEM'],
+  },
+  IN_PROGRESS: {
+    DELIVERED: ['SELLER'],
+    DISPUTED: ['BUYER', 'SELLER'],
+    CANCELLED: ['BUYER', 'SELLER'],
+  },
+  DELIVERED: {
+    REVISION: ['BUYER'],
+    // Kembali dikerjakan saat milestone disetujui & milestone berikutnya dimulai
+    IN_PROGRESS: ['BUYER', 'SYSTEM'],
+    COMPLETED: ['BUYER', 'SYSTEM'],
+    DISPUTED: ['BUYER', 'SELLER'],
+    CANCELLED: ['BUYER', 'SELLER'],
+  },
+  REVISION: {
+    DELIVERED: ['SELLER'],
+    DISPUTED: ['BUYER', 'SELLER'],
+    CANCELLED: ['BUYER', 'SELLER'],
+  },
+  DISPUTED: {
+    // SYSTEM: sengketa diputus otomatis karena salah satu pihak tidak merespons
+    RESOLVED: ['ADMIN', 'SYSTEM'],
+    COMPLETED: ['ADMIN', 'SYSTEM'],
+  },
+  COMPLETED: {},
+  CANCELLED: {},
+  RESOLVED: {},
+};
+
+/**
+ * Cek apakah aktor boleh mengubah status order dari `from` ke `to`
+ */
+export function canTransitionOrder(
+  from: OrderStatus,
+  to: OrderStatus,
+  actor: OrderActor,
+): boolean {
+  return ORDER_TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+/**
+ * Lempar error yang konsisten jika transisi tidak diizinkan
+ */
+export function assertOrderTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  actor: OrderActor,
+) {
+  if (!canTransitionOrder(from, to, actor)) {
+    throw new BadRequestException(
+      `Status pesanan tidak dapat diubah dari ${from} ke ${to} oleh ${actor}`,
+    );
+  }
+}
+
+/**
+ * Ubah status order (dengan data tambahan opsional) dan catat riwayatnya
+ *
+ * Harus dipanggil di dalam transaksi agar update & riwayat atomik.
+ * Update memakai status asal sebagai guard, sehingga perubahan yang
+ * berlomba (race) dengan transisi lain akan gagal.
+ */
+export async function transitionOrderStatus(
+  tx: Tx,
+  orderId: string,
+  to: OrderStatus,
+  by: OrderActorRef,
+  data: Omit<Prisma.OrderUncheckedUpdateInput, 'status'> = {},
+): Promise<Order> {
+  const { status: from } = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { status: true },
+  });
+
+  assertOrderTransition(from, to, by.actor);
+
+  const updated = await tx.order.update({
+    where: { id: orderId, status: from },
+    data: { ...data, status: to },
+  });
+
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: from,
+      toStatus: to,
+      actor: by.actor,
+      actorId: by.actorId,
+      reason: by.reason,
+    },
+  });
+
+  return updated;
+}
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdminPaymentsController } from './admin-payments.controller';
+import { PaymentsService } from './payments.service';
+
+describe('AdminPaymentsController', () => {
+  let controller: AdminPaymentsController;
+
+  const mockPaymentsService = {
+    getRefunds: jest.fn(),
+    processGatewayRefund: jest.fn(),
+    refundFailedToWallet: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminPaymentsController],
+      providers: [{ provide: PaymentsService, useValue: mockPaymentsService }],
+    }).compile();
+
+    controller = module.get<AdminPaymentsController>(AdminPaymentsController);
+  });
+
+  it('filters refunds by status', async () => {
+    mockPaymentsService.getRefunds.mockResolvedValue([{ id: 'payment-1' }]);
+
+    const result = await controller.getRefunds('FAILED');
+
+    expect(mockPaymentsService.getRefunds).toHaveBeenCalledWith('FAILED');
+    expect(result).toEqual({ success: true, data: [{ id: 'payment-1' }] });
+  });
+
+  describe('retryRefund', () => {
+    it('reports a refund that was sent again', async () => {
+      mockPaymentsService.processGatewayRefund.mockResolvedValue({
+        id: 'payment-1',
+        refundStatus: 'REFUNDED',
+        refundError: null,
+      });
+
+      const result = await controller.retryRefund('payment-1');
+
+      expect(mockPaymentsService.processGatewayRefund).toHaveBeenCalledWith(
+        'payment-1',
+      );
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Refund berhasil dikirim ulang');
+    });
+
+    it('surfaces the gateway error when the retry fails again', async () => {
+      mockPaymentsService.processGatewayRefund.mockResolvedValue({
+        id: 'payment-1',
+        refundStatus: 'FAILED',
+        refundError: 'Transaksi sudah kedaluwarsa',
+      });
+
+      const result = await controller.retryRefund('payment-1');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Refund gagal: Transaksi sudah kedaluwarsa');
+    });
+  });
+
+  it('moves a failed refund to the buyer wallet', async () => {
+    mockPaymentsService.refundFailedToWallet.mockResolvedValue({
+      id: 'payment-1',
+      refundStatus: 'REFUNDED',
+    });
+
+    const result = await controller.refundToWallet('payment-1');
+
+    expect(mockPaymentsService.refundFailedToWallet).toHaveBeenCalledWith(
+      'payment-1',
+    );
+    expect(result).toEqual({
+      success: true,
+      message: 'Refund dialihkan ke wallet buyer',
+      data: { id: 'payment-1', refundStatus: 'REFUNDED' },
+    });
+  });
+});
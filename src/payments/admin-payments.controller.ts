@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../admin/guards/admin.guard';
+import type { RefundStatus } from '@prisma/client';
+
+@Controller('admin/payments')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class AdminPaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  /**
+   * [Admin] Daftar webhook yang gagal diproses (dead-letter)
+   * GET /api/admin/payments/webhooks/failed
+   */
+  @Get('webhooks/failed')
+  async getFailedEvents() {
+    const events = await this.paymentsService.getFailedWebhookEvents();
+    return {
+      success: true,
+      data: events,
+    };
+  }
+
+  /**
+   * [Admin] Memproses ulang webhook yang gagal
+   * POST /api/admin/payments/webhooks/:id/replay
+   */
+  @Post('webhooks/:id/replay')
+  @HttpCode(HttpStatus.OK)
+  async replayEvent(@Param('id') eventId: string) {
+    const result = await this.paymentsService.replayWebhookEvent(eventId);
+    return {
+      success: true,
+      message: result.message,
+    };
+  }
+
+  /**
+   * [Admin] Laporan ketidakcocokan status gateway vs payment lokal
+   * GET /api/admin/payments/reconciliation
+   */
+  @Get('reconciliation')
+  async getReconciliationReport() {
+    const report = await this.paymentsService.getReconciliationReport();
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
+  /**
+   * [Admin] Daftar refund (opsional filter status, mis. FAILED)
+   * GET /api/admin/payments/refunds
+   */
+  @Get('refunds')
+  async getRefunds(@Query('status') status?: RefundStatus) {
+    const refunds = await this.paymentsService.getRefunds(status);
+    return {
+      success: true,
+      data: refunds,
+    };
+  }
+
+  /**
+   * [Admin] Kirim ulang refund yang gagal ke metode pembayaran asal
+   * POST /api/admin/payments/:paymentId/refund/retry
+   */
+  @Post(':paymentId/refund/retry')
+  @HttpCode(HttpStatus.OK)
+  async retryRefund(@Param('paymentId') paymentId: string) {
+    const payment = await this.paymentsService.processGatewayRefund(paymentId);
+    return {
+      success: payment.refundStatus !== 'FAILED',
+      message:
+        payment.refundStatus === 'FAILED'
+          ? `Refund gagal: ${payment.refundError}`
+          : 'Refund berhasil dikirim ulang',
+      data: payment,
+    };
+  }
+
+  /**
+   * [Admin] Alihkan refund yang gagal ke wallet buyer
+   * POST /api/admin/payments/:paymentId/refund/wallet
+   */
+  @Post(':paymentId/refund/wallet')
+  @HttpCode(HttpStatus.OK)
+  async refundToWallet(@Param('paymentId') paymentId: string) {
+    const payment = await this.paymentsService.refundFailedToWallet(paymentId);
+    return {
+      success: true,
+      message: 'Refund dialihkan ke wallet buyer',
+      data: payment,
+    };
+  }
+}
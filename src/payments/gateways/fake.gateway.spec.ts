@@ -0,0 +1,58 @@
+import { Prisma } from '@prisma/client';
+import type { Order, User } from '@prisma/client';
+import { FakePaymentGateway } from './fake.gateway';
+
+describe('FakePaymentGateway', () => {
+  const reference = 'order-1-T1700000000000';
+  let gateway: FakePaymentGateway;
+
+  beforeEach(async () => {
+    gateway = new FakePaymentGateway('secret', 'http://localhost/api');
+    await gateway.createSession({
+      reference,
+      order: { id: 'order-1', price: new Prisma.Decimal(150000) } as Order,
+      customer: {} as User,
+      amount: 150000,
+      finishUrl: 'http://localhost/orders/order-1',
+    });
+  });
+
+  it('issues a pending session', async () => {
+    const status = await gateway.getStatus(reference);
+
+    expect(status.orderId).toBe('order-1');
+    expect(status.status).toBe('PENDING');
+  });
+
+  it('signs simulated settlement callbacks', () => {
+    const notification = gateway.verifyWebhook(
+      gateway.simulate(reference, 'settlement'),
+    );
+
+    expect(notification.status).toBe('SETTLEMENT');
+    expect(notification.isSignatureValid).toBe(true);
+  });
+
+  it('flags tampered callbacks', () => {
+    const payload = gateway.simulate(reference, 'expire');
+
+    const notification = gateway.verifyWebhook({
+      ...payload,
+      gross_amount: '1.00',
+    });
+
+    expect(notification.status).toBe('CANCELLED');
+    expect(notification.isSignatureValid).toBe(false);
+  });
+
+  it('refunds up to the settled amount', async () => {
+    gateway.simulate(reference, 'settlement');
+
+    await expect(
+      gateway.refund({ reference, amount: 100000, reason: 'test' }),
+    ).resolves.toMatchObject({ status: 'SUCCESS' });
+    await expect(
+      gateway.refund({ reference, amount: 60000, reason: 'test' }),
+    ).rejects.toThrow('Nominal refund melebihi pembayaran');
+  });
+});
@@ -0,0 +1,172 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import type { PaymentStatus } from '@prisma/client';
+import { createHmac, randomUUID } from 'crypto';
+import {
+  orderIdFromReference,
+  type PaymentGateway,
+  type PaymentNotification,
+  type PaymentRefundInput,
+  type PaymentRefundResult,
+  type PaymentSession,
+  type PaymentSessionInput,
+} from './payment-gateway.interface';
+
+// Status transaksi yang bisa disimulasikan (mengikuti istilah Midtrans)
+export type FakeTransactionStatus =
+  | 'pending'
+  | 'settlement'
+  | 'expire'
+  | 'cancel';
+
+type FakeSession = {
+  reference: string;
+  amount: number;
+  transactionId: string;
+  status: FakeTransactionStatus;
+  refunded: number;
+};
+
+const STATUS_MAP: Record<FakeTransactionStatus, PaymentStatus> = {
+  pending: 'PENDING',
+  settlement: 'SETTLEMENT',
+  expire: 'CANCELLED',
+  cancel: 'CANCELLED',
+};
+
+/**
+ * Payment gateway lokal tanpa jaringan untuk development & e2e test
+ *
+ * Sesi disimpan di memori. Settlement/expire dipicu lewat simulate(),
+ * yang menghasilkan payload webhook bertanda tangan seperti gateway asli.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+
+  private sessions = new Map<string, FakeSession>();
+
+  constructor(
+    private readonly secret: string,
+    private readonly checkoutBaseUrl: string,
+  ) {}
+
+  createSession(input: PaymentSessionInput): Promise<PaymentSession> {
+    this.sessions.set(input.reference, {
+      reference: input.reference,
+      amount: input.amount,
+      transactionId: randomUUID(),
+      status: 'pending',
+      refunded: 0,
+    });
+
+    return Promise.resolve({
+      token: `fake-${randomUUID()}`,
+      redirectUrl: `${this.checkoutBaseUrl}/payments/fake/${input.reference}`,
+    });
+  }
+
+  /**
+   * Ubah status sesi & susun payload webhook yang sudah ditandatangani
+   */
+  simulate(
+    reference: string,
+    status: FakeTransactionStatus,
+  ): Record<string, unknown> {
+    const session = this.findSession(reference);
+    session.status = status;
+
+    return this.toPayload(session);
+  }
+
+  verifyWebhook(payload: Record<string, unknown>): PaymentNotification {
+    const reference = payload.order_id as string;
+    const status = payload.transaction_status as FakeTransactionStatus;
+    const grossAmount = payload.gross_amount as string;
+
+    if (!reference || !status || !grossAmount || !payload.signature_key) {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+
+    return {
+      reference,
+      orderId: orderIdFromReference(reference),
+      status: STATUS_MAP[status] ?? null,
+      rawStatus: status,
+      transactionId: payload.transaction_id as string | undefined,
+      paymentType: payload.payment_type as string | undefined,
+      grossAmount,
+      isSignatureValid:
+        payload.signature_key ===
+        this.sign(reference, payload.status_code as string, grossAmount),
+      payload,
+    };
+  }
+
+  getStatus(reference: string): Promise<PaymentNotification> {
+    const session = this.sessions.get(reference);
+
+    if (!session) {
+      return Promise.reject(
+        new NotFoundException('Sesi pembayaran tidak ditemukan'),
+      );
+    }
+
+    return Promise.resolve(this.verifyWebhook(this.toPayload(session)));
+  }
+
+  refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    const session = this.sessions.get(input.reference);
+
+    if (!session) {
+      return Promise.reject(
+        new NotFoundException('Sesi pembayaran tidak ditemukan'),
+      );
+    }
+    if (session.status !== 'settlement') {
+      return Promise.reject(new BadRequestException('Transaksi belum lunas'));
+    }
+    if (session.refunded + input.amount > session.amount) {
+      return Promise.reject(
+        new BadRequestException('Nominal refund melebihi pembayaran'),
+      );
+    }
+
+    session.refunded += input.amount;
+
+    return Promise.resolve({
+      refundId: `fake-refund-${randomUUID()}`,
+      status: 'SUCCESS',
+    });
+  }
+
+  private findSession(reference: string) {
+    const session = this.sessions.get(reference);
+
+    if (!session) {
+      throw new NotFoundException('Sesi pembayaran tidak ditemukan');
+    }
+
+    return session;
+  }
+
+  private toPayload(session: FakeSession): Record<string, unknown> {
+    const statusCode = session.status === 'settlement' ? '200' : '201';
+    const grossAmount = session.amount.toFixed(2);
+
+    return {
+      order_id: session.reference,
+      transaction_id: session.transactionId,
+      transaction_status: session.status,
+      fraud_status: 'accept',
+      payment_type: 'fake',
+      status_code: statusCode,
+      gross_amount: grossAmount,
+      signature_key: this.sign(session.reference, statusCode, grossAmount),
+    };
+  }
+
+  private sign(reference: string, statusCode: string, grossAmount: string) {
+    return createHmac('sha256', this.secret)
+      .update(`${reference}${statusCode}${grossAmount}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto';
+import type { ConfigService } from '@nestjs/config';
+import { MidtransPaymentGateway } from './midtrans.gateway';
+
+describe('MidtransPaymentGateway', () => {
+  const serverKey = 'askvnoibnosifnboseofinbofinfgbiufglnbfg';
+
+  // SHA512(order_id + status_code + gross_amount + server key), format Midtrans
+  const payload = {
+    order_id: 'Postman-1578568851',
+    status_code: '200',
+    gross_amount: '10000.00',
+    transaction_status: 'settlement',
+    signature_key:
+      '6c0f5791b2a167c38d3810c2c0c90e512d1134564d04433c07401cec6741738c63a6d9bff571042799c0aa6873691abd3b573dc7505cb56c41fe8e938a1e272d',
+  };
+
+  let gateway: MidtransPaymentGateway;
+
+  beforeEach(() => {
+    const config = {
+      get: (key: string) =>
+        ({ MIDTRANS_SERVER_KEY: serverKey, MIDTRANS_CLIENT_KEY: 'client' })[
+          key
+        ],
+    } as ConfigService;
+
+    gateway = new MidtransPaymentGateway(config);
+  });
+
+  it('accepts a notification signed with the Midtrans SHA512 signature', () => {
+    const notification = gateway.verifyWebhook(payload);
+
+    expect(notification.status).toBe('SETTLEMENT');
+    expect(notification.isSignatureValid).toBe(true);
+  });
+
+  it('rejects a notification with a tampered amount', () => {
+    const notification = gateway.verifyWebhook({
+      ...payload,
+      gross_amount: '1.00',
+    });
+
+    expect(notification.isSignatureValid).toBe(false);
+  });
+
+  it('rejects an HMAC signature keyed with the server key', () => {
+    const hmac = createHmac('sha512', serverKey)
+      .update(
+        `${payload.order_id}${payload.status_code}${payload.gross_amount}${serverKey}`,
+      )
+      .digest('hex');
+
+    const notification = gateway.verifyWebhook({
+      ...payload,
+      signature_key: hmac,
+    });
+
+    expect(notification.isSignatureValid).toBe(false);
+  });
+
+  it('rejects a malformed signature without throwing', () => {
+    const notification = gateway.verifyWebhook({
+      ...payload,
+      signature_key: 'bukan-signature',
+    });
+
+    expect(notification.isSignatureValid).toBe(false);
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  BadRequestException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import type { ConfigService } from '@nestjs/config';
+import * as midtransClient from 'midtrans-client';
+import type { Order, OrderExtra, PaymentStatus } from '@prisma/client';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  orderIdFromReference,
+  type PaymentGateway,
+  type PaymentNotification,
+  type PaymentRefundInput,
+  type PaymentRefundResult,
+  type PaymentSession,
+  type PaymentSessionInput,
+} from './payment-gateway.interface';
+
+// Tipe @types/midtrans-client belum mencakup API transaksi (status/refund)
+type MidtransTransactionApi = {
+  status(orderId: string): Promise<Record<string, unknown>>;
+  refund(
+    orderId: string,
+    parameter: Record<string, unknown>,
+  ): Promise<Record<string, unknown>>;
+};
+
+/**
+ * Implementasi PaymentGateway untuk Midtrans Snap
+ */
+export class MidtransPaymentGateway implements PaymentGateway {
+  readonly name = 'midtrans';
+
+  private snap: midtransClient.Snap;
+  private midtransServerKey: string;
+
+  constructor(configService: ConfigService) {
+    this.midtransServerKey = configService.get<string>('MIDTRANS_SERVER_KEY')!;
+
+    // Validasi environment variable
+    if (!this.midtransServerKey) {
+      throw new Error('MIDTRANS_SERVER_KEY is not configured');
+    }
+
+    const clientKey = configService.get<string>('MIDTRANS_CLIENT_KEY')!;
+    if (!clientKey) {
+      throw new Error('MIDTRANS_CLIENT_KEY is not configured');
+    }
+
+    this.snap = new midtransClient.Snap({
+      isProduction: false, // Pastikan false untuk Sandbox
+      serverKey: this.midtransServerKey,
+      clientKey: clientKey,
+    });
+  }
+
+  /**
+   * Membuat sesi pembayaran Midtrans Snap
+   */
+  async createSession(input: PaymentSessionInput): Promise<PaymentSession> {
+    const { order, customer, amount, reference } = input;
+
+    // --- SANITASI DATA ---
+
+    // 1. Bersihkan Nama Item (Hapus Emoji dan karakter non-ascii)
+    const safeItemName = Array.from(order.title)
+      .filter((char) => (char.codePointAt(0) ?? 0) <= 0x7f) // Hapus karakter non-ASCII (emoji, dll)
+      .join('')
+      .trim()
+      .substring(0, 50); // Midtrans limit nama item 50 char
+
+    // 2. Bersihkan Nomor Telepon
+    let safePhone = customer.phoneNumber || '081234567890';
+    safePhone = safePhone.replace(/\+/g, '').trim();
+
+    // 3. Pastikan Nama User tidak kosong
+    const firstName = customer.fullName
+      ? customer.fullName.split(' ')[0]
+      : 'Customer';
+    const lastName =
+      customer.fullName && customer.fullName.split(' ').length > 1
+        ? customer.fullName.split(' ').slice(1).join(' ')
+        : '';
+
+    const isPartial = amount < Math.round(order.price.toNumber());
+
+    // Buat parameter Midtrans
+    const parameter = {
+      transaction_details: {
+        order_id: reference, // <-- MENGGUNAKAN ID UNIK
+        gross_amount: amount,
+      },
+      customer_details: {
+        first_name: firstName.substring(0, 20), // Limit char
+        last_name: lastName.substring(0, 20), // Limit char
+        email: customer.email,
+        phone: safePhone,
+      },
+      // Pembayaran sebagian (sisa setelah wallet) ditagih sebagai 1 baris item
+      item_details: isPartial
+        ? [
+            {
+              id: order.serviceId.substring(0, 50),
+              price: amount,
+              quantity: 1,
+              name: `Sisa ${safeItemName || 'Jasa Bantuin'}`.substring(0, 50),
+            },
+          ]
+        : this.buildItemDetails(
+            order,
+            amount,
+            safeItemName || 'Jasa Bantuin', // Fallback jika nama kosong setelah sanitasi
+          ),
+      enabled_payments: [
+        'gopay',
+        'shopeepay',
+        'other_qris',
+        'bank_transfer',
+        'echannel',
+        'bca_va',
+        'bni_va',
+        'bri_va',
+        'permata_va',
+        'other_va',
+      ],
+      callbacks: {
+        finish: input.finishUrl,
+      },
+    };
+
+    console.log('Creating Midtrans transaction...');
+
+    // Panggil Midtrans API
+    const transaction = await this.snap.createTransaction(parameter);
+
+    if (!transaction || !transaction.token || !transaction.redirect_url) {
+      throw new InternalServerErrorException(
+        'Midtrans API returned invalid response',
+      );
+    }
+
+    return { token: transaction.token, redirectUrl: transaction.redirect_url };
+  }
+
+  /**
+   * Membaca & memverifikasi notifikasi webhook Midtrans
+   */
+  verifyWebhook(payload: Record<string, unknown>): PaymentNotification {
+    const midtransOrderId = payload.order_id as string; // <-- ID Unik Midtrans
+    const status_code = payload.status_code as string;
+    const gross_amount = payload.gross_amount as string;
+    const signature_key = payload.signature_key as string;
+    const transaction_status = payload.transaction_status as string;
+
+    // Validasi payload dasar
+    if (
+      !midtransOrderId ||
+      !transaction_status ||
+      !gross_amount ||
+      !signature_key
+    ) {
+      throw new BadRequestException('Invalid webhook payload');
+    }
+
+    // Verifikasi Signature Key (gunakan ID Unik Midtrans)
+    return {
+      ...this.toNotification(payload),
+      isSignatureValid: this.verifySignature(
+        signature_key,
+        midtransOrderId,
+        status_code,
+        gross_amount,
+      ),
+    };
+  }
+
+  /**
+   * Menanyakan status transaksi langsung ke Midtrans
+   */
+  async getStatus(reference: string): Promise<PaymentNotification> {
+    const response = await this.transactionApi.status(reference);
+
+    // Respons API langsung dari Midtrans, bukan dari pihak ketiga
+    return { ...this.toNotification(response), isSignatureValid: true };
+  }
+
+  /**
+   * Refund transaksi Midtrans (penuh atau sebagian)
+   */
+  async refund(input: PaymentRefundInput): Promise<PaymentRefundResult> {
+    const refundKey = `${input.reference}-R${Date.now()}`;
+    const response = await this.transactionApi.refund(input.reference, {
+      refund_key: refundKey,
+      amount: input.amount,
+      reason: input.reason,
+    });
+
+    const statusCode = response.status_code as string | undefined;
+
+    return {
+      refundId: refundKey,
+      status: statusCode === '200' ? 'SUCCESS' : 'PENDING',
+    };
+  }
+
+  /**
+   * Helper untuk menormalisasi payload/status Midtrans
+   */
+  private toNotification(
+    payload: Record<string, unknown>,
+  ): Omit<PaymentNotification, 'isSignatureValid'> {
+    const reference = payload.order_id as string;
+    const transactionStatus = payload.transaction_status as string;
+    const fraudStatus = payload.fraud_status as string | undefined;
+
+    let status: PaymentStatus | null = null;
+    if (transactionStatus === 'capture') {
+      if (fraudStatus === 'challenge') {
+        status = 'PENDING';
+      } else if (fraudStatus === 'accept') {
+        status = 'SETTLEMENT';
+      }
+    } else if (transactionStatus === 'settlement') {
+      status = 'SETTLEMENT';
+    } else if (['cancel', 'deny', 'expire'].includes(transactionStatus)) {
+      status = 'CANCELLED';
+    } else if (transactionStatus === 'pending') {
+      status = 'PENDING';
+    } else if (transactionStatus === 'refund') {
+      status = 'REFUNDED';
+    } else if (transactionStatus === 'partial_refund') {
+      status = 'PARTIALLY_REFUNDED';
+    }
+
+    return {
+      reference,
+      orderId: orderIdFromReference(reference),
+      status,
+      rawStatus: transactionStatus,
+      transactionId: payload.transaction_id as string | undefined,
+      paymentType: payload.payment_type as string | undefined,
+      grossAmount: payload.gross_amount as string,
+      payload,
+    };
+  }
+
+  private get transactionApi() {
+    return (this.snap as unknown as { transaction: MidtransTransactionApi })
+      .transaction;
+  }
+
+  /**
+   * Helper untuk menyusun item_details Midtrans sesuai rincian harga order
+   * Midtrans mewajibkan total (price x quantity) sama dengan gross_amount,
+   * jadi jika harga per unit tidak bulat kita fallback ke 1 baris item.
+   * Setiap extra yang dipilih ditampilkan sebagai baris item tersendiri.
+   */
+  private buildItemDetails(
+    order: Order & { extras?: OrderExtra[] },
+    amount: number,
+    itemName: string,
+  ) {
+    const itemId = order.serviceId.substring(0, 50); // Pastikan ID tidak kepanjangan
+
+    const extraItems = (order.extras ?? []).map((extra) => ({
+      id: extra.id.substring(0, 50),
+      price: Math.round(extra.price.toNumber()),
+      quantity: 1,
+      name:
+        extra.title
+          .replace(/[^\x20-\x7E]/g, '')
+          .trim()
+          .substring(0, 50) || 'Extra',
+    }));
+
+    // Sisa amount setelah extras adalah harga jasa utama
+    const baseAmount =
+      amount - extraItems.reduce((total, item) => total + item.price, 0);
+
+    const unitPrice = order.unitPrice
+      ? Math.round(order.unitPrice.toNumber())
+      : 0;
+
+    if (order.quantity > 1 && unitPrice * order.quantity === baseAmount) {
+      return [
+        {
+          id: itemId,
+          price: unitPrice,
+          quantity: order.quantity,
+          name: itemName,
+        },
+        ...extraItems,
+      ];
+    }
+
+    return [
+      {
+        id: itemId,
+        price: baseAmount,
+        quantity: 1,
+        name: itemName,
+      },
+      ...extraItems,
+    ];
+  }
+
+  /**
+   * Helper untuk verifikasi signature Midtrans
+   * Midtrans menandatangani dengan SHA512 biasa (bukan HMAC) dari
+   * order_id + status_code + gross_amount + server key
+   */
+  private verifySignature(
+    signatureKey: string,
+    orderId: string,
+    statusCode: string,
+    grossAmount: string,
+  ): boolean {
+    const expected = createHash('sha512')
+      .update(`${orderId}${statusCode}${grossAmount}${this.midtransServerKey}`)
+      .digest();
+    const received = Buffer.from(signatureKey, 'hex');
+
+    return (
+      received.length === expected.length && timingSafeEqual(received, expected)
+    );
+  }
+}
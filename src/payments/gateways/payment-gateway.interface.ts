@@ -0,0 +1,71 @@
+import type { Order, OrderExtra, PaymentStatus, User } from '@prisma/client';
+
+/**
+ * Kontrak payment gateway (Midtrans, fake gateway lokal, dst.)
+ *
+ * PaymentsService hanya berbicara lewat interface ini sehingga gateway
+ * bisa diganti lewat env PAYMENT_GATEWAY tanpa mengubah alur order.
+ */
+
+// Token injeksi gateway yang aktif
+export const PAYMENT_GATEWAY = Symbol('PAYMENT_GATEWAY');
+
+export type PaymentSessionInput = {
+  // ID unik per percobaan pembayaran (dikirim ke gateway sebagai order_id)
+  reference: string;
+  order: Order & { extras?: OrderExtra[] };
+  customer: User;
+  // Nominal yang ditagih (bisa lebih kecil dari harga order)
+  amount: number;
+  finishUrl: string;
+};
+
+export type PaymentSession = {
+  token: string;
+  redirectUrl: string;
+};
+
+// Notifikasi/status pembayaran yang sudah dinormalisasi
+export type PaymentNotification = {
+  reference: string;
+  orderId: string;
+  status: PaymentStatus | null; // null = status tidak dikenali, Payment tidak diubah
+  rawStatus: string;
+  transactionId?: string;
+  paymentType?: string;
+  grossAmount: string;
+  isSignatureValid: boolean;
+  payload: Record<string, unknown>;
+};
+
+export type PaymentRefundInput = {
+  reference: string;
+  amount: number;
+  reason: string;
+};
+
+export type PaymentRefundResult = {
+  refundId: string;
+  status: 'SUCCESS' | 'PENDING' | 'FAILED';
+};
+
+export interface PaymentGateway {
+  // Disimpan di kolom Payment.gateway
+  readonly name: string;
+
+  createSession(input: PaymentSessionInput): Promise<PaymentSession>;
+
+  verifyWebhook(payload: Record<string, unknown>): PaymentNotification;
+
+  getStatus(reference: string): Promise<PaymentNotification>;
+
+  refund(input: PaymentRefundInput): Promise<PaymentRefundResult>;
+}
+
+/**
+ * Ambil ID order asli dari reference gateway (`<orderId>-T<timestamp>`)
+ */
+export function orderIdFromReference(reference: string) {
+  const index = reference.indexOf('-T');
+  return index !== -1 ? reference.substring(0, index) : reference; // Fallback jika format lama
+}
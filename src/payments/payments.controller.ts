@@ -1,13 +1,30 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
 import { PaymentsService } from './payments.service';
 import { Public } from '../auth/decorators/public.decorator';
+import type { FakeTransactionStatus } from './gateways/fake.gateway';
+
+const FAKE_ACTIONS: FakeTransactionStatus[] = [
+  'pending',
+  'settlement',
+  'expire',
+  'cancel',
+];
 
 @Controller('payments')
 export class PaymentsController {
   constructor(private readonly paymentsService: PaymentsService) {}
 
   /**
-   * Webhook payment callback dari Midtrans
+   * Webhook payment callback dari payment gateway
    * Endpoint ini HARUS public
    */
   @Public()
@@ -19,4 +36,50 @@ export class PaymentsController {
 
     return { success: true, message: result.message || 'Webhook processed' };
   }
+
+  /**
+   * [Dev] Halaman checkout fake gateway (redirectUrl sesi pembayaran)
+   * Hanya aktif jika PAYMENT_GATEWAY=fake
+   */
+  @Public()
+  @Get('fake/:reference')
+  async getFakeSession(@Param('reference') reference: string) {
+    const session = await this.paymentsService.getFakeSession(reference);
+
+    return {
+      success: true,
+      message: 'Sesi pembayaran fake gateway',
+      data: {
+        reference: session.reference,
+        orderId: session.orderId,
+        status: session.rawStatus,
+        grossAmount: session.grossAmount,
+        actions: FAKE_ACTIONS,
+      },
+    };
+  }
+
+  /**
+   * [Dev] Simulasikan pembayaran sukses/gagal di fake gateway
+   */
+  @Public()
+  @Post('fake/:reference/:action')
+  @HttpCode(HttpStatus.OK)
+  async simulateFakePayment(
+    @Param('reference') reference: string,
+    @Param('action') action: string,
+  ) {
+    if (!FAKE_ACTIONS.includes(action as FakeTransactionStatus)) {
+      throw new BadRequestException(
+        `Aksi tidak valid. Gunakan: ${FAKE_ACTIONS.join(', ')}`,
+      );
+    }
+
+    const result = await this.paymentsService.simulateFakePayment(
+      reference,
+      action as FakeTransactionStatus,
+    );
+
+    return { success: true, message: result.message };
+  }
 }
@@ -1,13 +1,35 @@
 import { Module } from '@nestjs/common';
 import { PaymentsController } from './payments.controller';
+import { AdminPaymentsController } from './admin-payments.controller';
 import { PaymentsService } from './payments.service';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { LogService } from 'src/common/log.service';
+import { PAYMENT_GATEWAY } from './gateways/payment-gateway.interface';
+import { MidtransPaymentGateway } from './gateways/midtrans.gateway';
+import { FakePaymentGateway } from './gateways/fake.gateway';
 
 @Module({
   imports: [ConfigModule], // Import ConfigModule untuk akses .env
-  controllers: [PaymentsController],
-  providers: [PaymentsService, LogService],
+  controllers: [PaymentsController, AdminPaymentsController],
+  providers: [
+    PaymentsService,
+    LogService,
+    // Gateway aktif dipilih lewat env PAYMENT_GATEWAY (default: midtrans)
+    {
+      provide: PAYMENT_GATEWAY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        if (configService.get<string>('PAYMENT_GATEWAY') === 'fake') {
+          const port = configService.get<string>('PORT') ?? '12321';
+          return new FakePaymentGateway(
+            configService.get<string>('FAKE_GATEWAY_SECRET') ?? 'fake-secret',
+            `http://localhost:${port}/api`,
+          );
+        }
+        return new MidtransPaymentGateway(configService);
+      },
+    },
+  ],
   exports: [PaymentsService], // Export agar bisa dipakai OrdersModule
 })
 export class PaymentsModule {}
@@ -3,6 +3,10 @@ import { PaymentsService } from './payments.service';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { LogService } from '../common/log.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PAYMENT_GATEWAY } from './gateways/payment-gateway.interface';
 
 describe('PaymentsService', () => {
   let service: PaymentsService;
@@ -16,6 +20,16 @@ describe('PaymentsService', () => {
   };
   const mockPrismaService = {};
   const mockEventEmitter = { emit: jest.fn() };
+  const mockLogService = { userActivityLog: jest.fn() };
+  const mockWalletsService = { createTransaction: jest.fn() };
+  const mockLedgerService = { postInTx: jest.fn() };
+  const mockGateway = {
+    name: 'fake',
+    createSession: jest.fn(),
+    verifyWebhook: jest.fn(),
+    getStatus: jest.fn(),
+    refund: jest.fn(),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -24,6 +38,10 @@ describe('PaymentsService', () => {
         { provide: ConfigService, useValue: mockConfigService },
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: EventEmitter2, useValue: mockEventEmitter },
+        { provide: LogService, useValue: mockLogService },
+        { provide: WalletsService, useValue: mockWalletsService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: PAYMENT_GATEWAY, useValue: mockGateway },
       ],
     }).compile();
 
@@ -1,53 +1,75 @@
 import {
+  Inject,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
   BadRequestException,
+  UnauthorizedException,
+  ConflictException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import * as midtransClient from 'midtrans-client';
-import type { Order, User } from '@prisma/client';
-import { createHmac } from 'crypto';
-import { LogService } from 'src/common/log.service';
+import { PaymentStatus } from '@prisma/client';
+import type {
+  Order,
+  OrderExtra,
+  User,
+  Prisma,
+  PrismaClient,
+  RefundMethod,
+  RefundStatus,
+} from '@prisma/client';
+import { LogService } from '../common/log.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  PAYMENT_GATEWAY,
+  type PaymentGateway,
+  type PaymentNotification,
+} from './gateways/payment-gateway.interface';
+import { canAdvancePaymentStatus } from './utils/payment-status';
+import { buyerPayableAmount } from '../orders/utils/order-escrow';
+import {
+  FakePaymentGateway,
+  type FakeTransactionStatus,
+} from './gateways/fake.gateway';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+// Batas waktu buyer memilih metode refund sebelum dikembalikan otomatis
+// ke metode pembayaran asal
+export const REFUND_CHOICE_HOURS = 48;
+
+// Payment PENDING lebih lama dari ini dicek ulang ke gateway oleh cron
+export const PAYMENT_RECONCILE_AFTER_MINUTES = 15;
 
 @Injectable()
 export class PaymentsService {
-  private snap: midtransClient.Snap;
-  private midtransServerKey: string;
-
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
     private eventEmitter: EventEmitter2,
     private readonly logService: LogService,
-  ) {
-    this.midtransServerKey = this.configService.get<string>(
-      'MIDTRANS_SERVER_KEY',
-    )!;
-
-    // Validasi environment variable
-    if (!this.midtransServerKey) {
-      throw new Error('MIDTRANS_SERVER_KEY is not configured');
-    }
-
-    const clientKey = this.configService.get<string>('MIDTRANS_CLIENT_KEY')!;
-    if (!clientKey) {
-      throw new Error('MIDTRANS_CLIENT_KEY is not configured');
-    }
-
-    this.snap = new midtransClient.Snap({
-      isProduction: false, // Pastikan false untuk Sandbox
-      serverKey: this.midtransServerKey,
-      clientKey: clientKey,
-    });
-  }
+    private walletsService: WalletsService,
+    private ledgerService: LedgerService,
+    @Inject(PAYMENT_GATEWAY) private readonly gateway: PaymentGateway,
+  ) {}
 
   /**
-   * Membuat sesi pembayaran Midtrans Snap
+   * Membuat sesi pembayaran di payment gateway yang aktif
+   *
+   * @param grossAmount - Nominal yang ditagih lewat gateway. Default harga
+   * order setelah voucher; lebih kecil jika sebagian sudah dibayar dari wallet.
    */
-  async createPayment(order: Order, user: User) {
+  async createPayment(
+    order: Order & { extras?: OrderExtra[] },
+    user: User,
+    grossAmount: Prisma.Decimal = buyerPayableAmount(order),
+  ) {
     try {
       // Validasi input
       if (!order || !order.id) {
@@ -59,114 +81,55 @@ export class PaymentsService {
       }
 
       // Validasi harga & Konversi ke Integer
-      const amount = Math.round(order.price.toNumber());
+      const amount = Math.round(grossAmount.toNumber());
 
       if (!amount || amount <= 0) {
         throw new BadRequestException('Invalid order amount');
       }
 
-      // --- PERBAIKAN UTAMA: Buat ID Transaksi Midtrans yang Unik ---
-      // Midtrans membutuhkan ID unik untuk setiap percobaan transaksi.
-      const midtransUniqueOrderId = `${order.id}-T${Date.now()}`;
-      // -----------------------------------------------------------
-
-      // --- SANITASI DATA ---
-
-      // 1. Bersihkan Nama Item (Hapus Emoji dan karakter non-ascii)
-      const safeItemName = order.title
-        .replace(/[^\x00-\x7F]/g, '') // Hapus karakter non-ASCII (emoji, dll)
-        .trim()
-        .substring(0, 50); // Midtrans limit nama item 50 char
-
-      // 2. Bersihkan Nomor Telepon
-      let safePhone = user.phoneNumber || '081234567890';
-      safePhone = safePhone.replace(/\+/g, '').trim();
-
-      // 3. Pastikan Nama User tidak kosong
-      const firstName = user.fullName
-        ? user.fullName.split(' ')[0]
-        : 'Customer';
-      const lastName =
-        user.fullName && user.fullName.split(' ').length > 1
-          ? user.fullName.split(' ').slice(1).join(' ')
-          : '';
-
-      // Buat parameter Midtrans
-      const parameter = {
-        transaction_details: {
-          order_id: midtransUniqueOrderId, // <-- MENGGUNAKAN ID UNIK
-          gross_amount: amount,
-        },
-        customer_details: {
-          first_name: firstName.substring(0, 20), // Limit char
-          last_name: lastName.substring(0, 20), // Limit char
-          email: user.email,
-          phone: safePhone,
-        },
-        item_details: [
-          {
-            id: order.serviceId.substring(0, 50), // Pastikan ID tidak kepanjangan
-            price: amount,
-            quantity: 1,
-            name: safeItemName || 'Jasa Bantuin', // Fallback jika nama kosong setelah sanitasi
-          },
-        ],
-        enabled_payments: [
-          'gopay',
-          'shopeepay',
-          'other_qris',
-          'bank_transfer',
-          'echannel',
-          'bca_va',
-          'bni_va',
-          'bri_va',
-          'permata_va',
-          'other_va',
-        ],
-        callbacks: {
-          finish: `${this.configService.get('FRONTEND_URL')}/buyer/orders/${order.id}`,
-        },
-      };
-
-      console.log('Creating Midtrans transaction...');
-
-      // Panggil Midtrans API
-      const transaction = await this.snap.createTransaction(parameter);
-
-      if (!transaction || !transaction.token || !transaction.redirect_url) {
-        throw new InternalServerErrorException(
-          'Midtrans API returned invalid response',
-        );
-      }
+      // Gateway membutuhkan ID unik untuk setiap percobaan transaksi.
+      const reference = `${order.id}-T${Date.now()}`;
 
-      const { token, redirect_url } = transaction;
+      const { token, redirectUrl } = await this.gateway.createSession({
+        reference,
+        order,
+        customer: user,
+        amount,
+        finishUrl: `${this.configService.get('FRONTEND_URL')}/buyer/orders/${order.id}`,
+      });
 
       // Simpan/Update payment record di DB.
       // Kita tetap menggunakan order.id sebagai foreign key unik.
       await this.prisma.payment.upsert({
         where: { orderId: order.id },
         update: {
-          amount: order.price,
+          amount: buyerPayableAmount(order),
+          gatewayAmount: grossAmount,
           status: 'PENDING',
+          gateway: this.gateway.name,
+          gatewayReference: reference,
           gatewayToken: token,
-          gatewayRedirectUrl: redirect_url,
+          gatewayRedirectUrl: redirectUrl,
           updatedAt: new Date(),
-          transactionId: null, // Reset ID transaksi Midtrans lama
+          transactionId: null, // Reset ID transaksi gateway lama
         },
         create: {
           orderId: order.id,
-          amount: order.price,
+          amount: buyerPayableAmount(order),
+          gatewayAmount: grossAmount,
           status: 'PENDING',
-          gateway: 'midtrans',
+          gateway: this.gateway.name,
+          gatewayReference: reference,
           gatewayToken: token,
-          gatewayRedirectUrl: redirect_url,
+          gatewayRedirectUrl: redirectUrl,
         },
       });
 
-      return { token, redirectUrl: redirect_url };
+      return { token, redirectUrl };
     } catch (error) {
-      console.error('Midtrans Payment Creation Error:', {
+      console.error('Payment Creation Error:', {
         orderId: order.id,
+        gateway: this.gateway.name,
         error: error instanceof Error ? error.message : String(error),
       });
 
@@ -182,177 +145,653 @@ export class PaymentsService {
   }
 
   /**
-   * Memproses Webhook dari Midtrans
+   * Memproses Webhook dari payment gateway
+   *
+   * Signature wajib valid (kecuali PAYMENT_WEBHOOK_SKIP_SIGNATURE=true di luar
+   * production). Setiap notifikasi disimpan sebagai PaymentWebhookEvent
+   * dengan kunci transaction_id + status, sehingga pengiriman ulang dari
+   * gateway tidak diproses dua kali.
    */
   async handlePaymentWebhook(payload: Record<string, unknown>) {
-    try {
-      const midtransOrderId = payload.order_id as string; // <-- ID Unik Midtrans
-      const transaction_status = payload.transaction_status as string;
-      const transaction_id = payload.transaction_id as string;
-      const status_code = payload.status_code as string;
-      const gross_amount = payload.gross_amount as string;
-      const signature_key = payload.signature_key as string;
-      const payment_type = payload.payment_type as string;
-
-      // --- PERBAIKAN UTAMA: Ekstraksi ID Order Asli ---
-      // Cari pemisah '-T' untuk mendapatkan ID order asli
-      const orderIdIndex = midtransOrderId.indexOf('-T');
-      const originalOrderId =
-        orderIdIndex !== -1
-          ? midtransOrderId.substring(0, orderIdIndex)
-          : midtransOrderId; // Fallback jika format lama
-      // ------------------------------------------------
-
-      console.log(
-        `Processing Webhook for Order: ${originalOrderId}, Midtrans ID: ${midtransOrderId}, Status: ${transaction_status}`,
-      );
+    // Validasi payload & verifikasi signature oleh gateway
+    const notification = this.gateway.verifyWebhook(payload);
+
+    console.log(
+      `Processing ${this.gateway.name} webhook for Order: ${notification.orderId}, Gateway ID: ${notification.reference}, Status: ${notification.rawStatus}`,
+    );
 
-      console.log('--- MIDTRANS WEBHOOK RECEIVED ---');
-      console.log(JSON.stringify(payload, null, 2));
-
-      // Validasi payload dasar
-      if (
-        !midtransOrderId ||
-        !transaction_status ||
-        !gross_amount ||
-        !signature_key
-      ) {
-        throw new BadRequestException('Invalid webhook payload');
+    if (!notification.isSignatureValid) {
+      if (!this.isSignatureCheckSkipped()) {
+        console.error(
+          `Invalid webhook signature for Gateway ID: ${notification.reference}`,
+        );
+        throw new UnauthorizedException('Signature webhook tidak valid');
       }
+      console.warn(
+        'PAYMENT_WEBHOOK_SKIP_SIGNATURE aktif, signature tidak valid diterima',
+      );
+    }
+
+    return this.ingestNotification(notification);
+  }
+
+  /**
+   * [Admin] Daftar webhook yang gagal diproses (dead-letter)
+   */
+  async getFailedWebhookEvents() {
+    return this.prisma.paymentWebhookEvent.findMany({
+      where: { status: 'FAILED' },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * [Admin] Memproses ulang webhook yang gagal
+   *
+   * Signature sudah diverifikasi saat event pertama kali diterima.
+   */
+  async replayWebhookEvent(eventId: string) {
+    const event = await this.prisma.paymentWebhookEvent.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Webhook event tidak ditemukan');
+    }
 
-      // 1. Verifikasi Signature Key
-      const expectedSignature = this.verifySignature(
-        midtransOrderId, // <-- Gunakan ID Unik Midtrans untuk Signature
-        status_code,
-        gross_amount,
-        this.midtransServerKey,
+    if (event.status !== 'FAILED') {
+      throw new BadRequestException(
+        'Hanya webhook yang gagal yang bisa diproses ulang',
       );
+    }
 
-      console.log(`Signature Check:`);
-      console.log(`Received: ${signature_key}`);
-      console.log(`Expected: ${expectedSignature}`);
+    if (event.gateway !== this.gateway.name) {
+      throw new BadRequestException(
+        `Webhook berasal dari gateway ${event.gateway} yang tidak aktif`,
+      );
+    }
 
-      if (signature_key !== expectedSignature) {
-        console.error('Invalid signature:', {
-          received: signature_key,
-          expected: expectedSignature,
-        });
-        console.warn('BYPASSING SIGNATURE CHECK FOR TESTING');
-      }
+    const notification = this.gateway.verifyWebhook(
+      event.payload as Record<string, unknown>,
+    );
+
+    return this.processWebhookEvent(event.id, notification);
+  }
+
+  /**
+   * Mencocokkan Payment PENDING dengan status terbaru di gateway
+   *
+   * Dipakai cron rekonsiliasi jika webhook hilang. Hasil gateway diterapkan
+   * lewat jalur yang sama dengan webhook (termasuk deduplikasi event).
+   */
+  async reconcilePayment(paymentId: string) {
+    const payment = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+
+    if (!payment.gatewayReference || payment.gateway !== this.gateway.name) {
+      return payment;
+    }
+
+    const notification = await this.gateway.getStatus(payment.gatewayReference);
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        gatewayStatus: notification.status,
+        reconciledAt: new Date(),
+      },
+    });
+
+    if (notification.status && notification.status !== payment.status) {
+      await this.ingestNotification(notification);
+    }
+
+    return this.prisma.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+    });
+  }
+
+  /**
+   * Daftar Payment PENDING yang perlu dicek ulang ke gateway
+   */
+  async findPaymentsToReconcile() {
+    const threshold = new Date();
+    threshold.setMinutes(
+      threshold.getMinutes() - PAYMENT_RECONCILE_AFTER_MINUTES,
+    );
+
+    return this.prisma.payment.findMany({
+      where: {
+        status: 'PENDING',
+        gateway: this.gateway.name,
+        gatewayReference: { not: null },
+        updatedAt: { lte: threshold },
+      },
+      select: { id: true, orderId: true },
+      orderBy: { updatedAt: 'asc' },
+    });
+  }
+
+  /**
+   * [Admin] Laporan ketidakcocokan status gateway vs Payment lokal
+   *
+   * - payments: status di gateway (hasil rekonsiliasi terakhir) berbeda
+   *   dengan Payment.status
+   * - unsettledOrders: Payment sudah SETTLEMENT tetapi order belum dibayar
+   */
+  async getReconciliationReport() {
+    const statuses = Object.values(PaymentStatus);
+
+    const [payments, unsettledOrders] = await Promise.all([
+      this.prisma.payment.findMany({
+        where: {
+          gatewayStatus: { not: null },
+          OR: statuses.map((status) => ({
+            status,
+            NOT: { gatewayStatus: status },
+          })),
+        },
+        include: {
+          order: { select: { id: true, status: true, isPaid: true } },
+        },
+        orderBy: { reconciledAt: 'desc' },
+      }),
+      this.prisma.payment.findMany({
+        where: { status: 'SETTLEMENT', order: { isPaid: false } },
+        include: {
+          order: { select: { id: true, status: true, isPaid: true } },
+        },
+      }),
+    ]);
+
+    return {
+      isConsistent: payments.length === 0 && unsettledOrders.length === 0,
+      payments,
+      unsettledOrders,
+    };
+  }
+
+  /**
+   * Membuka refund untuk order yang dibatalkan (dipanggil di dalam transaksi)
+   *
+   * Tanpa `method`, refund menunggu pilihan buyer (REFUND_CHOICE_HOURS).
+   * Payment yang seluruhnya dibayar dari wallet selalu dikembalikan ke wallet.
+   */
+  async openRefundInTx(
+    tx: Tx,
+    orderId: string,
+    options: { method?: RefundMethod; reason: string },
+  ) {
+    const payment = await tx.payment.findUniqueOrThrow({ where: { orderId } });
+
+    if (payment.refundStatus && payment.refundStatus !== 'FAILED') {
+      throw new BadRequestException('Refund untuk pesanan ini sudah diajukan');
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        refundStatus: 'REQUESTED',
+        refundMethod: null,
+        refundAmount: payment.amount,
+        refundReason: options.reason,
+        refundRequestedAt: new Date(),
+      },
+    });
+
+    const method = payment.gatewayAmount.gt(0) ? options.method : 'WALLET';
+
+    return method
+      ? this.applyRefundMethodInTx(tx, payment.id, method)
+      : tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  }
+
+  /**
+   * Menetapkan metode refund yang masih menunggu pilihan
+   *
+   * - WALLET: seluruh dana dikembalikan ke wallet buyer saat itu juga
+   * - ORIGINAL_METHOD: porsi wallet dikembalikan ke wallet, porsi gateway
+   *   menunggu processGatewayRefund() setelah transaksi selesai
+   */
+  async applyRefundMethodInTx(tx: Tx, paymentId: string, method: RefundMethod) {
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: { order: { select: { buyerId: true } } },
+    });
+
+    if (payment.refundStatus !== 'REQUESTED' || payment.refundMethod) {
+      throw new BadRequestException('Metode refund sudah ditentukan');
+    }
+
+    const walletAmount =
+      method === 'WALLET' ? payment.refundAmount : payment.walletAmount;
 
-      // 2. Dapatkan payment record
-      const payment = await this.prisma.payment.findUnique({
-        where: { orderId: originalOrderId }, // <-- Cari berdasarkan ID Order Asli
-        include: { order: { select: { buyerId: true } } },
+    if (walletAmount.gt(0)) {
+      const buyerWallet = await tx.wallet.findUniqueOrThrow({
+        where: { userId: payment.order.buyerId },
       });
 
-      if (!payment) {
-        console.error(`Payment not found for Order ID: ${originalOrderId}`);
-        throw new NotFoundException('Payment record not found');
-      }
+      await this.walletsService.createTransaction({
+        tx,
+        walletId: buyerWallet.id,
+        orderId: payment.orderId,
+        paymentId: payment.id,
+        type: 'ESCROW_REFUND',
+        amount: walletAmount,
+        description: `Refund untuk order dibatalkan #${payment.orderId.substring(0, 8)}`,
+      });
+    }
+
+    if (method === 'WALLET') {
+      return tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: 'REFUNDED',
+          refundStatus: 'REFUNDED',
+          refundMethod: 'WALLET',
+          refundedAt: new Date(),
+        },
+      });
+    }
+
+    return tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        refundMethod: 'ORIGINAL_METHOD',
+        refundAmount: payment.gatewayAmount,
+      },
+    });
+  }
+
+  /**
+   * Mengirim refund ke metode pembayaran asal lewat gateway
+   *
+   * REQUESTED/FAILED -> PROCESSING -> REFUNDED, atau FAILED jika gateway
+   * menolak. Refund yang masih diproses gateway diselesaikan oleh webhook.
+   */
+  async processGatewayRefund(paymentId: string) {
+    const { count } = await this.prisma.payment.updateMany({
+      where: {
+        id: paymentId,
+        refundMethod: 'ORIGINAL_METHOD',
+        refundStatus: { in: ['REQUESTED', 'FAILED'] },
+      },
+      data: { refundStatus: 'PROCESSING', refundError: null },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Refund tidak bisa diproses saat ini');
+    }
+
+    const payment = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
 
-      const buyerId = payment.order.buyerId;
-
-      // Tentukan status log
-      let logAction = 'payment_unknown';
-      let logStatus = 'pending';
-      let logDetails = `Payment webhook: ${transaction_status}`;
-
-      if (
-        transaction_status === 'capture' ||
-        transaction_status === 'settlement'
-      ) {
-        const fraudStatus = payload.fraud_status as string | undefined;
-
-        if (fraudStatus === 'accept') {
-          logAction = 'payment_success';
-          logStatus = 'success';
-          logDetails = `Payment successful via ${payment_type || 'Midtrans'} (Amount: ${gross_amount})`;
-        }
-      } else if (['cancel', 'deny', 'expire'].includes(transaction_status)) {
-        logAction = 'payment_failed';
-        logStatus = 'failed';
-        logDetails = `Payment failed: ${transaction_status}`;
-      } else if (transaction_status === 'pending') {
-        logAction = 'payment_pending';
-        logStatus = 'pending';
-        logDetails = 'Payment is pending';
+    try {
+      if (!payment.gatewayReference) {
+        throw new Error('Payment tidak memiliki referensi gateway');
       }
 
-      // CATAT LOG DENGAN USER ID BUYER
-      await this.logService.userActivityLog({
-        userId: buyerId,
-        action: logAction,
-        status: logStatus,
-        details: logDetails + ` (Order ID: ${originalOrderId})`,
+      const result = await this.gateway.refund({
+        reference: payment.gatewayReference,
+        amount: Math.round(payment.refundAmount.toNumber()),
+        reason: payment.refundReason ?? 'Pesanan dibatalkan',
       });
 
-      // 3. Idempotency Check
-      if (
-        payment.status === 'SETTLEMENT' &&
-        transaction_status === 'settlement'
-      ) {
-        return { message: 'Payment already processed' };
+      if (result.status === 'FAILED') {
+        throw new Error('Refund ditolak oleh gateway');
       }
 
-      // 4. Update status payment
-      let updatedStatus = payment.status;
-
-      if (transaction_status === 'capture') {
-        if (payload.fraud_status === 'challenge') {
-          updatedStatus = 'PENDING';
-        } else if (payload.fraud_status === 'accept') {
-          updatedStatus = 'SETTLEMENT';
-        }
-      } else if (transaction_status === 'settlement') {
-        updatedStatus = 'SETTLEMENT';
-      } else if (
-        transaction_status === 'cancel' ||
-        transaction_status === 'deny' ||
-        transaction_status === 'expire'
-      ) {
-        updatedStatus = 'CANCELLED';
-      } else if (transaction_status === 'pending') {
-        updatedStatus = 'PENDING';
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { refundReference: result.refundId },
+      });
+
+      if (result.status === 'SUCCESS') {
+        await this.prisma.$transaction((tx) =>
+          this.completeGatewayRefundInTx(tx, payment.id),
+        );
       }
+    } catch (error) {
+      console.error('Gateway refund error:', {
+        orderId: payment.orderId,
+        error: error instanceof Error ? error.message : String(error),
+      });
 
-      // Update Database
       await this.prisma.payment.update({
         where: { id: payment.id },
         data: {
-          status: updatedStatus,
-          transactionId: transaction_id,
-          paymentType: payment_type,
-          updatedAt: new Date(),
+          refundStatus: 'FAILED',
+          refundError: error instanceof Error ? error.message : String(error),
         },
       });
+    }
 
-      // 5. Emit event jika sukses
-      if (updatedStatus === 'SETTLEMENT') {
-        this.eventEmitter.emit('payment.settled', {
-          orderId: originalOrderId, // <-- Gunakan ID Order Asli
-          transactionData: payload,
-        });
+    return this.prisma.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+    });
+  }
+
+  /**
+   * [Admin] Refund ke metode asal yang gagal dialihkan ke wallet buyer
+   */
+  async refundFailedToWallet(paymentId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+      });
+
+      if (!payment) {
+        throw new NotFoundException('Payment tidak ditemukan');
       }
 
-      return { message: `Payment status updated to ${updatedStatus}` };
+      if (payment.refundStatus !== 'FAILED') {
+        throw new BadRequestException('Hanya refund gagal yang bisa dialihkan');
+      }
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { refundStatus: 'REQUESTED', refundMethod: null },
+      });
+
+      return this.applyRefundMethodInTx(tx, payment.id, 'WALLET');
+    });
+  }
+
+  /**
+   * [Admin] Daftar refund berdasarkan status
+   */
+  async getRefunds(status?: RefundStatus) {
+    return this.prisma.payment.findMany({
+      where: { refundStatus: status ?? { not: null } },
+      include: {
+        order: { select: { id: true, title: true, buyerId: true } },
+      },
+      orderBy: { refundRequestedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Helper untuk menutup refund gateway yang sudah berhasil: dana keluar
+   * dari escrow kembali ke gateway
+   */
+  private async completeGatewayRefundInTx(tx: Tx, paymentId: string) {
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+    });
+
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, refundStatus: 'PROCESSING' },
+      data: {
+        status: payment.walletAmount
+          .add(payment.refundAmount)
+          .lt(payment.amount)
+          ? 'PARTIALLY_REFUNDED'
+          : 'REFUNDED',
+        refundStatus: 'REFUNDED',
+        refundedAt: new Date(),
+      },
+    });
+
+    // Sudah diselesaikan oleh proses lain (mis. webhook refund)
+    if (count === 0) {
+      return;
+    }
+
+    await this.ledgerService.postInTx(tx, {
+      description: `Refund ke metode pembayaran asal order #${payment.orderId.substring(0, 8)}`,
+      orderId: payment.orderId,
+      paymentId: payment.id,
+      lines: [
+        {
+          account: 'ESCROW_HOLDING',
+          direction: 'DEBIT',
+          amount: payment.refundAmount,
+        },
+        {
+          account: 'PAYMENT_GATEWAY',
+          direction: 'CREDIT',
+          amount: payment.refundAmount,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Helper untuk menyimpan notifikasi sebagai event (deduplikasi
+   * transaction_id + status) lalu memprosesnya
+   */
+  private async ingestNotification(notification: PaymentNotification) {
+    const transactionId = notification.transactionId ?? notification.reference;
+    const event = await this.prisma.paymentWebhookEvent.upsert({
+      where: {
+        transactionId_transactionStatus: {
+          transactionId,
+          transactionStatus: notification.rawStatus,
+        },
+      },
+      update: {},
+      create: {
+        gateway: this.gateway.name,
+        transactionId,
+        transactionStatus: notification.rawStatus,
+        reference: notification.reference,
+        orderId: notification.orderId,
+        payload: notification.payload as Prisma.InputJsonObject,
+      },
+    });
+
+    if (event.status === 'PROCESSED' || event.status === 'IGNORED') {
+      return { message: 'Webhook already processed' };
+    }
+
+    // Event baru atau gagal sebelumnya (retry dari gateway) diproses lagi
+    return this.processWebhookEvent(event.id, notification);
+  }
+
+  /**
+   * Helper untuk menjalankan notifikasi & mencatat hasilnya di event.
+   * Event yang gagal masuk dead-letter (status FAILED).
+   */
+  private async processWebhookEvent(
+    eventId: string,
+    notification: PaymentNotification,
+  ) {
+    try {
+      const result = await this.applyPaymentNotification(notification);
+
+      await this.prisma.paymentWebhookEvent.update({
+        where: { id: eventId },
+        data: {
+          status: result.applied ? 'PROCESSED' : 'IGNORED',
+          result: result.message,
+          attempts: { increment: 1 },
+          lastError: null,
+          processedAt: new Date(),
+        },
+      });
+
+      return { message: result.message };
     } catch (error) {
       console.error('Webhook processing error:', error);
+
+      await this.prisma.paymentWebhookEvent.update({
+        where: { id: eventId },
+        data: {
+          status: 'FAILED',
+          attempts: { increment: 1 },
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      });
+
       throw new InternalServerErrorException('Failed to process webhook');
     }
   }
 
   /**
-   * Helper untuk verifikasi signature Midtrans
+   * Helper untuk menerapkan notifikasi gateway ke Payment
+   *
+   * Status hanya boleh maju (lihat canAdvancePaymentStatus), sehingga
+   * notifikasi yang datang tidak berurutan tidak menurunkan status payment.
    */
-  private verifySignature(
-    orderId: string,
-    statusCode: string,
-    grossAmount: string,
-    serverKey: string,
-  ): string {
-    const hash = createHmac('sha512', serverKey);
-    hash.update(`${orderId}${statusCode}${grossAmount}${serverKey}`);
-    return hash.digest('hex');
+  private async applyPaymentNotification(
+    notification: PaymentNotification,
+  ): Promise<{ applied: boolean; message: string }> {
+    const { orderId, rawStatus, grossAmount, paymentType } = notification;
+
+    // Dapatkan payment record
+    const payment = await this.prisma.payment.findUnique({
+      where: { orderId }, // <-- Cari berdasarkan ID Order Asli
+      include: { order: { select: { buyerId: true } } },
+    });
+
+    if (!payment) {
+      console.error(`Payment not found for Order ID: ${orderId}`);
+      throw new NotFoundException('Payment record not found');
+    }
+
+    const buyerId = payment.order.buyerId;
+
+    // Tentukan status log
+    let logAction = 'payment_unknown';
+    let logStatus = 'pending';
+    let logDetails = `Payment webhook: ${rawStatus}`;
+
+    if (notification.status === 'SETTLEMENT') {
+      logAction = 'payment_success';
+      logStatus = 'success';
+      logDetails = `Payment successful via ${paymentType || this.gateway.name} (Amount: ${grossAmount})`;
+    } else if (notification.status === 'CANCELLED') {
+      logAction = 'payment_failed';
+      logStatus = 'failed';
+      logDetails = `Payment failed: ${rawStatus}`;
+    } else if (notification.status === 'PENDING') {
+      logAction = 'payment_pending';
+      logStatus = 'pending';
+      logDetails = 'Payment is pending';
+    }
+
+    // CATAT LOG DENGAN USER ID BUYER
+    await this.logService.userActivityLog({
+      userId: buyerId,
+      action: logAction,
+      status: logStatus,
+      details: logDetails + ` (Order ID: ${orderId})`,
+    });
+
+    // Status tak dikenal tidak mengubah apa pun
+    if (!notification.status) {
+      return { applied: false, message: `Status ${rawStatus} diabaikan` };
+    }
+
+    // Notifikasi dari percobaan pembayaran lama (sudah dibuat link baru)
+    // hanya diterapkan jika berupa pelunasan
+    if (
+      payment.gatewayReference &&
+      payment.gatewayReference !== notification.reference &&
+      notification.status !== 'SETTLEMENT'
+    ) {
+      return {
+        applied: false,
+        message: 'Notifikasi dari percobaan pembayaran lama diabaikan',
+      };
+    }
+
+    // Notifikasi refund hanya menutup refund yang diajukan lewat aplikasi
+    if (
+      notification.status === 'REFUNDED' ||
+      notification.status === 'PARTIALLY_REFUNDED'
+    ) {
+      if (payment.refundStatus !== 'PROCESSING') {
+        return {
+          applied: false,
+          message: 'Refund di luar aplikasi, perlu ditinjau admin',
+        };
+      }
+
+      await this.prisma.$transaction((tx) =>
+        this.completeGatewayRefundInTx(tx, payment.id),
+      );
+
+      return { applied: true, message: 'Refund selesai diproses' };
+    }
+
+    if (!canAdvancePaymentStatus(payment.status, notification.status)) {
+      return {
+        applied: false,
+        message:
+          payment.status === notification.status
+            ? 'Payment already processed'
+            : `Status payment ${payment.status} tidak diubah ke ${notification.status}`,
+      };
+    }
+
+    // Update bersyarat: gagal jika notifikasi lain mengubah status lebih dulu
+    const { count } = await this.prisma.payment.updateMany({
+      where: { id: payment.id, status: payment.status },
+      data: {
+        status: notification.status,
+        transactionId: notification.transactionId,
+        paymentType,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Status payment berubah saat diproses');
+    }
+
+    // Emit event jika sukses
+    if (notification.status === 'SETTLEMENT') {
+      this.eventEmitter.emit('payment.settled', {
+        orderId, // <-- Gunakan ID Order Asli
+        transactionData: notification.payload,
+      });
+    }
+
+    return {
+      applied: true,
+      message: `Payment status updated to ${notification.status}`,
+    };
+  }
+
+  /**
+   * Override sandbox: terima signature tidak valid (tidak berlaku di production)
+   */
+  private isSignatureCheckSkipped() {
+    return (
+      this.configService.get<string>('NODE_ENV') !== 'production' &&
+      this.configService.get<string>('PAYMENT_WEBHOOK_SKIP_SIGNATURE') ===
+        'true'
+    );
+  }
+
+  /**
+   * [Dev] Status sesi pembayaran pada fake gateway
+   */
+  async getFakeSession(reference: string) {
+    return this.fakeGateway().getStatus(reference);
+  }
+
+  /**
+   * [Dev] Simulasikan hasil pembayaran pada fake gateway
+   *
+   * Payload yang dihasilkan diproses lewat jalur webhook yang sama
+   * dengan gateway asli.
+   */
+  async simulateFakePayment(reference: string, action: FakeTransactionStatus) {
+    const payload = this.fakeGateway().simulate(reference, action);
+    return this.handlePaymentWebhook(payload);
+  }
+
+  /**
+   * Endpoint simulasi hanya tersedia jika PAYMENT_GATEWAY=fake
+   */
+  private fakeGateway() {
+    if (!(this.gateway instanceof FakePaymentGateway)) {
+      throw new NotFoundException('Fake payment gateway tidak aktif');
+    }
+    return this.gateway;
   }
 }
@@ -0,0 +1,31 @@
+import { canAdvancePaymentStatus } from './payment-status';
+
+describe('canAdvancePaymentStatus', () => {
+  it('moves pending payments forward', () => {
+    expect(canAdvancePaymentStatus('PENDING', 'SETTLEMENT')).toBe(true);
+    expect(canAdvancePaymentStatus('PENDING', 'CANCELLED')).toBe(true);
+  });
+
+  it('never downgrades a settled payment', () => {
+    expect(canAdvancePaymentStatus('SETTLEMENT', 'PENDING')).toBe(false);
+    expect(canAdvancePaymentStatus('SETTLEMENT', 'CANCELLED')).toBe(false);
+    expect(canAdvancePaymentStatus('SETTLEMENT', 'SETTLEMENT')).toBe(false);
+  });
+
+  it('keeps cancelled payments from going back to pending', () => {
+    expect(canAdvancePaymentStatus('CANCELLED', 'PENDING')).toBe(false);
+    expect(canAdvancePaymentStatus('EXPIRE', 'CANCELLED')).toBe(false);
+  });
+
+  it('accepts a late settlement after cancellation', () => {
+    expect(canAdvancePaymentStatus('CANCELLED', 'SETTLEMENT')).toBe(true);
+  });
+
+  it('only moves refunds forward', () => {
+    expect(canAdvancePaymentStatus('SETTLEMENT', 'REFUNDED')).toBe(true);
+    expect(canAdvancePaymentStatus('PARTIALLY_REFUNDED', 'REFUNDED')).toBe(
+      true,
+    );
+    expect(canAdvancePaymentStatus('REFUNDED', 'SETTLEMENT')).toBe(false);
+  });
+});
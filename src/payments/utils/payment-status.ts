@@ -0,0 +1,24 @@
+import type { PaymentStatus } from '@prisma/client';
+
+/**
+ * Urutan status payment. Notifikasi gateway bisa datang tidak berurutan
+ * (mis. `pending` setelah `settlement`), jadi status hanya boleh maju.
+ */
+export const PAYMENT_STATUS_RANK: Record<PaymentStatus, number> = {
+  PENDING: 0,
+  EXPIRE: 1,
+  CANCELLED: 1,
+  SETTLEMENT: 2,
+  PARTIALLY_REFUNDED: 3,
+  REFUNDED: 4,
+};
+
+/**
+ * Cek apakah status payment boleh diperbarui dari `from` ke `to`
+ */
+export function canAdvancePaymentStatus(
+  from: PaymentStatus,
+  to: PaymentStatus,
+): boolean {
+  return PAYMENT_STATUS_RANK[to] > PAYMENT_STATUS_RANK[from];
+}
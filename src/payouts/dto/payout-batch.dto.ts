@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const CreatePayoutBatchSchema = z.object({
+  payoutIds: z
+    .array(z.string().cuid({ message: 'ID penarikan tidak valid' }))
+    .min(1, { message: 'Pilih minimal 1 penarikan' })
+    .max(500, { message: 'Maksimal 500 penarikan per batch' }),
+});
+
+export const FailPayoutSchema = z.object({
+  reason: z
+    .string()
+    .min(10, { message: 'Alasan gagal transfer minimal 10 karakter' })
+    .max(500, { message: 'Alasan gagal transfer maksimal 500 karakter' }),
+});
+
+export type CreatePayoutBatchDto = z.infer<typeof CreatePayoutBatchSchema>;
+export type FailPayoutDto = z.infer<typeof FailPayoutSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// null = kembali ke limit default
+export const UpdatePayoutLimitSchema = z.object({
+  dailyLimit: z
+    .number()
+    .positive({ message: 'Limit harian harus lebih dari 0' })
+    .nullable(),
+  weeklyLimit: z
+    .number()
+    .positive({ message: 'Limit mingguan harus lebih dari 0' })
+    .nullable(),
+});
+
+export type UpdatePayoutLimitDto = z.infer<typeof UpdatePayoutLimitSchema>;
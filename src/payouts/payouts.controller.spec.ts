@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ZodValidationPipe } from 'nestjs-zod';
+import { PayoutsController } from './payouts.controller';
+import { PayoutsService } from './payouts.service';
+import {
+  CreatePayoutBatchSchema,
+  FailPayoutSchema,
+} from './dto/payout-batch.dto';
+import { UpdatePayoutLimitSchema } from './dto/payout-limit.dto';
+
+describe('PayoutsController', () => {
+  let controller: PayoutsController;
+
+  const mockPayoutsService = {
+    createBatch: jest.fn(),
+    failPayout: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PayoutsController],
+      providers: [{ provide: PayoutsService, useValue: mockPayoutsService }],
+    }).compile();
+
+    controller = module.get<PayoutsController>(PayoutsController);
+  });
+
+  it('rejects a batch body without payout ids', () => {
+    const pipe = new ZodValidationPipe(CreatePayoutBatchSchema);
+
+    expect(() => {
+      pipe.transform({}, { type: 'body' });
+    }).toThrow();
+    expect(() => {
+      pipe.transform({ payoutIds: [] }, { type: 'body' });
+    }).toThrow();
+  });
+
+  it('rejects a failure without a reason', () => {
+    const pipe = new ZodValidationPipe(FailPayoutSchema);
+
+    expect(() => {
+      pipe.transform({ reason: '' }, { type: 'body' });
+    }).toThrow();
+  });
+
+  it('rejects negative or non-numeric payout limits', () => {
+    const pipe = new ZodValidationPipe(UpdatePayoutLimitSchema);
+
+    expect(() => {
+      pipe.transform({ dailyLimit: -1, weeklyLimit: null }, { type: 'body' });
+    }).toThrow();
+    expect(() => {
+      pipe.transform(
+        { dailyLimit: 'abc', weeklyLimit: null },
+        { type: 'body' },
+      );
+    }).toThrow();
+  });
+
+  it('passes the admin to createBatch', async () => {
+    mockPayoutsService.createBatch.mockResolvedValue({ id: 'batch-1' });
+
+    const result = await controller.createBatch('admin-1', {
+      payoutIds: ['payout-1'],
+    });
+
+    expect(mockPayoutsService.createBatch).toHaveBeenCalledWith('admin-1', {
+      payoutIds: ['payout-1'],
+    });
+    expect(result.data).toEqual({ id: 'batch-1' });
+  });
+
+  it('passes the failure reason to failPayout', async () => {
+    mockPayoutsService.failPayout.mockResolvedValue({ id: 'payout-1' });
+
+    await controller.failPayout('batch-1', 'payout-1', {
+      reason: 'Nomor rekening tidak ditemukan',
+    });
+
+    expect(mockPayoutsService.failPayout).toHaveBeenCalledWith(
+      'batch-1',
+      'payout-1',
+      'Nomor rekening tidak ditemukan',
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { PayoutsService } from './payouts.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../admin/guards/admin.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type {
+  CreatePayoutBatchDto,
+  FailPayoutDto,
+} from './dto/payout-batch.dto';
+import {
+  CreatePayoutBatchSchema,
+  FailPayoutSchema,
+} from './dto/payout-batch.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
+import type { UpdatePayoutLimitDto } from './dto/payout-limit.dto';
+import { UpdatePayoutLimitSchema } from './dto/payout-limit.dto';
+
+@Controller('admin/payouts')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class PayoutsController {
+  constructor(private readonly payoutsService: PayoutsService) {}
+
+  /**
+   * [Admin] Penarikan disetujui yang siap dimasukkan ke batch
+   * GET /api/admin/payouts/approved
+   */
+  @Get('approved')
+  async getApprovedPayouts() {
+    const payouts = await this.payoutsService.getApprovedPayouts();
+    return {
+      success: true,
+      data: payouts,
+    };
+  }
+
+  /**
+   * [Admin] Membuat batch transfer
+   * POST /api/admin/payouts/batches
+   */
+  @Post('batches')
+  @HttpCode(HttpStatus.CREATED)
+  async createBatch(
+    @GetUser('id') adminId: string,
+    @Body(new ZodValidationPipe(CreatePayoutBatchSchema))
+    dto: CreatePayoutBatchDto,
+  ) {
+    const batch = await this.payoutsService.createBatch(adminId, dto);
+    return {
+      success: true,
+      message: 'Batch penarikan berhasil dibuat',
+      data: batch,
+    };
+  }
+
+  /**
+   * [Admin] Daftar batch transfer
+   * GET /api/admin/payouts/batches
+   */
+  @Get('batches')
+  async getBatches() {
+    const batches = await this.payoutsService.getBatches();
+    return {
+      success: true,
+      data: batches,
+    };
+  }
+
+  /**
+   * [Admin] Detail batch transfer
+   * GET /api/admin/payouts/batches/:id
+   */
+  @Get('batches/:id')
+  async getBatch(@Param('id') batchId: string) {
+    const batch = await this.payoutsService.getBatch(batchId);
+    return {
+      success: true,
+      data: batch,
+    };
+  }
+
+  /**
+   * [Admin] Download CSV transfer massal (opsional per bank)
+   * GET /api/admin/payouts/batches/:id/export?bank=BCA
+   */
+  @Get('batches/:id/export')
+  async exportBatch(
+    @Param('id') batchId: string,
+    @Query('bank') bankName: string | undefined,
+    @Res() res: Response,
+  ) {
+    const file = await this.payoutsService.exportBatch(batchId, bankName);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename}"`,
+    );
+    res.send(file.content);
+  }
+
+  /**
+   * [Admin] Menandai transfer penarikan berhasil
+   * POST /api/admin/payouts/batches/:id/payouts/:payoutId/complete
+   */
+  @Post('batches/:id/payouts/:payoutId/complete')
+  @HttpCode(HttpStatus.OK)
+  async completePayout(
+    @Param('id') batchId: string,
+    @Param('payoutId') payoutId: string,
+  ) {
+    const payout = await this.payoutsService.completePayout(batchId, payoutId);
+    return {
+      success: true,
+      message: 'Transfer penarikan ditandai berhasil',
+      data: payout,
+    };
+  }
+
+  /**
+   * [Admin] Menandai transfer penarikan gagal (dana kembali ke wallet)
+   * POST /api/admin/payouts/batches/:id/payouts/:payoutId/fail
+   */
+  @Post('batches/:id/payouts/:payoutId/fail')
+  @HttpCode(HttpStatus.OK)
+  async failPayout(
+    @Param('id') batchId: string,
+    @Param('payoutId') payoutId: string,
+    @Body(new ZodValidationPipe(FailPayoutSchema)) dto: FailPayoutDto,
+  ) {
+    const payout = await this.payoutsService.failPayout(
+      batchId,
+      payoutId,
+      dto.reason,
+    );
+    return {
+      success: true,
+      message: 'Transfer penarikan ditandai gagal, dana dikembalikan ke wallet',
+      data: payout,
+    };
+  }
+
+  /**
+   * [Admin] Mengatur limit penarikan harian/mingguan khusus untuk user
+   * PATCH /api/admin/payouts/limits/:userId
+   */
+  @Patch('limits/:userId')
+  async updatePayoutLimits(
+    @Param('userId') userId: string,
+    @Body(new ZodValidationPipe(UpdatePayoutLimitSchema))
+    dto: UpdatePayoutLimitDto,
+  ) {
+    const limits = await this.payoutsService.updatePayoutLimits(userId, dto);
+    return {
+      success: true,
+      message: 'Limit penarikan user berhasil diperbarui',
+      data: limits,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PayoutsService } from './payouts.service';
+import { PayoutsController } from './payouts.controller';
+
+@Module({
+  providers: [PayoutsService],
+  controllers: [PayoutsController],
+  exports: [PayoutsService],
+})
+export class PayoutsModule {}
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PayoutsService } from './payouts.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('PayoutsService', () => {
+  let service: PayoutsService;
+
+  const payout = (overrides: Record<string, unknown> = {}) => ({
+    id: 'payout-1',
+    userId: 'user-1',
+    walletId: 'wallet-1',
+    batchId: 'batch-1',
+    amount: new Prisma.Decimal(250000),
+    status: 'APPROVED',
+    ...overrides,
+  });
+
+  const tx = {
+    payoutRequest: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    payoutBatch: { create: jest.fn(), update: jest.fn() },
+  };
+  const mockPrismaService = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+  const mockWalletsService = { createTransaction: jest.fn() };
+  const mockLedgerService = { postInTx: jest.fn() };
+  const mockNotificationsService = { create: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PayoutsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: WalletsService, useValue: mockWalletsService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<PayoutsService>(PayoutsService);
+  });
+
+  describe('createBatch', () => {
+    it('groups approved payouts into one batch', async () => {
+      tx.payoutRequest.findMany.mockResolvedValue([
+        payout({ batchId: null }),
+        payout({
+          id: 'payout-2',
+          batchId: null,
+          amount: new Prisma.Decimal(100000),
+        }),
+      ]);
+      tx.payoutBatch.create.mockResolvedValue({ id: 'batch-1' });
+      tx.payoutRequest.updateMany.mockResolvedValue({ count: 2 });
+
+      await service.createBatch('admin-1', {
+        payoutIds: ['payout-1', 'payout-2', 'payout-1'],
+      });
+
+      expect(tx.payoutBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          createdById: 'admin-1',
+          itemCount: 2,
+          totalAmount: new Prisma.Decimal(350000),
+        }) as unknown,
+      });
+      expect(tx.payoutRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['payout-1', 'payout-2'] },
+          status: 'APPROVED',
+          batchId: null,
+        },
+        data: { batchId: 'batch-1' },
+      });
+    });
+
+    it('rejects an empty batch', async () => {
+      await expect(
+        service.createBatch('admin-1', { payoutIds: [] }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects payouts that are not approved or already batched', async () => {
+      tx.payoutRequest.findMany.mockResolvedValue([payout({ batchId: null })]);
+
+      await expect(
+        service.createBatch('admin-1', { payoutIds: ['payout-1', 'payout-2'] }),
+      ).rejects.toThrow(
+        'Sebagian penarikan belum disetujui atau sudah masuk batch lain',
+      );
+      expect(tx.payoutBatch.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completePayout', () => {
+    it('posts the transfer out of the payout clearing account', async () => {
+      tx.payoutRequest.findFirst.mockResolvedValue(payout());
+      tx.payoutRequest.update.mockResolvedValue(
+        payout({ status: 'COMPLETED' }),
+      );
+      tx.payoutRequest.count.mockResolvedValue(0);
+
+      await service.completePayout('batch-1', 'payout-1');
+
+      expect(mockLedgerService.postInTx).toHaveBeenCalledWith(tx, {
+        description: 'Transfer penarikan #payout-1',
+        payoutRequestId: 'payout-1',
+        lines: [
+          {
+            account: 'PAYOUT_CLEARING',
+            direction: 'DEBIT',
+            amount: new Prisma.Decimal(250000),
+          },
+          {
+            account: 'PAYMENT_GATEWAY',
+            direction: 'CREDIT',
+            amount: new Prisma.Decimal(250000),
+          },
+        ],
+      });
+      expect(tx.payoutBatch.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'batch-1' } }),
+      );
+    });
+
+    it('does not complete a payout twice', async () => {
+      tx.payoutRequest.findFirst.mockResolvedValue(
+        payout({ status: 'COMPLETED' }),
+      );
+
+      await expect(
+        service.completePayout('batch-1', 'payout-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockLedgerService.postInTx).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failPayout', () => {
+    it('credits the amount back to the wallet', async () => {
+      tx.payoutRequest.findFirst.mockResolvedValue(payout());
+      tx.payoutRequest.update.mockResolvedValue(payout({ status: 'FAILED' }));
+      tx.payoutRequest.count.mockResolvedValue(1);
+
+      await service.failPayout(
+        'batch-1',
+        'payout-1',
+        'Nomor rekening tidak ditemukan',
+      );
+
+      expect(mockWalletsService.createTransaction).toHaveBeenCalledWith({
+        tx,
+        walletId: 'wallet-1',
+        type: 'PAYOUT_REJECTED',
+        amount: new Prisma.Decimal(250000),
+        description:
+          'Pengembalian dana penarikan gagal transfer: Nomor rekening tidak ditemukan',
+        payoutRequestId: 'payout-1',
+      });
+      // Masih ada baris lain di batch, batch belum ditutup
+      expect(tx.payoutBatch.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,391 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { PrismaClient } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import type { CreatePayoutBatchDto } from './dto/payout-batch.dto';
+import type { UpdatePayoutLimitDto } from './dto/payout-limit.dto';
+import {
+  MASKED_PAYOUT_ACCOUNT_SELECT,
+  maskPayoutAccount,
+} from '../wallets/utils/payout-account';
+import {
+  buildPayoutCsv,
+  normalizeBankName,
+  summarizePayoutsByBank,
+  type PayoutCsvLine,
+} from './utils/payout-csv';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+@Injectable()
+export class PayoutsService {
+  constructor(
+    private prisma: PrismaService,
+    private walletService: WalletsService,
+    private ledgerService: LedgerService,
+    private notificationService: NotificationsService,
+  ) {}
+
+  /**
+   * [Admin] Penarikan yang sudah disetujui & belum masuk batch
+   */
+  async getApprovedPayouts() {
+    const payouts = await this.prisma.payoutRequest.findMany({
+      where: { status: 'APPROVED', batchId: null },
+      orderBy: { processedAt: 'asc' },
+      include: {
+        user: { select: { id: true, fullName: true, email: true } },
+        account: { select: MASKED_PAYOUT_ACCOUNT_SELECT },
+      },
+    });
+
+    return payouts.map((payout) => ({
+      ...payout,
+      account: maskPayoutAccount(payout.account),
+    }));
+  }
+
+  /**
+   * [Admin] Membuat batch transfer dari penarikan yang sudah disetujui
+   */
+  async createBatch(adminId: string, dto: CreatePayoutBatchDto) {
+    const payoutIds = [...new Set(dto.payoutIds ?? [])];
+
+    if (payoutIds.length === 0) {
+      throw new BadRequestException('Pilih minimal 1 penarikan');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const payouts = await tx.payoutRequest.findMany({
+        where: { id: { in: payoutIds }, status: 'APPROVED', batchId: null },
+      });
+
+      if (payouts.length !== payoutIds.length) {
+        throw new BadRequestException(
+          'Sebagian penarikan belum disetujui atau sudah masuk batch lain',
+        );
+      }
+
+      const batch = await tx.payoutBatch.create({
+        data: {
+          reference: this.generateReference(),
+          createdById: adminId,
+          itemCount: payouts.length,
+          totalAmount: payouts.reduce(
+            (sum, payout) => sum.add(payout.amount),
+            new Prisma.Decimal(0),
+          ),
+        },
+      });
+
+      // Syarat batchId: null mencegah penarikan masuk dua batch sekaligus
+      const { count } = await tx.payoutRequest.updateMany({
+        where: { id: { in: payoutIds }, status: 'APPROVED', batchId: null },
+        data: { batchId: batch.id },
+      });
+
+      if (count !== payoutIds.length) {
+        throw new BadRequestException(
+          'Penarikan berubah saat batch dibuat, silakan coba lagi',
+        );
+      }
+
+      return batch;
+    });
+  }
+
+  /**
+   * [Admin] Daftar batch transfer
+   */
+  async getBatches() {
+    return this.prisma.payoutBatch.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        createdBy: { select: { id: true, fullName: true } },
+      },
+    });
+  }
+
+  /**
+   * [Admin] Detail batch beserta ringkasan per bank
+   */
+  async getBatch(batchId: string) {
+    const batch = await this.prisma.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        createdBy: { select: { id: true, fullName: true } },
+        payouts: {
+          orderBy: { requestedAt: 'asc' },
+          include: {
+            user: { select: { id: true, fullName: true, email: true } },
+            account: { select: MASKED_PAYOUT_ACCOUNT_SELECT },
+          },
+        },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Batch penarikan tidak ditemukan');
+    }
+
+    const payouts = batch.payouts.map((payout) => ({
+      ...payout,
+      account: maskPayoutAccount(payout.account),
+    }));
+
+    return {
+      ...batch,
+      payouts,
+      banks: summarizePayoutsByBank(this.toCsvLines(payouts)),
+    };
+  }
+
+  /**
+   * [Admin] Export batch sebagai CSV transfer massal bank
+   * Hanya baris yang belum diselesaikan (APPROVED) yang diexport.
+   *
+   * @param bankName - Opsional, hanya baris untuk bank tersebut
+   */
+  async exportBatch(batchId: string, bankName?: string) {
+    const batch = await this.prisma.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        payouts: {
+          where: { status: 'APPROVED' },
+          orderBy: { requestedAt: 'asc' },
+          include: { account: true },
+        },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Batch penarikan tidak ditemukan');
+    }
+
+    // Nomor rekening asli hanya didekripsi untuk file transfer bank
+    const lines = this.toCsvLines(
+      batch.payouts
+        .filter(
+          (payout) =>
+            !bankName ||
+            normalizeBankName(payout.account.bankName) ===
+              normalizeBankName(bankName),
+        )
+        .map((payout) => ({
+          ...payout,
+          account: {
+            ...payout.account,
+            accountNumber: this.walletService.revealAccountNumber(
+              payout.account,
+            ),
+          },
+        })),
+    );
+
+    if (lines.length === 0) {
+      throw new BadRequestException('Tidak ada penarikan untuk diexport');
+    }
+
+    await this.prisma.payoutBatch.update({
+      where: { id: batch.id },
+      data: { exportedAt: new Date() },
+    });
+
+    const suffix = bankName ? `-${normalizeBankName(bankName)}` : '';
+
+    return {
+      filename: `${batch.reference}${suffix}.csv`,
+      content: buildPayoutCsv(lines, batch.reference),
+    };
+  }
+
+  /**
+   * [Admin] Menandai transfer satu penarikan berhasil
+   * Dana keluar dari akun kliring penarikan ke rekening user.
+   */
+  async completePayout(batchId: string, payoutId: string) {
+    const payout = await this.prisma.$transaction(async (tx) => {
+      await this.findBatchPayoutInTx(tx, batchId, payoutId);
+
+      const completed = await tx.payoutRequest.update({
+        where: { id: payoutId },
+        data: {
+          status: 'COMPLETED',
+          processedAt: new Date(),
+          adminNotes: 'Transfer berhasil.',
+        },
+      });
+
+      await this.ledgerService.postInTx(tx, {
+        description: `Transfer penarikan #${payoutId.substring(0, 8)}`,
+        payoutRequestId: payoutId,
+        lines: [
+          {
+            account: 'PAYOUT_CLEARING',
+            direction: 'DEBIT',
+            amount: completed.amount,
+          },
+          {
+            account: 'PAYMENT_GATEWAY',
+            direction: 'CREDIT',
+            amount: completed.amount,
+          },
+        ],
+      });
+
+      await this.closeBatchIfDoneInTx(tx, batchId);
+
+      return completed;
+    });
+
+    await this.notificationService.create({
+      userId: payout.userId,
+      content: `Penarikan dana Anda sebesar Rp ${payout.amount.toNumber()} telah ditransfer.`,
+      link: `/wallet/payouts`,
+      type: 'WALLET',
+    });
+
+    return payout;
+  }
+
+  /**
+   * [Admin] Menandai transfer satu penarikan gagal
+   * Dana otomatis dikembalikan ke wallet user (PAYOUT_REJECTED).
+   */
+  async failPayout(batchId: string, payoutId: string, reason: string) {
+    const payout = await this.prisma.$transaction(async (tx) => {
+      const pending = await this.findBatchPayoutInTx(tx, batchId, payoutId);
+
+      const failed = await tx.payoutRequest.update({
+        where: { id: payoutId },
+        data: {
+          status: 'FAILED',
+          processedAt: new Date(),
+          adminNotes: reason,
+        },
+      });
+
+      await this.walletService.createTransaction({
+        tx,
+        walletId: pending.walletId,
+        type: 'PAYOUT_REJECTED',
+        amount: pending.amount, // POSITIF (Credit), dana kembali
+        description: `Pengembalian dana penarikan gagal transfer: ${reason}`,
+        payoutRequestId: pending.id,
+      });
+
+      await this.closeBatchIfDoneInTx(tx, batchId);
+
+      return failed;
+    });
+
+    await this.notificationService.create({
+      userId: payout.userId,
+      content: `Transfer penarikan dana Anda gagal dan dana telah dikembalikan ke wallet. Alasan: ${reason}`,
+      link: `/wallet/payouts`,
+      type: 'WALLET',
+    });
+
+    return payout;
+  }
+
+  /**
+   * [Admin] Mengatur limit penarikan khusus untuk satu user
+   * Nilai null mengembalikan limit ke default.
+   */
+  async updatePayoutLimits(userId: string, dto: UpdatePayoutLimitDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User tidak ditemukan');
+    }
+
+    const wallet = await this.walletService.getWalletByUserId(userId);
+
+    return this.prisma.wallet.update({
+      where: { id: wallet.id },
+      data: {
+        dailyPayoutLimit: dto.dailyLimit,
+        weeklyPayoutLimit: dto.weeklyLimit,
+      },
+      select: {
+        userId: true,
+        dailyPayoutLimit: true,
+        weeklyPayoutLimit: true,
+      },
+    });
+  }
+
+  /**
+   * Helper untuk mengambil penarikan dalam batch yang belum diselesaikan
+   */
+  private async findBatchPayoutInTx(tx: Tx, batchId: string, payoutId: string) {
+    const payout = await tx.payoutRequest.findFirst({
+      where: { id: payoutId, batchId },
+    });
+
+    if (!payout) {
+      throw new NotFoundException('Penarikan tidak ditemukan di batch ini');
+    }
+    if (payout.status !== 'APPROVED') {
+      throw new BadRequestException(
+        `Penarikan ini sudah berstatus ${payout.status}`,
+      );
+    }
+
+    return payout;
+  }
+
+  /**
+   * Helper untuk menutup batch jika semua baris sudah diselesaikan
+   */
+  private async closeBatchIfDoneInTx(tx: Tx, batchId: string) {
+    const remaining = await tx.payoutRequest.count({
+      where: { batchId, status: 'APPROVED' },
+    });
+
+    if (remaining === 0) {
+      await tx.payoutBatch.update({
+        where: { id: batchId },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+    }
+  }
+
+  private toCsvLines(
+    payouts: {
+      id: string;
+      amount: PayoutCsvLine['amount'];
+      account: { bankName: string; accountNumber: string; accountName: string };
+    }[],
+  ): PayoutCsvLine[] {
+    return payouts.map((payout) => ({
+      payoutId: payout.id,
+      bankName: payout.account.bankName,
+      accountNumber: payout.account.accountNumber,
+      accountName: payout.account.accountName,
+      amount: payout.amount,
+    }));
+  }
+
+  /**
+   * Referensi batch, mis. PB-20261019-3F9A
+   */
+  private generateReference() {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `PB-${date}-${randomBytes(2).toString('hex').toUpperCase()}`;
+  }
+}
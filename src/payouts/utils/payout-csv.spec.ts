@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+import {
+  buildPayoutCsv,
+  summarizePayoutsByBank,
+  type PayoutCsvLine,
+} from './payout-csv';
+
+const line = (
+  overrides: Partial<PayoutCsvLine> & Pick<PayoutCsvLine, 'payoutId'>,
+): PayoutCsvLine => ({
+  bankName: 'BCA',
+  accountNumber: '1234567890',
+  accountName: 'Budi Santoso',
+  amount: new Prisma.Decimal(100000),
+  ...overrides,
+});
+
+describe('summarizePayoutsByBank', () => {
+  it('groups lines by normalized bank name', () => {
+    const summary = summarizePayoutsByBank([
+      line({ payoutId: 'p1', bankName: 'bca ' }),
+      line({ payoutId: 'p2', bankName: 'Mandiri' }),
+      line({ payoutId: 'p3', amount: new Prisma.Decimal(50000.5) }),
+    ]);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toMatchObject({ bankName: 'BCA', count: 2 });
+    expect(summary[0].totalAmount.toFixed(2)).toBe('150000.50');
+    expect(summary[1]).toMatchObject({ bankName: 'MANDIRI', count: 1 });
+  });
+});
+
+describe('buildPayoutCsv', () => {
+  it('writes one row per payout, grouped by bank', () => {
+    const csv = buildPayoutCsv(
+      [
+        line({ payoutId: 'payout-mandiri', bankName: 'Mandiri' }),
+        line({ payoutId: 'payout-bca-1' }),
+      ],
+      'PB-20261019-AB12',
+    );
+
+    expect(csv.split('\r\n')).toEqual([
+      'bank_name,account_number,account_name,amount,currency,reference',
+      'BCA,1234567890,Budi Santoso,100000.00,IDR,PB-20261019-AB12-payout-b',
+      'MANDIRI,1234567890,Budi Santoso,100000.00,IDR,PB-20261019-AB12-payout-m',
+    ]);
+  });
+
+  it('escapes quotes, commas and spreadsheet formulas', () => {
+    const csv = buildPayoutCsv(
+      [
+        line({ payoutId: 'p1', accountName: 'Siti, "Ani"' }),
+        line({ payoutId: 'p2', accountName: '=HYPERLINK("x")' }),
+      ],
+      'PB',
+    );
+
+    const [, first, second] = csv.split('\r\n');
+    expect(first).toContain('"Siti, ""Ani"""');
+    expect(second).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
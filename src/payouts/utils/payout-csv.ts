@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+import { toCsv } from '../../common/utils/csv';
+
+/**
+ * Helper untuk menyusun file CSV transfer massal (bulk transfer) bank
+ */
+
+export type PayoutCsvLine = {
+  payoutId: string;
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  amount: Prisma.Decimal;
+};
+
+export type PayoutBankSummary = {
+  bankName: string;
+  count: number;
+  totalAmount: Prisma.Decimal;
+};
+
+const CSV_HEADER = [
+  'bank_name',
+  'account_number',
+  'account_name',
+  'amount',
+  'currency',
+  'reference',
+];
+
+/**
+ * Normalisasi nama bank agar "bca", "BCA " dan "BCA" masuk grup yang sama
+ */
+export function normalizeBankName(bankName: string) {
+  return bankName.trim().toUpperCase();
+}
+
+/**
+ * Kelompokkan baris per bank (urut nama bank, lalu urutan aslinya)
+ */
+export function groupPayoutsByBank(lines: PayoutCsvLine[]) {
+  const groups = new Map<string, PayoutCsvLine[]>();
+
+  for (const line of lines) {
+    const bankName = normalizeBankName(line.bankName);
+    groups.set(bankName, [...(groups.get(bankName) ?? []), line]);
+  }
+
+  return new Map([...groups.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Ringkasan jumlah & total transfer per bank
+ */
+export function summarizePayoutsByBank(
+  lines: PayoutCsvLine[],
+): PayoutBankSummary[] {
+  return [...groupPayoutsByBank(lines).entries()].map(
+    ([bankName, bankLines]) => ({
+      bankName,
+      count: bankLines.length,
+      totalAmount: bankLines.reduce(
+        (sum, line) => sum.add(line.amount),
+        new Prisma.Decimal(0),
+      ),
+    }),
+  );
+}
+
+/**
+ * Susun CSV transfer massal, dikelompokkan per bank
+ *
+ * @param batchReference - Dipakai sebagai prefix berita transfer
+ */
+export function buildPayoutCsv(lines: PayoutCsvLine[], batchReference: string) {
+  const rows = [...groupPayoutsByBank(lines).entries()].flatMap(
+    ([bankName, bankLines]) =>
+      bankLines.map((line) => [
+        bankName,
+        line.accountNumber,
+        line.accountName,
+        line.amount.toFixed(2),
+        'IDR',
+        `${batchReference}-${line.payoutId.substring(0, 8)}`,
+      ]),
+  );
+
+  return toCsv([CSV_HEADER, ...rows]);
+}
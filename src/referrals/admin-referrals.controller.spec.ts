@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdminReferralsController } from './admin-referrals.controller';
+import { ReferralsService } from './referrals.service';
+
+describe('AdminReferralsController', () => {
+  let controller: AdminReferralsController;
+
+  const mockReferralsService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminReferralsController],
+      providers: [
+        { provide: ReferralsService, useValue: mockReferralsService },
+      ],
+    }).compile();
+
+    controller = module.get<AdminReferralsController>(AdminReferralsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
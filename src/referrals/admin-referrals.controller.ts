@@ -0,0 +1,24 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ReferralsService } from './referrals.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../admin/guards/admin.guard';
+import type { ReferralStatus } from '@prisma/client';
+
+@Controller('admin/referrals')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class AdminReferralsController {
+  constructor(private readonly referralsService: ReferralsService) {}
+
+  /**
+   * [Admin] Daftar referral (termasuk yang ditolak karena indikasi curang)
+   * GET /api/admin/referrals?status=REJECTED
+   */
+  @Get()
+  async getReferrals(@Query('status') status?: ReferralStatus) {
+    const referrals = await this.referralsService.getReferrals(status);
+    return {
+      success: true,
+      data: referrals,
+    };
+  }
+}
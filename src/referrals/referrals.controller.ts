@@ -0,0 +1,23 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { ReferralsService } from './referrals.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+
+@Controller('referrals')
+@UseGuards(JwtAuthGuard)
+export class ReferralsController {
+  constructor(private readonly referralsService: ReferralsService) {}
+
+  /**
+   * Kode referral saya beserta daftar & status teman yang diundang
+   * GET /api/referrals/me
+   */
+  @Get('me')
+  async getMyReferrals(@GetUser('id') userId: string) {
+    const referrals = await this.referralsService.getMyReferrals(userId);
+    return {
+      success: true,
+      data: referrals,
+    };
+  }
+}
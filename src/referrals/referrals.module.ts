@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { ReferralsService } from './referrals.service';
+import { ReferralsController } from './referrals.controller';
+import { AdminReferralsController } from './admin-referrals.controller';
+
+@Global() // Dipakai oleh Auth (pendaftaran) & Orders (pemberian bonus)
+@Module({
+  providers: [ReferralsService],
+  controllers: [ReferralsController, AdminReferralsController],
+  exports: [ReferralsService],
+})
+export class ReferralsModule {}
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReferralsService } from './referrals.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('ReferralsService', () => {
+  let service: ReferralsService;
+
+  const tx = {
+    $queryRaw: jest.fn(),
+    referral: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    wallet: { findUniqueOrThrow: jest.fn() },
+  };
+  const mockPrismaService = {};
+  const mockWalletsService = { createTransaction: jest.fn() };
+  const mockNotificationsService = { createInTx: jest.fn() };
+  const mockConfigService = { get: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReferralsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: WalletsService, useValue: mockWalletsService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<ReferralsService>(ReferralsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('rewardInTx', () => {
+    const referral = {
+      id: 'referral-1',
+      referrerId: 'referrer-1',
+      refereeId: 'referee-1',
+      status: 'PENDING',
+    };
+
+    beforeEach(() => {
+      tx.referral.findUnique.mockResolvedValue(referral);
+    });
+
+    it('locks the referrer before counting rewarded referrals', async () => {
+      tx.referral.count.mockResolvedValue(0);
+      tx.referral.updateMany.mockResolvedValue({ count: 1 });
+      tx.wallet.findUniqueOrThrow.mockResolvedValue({ id: 'wallet-1' });
+
+      await service.rewardInTx(
+        tx as never,
+        'referee-1',
+        'order-1234567',
+        'seller-1',
+      );
+
+      expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.referral.count.mock.invocationCallOrder[0],
+      );
+      expect(mockWalletsService.createTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects the referral once the referrer cap is reached', async () => {
+      tx.referral.count.mockResolvedValue(100);
+
+      const result = await service.rewardInTx(
+        tx as never,
+        'referee-1',
+        'order-1234567',
+        'seller-1',
+      );
+
+      expect(result).toBeNull();
+      expect(tx.referral.updateMany).toHaveBeenCalledWith({
+        where: { id: 'referral-1', status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          rejectionReason: 'Batas referral untuk kode ini sudah tercapai',
+        },
+      });
+      expect(mockWalletsService.createTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import type { PrismaClient, ReferralStatus } from '@prisma/client';
+import { randomInt } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  DEFAULT_REFERRAL_MAX_PER_REFERRER,
+  DEFAULT_REFERRAL_REWARD_AMOUNT,
+  REFERRAL_CODE_SUFFIX_LENGTH,
+  buildReferralCode,
+  checkReferralFraud,
+  normalizeReferralCode,
+} from './utils/referral-rules';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+type NewReferee = {
+  id: string;
+  nim: string | null;
+};
+
+// Percobaan membuat kode unik sebelum menyerah
+const REFERRAL_CODE_ATTEMPTS = 5;
+
+@Injectable()
+export class ReferralsService {
+  constructor(
+    private prisma: PrismaService,
+    private walletService: WalletsService,
+    private notificationService: NotificationsService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Kode referral user beserta ringkasan referral yang dibuatnya
+   */
+  async getMyReferrals(userId: string) {
+    const code = await this.getOrCreateCode(userId);
+
+    const referrals = await this.prisma.referral.findMany({
+      where: { referrerId: userId },
+      include: {
+        referee: { select: { id: true, fullName: true, profilePicture: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const count = (status: ReferralStatus) =>
+      referrals.filter((referral) => referral.status === status).length;
+
+    return {
+      code,
+      rewardAmount: this.rewardAmount,
+      maxReferrals: this.maxPerReferrer,
+      stats: {
+        pending: count('PENDING'),
+        rewarded: count('REWARDED'),
+        rejected: count('REJECTED'),
+        totalEarned: referrals.reduce(
+          (sum, referral) => sum.add(referral.rewardAmount ?? 0),
+          new Prisma.Decimal(0),
+        ),
+      },
+      referrals,
+    };
+  }
+
+  /**
+   * [Admin] Daftar referral untuk pemantauan kecurangan
+   */
+  async getReferrals(status?: ReferralStatus) {
+    return this.prisma.referral.findMany({
+      where: { status },
+      include: {
+        referrer: { select: { id: true, fullName: true, email: true } },
+        referee: { select: { id: true, fullName: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Ambil kode referral user, buat baru jika belum punya
+   */
+  async getOrCreateCode(userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { fullName: true, referralCode: true },
+    });
+
+    if (user.referralCode) {
+      return user.referralCode;
+    }
+
+    for (let attempt = 0; attempt < REFERRAL_CODE_ATTEMPTS; attempt++) {
+      const code = buildReferralCode(
+        user.fullName,
+        Array.from({ length: REFERRAL_CODE_SUFFIX_LENGTH }, () =>
+          randomInt(1_000_000),
+        ),
+      );
+
+      const taken = await this.prisma.user.findUnique({
+        where: { referralCode: code },
+        select: { id: true },
+      });
+      if (taken) {
+        continue;
+      }
+
+      // Update bersyarat: request paralel tidak menimpa kode yang sudah ada
+      await this.prisma.user.updateMany({
+        where: { id: userId, referralCode: null },
+        data: { referralCode: code },
+      });
+
+      const updated = await this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { referralCode: true },
+      });
+      return updated.referralCode!;
+    }
+
+    throw new Error('Gagal membuat kode referral unik');
+  }
+
+  /**
+   * Catat perangkat yang dipakai login (untuk deteksi kecurangan referral)
+   */
+  async recordDevice(userId: string, deviceHash: string) {
+    return this.prisma.userDevice.upsert({
+      where: { userId_deviceHash: { userId, deviceHash } },
+      create: { userId, deviceHash },
+      update: { lastSeenAt: new Date() },
+    });
+  }
+
+  /**
+   * Catat referral untuk user yang baru mendaftar lewat kode referral
+   *
+   * Referral yang terindikasi curang tetap disimpan dengan status REJECTED
+   * agar bisa ditinjau admin. Kode yang tidak dikenal diabaikan.
+   */
+  async captureForNewUser(
+    referee: NewReferee,
+    code: string,
+    deviceHash: string | null,
+  ) {
+    const referrer = await this.prisma.user.findUnique({
+      where: { referralCode: normalizeReferralCode(code) },
+      select: { id: true, nim: true },
+    });
+
+    if (!referrer) {
+      return null;
+    }
+
+    const [sharedDevices, referrerReferrals] = await Promise.all([
+      deviceHash
+        ? this.prisma.userDevice.count({
+            where: {
+              deviceHash,
+              userId: { not: referee.id },
+              user: {
+                OR: [
+                  { id: referrer.id },
+                  { referredBy: { referrerId: referrer.id } },
+                ],
+              },
+            },
+          })
+        : 0,
+      this.prisma.referral.count({
+        where: { referrerId: referrer.id, status: { not: 'REJECTED' } },
+      }),
+    ]);
+
+    const rejectionReason = checkReferralFraud({
+      referrer,
+      referee,
+      sharedDevice: sharedDevices > 0,
+      referrerReferrals,
+      maxPerReferrer: this.maxPerReferrer,
+    });
+
+    return this.prisma.referral.create({
+      data: {
+        referrerId: referrer.id,
+        refereeId: referee.id,
+        deviceHash,
+        status: rejectionReason ? 'REJECTED' : 'PENDING',
+        rejectionReason,
+      },
+    });
+  }
+
+  /**
+   * Beri bonus referral saat order pertama referee selesai
+   * (di dalam transaksi completeOrder)
+   *
+   * Bonus dikreditkan ke wallet referrer & referee. Referral dikunci dengan
+   * update bersyarat agar bonus tidak pernah dibayar dua kali.
+   */
+  async rewardInTx(
+    tx: Tx,
+    refereeId: string,
+    orderId: string,
+    sellerId: string,
+  ) {
+    const referral = await tx.referral.findUnique({
+      where: { refereeId },
+    });
+
+    if (!referral || referral.status !== 'PENDING') {
+      return null;
+    }
+
+    // Order ke jasa milik referrer sendiri tidak dihitung (rawan kolusi)
+    if (referral.referrerId === sellerId) {
+      return this.rejectInTx(
+        tx,
+        referral.id,
+        'Order pertama dibuat ke jasa milik referrer',
+      );
+    }
+
+    // Kunci baris referrer agar hitungan kuota tidak balapan dengan
+    // transaksi lain yang memberi bonus ke referrer yang sama
+    await tx.$queryRaw`SELECT id FROM users WHERE id = ${referral.referrerId} FOR UPDATE`;
+
+    const rewarded = await tx.referral.count({
+      where: { referrerId: referral.referrerId, status: 'REWARDED' },
+    });
+    if (rewarded >= this.maxPerReferrer) {
+      return this.rejectInTx(
+        tx,
+        referral.id,
+        'Batas referral untuk kode ini sudah tercapai',
+      );
+    }
+
+    const amount = new Prisma.Decimal(this.rewardAmount);
+
+    const { count } = await tx.referral.updateMany({
+      where: { id: referral.id, status: 'PENDING' },
+      data: {
+        status: 'REWARDED',
+        orderId,
+        rewardAmount: amount,
+        rewardedAt: new Date(),
+      },
+    });
+
+    if (count === 0 || amount.lte(0)) {
+      return null;
+    }
+
+    const orderRef = orderId.substring(0, 8);
+    const recipients = [
+      {
+        userId: referral.referrerId,
+        description: `Bonus referral dari order #${orderRef}`,
+        content: `Teman yang Anda undang menyelesaikan pesanan pertamanya. Bonus referral Rp ${amount.toFixed(0)} masuk ke dompet Anda.`,
+      },
+      {
+        userId: refereeId,
+        description: `Bonus referral order pertama #${orderRef}`,
+        content: `Pesanan pertama Anda selesai. Bonus referral Rp ${amount.toFixed(0)} masuk ke dompet Anda.`,
+      },
+    ];
+
+    for (const recipient of recipients) {
+      const wallet = await tx.wallet.findUniqueOrThrow({
+        where: { userId: recipient.userId },
+      });
+
+      await this.walletService.createTransaction({
+        tx,
+        walletId: wallet.id,
+        orderId,
+        type: 'REFERRAL_REWARD',
+        amount,
+        description: recipient.description,
+      });
+
+      await this.notificationService.createInTx(tx, {
+        userId: recipient.userId,
+        content: recipient.content,
+        link: '/wallet',
+        type: 'WALLET',
+      });
+    }
+
+    return tx.referral.findUniqueOrThrow({ where: { id: referral.id } });
+  }
+
+  /**
+   * Helper untuk menolak referral yang masih PENDING
+   */
+  private async rejectInTx(tx: Tx, referralId: string, reason: string) {
+    await tx.referral.updateMany({
+      where: { id: referralId, status: 'PENDING' },
+      data: { status: 'REJECTED', rejectionReason: reason },
+    });
+    return null;
+  }
+
+  // Bonus per orang (referrer & referee) dalam rupiah
+  private get rewardAmount() {
+    return this.getConfigNumber(
+      'REFERRAL_REWARD_AMOUNT',
+      DEFAULT_REFERRAL_REWARD_AMOUNT,
+    );
+  }
+
+  // Maksimal referral yang dibayar per referrer
+  private get maxPerReferrer() {
+    return this.getConfigNumber(
+      'REFERRAL_MAX_PER_REFERRER',
+      DEFAULT_REFERRAL_MAX_PER_REFERRER,
+    );
+  }
+
+  /**
+   * Helper untuk membaca konfigurasi angka dengan nilai default
+   */
+  private getConfigNumber(key: string, fallback: number) {
+    const raw = this.configService.get<string | number>(key);
+    const value = raw === undefined || raw === '' ? NaN : Number(raw);
+
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  buildReferralCode,
+  checkReferralFraud,
+  hashDevice,
+  normalizeReferralCode,
+  type ReferralFraudContext,
+} from './referral-rules';
+
+describe('normalizeReferralCode', () => {
+  it('trims and uppercases the code', () => {
+    expect(normalizeReferralCode(' budi7k3m ')).toBe('BUDI7K3M');
+  });
+});
+
+describe('buildReferralCode', () => {
+  it('uses the first letters of the name and a random suffix', () => {
+    expect(buildReferralCode('Budi Santoso', [0, 1, 2, 3])).toBe('BUDIABCD');
+  });
+
+  it('pads short names and ignores non-letters', () => {
+    expect(buildReferralCode("O'a", [30, 31, 32, 33])).toBe('OAXX9ABC');
+  });
+});
+
+describe('hashDevice', () => {
+  it('prefers the frontend device id', () => {
+    expect(hashDevice({ deviceId: 'abc', ip: '1.1.1.1', userAgent: 'x' })).toBe(
+      hashDevice({ deviceId: 'abc' }),
+    );
+  });
+
+  it('falls back to ip and user agent', () => {
+    const hash = hashDevice({ ip: '10.0.0.1', userAgent: 'Mozilla' });
+
+    expect(hash).toHaveLength(64);
+    expect(hash).not.toBe(hashDevice({ ip: '10.0.0.2', userAgent: 'Mozilla' }));
+  });
+
+  it('returns null without device information', () => {
+    expect(hashDevice({ ip: '10.0.0.1' })).toBeNull();
+  });
+});
+
+describe('checkReferralFraud', () => {
+  const context = (
+    overrides: Partial<ReferralFraudContext> = {},
+  ): ReferralFraudContext => ({
+    referrer: { id: 'referrer', nim: '2201001' },
+    referee: { id: 'referee', nim: '2201002' },
+    sharedDevice: false,
+    referrerReferrals: 0,
+    maxPerReferrer: 20,
+    ...overrides,
+  });
+
+  it('accepts a legitimate referral', () => {
+    expect(checkReferralFraud(context())).toBeNull();
+  });
+
+  it('rejects self-referral by account or NIM', () => {
+    expect(
+      checkReferralFraud(context({ referee: { id: 'referrer', nim: null } })),
+    ).toBe('Tidak bisa memakai kode referral sendiri');
+    expect(
+      checkReferralFraud(context({ referee: { id: 'other', nim: '2201001' } })),
+    ).toBe('Tidak bisa memakai kode referral sendiri');
+  });
+
+  it('does not treat missing NIMs as the same person', () => {
+    expect(
+      checkReferralFraud(
+        context({
+          referrer: { id: 'referrer', nim: null },
+          referee: { id: 'referee', nim: null },
+        }),
+      ),
+    ).toBeNull();
+  });
+
+  it('rejects referrals from a shared device', () => {
+    expect(checkReferralFraud(context({ sharedDevice: true }))).toBe(
+      'Perangkat sudah dipakai akun referrer atau referral lain',
+    );
+  });
+
+  it('enforces the cap per referrer', () => {
+    expect(checkReferralFraud(context({ referrerReferrals: 20 }))).toBe(
+      'Batas referral untuk kode ini sudah tercapai',
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+
+/**
+ * Helper program referral: pembuatan kode, sidik perangkat & aturan
+ * anti-kecurangan saat user baru mendaftar lewat kode referral
+ */
+
+export const DEFAULT_REFERRAL_REWARD_AMOUNT = 10000;
+export const DEFAULT_REFERRAL_MAX_PER_REFERRER = 20;
+
+// Tanpa karakter yang mirip (0/O, 1/I/L) agar mudah diketik ulang
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_PREFIX_LENGTH = 4;
+export const REFERRAL_CODE_SUFFIX_LENGTH = 4;
+
+export type ReferralDevice = {
+  // ID acak yang disimpan frontend di perangkat (jika ada)
+  deviceId?: string;
+  ip?: string;
+  userAgent?: string;
+};
+
+export type ReferralParty = {
+  id: string;
+  nim: string | null;
+};
+
+export type ReferralFraudContext = {
+  referrer: ReferralParty;
+  referee: ReferralParty;
+  // Perangkat referee pernah dipakai referrer atau referee lain dari referrer ini
+  sharedDevice: boolean;
+  // Referral referrer yang belum ditolak
+  referrerReferrals: number;
+  maxPerReferrer: number;
+};
+
+export function normalizeReferralCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Susun kode referral: 4 huruf awal nama + akhiran acak, mis. "BUDI7K3M"
+ *
+ * @param randomValues - Angka acak (>= 0) untuk tiap karakter akhiran
+ */
+export function buildReferralCode(fullName: string, randomValues: number[]) {
+  const prefix = fullName
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '')
+    .slice(0, REFERRAL_CODE_PREFIX_LENGTH)
+    .padEnd(REFERRAL_CODE_PREFIX_LENGTH, 'X');
+
+  const suffix = randomValues
+    .slice(0, REFERRAL_CODE_SUFFIX_LENGTH)
+    .map(
+      (value) => REFERRAL_CODE_ALPHABET[value % REFERRAL_CODE_ALPHABET.length],
+    )
+    .join('');
+
+  return `${prefix}${suffix}`;
+}
+
+/**
+ * Sidik perangkat (hash) dari ID perangkat frontend, atau IP + user agent
+ *
+ * @returns null jika tidak ada informasi perangkat sama sekali
+ */
+export function hashDevice(device: ReferralDevice): string | null {
+  const source = device.deviceId
+    ? `id:${device.deviceId}`
+    : device.ip && device.userAgent
+      ? `ua:${device.ip}|${device.userAgent}`
+      : null;
+
+  return source ? createHash('sha256').update(source).digest('hex') : null;
+}
+
+/**
+ * Periksa indikasi kecurangan referral
+ *
+ * @returns Alasan penolakan, atau null jika referral sah
+ */
+export function checkReferralFraud(
+  context: ReferralFraudContext,
+): string | null {
+  const { referrer, referee } = context;
+
+  if (
+    referrer.id === referee.id ||
+    (referrer.nim !== null && referrer.nim === referee.nim)
+  ) {
+    return 'Tidak bisa memakai kode referral sendiri';
+  }
+
+  if (context.sharedDevice) {
+    return 'Perangkat sudah dipakai akun referrer atau referral lain';
+  }
+
+  if (context.referrerReferrals >= context.maxPerReferrer) {
+    return 'Batas referral untuk kode ini sudah tercapai';
+  }
+
+  return null;
+}
@@ -1,6 +1,79 @@
 import { createZodDto } from 'nestjs-zod';
 import { z } from 'zod';
 
+// Schema for a single service package (Basic / Standard / Premium)
+export const ServicePackageSchema = z.object({
+  tier: z.enum(['BASIC', 'STANDARD', 'PREMIUM']).describe('Tingkatan paket'),
+
+  name: z
+    .string()
+    .min(3, { message: 'Nama paket minimal 3 karakter' })
+    .max(50, { message: 'Nama paket maksimal 50 karakter' }),
+
+  description: z
+    .string()
+    .max(500, { message: 'Deskripsi paket maksimal 500 karakter' })
+    .optional(),
+
+  price: z.coerce
+    .number()
+    .positive({ message: 'Harga paket harus lebih dari 0' })
+    .max(10000000, { message: 'Harga paket maksimal Rp 10.000.000' }),
+
+  deliveryTime: z.coerce
+    .number()
+    .int()
+    .positive({ message: 'Waktu pengerjaan paket harus lebih dari 0 hari' })
+    .max(90, { message: 'Waktu pengerjaan paket maksimal 90 hari' }),
+
+  revisions: z.coerce
+    .number()
+    .int()
+    .min(0, { message: 'Jumlah revisi paket minimal 0' })
+    .max(10, { message: 'Jumlah revisi paket maksimal 10' })
+    .default(1),
+
+  whatsIncluded: z
+    .array(z.string().min(1).max(200))
+    .max(15, { message: 'Maksimal 15 poin per paket' })
+    .optional()
+    .default([])
+    .describe('Apa yang didapat customer di paket ini'),
+});
+
+// Schema for an optional paid extra (add-on) selectable at order time
+export const ServiceExtraSchema = z.object({
+  title: z
+    .string()
+    .min(3, { message: 'Nama extra minimal 3 karakter' })
+    .max(100, { message: 'Nama extra maksimal 100 karakter' }),
+
+  description: z
+    .string()
+    .max(500, { message: 'Deskripsi extra maksimal 500 karakter' })
+    .optional(),
+
+  price: z.coerce
+    .number()
+    .min(0, { message: 'Harga extra tidak boleh negatif' })
+    .max(10000000, { message: 'Harga extra maksimal Rp 10.000.000' }),
+
+  deliveryDays: z.coerce
+    .number()
+    .int()
+    .min(-90, { message: 'Percepatan maksimal 90 hari' })
+    .max(90, { message: 'Tambahan waktu maksimal 90 hari' })
+    .default(0)
+    .describe('Perubahan waktu pengerjaan (negatif = lebih cepat)'),
+
+  revisions: z.coerce
+    .number()
+    .int()
+    .min(0, { message: 'Tambahan revisi minimal 0' })
+    .max(10, { message: 'Tambahan revisi maksimal 10' })
+    .default(0),
+});
+
 // Schema for creating a new service
 export const CreateServiceSchema = z.object({
   title: z
@@ -127,6 +200,26 @@ export const CreateServiceSchema = z.object({
     .optional()
     .default([])
     .describe('Frequently Asked Questions'),
+
+  // Packages (optional). When set, the service price, delivery time and
+  // revisions follow the cheapest package.
+  packages: z
+    .array(ServicePackageSchema)
+    .max(3, { message: 'Maksimal 3 paket' })
+    .refine(
+      (packages) =>
+        new Set(packages.map((pkg) => pkg.tier)).size === packages.length,
+      { message: 'Setiap tingkatan paket hanya boleh digunakan sekali' },
+    )
+    .optional()
+    .describe('Paket Basic / Standard / Premium'),
+
+  // Extras (optional): paid add-ons the buyer can pick at order time
+  extras: z
+    .array(ServiceExtraSchema)
+    .max(10, { message: 'Maksimal 10 extra' })
+    .optional()
+    .describe('Add-on berbayar, misal express delivery atau source file'),
 });
 
 // Schema for updating service
@@ -180,3 +273,5 @@ export class ServiceFilterDto extends createZodDto(ServiceFilterSchema) { }
 
 // Ekspor sebagai Tipe (untuk type-hinting di Service)
 export type ServiceFilterType = z.infer<typeof ServiceFilterSchema>;
+export type ServicePackageType = z.infer<typeof ServicePackageSchema>;
+export type ServiceExtraType = z.infer<typeof ServiceExtraSchema>;
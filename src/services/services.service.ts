@@ -11,6 +11,7 @@ import type {
   CreateServiceDto,
   UpdateServiceDto,
   ServiceFilterType,
+  ServicePackageType,
 } from './dto/service.dto';
 import { Prisma } from '@prisma/client';
 
@@ -50,6 +51,15 @@ export class ServicesService {
       throw new ForbiddenException('Akun Anda tidak aktif');
     }
 
+    // If packages are provided, the listing summary follows the cheapest one
+    const summary = dto.packages?.length
+      ? this.getPackageSummary(dto.packages)
+      : {
+          price: dto.price,
+          deliveryTime: dto.deliveryTime,
+          revisions: dto.revisions,
+        };
+
     // Create the service in PENDING state waiting for admin approval
     let service;
     try {
@@ -59,9 +69,9 @@ export class ServicesService {
           title: dto.title,
           description: dto.description,
           category: dto.category,
-          price: dto.price,
-          deliveryTime: dto.deliveryTime,
-          revisions: dto.revisions,
+          price: summary.price,
+          deliveryTime: summary.deliveryTime,
+          revisions: summary.revisions,
           images: dto.images || [],
 
           // New fields
@@ -72,12 +82,16 @@ export class ServicesService {
           whatsIncluded: dto.whatsIncluded,
           additionalInfo: dto.additionalInfo,
           faq: dto.faq,
+          packages: dto.packages?.length ? { create: dto.packages } : undefined,
+          extras: dto.extras?.length ? { create: dto.extras } : undefined,
 
           // New services must be reviewed by admin before being active
           status: 'PENDING' as any,
           isActive: false,
         },
         include: {
+          packages: { orderBy: { price: 'asc' } },
+          extras: { orderBy: { createdAt: 'asc' } },
           seller: {
             select: {
               id: true,
@@ -176,6 +190,8 @@ export class ServicesService {
     }
 
     // Price range
+    // Service.price is kept in sync with the cheapest package (see
+    // getPackageSummary), so price filters & sorting use the "starting at" price
     if (priceMin !== undefined || priceMax !== undefined) {
       where.price = {};
       if (priceMin !== undefined) {
@@ -229,6 +245,7 @@ export class ServicesService {
         skip,
         take: Number(limit),
         include: {
+          packages: { orderBy: { price: 'asc' } },
           seller: {
             select: {
               id: true,
@@ -269,6 +286,8 @@ export class ServicesService {
     const service = await this.prisma.service.findUnique({
       where: { id },
       include: {
+        packages: { orderBy: { price: 'asc' } },
+        extras: { orderBy: { createdAt: 'asc' } },
         seller: {
           select: {
             id: true,
@@ -331,7 +350,7 @@ export class ServicesService {
     // Check if service exists and belongs to seller
     const service = await this.prisma.service.findUnique({
       where: { id },
-      select: { sellerId: true },
+      select: { sellerId: true, isCustom: true },
     });
 
     if (!service) {
@@ -342,11 +361,39 @@ export class ServicesService {
       throw new ForbiddenException('Anda tidak memiliki akses ke jasa ini');
     }
 
+    // Internal custom-offer services are managed by the system
+    if (service.isCustom) {
+      throw new BadRequestException('Jasa ini tidak dapat diubah');
+    }
+
+    const { packages, extras, ...data } = dto;
+
     // Update service
+    // Sent packages replace the old ones entirely and the service summary
+    // (price/deliveryTime/revisions) is synced to the cheapest package.
+    // The extras catalog is replaced too; existing orders are unaffected
+    // because selected extras are snapshotted to OrderExtra.
     const updated = await this.prisma.service.update({
       where: { id },
-      data: dto,
+      data: {
+        ...data,
+        ...(packages !== undefined && {
+          ...(packages.length > 0 && this.getPackageSummary(packages)),
+          packages: {
+            deleteMany: {},
+            create: packages,
+          },
+        }),
+        ...(extras !== undefined && {
+          extras: {
+            deleteMany: {},
+            create: extras,
+          },
+        }),
+      },
       include: {
+        packages: { orderBy: { price: 'asc' } },
+        extras: { orderBy: { createdAt: 'asc' } },
         seller: {
           select: {
             id: true,
@@ -371,7 +418,7 @@ export class ServicesService {
     // Check ownership
     const service = await this.prisma.service.findUnique({
       where: { id },
-      select: { sellerId: true, isActive: true },
+      select: { sellerId: true, isActive: true, isCustom: true },
     });
 
     if (!service) {
@@ -382,6 +429,11 @@ export class ServicesService {
       throw new ForbiddenException('Anda tidak memiliki akses ke jasa ini');
     }
 
+    // Internal custom-offer services are managed by the system
+    if (service.isCustom) {
+      throw new BadRequestException('Jasa ini tidak dapat diubah');
+    }
+
     // Toggle active status
     const updated = await this.prisma.service.update({
       where: { id },
@@ -446,6 +498,7 @@ export class ServicesService {
         where: {
           sellerId,
           status: { not: 'DELETED' } as any,
+          isCustom: false, // Hide internal custom-offer services
         },
         orderBy: {
           createdAt: 'desc',
@@ -473,6 +526,21 @@ export class ServicesService {
     }
   }
 
+  /**
+   * Service summary taken from the cheapest package ("starting at" price)
+   */
+  private getPackageSummary(packages: ServicePackageType[]) {
+    const cheapest = packages.reduce((min, pkg) =>
+      pkg.price < min.price ? pkg : min,
+    );
+
+    return {
+      price: cheapest.price,
+      deliveryTime: cheapest.deliveryTime,
+      revisions: cheapest.revisions,
+    };
+  }
+
   async getFeatured() {
     return this.prisma.service.findMany({
       where: {
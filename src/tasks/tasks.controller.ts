@@ -27,4 +27,25 @@ export class TasksController {
     await this.tasksService.handleExpireUnpaidOrders();
     return { message: 'Auto-expire task triggered manually' };
   }
+
+  @Post('trigger/payment-reconcile')
+  @HttpCode(HttpStatus.OK)
+  async triggerPaymentReconcile() {
+    await this.tasksService.handleReconcilePayments();
+    return { message: 'Payment reconciliation task triggered manually' };
+  }
+
+  @Post('trigger/pending-refunds')
+  @HttpCode(HttpStatus.OK)
+  async triggerPendingRefunds() {
+    await this.tasksService.handlePendingRefunds();
+    return { message: 'Pending refunds task triggered manually' };
+  }
+
+  @Post('trigger/scheduled-payouts')
+  @HttpCode(HttpStatus.OK)
+  async triggerScheduledPayouts() {
+    await this.tasksService.handleScheduledPayouts();
+    return { message: 'Scheduled payouts task triggered manually' };
+  }
 }
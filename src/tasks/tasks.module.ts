@@ -3,9 +3,18 @@ import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
 import { OrdersModule } from '../orders/orders.module';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { OffersModule } from '../offers/offers.module';
+import { AdminModule } from '../admin/admin.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
-  imports: [OrdersModule, NotificationsModule],
+  imports: [
+    OrdersModule,
+    NotificationsModule,
+    OffersModule,
+    AdminModule,
+    PaymentsModule,
+  ],
   providers: [TasksService],
   controllers: [TasksController],
 })
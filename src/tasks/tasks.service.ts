@@ -1,8 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { OrdersService } from '../orders/orders.service';
+import {
+  OrdersService,
+  OVERDUE_GRACE_PERIOD_HOURS,
+} from '../orders/orders.service';
+import { transitionOrderStatus } from '../orders/utils/order-state-machine';
 import { PrismaService } from '../prisma/prisma.service';
 import { NotificationsService } from '../notifications/notifications.service';
+import { OffersService } from '../offers/offers.service';
+import { AdminService } from '../admin/admin.service';
+import {
+  PaymentsService,
+  REFUND_CHOICE_HOURS,
+} from '../payments/payments.service';
+import { WalletsService } from '../wallets/wallets.service';
+import { formatRupiah } from '../wallets/utils/payout-rules';
+import { VouchersService } from '../vouchers/vouchers.service';
 
 @Injectable()
 export class TasksService {
@@ -12,12 +25,18 @@ export class TasksService {
     private prisma: PrismaService,
     private ordersService: OrdersService,
     private notificationService: NotificationsService,
+    private offersService: OffersService,
+    private adminService: AdminService,
+    private paymentsService: PaymentsService,
+    private walletService: WalletsService,
+    private vouchersService: VouchersService,
   ) {}
 
   /**
    * CRON JOB 1: Auto-Complete Orders
    * Berjalan setiap jam.
    * Mencari order 'DELIVERED' yang sudah lebih dari 3 hari (72 jam) tanpa respon buyer.
+   * Milestone yang dikirim lebih dari 3 hari lalu juga disetujui otomatis.
    */
   @Cron(CronExpression.EVERY_HOUR)
   async handleAutoCompleteOrders() {
@@ -26,6 +45,8 @@ export class TasksService {
     const threeDaysAgo = new Date();
     threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
 
+    await this.autoApproveMilestones(threeDaysAgo);
+
     // Cari order yang sudah dikirim seller lebih dari 3 hari lalu
     // dan statusnya masih DELIVERED (belum COMPLETED/REVISION)
     const stuckOrders = await this.prisma.order.findMany({
@@ -34,6 +55,7 @@ export class TasksService {
         deliveredAt: {
           lte: threeDaysAgo, // Less than or equal to (sebelum) 3 hari lalu
         },
+        milestones: { none: {} }, // Order bermilestone diproses per milestone
       },
       include: {
         service: true,
@@ -54,6 +76,7 @@ export class TasksService {
         await this.ordersService.completeOrder(
           order.id,
           order.service.sellerId,
+          { actor: 'SYSTEM', reason: 'Auto-complete setelah 3 hari' },
         );
 
         // Notifikasi ke Buyer
@@ -79,6 +102,67 @@ export class TasksService {
     }
   }
 
+  /**
+   * Bagian dari CRON JOB 1: Auto-Approve Milestones
+   * Mencari milestone 'DELIVERED' yang dikirim sebelum batas waktu tanpa respon buyer.
+   */
+  private async autoApproveMilestones(deliveredBefore: Date) {
+    const stuckMilestones = await this.prisma.orderMilestone.findMany({
+      where: {
+        status: 'DELIVERED',
+        deliveredAt: {
+          lte: deliveredBefore,
+        },
+      },
+      include: {
+        order: {
+          include: { service: true },
+        },
+      },
+    });
+
+    if (stuckMilestones.length === 0) {
+      this.logger.debug('No milestones to auto-approve.');
+      return;
+    }
+
+    this.logger.log(
+      `Found ${stuckMilestones.length} milestones to auto-approve.`,
+    );
+
+    for (const milestone of stuckMilestones) {
+      const { order } = milestone;
+
+      try {
+        // Melepas dana milestone ke seller & lanjut ke milestone berikutnya
+        // (atau menyelesaikan order jika ini milestone terakhir)
+        await this.ordersService.releaseMilestone(
+          order.id,
+          milestone.id,
+          order.service.sellerId,
+          { actor: 'SYSTEM', reason: 'Auto-approve setelah 3 hari' },
+        );
+
+        // Notifikasi ke Buyer
+        await this.notificationService.create({
+          userId: order.buyerId,
+          content: `Milestone "${milestone.title}" pada pesanan #${order.id.substring(0, 8)} otomatis disetujui karena telah melewati batas waktu konfirmasi 3 hari.`,
+          link: `/orders/${order.id}`,
+          type: 'ORDER',
+        });
+
+        this.logger.log(
+          `Milestone ${milestone.id} auto-approved successfully.`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to auto-approve milestone ${milestone.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
   /**
    * CRON JOB 2: Auto-Cancel Unpaid Orders
    * Berjalan setiap jam.
@@ -100,6 +184,7 @@ export class TasksService {
       },
       include: {
         service: true, // perlu info sellerId
+        payment: { select: { id: true, status: true } },
       },
     });
 
@@ -113,14 +198,35 @@ export class TasksService {
     // Kita loop satu per satu agar bisa kirim notifikasi
     for (const order of expiredOrders) {
       try {
-        await this.prisma.order.update({
-          where: { id: order.id },
-          data: {
-            status: 'CANCELLED',
-            cancellationReason:
-              'Sistem: Dibatalkan otomatis karena tidak ada pembayaran dalam 24 jam.',
-            cancelledAt: new Date(),
-          },
+        // Pastikan pembayaran memang belum masuk (webhook bisa saja hilang)
+        if (order.payment?.status === 'PENDING') {
+          const payment = await this.paymentsService.reconcilePayment(
+            order.payment.id,
+          );
+          if (payment.status === 'SETTLEMENT') {
+            this.logger.warn(
+              `Order ${order.id} ternyata sudah dibayar, batal expire.`,
+            );
+            continue;
+          }
+        }
+
+        const cancellationReason =
+          'Sistem: Dibatalkan otomatis karena tidak ada pembayaran dalam 24 jam.';
+        await this.prisma.$transaction(async (tx) => {
+          await transitionOrderStatus(
+            tx,
+            order.id,
+            'CANCELLED',
+            { actor: 'SYSTEM', reason: cancellationReason },
+            { cancellationReason, cancelledAt: new Date() },
+          );
+
+          // Kembalikan saldo wallet yang sudah terpotong (pembayaran campuran)
+          await this.ordersService.refundWalletPaymentInTx(tx, order.id);
+
+          // Kembalikan kuota voucher yang sempat dipakai
+          await this.vouchersService.releaseInTx(tx, order.id);
         });
 
         // Notifikasi Buyer
@@ -143,4 +249,364 @@ export class TasksService {
       }
     }
   }
+
+  /**
+   * CRON JOB: Rekonsiliasi Pembayaran
+   * Berjalan setiap 10 menit.
+   * Payment PENDING yang lebih lama dari PAYMENT_RECONCILE_AFTER_MINUTES
+   * dicek ulang ke gateway, jika webhook tidak pernah diterima.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleReconcilePayments() {
+    this.logger.debug('Running Payment Reconciliation Task...');
+
+    const payments = await this.paymentsService.findPaymentsToReconcile();
+
+    if (payments.length === 0) {
+      this.logger.debug('No pending payments to reconcile.');
+      return;
+    }
+
+    this.logger.log(`Reconciling ${payments.length} pending payments.`);
+
+    for (const payment of payments) {
+      try {
+        await this.paymentsService.reconcilePayment(payment.id);
+      } catch (error) {
+        this.logger.error(
+          `Failed to reconcile payment for order ${payment.orderId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * CRON JOB: Refund Tertunda
+   * Berjalan setiap jam.
+   * - Refund yang tidak dipilih buyer dalam REFUND_CHOICE_HOURS dikembalikan
+   *   otomatis ke metode pembayaran asal
+   * - Refund ke metode asal yang belum sempat dikirim ke gateway diproses ulang
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handlePendingRefunds() {
+    this.logger.debug('Running Pending Refunds Task...');
+
+    const choiceDeadline = new Date();
+    choiceDeadline.setHours(choiceDeadline.getHours() - REFUND_CHOICE_HOURS);
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        refundStatus: 'REQUESTED',
+        OR: [
+          { refundMethod: 'ORIGINAL_METHOD' },
+          { refundMethod: null, refundRequestedAt: { lte: choiceDeadline } },
+        ],
+      },
+      select: { id: true, orderId: true, refundMethod: true },
+    });
+
+    if (payments.length === 0) {
+      this.logger.debug('No pending refunds to process.');
+      return;
+    }
+
+    this.logger.log(`Processing ${payments.length} pending refunds.`);
+
+    for (const payment of payments) {
+      try {
+        if (!payment.refundMethod) {
+          await this.prisma.$transaction((tx) =>
+            this.paymentsService.applyRefundMethodInTx(
+              tx,
+              payment.id,
+              'ORIGINAL_METHOD',
+            ),
+          );
+        }
+
+        await this.paymentsService.processGatewayRefund(payment.id);
+      } catch (error) {
+        this.logger.error(
+          `Failed to process refund for order ${payment.orderId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * CRON JOB: Penarikan Otomatis Mingguan
+   * Berjalan setiap hari pukul 08.00.
+   * Seller yang mengaktifkan jadwal penarikan & punya rekening utama
+   * otomatis dibuatkan penarikan sebesar saldo yang bisa ditarik.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_8AM)
+  async handleScheduledPayouts() {
+    this.logger.debug('Running Scheduled Payouts Task...');
+
+    const wallets = await this.walletService.findWalletsDueForAutoPayout();
+
+    if (wallets.length === 0) {
+      this.logger.debug('No scheduled payouts due today.');
+      return;
+    }
+
+    this.logger.log(`Processing ${wallets.length} scheduled payouts.`);
+
+    for (const wallet of wallets) {
+      try {
+        const payout = await this.walletService.createAutoPayout(wallet.id);
+        if (!payout) continue;
+
+        await this.notificationService.create({
+          userId: wallet.userId,
+          content: `Penarikan otomatis mingguan sebesar ${formatRupiah(payout.amount)} telah dibuat dan menunggu persetujuan admin.`,
+          link: `/wallet/payouts`,
+          type: 'WALLET',
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to create scheduled payout for wallet ${wallet.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * CRON JOB 3: Order Deadlines
+   * Berjalan setiap jam.
+   * - Memperingatkan seller 24 jam sebelum deadline order yang sedang dikerjakan
+   * - Menandai order 'IN_PROGRESS' / 'REVISION' yang melewati dueDate sebagai overdue
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleOrderDeadlines() {
+    this.logger.debug('Running Order Deadlines Task...');
+
+    const now = new Date();
+    const inOneDay = new Date();
+    inOneDay.setHours(inOneDay.getHours() + 24);
+
+    // 1. Peringatan 24 jam sebelum deadline (hanya dikirim sekali)
+    const dueSoonOrders = await this.prisma.order.findMany({
+      where: {
+        status: { in: ['IN_PROGRESS', 'REVISION'] },
+        dueDate: { gt: now, lte: inOneDay },
+        deadlineWarnedAt: null,
+      },
+      include: {
+        service: true,
+      },
+    });
+
+    for (const order of dueSoonOrders) {
+      try {
+        await this.prisma.order.update({
+          where: { id: order.id },
+          data: { deadlineWarnedAt: now },
+        });
+
+        await this.notificationService.create({
+          userId: order.service.sellerId,
+          content: `Deadline pesanan #${order.id.substring(0, 8)} tinggal kurang dari 24 jam. Kirim hasil atau ajukan perpanjangan.`,
+          link: `/seller/orders/${order.id}`,
+          type: 'ORDER',
+        });
+      } catch (error) {
+        this.logger.error(`Failed to warn deadline for ${order.id}:`, error);
+      }
+    }
+
+    // 2. Tandai order yang melewati deadline
+    const overdueOrders = await this.prisma.order.findMany({
+      where: {
+        status: { in: ['IN_PROGRESS', 'REVISION'] },
+        dueDate: { lte: now },
+        overdueAt: null,
+      },
+      include: {
+        service: true,
+      },
+    });
+
+    if (overdueOrders.length === 0) {
+      this.logger.debug('No overdue orders to flag.');
+      return;
+    }
+
+    this.logger.log(`Found ${overdueOrders.length} overdue orders to flag.`);
+
+    for (const order of overdueOrders) {
+      try {
+        await this.prisma.order.update({
+          where: { id: order.id },
+          data: { overdueAt: now },
+        });
+
+        // Notifikasi Seller
+        await this.notificationService.create({
+          userId: order.service.sellerId,
+          content: `Pesanan #${order.id.substring(0, 8)} telah melewati deadline. Pembeli dapat membatalkan pesanan dalam ${OVERDUE_GRACE_PERIOD_HOURS} jam.`,
+          link: `/seller/orders/${order.id}`,
+          type: 'ORDER',
+        });
+
+        // Notifikasi Buyer
+        await this.notificationService.create({
+          userId: order.buyerId,
+          content: `Pesanan #${order.id.substring(0, 8)} telah melewati deadline. Jika belum ada hasil dalam ${OVERDUE_GRACE_PERIOD_HOURS} jam, Anda dapat membatalkan dengan refund penuh.`,
+          link: `/orders/${order.id}`,
+          type: 'ORDER',
+        });
+      } catch (error) {
+        this.logger.error(`Failed to flag overdue order ${order.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * CRON JOB 4: Expire Cancellation Requests
+   * Berjalan setiap jam.
+   * Menandai pengajuan pembatalan bersama yang tidak ditanggapi sebagai EXPIRED.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleExpireCancellationRequests() {
+    this.logger.debug('Running Expire Cancellation Requests Task...');
+
+    const staleRequests = await this.prisma.orderCancellationRequest.findMany({
+      where: {
+        status: 'PENDING',
+        expiresAt: { lte: new Date() },
+      },
+    });
+
+    if (staleRequests.length === 0) {
+      this.logger.debug('No cancellation requests to expire.');
+      return;
+    }
+
+    this.logger.log(
+      `Found ${staleRequests.length} cancellation requests to expire.`,
+    );
+
+    for (const request of staleRequests) {
+      try {
+        await this.prisma.orderCancellationRequest.update({
+          where: { id: request.id },
+          data: { status: 'EXPIRED' },
+        });
+
+        // Notifikasi ke pengaju
+        await this.notificationService.create({
+          userId: request.requestedById,
+          content: `Pengajuan pembatalan pesanan #${request.orderId.substring(0, 8)} kedaluwarsa karena tidak ditanggapi.`,
+          link: `/orders/${request.orderId}`,
+          type: 'ORDER',
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to expire cancellation request ${request.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * CRON JOB 5: Expire Custom Offers
+   * Berjalan setiap jam.
+   * Menandai custom offer 'PENDING' yang sudah melewati expiresAt.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleExpireCustomOffers() {
+    this.logger.debug('Running Expire Custom Offers Task...');
+
+    try {
+      const expiredCount = await this.offersService.expireOffers();
+
+      if (expiredCount > 0) {
+        this.logger.log(`Expired ${expiredCount} custom offers.`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to expire custom offers:', error);
+    }
+  }
+
+  /**
+   * CRON JOB 6: Dispute Deadlines
+   * Berjalan setiap jam.
+   * - AWAITING_RESPONSE yang lewat batas: diputus untuk pembuka sengketa.
+   * - UNDER_REVIEW yang lewat batas peninjauan: dieskalasi ke admin.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleDisputeDeadlines() {
+    this.logger.debug('Running Dispute Deadlines Task...');
+
+    const now = new Date();
+
+    // 1. Pihak lain tidak menanggapi: menangkan pembuka sengketa
+    const unanswered = await this.prisma.dispute.findMany({
+      where: {
+        status: 'AWAITING_RESPONSE',
+        responseDeadline: { lte: now },
+      },
+      include: { order: { select: { buyerId: true } } },
+    });
+
+    for (const dispute of unanswered) {
+      try {
+        const openedByBuyer = dispute.openedById === dispute.order.buyerId;
+
+        await this.adminService.autoResolveDispute(
+          dispute.id,
+          openedByBuyer ? 'REFUND_TO_BUYER' : 'RELEASE_TO_SELLER',
+          'Diputus otomatis: pihak lain tidak menanggapi sengketa hingga batas waktu',
+        );
+        this.logger.log(`Auto-resolved unanswered dispute ${dispute.id}`);
+      } catch (error) {
+        this.logger.error(
+          `Failed to auto-resolve dispute ${dispute.id}:`,
+          error,
+        );
+      }
+    }
+
+    // 2. Peninjauan admin melewati batas: eskalasi
+    const overdueReviews = await this.prisma.dispute.findMany({
+      where: {
+        status: 'UNDER_REVIEW',
+        reviewDeadline: { lte: now },
+      },
+    });
+
+    if (overdueReviews.length === 0) {
+      return;
+    }
+
+    const admins = await this.prisma.user.findMany({
+      where: { role: 'ADMIN' },
+      select: { id: true },
+    });
+
+    for (const dispute of overdueReviews) {
+      try {
+        await this.prisma.dispute.update({
+          where: { id: dispute.id },
+          data: { status: 'ESCALATED', escalatedAt: now },
+        });
+
+        for (const admin of admins) {
+          await this.notificationService.create({
+            userId: admin.id,
+            content: `Sengketa order #${dispute.orderId.substring(0, 8)} melewati batas peninjauan dan dieskalasi.`,
+            link: `/admin/disputes/${dispute.id}`,
+            type: 'DISPUTE',
+          });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to escalate dispute ${dispute.id}:`, error);
+      }
+    }
+  }
 }
@@ -0,0 +1,22 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdminVouchersController } from './admin-vouchers.controller';
+import { VouchersService } from './vouchers.service';
+
+describe('AdminVouchersController', () => {
+  let controller: AdminVouchersController;
+
+  const mockVouchersService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AdminVouchersController],
+      providers: [{ provide: VouchersService, useValue: mockVouchersService }],
+    }).compile();
+
+    controller = module.get<AdminVouchersController>(AdminVouchersController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { VouchersService } from './vouchers.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../admin/guards/admin.guard';
+import type { VoucherFunder } from '@prisma/client';
+import type { CreateVoucherDto, UpdateVoucherDto } from './dto/voucher.dto';
+import { CreateVoucherSchema, UpdateVoucherSchema } from './dto/voucher.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
+
+@Controller('admin/vouchers')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class AdminVouchersController {
+  constructor(private readonly vouchersService: VouchersService) {}
+
+  /**
+   * [Admin] Daftar voucher (platform & seller)
+   * GET /api/admin/vouchers?fundedBy=PLATFORM
+   */
+  @Get()
+  async getVouchers(@Query('fundedBy') fundedBy?: VoucherFunder) {
+    const vouchers = await this.vouchersService.getVouchers(fundedBy);
+    return {
+      success: true,
+      data: vouchers,
+    };
+  }
+
+  /**
+   * [Admin] Membuat voucher yang didanai platform
+   * POST /api/admin/vouchers
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createVoucher(
+    @Body(new ZodValidationPipe(CreateVoucherSchema)) dto: CreateVoucherDto,
+  ) {
+    const voucher = await this.vouchersService.createPlatformVoucher(dto);
+    return {
+      success: true,
+      message: 'Voucher berhasil dibuat',
+      data: voucher,
+    };
+  }
+
+  /**
+   * [Admin] Mengubah voucher
+   * PATCH /api/admin/vouchers/:id
+   */
+  @Patch(':id')
+  async updateVoucher(
+    @Param('id') voucherId: string,
+    @Body(new ZodValidationPipe(UpdateVoucherSchema)) dto: UpdateVoucherDto,
+  ) {
+    const voucher = await this.vouchersService.updateVoucher(voucherId, dto);
+    return {
+      success: true,
+      message: 'Voucher berhasil diperbarui',
+      data: voucher,
+    };
+  }
+
+  /**
+   * [Admin] Menonaktifkan voucher
+   * DELETE /api/admin/vouchers/:id
+   */
+  @Delete(':id')
+  async deactivateVoucher(@Param('id') voucherId: string) {
+    const voucher = await this.vouchersService.deactivateVoucher(voucherId);
+    return {
+      success: true,
+      message: 'Voucher dinonaktifkan',
+      data: voucher,
+    };
+  }
+}
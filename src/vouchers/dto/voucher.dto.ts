@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+const VoucherBaseSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(4, { message: 'Kode voucher minimal 4 karakter' })
+    .max(30, { message: 'Kode voucher maksimal 30 karakter' })
+    .regex(/^[A-Za-z0-9_-]+$/, {
+      message: 'Kode voucher hanya boleh huruf, angka, - dan _',
+    }),
+
+  description: z
+    .string()
+    .max(200, { message: 'Deskripsi maksimal 200 karakter' })
+    .optional(),
+
+  discountType: z.enum(['PERCENTAGE', 'FIXED'], {
+    message: 'Jenis potongan tidak valid',
+  }),
+
+  // Persentase (20 = 20%) atau nominal rupiah
+  discountValue: z.coerce
+    .number()
+    .positive({ message: 'Nilai potongan harus lebih dari 0' }),
+
+  // Batas potongan untuk voucher persentase
+  maxDiscount: z.coerce
+    .number()
+    .positive({ message: 'Batas potongan harus lebih dari 0' })
+    .optional(),
+
+  minSpend: z.coerce
+    .number()
+    .min(0, { message: 'Minimal belanja tidak boleh negatif' })
+    .default(0),
+
+  // Kosong = tanpa batas kuota
+  usageLimit: z.coerce
+    .number()
+    .int()
+    .positive({ message: 'Kuota voucher minimal 1' })
+    .optional(),
+
+  perUserLimit: z.coerce
+    .number()
+    .int()
+    .positive({ message: 'Batas pemakaian per user minimal 1' })
+    .default(1),
+
+  firstOrderOnly: z.boolean().default(false),
+
+  category: z.string().min(1).optional(),
+  serviceId: z.string().min(1).optional(),
+
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * Schema untuk membuat voucher (platform oleh admin, atau milik seller)
+ */
+export const CreateVoucherSchema = VoucherBaseSchema.superRefine(
+  (data, ctx) => {
+    if (data.discountType === 'PERCENTAGE' && data.discountValue > 100) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Potongan persentase maksimal 100',
+        path: ['discountValue'],
+      });
+    }
+
+    if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Tanggal berakhir harus setelah tanggal mulai',
+        path: ['endsAt'],
+      });
+    }
+  },
+);
+
+/**
+ * Schema untuk mengubah voucher
+ * Kode & jenis potongan tidak bisa diubah setelah voucher dibuat
+ * Default dilepas agar field yang tidak dikirim tidak ikut tertimpa
+ */
+export const UpdateVoucherSchema = VoucherBaseSchema.omit({
+  code: true,
+  discountType: true,
+})
+  .extend({
+    minSpend: VoucherBaseSchema.shape.minSpend.unwrap(),
+    perUserLimit: VoucherBaseSchema.shape.perUserLimit.unwrap(),
+    firstOrderOnly: VoucherBaseSchema.shape.firstOrderOnly.unwrap(),
+    isActive: VoucherBaseSchema.shape.isActive.unwrap(),
+  })
+  .partial();
+
+/**
+ * Schema untuk buyer mengecek voucher sebelum checkout
+ */
+export const PreviewVoucherSchema = z.object({
+  orderId: z.string().min(1, { message: 'Order wajib diisi' }),
+  code: z.string().trim().min(1, { message: 'Kode voucher wajib diisi' }),
+});
+
+export type CreateVoucherDto = z.infer<typeof CreateVoucherSchema>;
+export type UpdateVoucherDto = z.infer<typeof UpdateVoucherSchema>;
+export type PreviewVoucherDto = z.infer<typeof PreviewVoucherSchema>;
@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client';
+import {
+  calculateVoucherDiscount,
+  checkVoucherEligibility,
+  normalizeVoucherCode,
+  type VoucherCandidate,
+  type VoucherOrderContext,
+} from './voucher-rules';
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+const voucher = (
+  overrides: Partial<VoucherCandidate> = {},
+): VoucherCandidate => ({
+  fundedBy: 'PLATFORM',
+  sellerId: null,
+  discountType: 'PERCENTAGE',
+  discountValue: d(20),
+  maxDiscount: null,
+  minSpend: d(0),
+  usageLimit: null,
+  perUserLimit: 1,
+  usedCount: 0,
+  firstOrderOnly: false,
+  category: null,
+  serviceId: null,
+  startsAt: null,
+  endsAt: null,
+  isActive: true,
+  ...overrides,
+});
+
+const context = (
+  overrides: Partial<VoucherOrderContext> = {},
+): VoucherOrderContext => ({
+  orderAmount: d(100000),
+  serviceId: 'service-1',
+  category: 'design',
+  sellerId: 'seller-1',
+  userRedemptions: 0,
+  paidOrders: 0,
+  now: new Date('2026-10-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('normalizeVoucherCode', () => {
+  it('trims and uppercases the code', () => {
+    expect(normalizeVoucherCode('  kampus20 ')).toBe('KAMPUS20');
+  });
+});
+
+describe('checkVoucherEligibility', () => {
+  it('accepts a voucher without restrictions', () => {
+    expect(checkVoucherEligibility(voucher(), context())).toBeNull();
+  });
+
+  it('checks the validity window', () => {
+    expect(
+      checkVoucherEligibility(
+        voucher({ startsAt: new Date('2026-10-02T00:00:00Z') }),
+        context(),
+      ),
+    ).toBe('Voucher belum berlaku');
+    expect(
+      checkVoucherEligibility(
+        voucher({ endsAt: new Date('2026-10-01T00:00:00Z') }),
+        context(),
+      ),
+    ).toBe('Voucher sudah kedaluwarsa');
+  });
+
+  it('enforces global and per-user limits', () => {
+    expect(
+      checkVoucherEligibility(
+        voucher({ usageLimit: 5, usedCount: 5 }),
+        context(),
+      ),
+    ).toBe('Kuota voucher sudah habis');
+    expect(
+      checkVoucherEligibility(
+        voucher({ perUserLimit: 2 }),
+        context({ userRedemptions: 2 }),
+      ),
+    ).toBe('Anda sudah mencapai batas pemakaian voucher ini');
+  });
+
+  it('limits first-order vouchers to buyers without paid orders', () => {
+    expect(
+      checkVoucherEligibility(
+        voucher({ firstOrderOnly: true }),
+        context({ paidOrders: 1 }),
+      ),
+    ).toBe('Voucher ini khusus untuk pesanan pertama');
+  });
+
+  it('checks seller, service and category scope', () => {
+    expect(
+      checkVoucherEligibility(
+        voucher({ fundedBy: 'SELLER', sellerId: 'seller-2' }),
+        context(),
+      ),
+    ).toBe('Voucher tidak berlaku untuk jasa ini');
+    expect(
+      checkVoucherEligibility(voucher({ serviceId: 'service-2' }), context()),
+    ).toBe('Voucher tidak berlaku untuk jasa ini');
+    expect(
+      checkVoucherEligibility(voucher({ category: 'writing' }), context()),
+    ).toBe('Voucher tidak berlaku untuk kategori jasa ini');
+  });
+
+  it('requires the minimum spend', () => {
+    expect(
+      checkVoucherEligibility(voucher({ minSpend: d(150000) }), context()),
+    ).toBe('Minimal belanja untuk voucher ini Rp 150000');
+  });
+});
+
+describe('calculateVoucherDiscount', () => {
+  it('calculates percentage discounts rounded down to whole rupiah', () => {
+    expect(
+      calculateVoucherDiscount(
+        voucher({ discountValue: d(15) }),
+        d(33333),
+      ).toNumber(),
+    ).toBe(4999);
+  });
+
+  it('caps percentage discounts at maxDiscount', () => {
+    expect(
+      calculateVoucherDiscount(
+        voucher({ maxDiscount: d(10000) }),
+        d(100000),
+      ).toNumber(),
+    ).toBe(10000);
+  });
+
+  it('never discounts more than the order amount', () => {
+    expect(
+      calculateVoucherDiscount(
+        voucher({ discountType: 'FIXED', discountValue: d(50000) }),
+        d(30000),
+      ).toNumber(),
+    ).toBe(30000);
+  });
+});
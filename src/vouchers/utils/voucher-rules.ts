@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import type { Voucher } from '@prisma/client';
+
+/**
+ * Helper untuk memeriksa kelayakan voucher & menghitung potongannya
+ */
+
+export type VoucherCandidate = Pick<
+  Voucher,
+  | 'fundedBy'
+  | 'sellerId'
+  | 'discountType'
+  | 'discountValue'
+  | 'maxDiscount'
+  | 'minSpend'
+  | 'usageLimit'
+  | 'perUserLimit'
+  | 'usedCount'
+  | 'firstOrderOnly'
+  | 'category'
+  | 'serviceId'
+  | 'startsAt'
+  | 'endsAt'
+  | 'isActive'
+>;
+
+export type VoucherOrderContext = {
+  orderAmount: Prisma.Decimal;
+  serviceId: string;
+  category: string;
+  sellerId: string;
+  // Jumlah voucher ini yang sudah dipakai buyer (tidak termasuk yang dikembalikan)
+  userRedemptions: number;
+  // Jumlah order buyer yang sudah pernah dibayar
+  paidOrders: number;
+  now?: Date;
+};
+
+/**
+ * Kode voucher tidak peka huruf besar/kecil & spasi di tepi
+ */
+export function normalizeVoucherCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Periksa apakah voucher bisa dipakai untuk sebuah order
+ *
+ * @returns Pesan error, atau null jika voucher bisa dipakai
+ */
+export function checkVoucherEligibility(
+  voucher: VoucherCandidate,
+  context: VoucherOrderContext,
+): string | null {
+  const now = context.now ?? new Date();
+
+  if (!voucher.isActive) {
+    return 'Voucher tidak aktif';
+  }
+  if (voucher.startsAt && voucher.startsAt > now) {
+    return 'Voucher belum berlaku';
+  }
+  if (voucher.endsAt && voucher.endsAt <= now) {
+    return 'Voucher sudah kedaluwarsa';
+  }
+  if (voucher.usageLimit !== null && voucher.usedCount >= voucher.usageLimit) {
+    return 'Kuota voucher sudah habis';
+  }
+  if (context.userRedemptions >= voucher.perUserLimit) {
+    return 'Anda sudah mencapai batas pemakaian voucher ini';
+  }
+  if (voucher.firstOrderOnly && context.paidOrders > 0) {
+    return 'Voucher ini khusus untuk pesanan pertama';
+  }
+  if (voucher.sellerId && voucher.sellerId !== context.sellerId) {
+    return 'Voucher tidak berlaku untuk jasa ini';
+  }
+  if (voucher.serviceId && voucher.serviceId !== context.serviceId) {
+    return 'Voucher tidak berlaku untuk jasa ini';
+  }
+  if (voucher.category && voucher.category !== context.category) {
+    return 'Voucher tidak berlaku untuk kategori jasa ini';
+  }
+  if (context.orderAmount.lt(voucher.minSpend)) {
+    return `Minimal belanja untuk voucher ini Rp ${voucher.minSpend.toFixed(0)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Hitung potongan voucher (dibulatkan ke bawah per rupiah)
+ *
+ * Potongan persentase dibatasi maxDiscount, dan potongan apa pun
+ * tidak pernah melebihi nominal order.
+ */
+export function calculateVoucherDiscount(
+  voucher: Pick<
+    VoucherCandidate,
+    'discountType' | 'discountValue' | 'maxDiscount'
+  >,
+  orderAmount: Prisma.Decimal,
+): Prisma.Decimal {
+  let discount =
+    voucher.discountType === 'PERCENTAGE'
+      ? orderAmount
+          .mul(voucher.discountValue)
+          .div(100)
+          .toDecimalPlaces(0, Prisma.Decimal.ROUND_DOWN)
+      : voucher.discountValue;
+
+  if (voucher.discountType === 'PERCENTAGE' && voucher.maxDiscount) {
+    discount = Prisma.Decimal.min(discount, voucher.maxDiscount);
+  }
+
+  return Prisma.Decimal.max(
+    Prisma.Decimal.min(discount, orderAmount),
+    new Prisma.Decimal(0),
+  );
+}
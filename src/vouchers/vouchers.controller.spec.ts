@@ -0,0 +1,22 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { VouchersController } from './vouchers.controller';
+import { VouchersService } from './vouchers.service';
+
+describe('VouchersController', () => {
+  let controller: VouchersController;
+
+  const mockVouchersService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [VouchersController],
+      providers: [{ provide: VouchersService, useValue: mockVouchersService }],
+    }).compile();
+
+    controller = module.get<VouchersController>(VouchersController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
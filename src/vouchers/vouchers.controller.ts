@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { VouchersService } from './vouchers.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type {
+  CreateVoucherDto,
+  PreviewVoucherDto,
+  UpdateVoucherDto,
+} from './dto/voucher.dto';
+import {
+  CreateVoucherSchema,
+  PreviewVoucherSchema,
+  UpdateVoucherSchema,
+} from './dto/voucher.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
+
+@Controller('vouchers')
+@UseGuards(JwtAuthGuard)
+export class VouchersController {
+  constructor(private readonly vouchersService: VouchersService) {}
+
+  /**
+   * Cek potongan voucher untuk order sebelum checkout
+   * POST /api/vouchers/preview
+   */
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  async previewVoucher(
+    @GetUser('id') buyerId: string,
+    @Body(new ZodValidationPipe(PreviewVoucherSchema)) dto: PreviewVoucherDto,
+  ) {
+    const preview = await this.vouchersService.previewForOrder(buyerId, dto);
+    return {
+      success: true,
+      data: preview,
+    };
+  }
+
+  /**
+   * Daftar voucher milik seller
+   * GET /api/vouchers/seller
+   */
+  @Get('seller')
+  async getSellerVouchers(@GetUser('id') sellerId: string) {
+    const vouchers = await this.vouchersService.getSellerVouchers(sellerId);
+    return {
+      success: true,
+      data: vouchers,
+    };
+  }
+
+  /**
+   * Seller membuat voucher untuk jasanya (potongan ditanggung seller)
+   * POST /api/vouchers/seller
+   */
+  @Post('seller')
+  @HttpCode(HttpStatus.CREATED)
+  async createSellerVoucher(
+    @GetUser('id') sellerId: string,
+    @Body(new ZodValidationPipe(CreateVoucherSchema)) dto: CreateVoucherDto,
+  ) {
+    const voucher = await this.vouchersService.createSellerVoucher(
+      sellerId,
+      dto,
+    );
+    return {
+      success: true,
+      message: 'Voucher berhasil dibuat',
+      data: voucher,
+    };
+  }
+
+  /**
+   * Seller mengubah voucher miliknya
+   * PATCH /api/vouchers/seller/:id
+   */
+  @Patch('seller/:id')
+  async updateSellerVoucher(
+    @GetUser('id') sellerId: string,
+    @Param('id') voucherId: string,
+    @Body(new ZodValidationPipe(UpdateVoucherSchema)) dto: UpdateVoucherDto,
+  ) {
+    const voucher = await this.vouchersService.updateSellerVoucher(
+      sellerId,
+      voucherId,
+      dto,
+    );
+    return {
+      success: true,
+      message: 'Voucher berhasil diperbarui',
+      data: voucher,
+    };
+  }
+
+  /**
+   * Seller menonaktifkan voucher miliknya
+   * DELETE /api/vouchers/seller/:id
+   */
+  @Delete('seller/:id')
+  async deactivateSellerVoucher(
+    @GetUser('id') sellerId: string,
+    @Param('id') voucherId: string,
+  ) {
+    const voucher = await this.vouchersService.deactivateSellerVoucher(
+      sellerId,
+      voucherId,
+    );
+    return {
+      success: true,
+      message: 'Voucher dinonaktifkan',
+      data: voucher,
+    };
+  }
+}
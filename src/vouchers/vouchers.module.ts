@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { VouchersService } from './vouchers.service';
+import { VouchersController } from './vouchers.controller';
+import { AdminVouchersController } from './admin-vouchers.controller';
+
+@Global() // Dipakai oleh Orders saat checkout & pelepasan dana escrow
+@Module({
+  providers: [VouchersService],
+  controllers: [VouchersController, AdminVouchersController],
+  exports: [VouchersService],
+})
+export class VouchersModule {}
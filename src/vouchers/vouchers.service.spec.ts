@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { VouchersService } from './vouchers.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  CreateVoucherSchema,
+  UpdateVoucherSchema,
+  type UpdateVoucherDto,
+} from './dto/voucher.dto';
+
+describe('VouchersService', () => {
+  let service: VouchersService;
+
+  const voucher = (overrides: Record<string, unknown> = {}) => ({
+    id: 'voucher-1',
+    code: 'HEMAT20',
+    fundedBy: 'SELLER',
+    sellerId: 'seller-1',
+    discountType: 'PERCENTAGE',
+    discountValue: new Prisma.Decimal(20),
+    usedCount: 0,
+    startsAt: null,
+    endsAt: null,
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    voucher: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const mockLedgerService = {};
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VouchersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<VouchersService>(VouchersService);
+  });
+
+  describe('updateSellerVoucher', () => {
+    it('only writes editable fields', async () => {
+      mockPrismaService.voucher.findFirst.mockResolvedValue(voucher());
+
+      // Field di luar schema (mis. dari body mentah) tidak boleh ikut tersimpan
+      const dto = {
+        description: 'Diskon semester baru',
+        fundedBy: 'PLATFORM',
+        sellerId: 'seller-2',
+        usedCount: 0,
+      } as UpdateVoucherDto;
+
+      await service.updateSellerVoucher('seller-1', 'voucher-1', dto);
+
+      expect(mockPrismaService.voucher.update).toHaveBeenCalledWith({
+        where: { id: 'voucher-1' },
+        data: expect.not.objectContaining({
+          fundedBy: expect.anything() as unknown,
+          sellerId: expect.anything() as unknown,
+          usedCount: expect.anything() as unknown,
+        }) as unknown,
+      });
+    });
+
+    it('rejects a percentage discount above 100', async () => {
+      mockPrismaService.voucher.findFirst.mockResolvedValue(voucher());
+
+      await expect(
+        service.updateSellerVoucher('seller-1', 'voucher-1', {
+          discountValue: 150,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockPrismaService.voucher.update).not.toHaveBeenCalled();
+    });
+
+    it('checks the end date against the stored start date', async () => {
+      mockPrismaService.voucher.findFirst.mockResolvedValue(
+        voucher({ startsAt: new Date('2026-03-01') }),
+      );
+
+      await expect(
+        service.updateSellerVoucher('seller-1', 'voucher-1', {
+          endsAt: new Date('2026-02-01'),
+        }),
+      ).rejects.toThrow('Tanggal berakhir harus setelah tanggal mulai');
+    });
+  });
+
+  describe('createSellerVoucher', () => {
+    it('sets the funder and owner from the caller, not the body', async () => {
+      mockPrismaService.voucher.findUnique.mockResolvedValue(null);
+
+      const dto = CreateVoucherSchema.parse({
+        code: 'hemat20',
+        discountType: 'PERCENTAGE',
+        discountValue: 20,
+        fundedBy: 'PLATFORM',
+      });
+
+      await service.createSellerVoucher('seller-1', dto);
+
+      expect(mockPrismaService.voucher.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          code: 'HEMAT20',
+          fundedBy: 'SELLER',
+          sellerId: 'seller-1',
+        }) as unknown,
+      });
+    });
+  });
+
+  describe('voucher schemas', () => {
+    it('rejects a percentage discount above 100 on create', () => {
+      const result = CreateVoucherSchema.safeParse({
+        code: 'HEMAT200',
+        discountType: 'PERCENTAGE',
+        discountValue: 200,
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('does not fill defaults into a partial update', () => {
+      expect(UpdateVoucherSchema.parse({ description: 'Baru' })).toEqual({
+        description: 'Baru',
+      });
+    });
+  });
+});
@@ -0,0 +1,433 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type {
+  Order,
+  PrismaClient,
+  Service,
+  Voucher,
+  VoucherFunder,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import type {
+  CreateVoucherDto,
+  PreviewVoucherDto,
+  UpdateVoucherDto,
+} from './dto/voucher.dto';
+import {
+  calculateVoucherDiscount,
+  checkVoucherEligibility,
+  normalizeVoucherCode,
+} from './utils/voucher-rules';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
+// Voucher hanya bisa dipakai sebelum order dibayar
+const VOUCHER_APPLICABLE_STATUSES: Order['status'][] = [
+  'DRAFT',
+  'WAITING_PAYMENT',
+];
+
+@Injectable()
+export class VouchersService {
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * [Admin] Daftar semua voucher
+   */
+  async getVouchers(fundedBy?: VoucherFunder) {
+    return this.prisma.voucher.findMany({
+      where: { fundedBy },
+      include: {
+        seller: { select: { id: true, fullName: true } },
+      },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * [Admin] Membuat voucher yang didanai platform
+   */
+  async createPlatformVoucher(dto: CreateVoucherDto) {
+    return this.createVoucher('PLATFORM', null, dto);
+  }
+
+  /**
+   * [Admin] Mengubah voucher mana pun
+   */
+  async updateVoucher(voucherId: string, dto: UpdateVoucherDto) {
+    const voucher = await this.findVoucher(voucherId);
+
+    return this.applyUpdate(voucher, dto);
+  }
+
+  /**
+   * [Admin] Menonaktifkan voucher
+   * Voucher tidak dihapus agar riwayat pemakaiannya tetap bisa ditelusuri
+   */
+  async deactivateVoucher(voucherId: string) {
+    await this.findVoucher(voucherId);
+
+    return this.prisma.voucher.update({
+      where: { id: voucherId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Daftar voucher milik seller
+   */
+  async getSellerVouchers(sellerId: string) {
+    return this.prisma.voucher.findMany({
+      where: { sellerId },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Seller membuat voucher untuk jasanya sendiri (potongan ditanggung seller)
+   */
+  async createSellerVoucher(sellerId: string, dto: CreateVoucherDto) {
+    if (dto.serviceId) {
+      await this.assertServiceOwner(sellerId, dto.serviceId);
+    }
+
+    return this.createVoucher('SELLER', sellerId, dto);
+  }
+
+  /**
+   * Seller mengubah voucher miliknya
+   */
+  async updateSellerVoucher(
+    sellerId: string,
+    voucherId: string,
+    dto: UpdateVoucherDto,
+  ) {
+    const voucher = await this.findVoucher(voucherId, sellerId);
+
+    if (dto.serviceId) {
+      await this.assertServiceOwner(sellerId, dto.serviceId);
+    }
+
+    return this.applyUpdate(voucher, dto);
+  }
+
+  /**
+   * Seller menonaktifkan voucher miliknya
+   */
+  async deactivateSellerVoucher(sellerId: string, voucherId: string) {
+    await this.findVoucher(voucherId, sellerId);
+
+    return this.prisma.voucher.update({
+      where: { id: voucherId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Buyer mengecek potongan voucher untuk order sebelum checkout
+   */
+  async previewForOrder(buyerId: string, dto: PreviewVoucherDto) {
+    const order = await this.prisma.order.findFirst({
+      where: { id: dto.orderId, buyerId },
+      include: { service: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order tidak ditemukan');
+    }
+
+    const { voucher, discount } = await this.evaluate(
+      this.prisma,
+      order,
+      buyerId,
+      dto.code,
+    );
+
+    return {
+      code: voucher.code,
+      description: voucher.description,
+      fundedBy: voucher.fundedBy,
+      discountAmount: discount,
+      payableAmount: order.price.sub(discount),
+    };
+  }
+
+  /**
+   * Terapkan voucher ke order saat checkout (di dalam transaksi confirmOrder)
+   *
+   * Kuota voucher dikunci dengan update bersyarat agar pemakaian bersamaan
+   * tidak melebihi usageLimit. Konfirmasi ulang dengan kode yang sama
+   * tidak memakai kuota lagi.
+   */
+  async applyInTx(tx: Tx, orderId: string, buyerId: string, code: string) {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        service: true,
+        payment: true,
+        voucherRedemption: { include: { voucher: true } },
+      },
+    });
+
+    const redemption = order.voucherRedemption;
+    if (redemption && !redemption.releasedAt) {
+      if (redemption.voucher.code === normalizeVoucherCode(code)) {
+        return order;
+      }
+      throw new BadRequestException('Pesanan ini sudah memakai voucher lain');
+    }
+
+    if (order.payment?.walletAmount.gt(0)) {
+      throw new BadRequestException(
+        'Voucher harus dipakai sebelum membayar dengan saldo wallet',
+      );
+    }
+
+    const { voucher, discount } = await this.evaluate(tx, order, buyerId, code);
+
+    const { count } = await tx.voucher.updateMany({
+      where: {
+        id: voucher.id,
+        isActive: true,
+        ...(voucher.usageLimit !== null && {
+          usedCount: { lt: voucher.usageLimit },
+        }),
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Kuota voucher sudah habis');
+    }
+
+    await tx.voucherRedemption.create({
+      data: {
+        voucherId: voucher.id,
+        orderId,
+        userId: buyerId,
+        amount: discount,
+      },
+    });
+
+    // Sesi pembayaran lama (jika ada) mengikuti nominal baru
+    const payable = order.price.sub(discount);
+    await tx.payment.updateMany({
+      where: { orderId },
+      data: { amount: payable, gatewayAmount: payable },
+    });
+
+    return tx.order.update({
+      where: { id: orderId },
+      data: { discountAmount: discount, discountFundedBy: voucher.fundedBy },
+    });
+  }
+
+  /**
+   * Kembalikan kuota voucher untuk order yang batal
+   * Dipanggil di setiap jalur pembatalan (termasuk yang mengembalikan dana
+   * escrow) dan saat order kedaluwarsa sebelum dibayar
+   */
+  async releaseInTx(tx: Tx, orderId: string) {
+    const redemption = await tx.voucherRedemption.findUnique({
+      where: { orderId },
+    });
+
+    if (!redemption || redemption.releasedAt) {
+      return;
+    }
+
+    const { count } = await tx.voucherRedemption.updateMany({
+      where: { id: redemption.id, releasedAt: null },
+      data: { releasedAt: new Date() },
+    });
+
+    if (count > 0) {
+      await tx.voucher.update({
+        where: { id: redemption.voucherId },
+        data: { usedCount: { decrement: 1 } },
+      });
+    }
+  }
+
+  /**
+   * Setor potongan voucher platform ke escrow saat dana dilepas ke seller
+   */
+  async fundDiscountInTx(tx: Tx, orderId: string, amount: Prisma.Decimal) {
+    return this.ledgerService.postInTx(tx, {
+      description: `Potongan voucher platform untuk order #${orderId.substring(0, 8)}`,
+      orderId,
+      lines: [
+        { account: 'PROMOTION_EXPENSE', direction: 'DEBIT', amount },
+        { account: 'ESCROW_HOLDING', direction: 'CREDIT', amount },
+      ],
+    });
+  }
+
+  /**
+   * Helper untuk membuat voucher dengan kode yang dinormalisasi
+   */
+  private async createVoucher(
+    fundedBy: VoucherFunder,
+    sellerId: string | null,
+    dto: CreateVoucherDto,
+  ) {
+    const code = normalizeVoucherCode(dto.code);
+
+    const existing = await this.prisma.voucher.findUnique({
+      where: { code },
+    });
+    if (existing) {
+      throw new BadRequestException('Kode voucher sudah digunakan');
+    }
+
+    return this.prisma.voucher.create({
+      data: {
+        code,
+        description: dto.description,
+        discountType: dto.discountType,
+        discountValue: dto.discountValue,
+        maxDiscount: dto.maxDiscount,
+        minSpend: dto.minSpend,
+        usageLimit: dto.usageLimit,
+        perUserLimit: dto.perUserLimit,
+        firstOrderOnly: dto.firstOrderOnly,
+        category: dto.category,
+        serviceId: dto.serviceId,
+        startsAt: dto.startsAt,
+        endsAt: dto.endsAt,
+        isActive: dto.isActive,
+        fundedBy,
+        sellerId,
+      },
+    });
+  }
+
+  /**
+   * Helper untuk mengubah voucher dari field yang boleh diubah saja
+   * Batas persentase & periode diperiksa terhadap nilai voucher yang tersimpan
+   */
+  private async applyUpdate(voucher: Voucher, dto: UpdateVoucherDto) {
+    if (
+      voucher.discountType === 'PERCENTAGE' &&
+      dto.discountValue !== undefined &&
+      dto.discountValue > 100
+    ) {
+      throw new BadRequestException('Potongan persentase maksimal 100');
+    }
+
+    const startsAt = dto.startsAt ?? voucher.startsAt;
+    const endsAt = dto.endsAt ?? voucher.endsAt;
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw new BadRequestException(
+        'Tanggal berakhir harus setelah tanggal mulai',
+      );
+    }
+
+    return this.prisma.voucher.update({
+      where: { id: voucher.id },
+      data: {
+        description: dto.description,
+        discountValue: dto.discountValue,
+        maxDiscount: dto.maxDiscount,
+        minSpend: dto.minSpend,
+        usageLimit: dto.usageLimit,
+        perUserLimit: dto.perUserLimit,
+        firstOrderOnly: dto.firstOrderOnly,
+        category: dto.category,
+        serviceId: dto.serviceId,
+        startsAt: dto.startsAt,
+        endsAt: dto.endsAt,
+        isActive: dto.isActive,
+      },
+    });
+  }
+
+  /**
+   * Helper untuk memeriksa voucher & menghitung potongan untuk order
+   */
+  private async evaluate(
+    tx: Tx,
+    order: Order & { service: Service },
+    buyerId: string,
+    code: string,
+  ) {
+    if (!VOUCHER_APPLICABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        'Voucher hanya bisa dipakai untuk pesanan yang belum dibayar',
+      );
+    }
+
+    const voucher = await tx.voucher.findUnique({
+      where: { code: normalizeVoucherCode(code) },
+    });
+
+    if (!voucher) {
+      throw new NotFoundException('Voucher tidak ditemukan');
+    }
+
+    const [userRedemptions, paidOrders] = await Promise.all([
+      tx.voucherRedemption.count({
+        where: { voucherId: voucher.id, userId: buyerId, releasedAt: null },
+      }),
+      tx.order.count({ where: { buyerId, isPaid: true } }),
+    ]);
+
+    const error = checkVoucherEligibility(voucher, {
+      orderAmount: order.price,
+      serviceId: order.serviceId,
+      category: order.service.category,
+      sellerId: order.service.sellerId,
+      userRedemptions,
+      paidOrders,
+    });
+
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    return {
+      voucher,
+      discount: calculateVoucherDiscount(voucher, order.price),
+    };
+  }
+
+  /**
+   * Helper untuk memastikan voucher ada (dan milik seller, jika diberikan)
+   */
+  private async findVoucher(voucherId: string, sellerId?: string) {
+    const voucher = await this.prisma.voucher.findFirst({
+      where: { id: voucherId, ...(sellerId && { sellerId }) },
+    });
+
+    if (!voucher) {
+      throw new NotFoundException('Voucher tidak ditemukan');
+    }
+
+    return voucher;
+  }
+
+  /**
+   * Helper untuk memastikan jasa yang dipilih milik seller
+   */
+  private async assertServiceOwner(sellerId: string, serviceId: string) {
+    const service = await this.prisma.service.findFirst({
+      where: { id: serviceId, sellerId },
+      select: { id: true },
+    });
+
+    if (!service) {
+      throw new NotFoundException('Jasa tidak ditemukan');
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Kontrak provider inquiry rekening bank
+ *
+ * Dipakai WalletsService untuk memastikan rekening benar-benar ada dan
+ * mengambil nama pemilik yang terdaftar di bank sebelum rekening disimpan.
+ */
+
+// Token injeksi provider yang aktif
+export const BANK_INQUIRY_PROVIDER = Symbol('BANK_INQUIRY_PROVIDER');
+
+export type BankInquiryInput = {
+  bankName: string;
+  accountNumber: string;
+  // Nama yang diketik user (sebagian provider memakainya untuk validasi)
+  accountName: string;
+};
+
+export type BankInquiryResult =
+  | { found: true; accountName: string }
+  | { found: false };
+
+export interface BankInquiryProvider {
+  // Disimpan di kolom PayoutAccount.verificationProvider
+  readonly name: string;
+
+  inquire(input: BankInquiryInput): Promise<BankInquiryResult>;
+}
@@ -0,0 +1,43 @@
+import { StubBankInquiryProvider } from './stub-bank-inquiry.provider';
+
+describe('StubBankInquiryProvider', () => {
+  let provider: StubBankInquiryProvider;
+
+  beforeEach(() => {
+    provider = new StubBankInquiryProvider();
+  });
+
+  it('echoes the typed name for unknown accounts', async () => {
+    await expect(
+      provider.inquire({
+        bankName: 'BCA',
+        accountNumber: '1234567890',
+        accountName: 'Budi Santoso',
+      }),
+    ).resolves.toEqual({ found: true, accountName: 'Budi Santoso' });
+  });
+
+  it('returns the registered holder name', async () => {
+    provider.register('bca', '1234567890', 'SITI AMINAH');
+
+    await expect(
+      provider.inquire({
+        bankName: 'BCA ',
+        accountNumber: '1234567890',
+        accountName: 'Budi Santoso',
+      }),
+    ).resolves.toEqual({ found: true, accountName: 'SITI AMINAH' });
+  });
+
+  it('reports accounts registered as missing', async () => {
+    provider.register('BNI', '9876543210', null);
+
+    await expect(
+      provider.inquire({
+        bankName: 'BNI',
+        accountNumber: '9876543210',
+        accountName: 'Budi Santoso',
+      }),
+    ).resolves.toEqual({ found: false });
+  });
+});
@@ -0,0 +1,41 @@
+import type {
+  BankInquiryInput,
+  BankInquiryProvider,
+  BankInquiryResult,
+} from './bank-inquiry.interface';
+
+/**
+ * Provider inquiry rekening lokal tanpa jaringan untuk development & test
+ *
+ * Rekening yang didaftarkan lewat register() mengembalikan nama yang
+ * didaftarkan (null = rekening tidak ditemukan). Rekening lain dianggap
+ * ada dengan nama sesuai yang diketik user.
+ */
+export class StubBankInquiryProvider implements BankInquiryProvider {
+  readonly name = 'stub';
+
+  private accounts = new Map<string, string | null>();
+
+  register(
+    bankName: string,
+    accountNumber: string,
+    accountName: string | null,
+  ) {
+    this.accounts.set(this.key(bankName, accountNumber), accountName);
+  }
+
+  inquire(input: BankInquiryInput): Promise<BankInquiryResult> {
+    const key = this.key(input.bankName, input.accountNumber);
+    const accountName = this.accounts.has(key)
+      ? this.accounts.get(key)
+      : input.accountName;
+
+    return Promise.resolve(
+      accountName ? { found: true, accountName } : { found: false },
+    );
+  }
+
+  private key(bankName: string, accountNumber: string) {
+    return `${bankName.trim().toUpperCase()}:${accountNumber}`;
+  }
+}
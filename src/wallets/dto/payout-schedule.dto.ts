@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const UpdatePayoutScheduleSchema = z.object({
+  enabled: z.boolean(),
+  // 0 = Minggu ... 6 = Sabtu
+  weekday: z
+    .number()
+    .int()
+    .min(0, { message: 'Hari penarikan tidak valid' })
+    .max(6, { message: 'Hari penarikan tidak valid' })
+    .optional(),
+});
+
+export type UpdatePayoutScheduleDto = z.infer<
+  typeof UpdatePayoutScheduleSchema
+>;
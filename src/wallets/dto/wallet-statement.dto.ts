@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const WalletStatementQuerySchema = z.object({
+  // Bulan laporan (YYYY-MM), default bulan berjalan
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Format bulan YYYY-MM' })
+    .optional(),
+  // Atau rentang tanggal (YYYY-MM-DD, inklusif)
+  from: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Format tanggal YYYY-MM-DD' })
+    .optional(),
+  to: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Format tanggal YYYY-MM-DD' })
+    .optional(),
+  // Jenis transaksi, dipisah koma (mis. ESCROW_RELEASE,PAYOUT_REQUEST)
+  types: z.string().optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const WalletStatementExportSchema = WalletStatementQuerySchema.omit({
+  page: true,
+  limit: true,
+}).extend({
+  format: z.enum(['pdf', 'csv']).default('pdf'),
+});
+
+export type WalletStatementQueryDto = z.infer<
+  typeof WalletStatementQuerySchema
+>;
+export type WalletStatementExportDto = z.infer<
+  typeof WalletStatementExportSchema
+>;
@@ -0,0 +1,93 @@
+import { randomBytes } from 'crypto';
+import {
+  decryptAccountNumber,
+  encryptAccountNumber,
+  hashAccountNumber,
+  isAccountNameMatch,
+  maskPayoutAccount,
+  parseEncryptionKey,
+} from './payout-account';
+
+describe('account number encryption', () => {
+  const key = randomBytes(32);
+
+  it('round-trips an account number without storing it in plain text', () => {
+    const encrypted = encryptAccountNumber('1234567890', key);
+
+    expect(encrypted).not.toContain('1234567890');
+    expect(decryptAccountNumber(encrypted, key)).toBe('1234567890');
+  });
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptAccountNumber('1234567890', key)).not.toBe(
+      encryptAccountNumber('1234567890', key),
+    );
+  });
+
+  it('rejects tampered ciphertext and the wrong key', () => {
+    const [version, iv, tag, data] = encryptAccountNumber(
+      '1234567890',
+      key,
+    ).split(':');
+    const tampered = [
+      version,
+      iv,
+      tag,
+      Buffer.from('9999999999').toString('base64'),
+    ].join(':');
+
+    expect(() => decryptAccountNumber(tampered, key)).toThrow();
+    expect(() =>
+      decryptAccountNumber([version, iv, tag, data].join(':'), randomBytes(32)),
+    ).toThrow();
+  });
+
+  it('hashes account numbers deterministically', () => {
+    expect(hashAccountNumber('1234567890', key)).toBe(
+      hashAccountNumber('1234567890', key),
+    );
+    expect(hashAccountNumber('1234567890', key)).not.toBe(
+      hashAccountNumber('1234567891', key),
+    );
+  });
+
+  it('parses hex and base64 keys', () => {
+    const raw = randomBytes(32);
+
+    expect(parseEncryptionKey(raw.toString('hex'))).toEqual(raw);
+    expect(parseEncryptionKey(raw.toString('base64'))).toEqual(raw);
+    expect(() => parseEncryptionKey('too-short')).toThrow();
+  });
+});
+
+describe('maskPayoutAccount', () => {
+  it('only exposes the last four digits', () => {
+    expect(
+      maskPayoutAccount({
+        id: 'a1',
+        bankName: 'BCA',
+        accountNumberLast4: '7890',
+      }),
+    ).toEqual({ id: 'a1', bankName: 'BCA', accountNumber: '****7890' });
+  });
+});
+
+describe('isAccountNameMatch', () => {
+  it('matches names regardless of case, punctuation and titles', () => {
+    expect(isAccountNameMatch('BUDI SANTOSO', 'Budi Santoso')).toBe(true);
+    expect(isAccountNameMatch('BPK. BUDI SANTOSO', 'budi santoso')).toBe(true);
+  });
+
+  it('accepts initials and shortened names', () => {
+    expect(isAccountNameMatch('M RIZKI', 'Muhammad Rizki Pratama')).toBe(true);
+    expect(isAccountNameMatch('MUHAMMAD RIZKI PRATAMA', 'M. Rizki')).toBe(true);
+    expect(isAccountNameMatch('BUDI S', 'Budi Santoso')).toBe(true);
+  });
+
+  it('rejects different people', () => {
+    expect(isAccountNameMatch('SITI AMINAH', 'Budi Santoso')).toBe(false);
+    expect(isAccountNameMatch('BUDI HARTONO', 'Budi Santoso')).toBe(false);
+    expect(isAccountNameMatch('B S', 'Budi Santoso')).toBe(false);
+    expect(isAccountNameMatch('', 'Budi Santoso')).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from 'crypto';
+import type { PayoutAccount, Prisma } from '@prisma/client';
+
+/**
+ * Helper rekening penarikan: enkripsi nomor rekening, masking untuk
+ * respons API, dan pencocokan nama pemilik rekening dengan nama user
+ */
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const CIPHER_VERSION = 'v1';
+
+// Gelar/sapaan yang sering ikut tercetak di nama rekening bank
+const NAME_TITLES = new Set([
+  'BPK',
+  'BAPAK',
+  'IBU',
+  'SDR',
+  'SDRI',
+  'TN',
+  'NY',
+  'NN',
+  'DR',
+  'IR',
+  'HJ',
+  'MR',
+  'MRS',
+  'MS',
+]);
+
+/**
+ * Kolom PayoutAccount yang aman dikirim ke client (tanpa nomor terenkripsi)
+ */
+export const MASKED_PAYOUT_ACCOUNT_SELECT = {
+  id: true,
+  bankName: true,
+  accountName: true,
+  accountNumberLast4: true,
+  isPrimary: true,
+  verifiedAt: true,
+  cooldownUntil: true,
+  createdAt: true,
+} satisfies Prisma.PayoutAccountSelect;
+
+export type MaskablePayoutAccount = Pick<PayoutAccount, 'accountNumberLast4'>;
+
+/**
+ * Baca kunci enkripsi 32 byte (hex 64 karakter atau base64)
+ */
+export function parseEncryptionKey(raw: string): Buffer {
+  const key = /^[0-9a-fA-F]{64}$/.test(raw)
+    ? Buffer.from(raw, 'hex')
+    : Buffer.from(raw, 'base64');
+
+  if (key.length !== 32) {
+    throw new Error('Kunci enkripsi rekening harus 32 byte');
+  }
+
+  return key;
+}
+
+/**
+ * Enkripsi nomor rekening, hasil: `v1:<iv>:<authTag>:<ciphertext>` (base64)
+ */
+export function encryptAccountNumber(accountNumber: string, key: Buffer) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(accountNumber, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [
+    CIPHER_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    encrypted.toString('base64'),
+  ].join(':');
+}
+
+export function decryptAccountNumber(payload: string, key: Buffer) {
+  const [version, iv, authTag, encrypted] = payload.split(':');
+
+  if (version !== CIPHER_VERSION || !iv || !authTag || !encrypted) {
+    throw new Error('Format nomor rekening terenkripsi tidak dikenali');
+  }
+
+  const decipher = createDecipheriv(
+    CIPHER_ALGORITHM,
+    key,
+    Buffer.from(iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Hash deterministik nomor rekening untuk cek duplikat tanpa dekripsi
+ */
+export function hashAccountNumber(accountNumber: string, key: Buffer) {
+  return createHmac('sha256', key)
+    .update(`account-number:${accountNumber}`)
+    .digest('hex');
+}
+
+export function accountNumberLast4(accountNumber: string) {
+  return accountNumber.slice(-4);
+}
+
+/**
+ * Tampilkan rekening sebagai `****1234` dengan field `accountNumber`
+ */
+export function maskPayoutAccount<T extends MaskablePayoutAccount>(account: T) {
+  const { accountNumberLast4: last4, ...rest } = account;
+  return { ...rest, accountNumber: `****${last4}` };
+}
+
+/**
+ * Normalisasi nama: huruf besar, tanpa tanda baca & gelar
+ */
+export function normalizePersonName(name: string) {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !NAME_TITLES.has(token));
+}
+
+/**
+ * Cocokkan nama pemilik rekening dari bank dengan nama user.
+ * Setiap kata pada nama yang lebih pendek harus ada di nama lainnya,
+ * boleh berupa inisial (mis. "M RIZKI" cocok dengan "Muhammad Rizki"),
+ * dan minimal satu kata harus cocok utuh.
+ */
+export function isAccountNameMatch(bankAccountName: string, fullName: string) {
+  const bankTokens = normalizePersonName(bankAccountName);
+  const userTokens = normalizePersonName(fullName);
+
+  if (bankTokens.length === 0 || userTokens.length === 0) {
+    return false;
+  }
+
+  const [shorter, longer] =
+    bankTokens.length <= userTokens.length
+      ? [bankTokens, userTokens]
+      : [userTokens, bankTokens];
+
+  const remaining = [...longer];
+  let fullMatches = 0;
+
+  for (const token of shorter) {
+    let index = remaining.indexOf(token);
+    if (index !== -1) {
+      fullMatches++;
+    } else {
+      index = remaining.findIndex(
+        (other) =>
+          (token.length === 1 || other.length === 1) && token[0] === other[0],
+      );
+    }
+
+    if (index === -1) {
+      return false;
+    }
+    remaining.splice(index, 1);
+  }
+
+  return fullMatches > 0;
+}
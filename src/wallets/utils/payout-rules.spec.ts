@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client';
+import {
+  checkPayoutAccountReady,
+  checkPayoutLimits,
+  formatRupiah,
+  isAutoPayoutDue,
+  payoutAccountCooldownUntil,
+  payoutAvailableAt,
+  remainingPayoutLimit,
+  splitWalletBalance,
+} from './payout-rules';
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+const limits = { daily: d(1000000), weekly: d(3000000) };
+
+describe('formatRupiah', () => {
+  it('formats amounts with Indonesian thousand separators', () => {
+    expect(formatRupiah(50000)).toBe('Rp 50.000');
+    expect(formatRupiah(d(1250000.4))).toBe('Rp 1.250.000');
+  });
+});
+
+describe('payoutAvailableAt', () => {
+  it('adds the hold period to the release time', () => {
+    const releasedAt = new Date('2026-03-01T10:00:00Z');
+
+    expect(payoutAvailableAt(releasedAt, 3).toISOString()).toBe(
+      '2026-03-04T10:00:00.000Z',
+    );
+    expect(payoutAvailableAt(releasedAt, 0)).toEqual(releasedAt);
+  });
+});
+
+describe('checkPayoutAccountReady', () => {
+  const addedAt = new Date('2026-03-01T10:00:00Z');
+  const account = {
+    verifiedAt: addedAt,
+    cooldownUntil: payoutAccountCooldownUntil(addedAt, 24),
+  };
+
+  it('blocks new accounts until the cooldown ends', () => {
+    expect(
+      checkPayoutAccountReady(account, new Date('2026-03-01T20:30:00Z')),
+    ).toBe(
+      'Rekening baru belum bisa dipakai untuk penarikan demi keamanan akun. Coba lagi dalam 14 jam',
+    );
+    expect(
+      checkPayoutAccountReady(account, new Date('2026-03-02T10:00:00Z')),
+    ).toBeNull();
+  });
+
+  it('blocks unverified accounts', () => {
+    expect(
+      checkPayoutAccountReady(
+        { ...account, verifiedAt: null },
+        new Date('2026-03-05T00:00:00Z'),
+      ),
+    ).toBe('Rekening bank belum terverifikasi');
+  });
+});
+
+describe('splitWalletBalance', () => {
+  it('separates held funds from the withdrawable balance', () => {
+    const split = splitWalletBalance(d(500000), d(200000));
+
+    expect(split.availableBalance.toNumber()).toBe(300000);
+    expect(split.pendingBalance.toNumber()).toBe(200000);
+  });
+
+  it('never holds more than the wallet balance', () => {
+    const split = splitWalletBalance(d(100000), d(250000));
+
+    expect(split.availableBalance.toNumber()).toBe(0);
+    expect(split.pendingBalance.toNumber()).toBe(100000);
+  });
+});
+
+describe('remainingPayoutLimit', () => {
+  it('takes the tighter of the daily and weekly limits', () => {
+    const remaining = remainingPayoutLimit(limits, {
+      lastDay: d(200000),
+      lastWeek: d(2500000),
+    });
+
+    expect(remaining.daily.toNumber()).toBe(800000);
+    expect(remaining.weekly.toNumber()).toBe(500000);
+    expect(remaining.total.toNumber()).toBe(500000);
+  });
+
+  it('does not go below zero', () => {
+    const remaining = remainingPayoutLimit(limits, {
+      lastDay: d(1500000),
+      lastWeek: d(1500000),
+    });
+
+    expect(remaining.total.toNumber()).toBe(0);
+  });
+});
+
+describe('checkPayoutLimits', () => {
+  it('allows payouts within both limits', () => {
+    expect(
+      checkPayoutLimits(500000, limits, { lastDay: d(0), lastWeek: d(0) }),
+    ).toBeNull();
+  });
+
+  it('blocks payouts over the daily limit', () => {
+    expect(
+      checkPayoutLimits(500000, limits, {
+        lastDay: d(700000),
+        lastWeek: d(700000),
+      }),
+    ).toBe(
+      'Penarikan melebihi limit harian Rp 1.000.000. Sisa limit 24 jam terakhir: Rp 300.000',
+    );
+  });
+
+  it('blocks payouts over the weekly limit', () => {
+    expect(
+      checkPayoutLimits(500000, limits, {
+        lastDay: d(0),
+        lastWeek: d(2800000),
+      }),
+    ).toBe(
+      'Penarikan melebihi limit mingguan Rp 3.000.000. Sisa limit 7 hari terakhir: Rp 200.000',
+    );
+  });
+});
+
+describe('isAutoPayoutDue', () => {
+  // 2026-03-02 adalah hari Senin
+  const monday = new Date(2026, 2, 2, 8, 0, 0);
+
+  it('runs on the scheduled weekday', () => {
+    expect(
+      isAutoPayoutDue({ autoPayoutWeekday: 1, lastAutoPayoutAt: null }, monday),
+    ).toBe(true);
+    expect(
+      isAutoPayoutDue({ autoPayoutWeekday: 5, lastAutoPayoutAt: null }, monday),
+    ).toBe(false);
+  });
+
+  it('does not run twice in the same week', () => {
+    const earlierToday = new Date(2026, 2, 2, 7, 0, 0);
+    const lastWeek = new Date(2026, 1, 23, 8, 0, 0);
+
+    expect(
+      isAutoPayoutDue(
+        { autoPayoutWeekday: 1, lastAutoPayoutAt: earlierToday },
+        monday,
+      ),
+    ).toBe(false);
+    expect(
+      isAutoPayoutDue(
+        { autoPayoutWeekday: 1, lastAutoPayoutAt: lastWeek },
+        monday,
+      ),
+    ).toBe(true);
+  });
+});
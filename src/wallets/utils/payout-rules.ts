@@ -0,0 +1,162 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Aturan penarikan dana: masa tunggu dana escrow, limit harian/mingguan,
+ * dan jadwal penarikan otomatis mingguan seller
+ */
+
+export const MIN_PAYOUT_AMOUNT = 50000;
+
+// Default bila PAYOUT_HOLD_DAYS / PAYOUT_DAILY_LIMIT / PAYOUT_WEEKLY_LIMIT tidak diisi
+export const DEFAULT_PAYOUT_HOLD_DAYS = 3;
+export const DEFAULT_DAILY_PAYOUT_LIMIT = 10000000;
+export const DEFAULT_WEEKLY_PAYOUT_LIMIT = 25000000;
+// Default bila PAYOUT_ACCOUNT_COOLDOWN_HOURS tidak diisi
+export const DEFAULT_PAYOUT_ACCOUNT_COOLDOWN_HOURS = 24;
+
+// Penarikan otomatis tidak dibuat dua kali dalam rentang ini
+const AUTO_PAYOUT_MIN_INTERVAL_DAYS = 6;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type PayoutLimits = {
+  daily: Prisma.Decimal;
+  weekly: Prisma.Decimal;
+};
+
+export type PayoutUsage = {
+  lastDay: Prisma.Decimal; // Total penarikan 24 jam terakhir
+  lastWeek: Prisma.Decimal; // Total penarikan 7 hari terakhir
+};
+
+export type WalletBalanceSplit = {
+  balance: Prisma.Decimal;
+  availableBalance: Prisma.Decimal;
+  pendingBalance: Prisma.Decimal;
+};
+
+/**
+ * Format nominal ke Rupiah, mis. `Rp 50.000`
+ */
+export function formatRupiah(amount: Prisma.Decimal | number) {
+  const value = new Prisma.Decimal(amount).toDecimalPlaces(0).toNumber();
+  return `Rp ${value.toLocaleString('id-ID')}`;
+}
+
+/**
+ * Waktu dana ESCROW_RELEASE boleh ditarik
+ */
+export function payoutAvailableAt(releasedAt: Date, holdDays: number) {
+  return new Date(releasedAt.getTime() + Math.max(holdDays, 0) * DAY_MS);
+}
+
+/**
+ * Akhir masa tunggu rekening baru sebelum bisa dipakai menarik dana
+ */
+export function payoutAccountCooldownUntil(
+  addedAt: Date,
+  cooldownHours: number,
+) {
+  return new Date(addedAt.getTime() + Math.max(cooldownHours, 0) * HOUR_MS);
+}
+
+/**
+ * Cek apakah rekening sudah boleh dipakai untuk penarikan.
+ * Mengembalikan pesan error, atau null jika rekening siap dipakai.
+ */
+export function checkPayoutAccountReady(
+  account: { verifiedAt: Date | null; cooldownUntil: Date },
+  now: Date,
+): string | null {
+  if (!account.verifiedAt) {
+    return 'Rekening bank belum terverifikasi';
+  }
+
+  const remainingMs = account.cooldownUntil.getTime() - now.getTime();
+  if (remainingMs > 0) {
+    return `Rekening baru belum bisa dipakai untuk penarikan demi keamanan akun. Coba lagi dalam ${Math.ceil(remainingMs / HOUR_MS)} jam`;
+  }
+
+  return null;
+}
+
+/**
+ * Awal jendela limit harian & mingguan (rolling 24 jam / 7 hari)
+ */
+export function payoutLimitWindows(now: Date) {
+  return {
+    dayStart: new Date(now.getTime() - DAY_MS),
+    weekStart: new Date(now.getTime() - 7 * DAY_MS),
+  };
+}
+
+/**
+ * Pisahkan saldo wallet menjadi saldo yang bisa ditarik & yang masih ditahan.
+ * Dana ditahan tidak bisa melebihi saldo (mis. sudah terpakai untuk bayar order).
+ */
+export function splitWalletBalance(
+  balance: Prisma.Decimal,
+  heldAmount: Prisma.Decimal,
+): WalletBalanceSplit {
+  const pendingBalance = Prisma.Decimal.max(
+    Prisma.Decimal.min(heldAmount, balance),
+    0,
+  );
+
+  return {
+    balance,
+    availableBalance: balance.sub(pendingBalance),
+    pendingBalance,
+  };
+}
+
+/**
+ * Sisa limit penarikan yang masih bisa dipakai
+ */
+export function remainingPayoutLimit(limits: PayoutLimits, usage: PayoutUsage) {
+  const daily = Prisma.Decimal.max(limits.daily.sub(usage.lastDay), 0);
+  const weekly = Prisma.Decimal.max(limits.weekly.sub(usage.lastWeek), 0);
+
+  return { daily, weekly, total: Prisma.Decimal.min(daily, weekly) };
+}
+
+/**
+ * Cek apakah penarikan melanggar limit.
+ * Mengembalikan pesan error, atau null jika penarikan diperbolehkan.
+ */
+export function checkPayoutLimits(
+  amount: Prisma.Decimal | number,
+  limits: PayoutLimits,
+  usage: PayoutUsage,
+): string | null {
+  const remaining = remainingPayoutLimit(limits, usage);
+
+  if (remaining.daily.lt(amount)) {
+    return `Penarikan melebihi limit harian ${formatRupiah(limits.daily)}. Sisa limit 24 jam terakhir: ${formatRupiah(remaining.daily)}`;
+  }
+  if (remaining.weekly.lt(amount)) {
+    return `Penarikan melebihi limit mingguan ${formatRupiah(limits.weekly)}. Sisa limit 7 hari terakhir: ${formatRupiah(remaining.weekly)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Cek apakah jadwal penarikan otomatis jatuh pada hari ini
+ * (weekday: 0 = Minggu ... 6 = Sabtu)
+ */
+export function isAutoPayoutDue(
+  schedule: { autoPayoutWeekday: number; lastAutoPayoutAt: Date | null },
+  now: Date,
+) {
+  if (now.getDay() !== schedule.autoPayoutWeekday) {
+    return false;
+  }
+
+  return (
+    !schedule.lastAutoPayoutAt ||
+    now.getTime() - schedule.lastAutoPayoutAt.getTime() >=
+      AUTO_PAYOUT_MIN_INTERVAL_DAYS * DAY_MS
+  );
+}
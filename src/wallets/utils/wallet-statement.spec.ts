@@ -0,0 +1,179 @@
+import { Prisma } from '@prisma/client';
+import {
+  buildStatementCsv,
+  buildStatementPdf,
+  buildStatementTotals,
+  formatJakartaDateTime,
+  parseTransactionTypes,
+  resolvePeriodBalances,
+  resolveStatementPeriod,
+  type WalletStatementDocument,
+} from './wallet-statement';
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+describe('resolveStatementPeriod', () => {
+  const now = new Date('2026-10-19T20:00:00Z'); // 20 Okt 2026 03.00 WIB
+
+  it('defaults to the current month in WIB', () => {
+    const period = resolveStatementPeriod({}, now);
+
+    expect(period?.label).toBe('2026-10');
+    expect(period?.from.toISOString()).toBe('2026-09-30T17:00:00.000Z');
+    expect(period?.to.toISOString()).toBe('2026-10-31T17:00:00.000Z');
+  });
+
+  it('accepts a month or an inclusive date range', () => {
+    expect(resolveStatementPeriod({ month: '2026-12' }, now)?.to).toEqual(
+      new Date('2026-12-31T17:00:00.000Z'),
+    );
+
+    const range = resolveStatementPeriod(
+      { from: '2026-10-01', to: '2026-10-15' },
+      now,
+    );
+    expect(range?.from.toISOString()).toBe('2026-09-30T17:00:00.000Z');
+    expect(range?.to.toISOString()).toBe('2026-10-15T17:00:00.000Z');
+  });
+
+  it('rejects invalid periods', () => {
+    expect(resolveStatementPeriod({ month: '2026-13' }, now)).toBeNull();
+    expect(resolveStatementPeriod({ from: '2026-10-01' }, now)).toBeNull();
+    expect(
+      resolveStatementPeriod({ from: '2026-02-30', to: '2026-03-01' }, now),
+    ).toBeNull();
+    expect(
+      resolveStatementPeriod({ from: '2026-10-15', to: '2026-10-01' }, now),
+    ).toBeNull();
+    expect(
+      resolveStatementPeriod({ from: '2025-01-01', to: '2026-10-01' }, now),
+    ).toBeNull();
+  });
+});
+
+describe('parseTransactionTypes', () => {
+  it('parses comma separated and repeated values', () => {
+    expect(parseTransactionTypes('escrow_release, PAYOUT_REQUEST')).toEqual([
+      'ESCROW_RELEASE',
+      'PAYOUT_REQUEST',
+    ]);
+    expect(parseTransactionTypes(['ORDER_PAYMENT', 'ORDER_PAYMENT'])).toEqual([
+      'ORDER_PAYMENT',
+    ]);
+    expect(parseTransactionTypes()).toEqual([]);
+  });
+
+  it('rejects unknown types', () => {
+    expect(parseTransactionTypes('ESCROW_RELEASE,BONUS')).toBeNull();
+  });
+});
+
+describe('resolvePeriodBalances', () => {
+  it('uses the first and last transaction in the period', () => {
+    const balances = resolvePeriodBalances({
+      firstInPeriod: { balanceBefore: d(100000) },
+      lastInPeriod: { balanceAfter: d(250000) },
+      lastBeforePeriod: { balanceAfter: d(100000) },
+    });
+
+    expect(balances.openingBalance.toNumber()).toBe(100000);
+    expect(balances.closingBalance.toNumber()).toBe(250000);
+  });
+
+  it('carries the previous balance over an empty period', () => {
+    const balances = resolvePeriodBalances({
+      firstInPeriod: null,
+      lastInPeriod: null,
+      lastBeforePeriod: { balanceAfter: d(75000) },
+    });
+
+    expect(balances.openingBalance.toNumber()).toBe(75000);
+    expect(balances.closingBalance.toNumber()).toBe(75000);
+  });
+});
+
+describe('buildStatementTotals', () => {
+  it('merges credits and debits per type', () => {
+    const totals = buildStatementTotals(
+      [{ type: 'ESCROW_RELEASE', amount: d(300000), count: 2 }],
+      [{ type: 'PAYOUT_REQUEST', amount: d(-100000), count: 1 }],
+    );
+
+    expect(totals.byType.map((total) => total.type)).toEqual([
+      'ESCROW_RELEASE',
+      'PAYOUT_REQUEST',
+    ]);
+    expect(totals.byType[1].debit.toNumber()).toBe(100000);
+    expect(totals.totalCredit.toNumber()).toBe(300000);
+    expect(totals.totalDebit.toNumber()).toBe(100000);
+  });
+});
+
+describe('statement export', () => {
+  const statement: WalletStatementDocument = {
+    holder: { fullName: 'Budi Santoso', nim: '2110511001', email: 'b@x.id' },
+    period: resolveStatementPeriod({ month: '2026-10' }, new Date())!,
+    openingBalance: d(100000),
+    closingBalance: d(150000.5),
+    totals: buildStatementTotals(
+      [{ type: 'ESCROW_RELEASE', amount: d(100000.5), count: 1 }],
+      [{ type: 'PAYOUT_REQUEST', amount: d(-50000), count: 1 }],
+    ),
+    transactions: [
+      {
+        id: 't1',
+        type: 'ESCROW_RELEASE',
+        amount: d(100000.5),
+        description: 'Pembayaran pesanan "Desain logo"',
+        orderId: 'order-1',
+        balanceAfter: d(200000.5),
+        createdAt: new Date('2026-10-05T03:00:00Z'),
+      },
+      {
+        id: 't2',
+        type: 'PAYOUT_REQUEST',
+        amount: d(-50000),
+        description: 'Penarikan ke BCA - ****7890',
+        orderId: null,
+        balanceAfter: d(150000.5),
+        createdAt: new Date('2026-10-06T03:00:00Z'),
+      },
+    ],
+    generatedAt: new Date('2026-11-01T00:00:00Z'),
+  };
+
+  it('formats times in WIB', () => {
+    expect(formatJakartaDateTime(new Date('2026-10-05T20:30:00Z'))).toBe(
+      '2026-10-06 03:30',
+    );
+  });
+
+  it('builds a CSV with opening, running and closing balances', () => {
+    const lines = buildStatementCsv(statement).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'tanggal,jenis,keterangan,order_id,debit,kredit,saldo',
+    );
+    expect(lines[1]).toBe('2026-10-01,Saldo awal,,,,,100000.00');
+    expect(lines[2]).toBe(
+      '2026-10-05 10:00,Pendapatan pesanan,"Pembayaran pesanan ""Desain logo""",order-1,,100000.50,200000.50',
+    );
+    expect(lines[3]).toBe(
+      '2026-10-06 10:00,Penarikan dana,Penarikan ke BCA - ****7890,,50000.00,,150000.50',
+    );
+    expect(lines[4]).toBe(
+      '2026-10-31,Saldo akhir,,,50000.00,100000.50,150000.50',
+    );
+  });
+
+  it('builds a PDF with the holder identity and totals', () => {
+    const pdf = buildStatementPdf(statement).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(: Budi Santoso)');
+    expect(pdf).toContain('(: 2110511001)');
+    expect(pdf).toContain('(Pendapatan pesanan)');
+    expect(pdf).toContain('(Rp 150.000,50)');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
@@ -0,0 +1,423 @@
+import { Prisma, WalletTransactionType } from '@prisma/client';
+import type { WalletTransaction } from '@prisma/client';
+import { toCsv } from '../../common/utils/csv';
+import {
+  PDF_PAGE_HEIGHT,
+  SimplePdfDocument,
+} from '../../common/utils/simple-pdf';
+
+/**
+ * Helper laporan mutasi wallet: periode, saldo awal/akhir, ringkasan per
+ * jenis transaksi, serta export CSV & PDF
+ */
+
+// Laporan ditampilkan dalam WIB (UTC+7, tanpa daylight saving)
+const JAKARTA_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rentang maksimal satu laporan
+export const MAX_STATEMENT_DAYS = 366;
+
+export const TRANSACTION_TYPE_LABELS: Record<WalletTransactionType, string> = {
+  ESCROW_RELEASE: 'Pendapatan pesanan',
+  ESCROW_REFUND: 'Refund pesanan',
+  PAYOUT_REQUEST: 'Penarikan dana',
+  PAYOUT_REJECTED: 'Pengembalian penarikan',
+  DISPUTE_RELEASE: 'Pencairan sengketa',
+  DISPUTE_REFUND: 'Refund sengketa',
+  ORDER_PAYMENT: 'Pembayaran pesanan',
+  REFERRAL_REWARD: 'Bonus referral',
+};
+
+export type StatementPeriod = {
+  from: Date; // inklusif
+  to: Date; // eksklusif
+  label: string; // Dipakai untuk nama file, mis. 2026-10
+};
+
+export type StatementTypeSum = {
+  type: WalletTransactionType;
+  amount: Prisma.Decimal;
+  count: number;
+};
+
+export type StatementTypeTotal = {
+  type: WalletTransactionType;
+  label: string;
+  count: number;
+  credit: Prisma.Decimal;
+  debit: Prisma.Decimal; // Selalu positif
+};
+
+export type StatementTotals = {
+  byType: StatementTypeTotal[];
+  totalCredit: Prisma.Decimal;
+  totalDebit: Prisma.Decimal;
+};
+
+export type StatementTransaction = Pick<
+  WalletTransaction,
+  | 'id'
+  | 'type'
+  | 'amount'
+  | 'description'
+  | 'orderId'
+  | 'balanceAfter'
+  | 'createdAt'
+>;
+
+export type WalletStatementDocument = {
+  holder: { fullName: string; nim: string | null; email: string };
+  period: StatementPeriod;
+  openingBalance: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+  totals: StatementTotals;
+  transactions: StatementTransaction[];
+  generatedAt: Date;
+};
+
+/**
+ * Tanggal WIB `YYYY-MM-DD` -> awal hari tersebut (UTC)
+ */
+function jakartaDayStart(date: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const value = new Date(Date.UTC(year, month - 1, day) - JAKARTA_OFFSET_MS);
+
+  // Tolak tanggal yang tidak ada, mis. 2026-02-30
+  return formatJakartaDate(value) === date ? value : null;
+}
+
+/**
+ * Tentukan periode laporan dari query `month=YYYY-MM` atau `from`/`to`
+ * (`YYYY-MM-DD`, keduanya inklusif). Default: bulan berjalan.
+ * Mengembalikan null jika periode tidak valid.
+ */
+export function resolveStatementPeriod(
+  query: { month?: string; from?: string; to?: string },
+  now: Date,
+): StatementPeriod | null {
+  if (query.from || query.to) {
+    const from = query.from ? jakartaDayStart(query.from) : null;
+    const toDay = query.to ? jakartaDayStart(query.to) : null;
+    if (!from || !toDay) return null;
+
+    const to = new Date(toDay.getTime() + DAY_MS);
+    const days = (to.getTime() - from.getTime()) / DAY_MS;
+    if (days < 1 || days > MAX_STATEMENT_DAYS) return null;
+
+    return { from, to, label: `${query.from}_${query.to}` };
+  }
+
+  const month = query.month ?? formatJakartaDate(now).substring(0, 7);
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+
+  return {
+    from: new Date(Date.UTC(year, monthIndex, 1) - JAKARTA_OFFSET_MS),
+    to: new Date(Date.UTC(year, monthIndex + 1, 1) - JAKARTA_OFFSET_MS),
+    label: month,
+  };
+}
+
+/**
+ * Baca filter jenis transaksi (dipisah koma atau query berulang).
+ * Array kosong = semua jenis, null = ada jenis yang tidak dikenal.
+ */
+export function parseTransactionTypes(
+  raw?: string | string[],
+): WalletTransactionType[] | null {
+  const values = (Array.isArray(raw) ? raw : [raw ?? ''])
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim().toUpperCase())
+    .filter(Boolean);
+
+  const known = Object.values(WalletTransactionType) as string[];
+  if (values.some((value) => !known.includes(value))) {
+    return null;
+  }
+
+  return [...new Set(values)] as WalletTransactionType[];
+}
+
+/**
+ * Saldo awal & akhir periode dari mutasi pertama/terakhir di dalam periode,
+ * atau mutasi terakhir sebelum periode jika periode kosong
+ */
+export function resolvePeriodBalances(input: {
+  firstInPeriod: { balanceBefore: Prisma.Decimal } | null;
+  lastInPeriod: { balanceAfter: Prisma.Decimal } | null;
+  lastBeforePeriod: { balanceAfter: Prisma.Decimal } | null;
+}) {
+  const openingBalance =
+    input.firstInPeriod?.balanceBefore ??
+    input.lastBeforePeriod?.balanceAfter ??
+    new Prisma.Decimal(0);
+
+  return {
+    openingBalance,
+    closingBalance: input.lastInPeriod?.balanceAfter ?? openingBalance,
+  };
+}
+
+/**
+ * Gabungkan total kredit & debit per jenis transaksi
+ */
+export function buildStatementTotals(
+  credits: StatementTypeSum[],
+  debits: StatementTypeSum[],
+): StatementTotals {
+  const zero = new Prisma.Decimal(0);
+  const byType = (
+    Object.keys(TRANSACTION_TYPE_LABELS) as WalletTransactionType[]
+  )
+    .map((type) => {
+      const credit = credits.find((row) => row.type === type);
+      const debit = debits.find((row) => row.type === type);
+
+      return {
+        type,
+        label: TRANSACTION_TYPE_LABELS[type],
+        count: (credit?.count ?? 0) + (debit?.count ?? 0),
+        credit: credit?.amount ?? zero,
+        debit: debit?.amount.abs() ?? zero,
+      };
+    })
+    .filter((total) => total.count > 0);
+
+  return {
+    byType,
+    totalCredit: byType.reduce((sum, total) => sum.add(total.credit), zero),
+    totalDebit: byType.reduce((sum, total) => sum.add(total.debit), zero),
+  };
+}
+
+export function formatJakartaDate(date: Date) {
+  return new Date(date.getTime() + JAKARTA_OFFSET_MS)
+    .toISOString()
+    .substring(0, 10);
+}
+
+export function formatJakartaDateTime(date: Date) {
+  return new Date(date.getTime() + JAKARTA_OFFSET_MS)
+    .toISOString()
+    .substring(0, 16)
+    .replace('T', ' ');
+}
+
+/**
+ * Nominal laporan dengan 2 desimal, mis. `1.250.000,35`
+ */
+export function formatStatementAmount(amount: Prisma.Decimal) {
+  return amount.toNumber().toLocaleString('id-ID', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function describePeriod(period: StatementPeriod) {
+  const lastDay = new Date(period.to.getTime() - DAY_MS);
+  return `${formatJakartaDate(period.from)} s/d ${formatJakartaDate(lastDay)}`;
+}
+
+/**
+ * Susun CSV mutasi: saldo awal, tiap transaksi dengan saldo berjalan, saldo akhir
+ */
+export function buildStatementCsv(statement: WalletStatementDocument) {
+  const header = [
+    'tanggal',
+    'jenis',
+    'keterangan',
+    'order_id',
+    'debit',
+    'kredit',
+    'saldo',
+  ];
+  const rows = statement.transactions.map((transaction) => [
+    formatJakartaDateTime(transaction.createdAt),
+    TRANSACTION_TYPE_LABELS[transaction.type],
+    transaction.description,
+    transaction.orderId ?? '',
+    transaction.amount.lt(0) ? transaction.amount.abs().toFixed(2) : '',
+    transaction.amount.gte(0) ? transaction.amount.toFixed(2) : '',
+    transaction.balanceAfter.toFixed(2),
+  ]);
+
+  return toCsv([
+    header,
+    [
+      formatJakartaDate(statement.period.from),
+      'Saldo awal',
+      '',
+      '',
+      '',
+      '',
+      statement.openingBalance.toFixed(2),
+    ],
+    ...rows,
+    [
+      formatJakartaDate(new Date(statement.period.to.getTime() - DAY_MS)),
+      'Saldo akhir',
+      '',
+      '',
+      statement.totals.totalDebit.toFixed(2),
+      statement.totals.totalCredit.toFixed(2),
+      statement.closingBalance.toFixed(2),
+    ],
+  ]);
+}
+
+/**
+ * Susun PDF laporan mutasi: identitas pemilik, ringkasan saldo,
+ * total per jenis transaksi dan rincian transaksi
+ */
+export function buildStatementPdf(statement: WalletStatementDocument) {
+  const pdf = new SimplePdfDocument();
+  const left = 40;
+  const right = 555;
+  const bottom = PDF_PAGE_HEIGHT - 50;
+  let y = 50;
+
+  const footer = () =>
+    pdf.text(left, PDF_PAGE_HEIGHT - 25, `Halaman ${pdf.pageCount}`, {
+      size: 8,
+    });
+  const ensureSpace = (height: number, onNewPage?: () => void) => {
+    if (y + height <= bottom) return;
+    pdf.addPage();
+    footer();
+    y = 50;
+    onNewPage?.();
+  };
+
+  // Identitas & periode
+  footer();
+  pdf.text(left, y, 'LAPORAN MUTASI WALLET BANTUIN', { size: 16, bold: true });
+  y += 28;
+
+  const identity: [string, string][] = [
+    ['Nama', statement.holder.fullName],
+    ['NIM', statement.holder.nim ?? '-'],
+    ['Email', statement.holder.email],
+    ['Periode', describePeriod(statement.period)],
+    ['Dicetak', `${formatJakartaDateTime(statement.generatedAt)} WIB`],
+  ];
+  for (const [label, value] of identity) {
+    pdf.text(left, y, label, { size: 10, bold: true });
+    pdf.text(left + 70, y, `: ${value}`, { size: 10 });
+    y += 15;
+  }
+  y += 10;
+
+  // Ringkasan saldo
+  const summary: [string, Prisma.Decimal][] = [
+    ['Saldo awal', statement.openingBalance],
+    ['Total kredit', statement.totals.totalCredit],
+    ['Total debit', statement.totals.totalDebit],
+    ['Saldo akhir', statement.closingBalance],
+  ];
+  pdf.line(left, y - 10, right, y - 10);
+  for (const [label, amount] of summary) {
+    pdf.text(left, y, label, { size: 10, bold: label === 'Saldo akhir' });
+    pdf.text(right, y, `Rp ${formatStatementAmount(amount)}`, {
+      size: 10,
+      bold: label === 'Saldo akhir',
+      align: 'right',
+    });
+    y += 15;
+  }
+  pdf.line(left, y - 10, right, y - 10);
+  y += 15;
+
+  // Total per jenis transaksi
+  pdf.text(left, y, 'Ringkasan per jenis transaksi', { size: 11, bold: true });
+  y += 18;
+  pdf.text(left, y, 'Jenis', { size: 9, bold: true });
+  pdf.text(300, y, 'Jumlah', { size: 9, bold: true, align: 'right' });
+  pdf.text(430, y, 'Kredit', { size: 9, bold: true, align: 'right' });
+  pdf.text(right, y, 'Debit', { size: 9, bold: true, align: 'right' });
+  y += 14;
+
+  if (statement.totals.byType.length === 0) {
+    pdf.text(left, y, 'Tidak ada transaksi pada periode ini', { size: 9 });
+    y += 14;
+  }
+  for (const total of statement.totals.byType) {
+    pdf.text(left, y, total.label, { size: 9 });
+    pdf.text(300, y, String(total.count), { size: 9, align: 'right' });
+    pdf.text(430, y, formatStatementAmount(total.credit), {
+      size: 9,
+      align: 'right',
+    });
+    pdf.text(right, y, formatStatementAmount(total.debit), {
+      size: 9,
+      align: 'right',
+    });
+    y += 14;
+  }
+  y += 16;
+
+  // Rincian transaksi
+  const tableHeader = () => {
+    pdf.text(left, y, 'Tanggal', { size: 8, bold: true });
+    pdf.text(118, y, 'Jenis', { size: 8, bold: true });
+    pdf.text(215, y, 'Keterangan', { size: 8, bold: true });
+    pdf.text(440, y, 'Debit', { size: 8, bold: true, align: 'right' });
+    pdf.text(497, y, 'Kredit', { size: 8, bold: true, align: 'right' });
+    pdf.text(right, y, 'Saldo', { size: 8, bold: true, align: 'right' });
+    pdf.line(left, y + 4, right, y + 4);
+    y += 14;
+  };
+
+  ensureSpace(60);
+  pdf.text(left, y, 'Rincian transaksi', { size: 11, bold: true });
+  y += 18;
+  tableHeader();
+
+  for (const transaction of statement.transactions) {
+    ensureSpace(12, tableHeader);
+
+    const description =
+      transaction.description.length > 40
+        ? `${transaction.description.substring(0, 39)}...`
+        : transaction.description;
+
+    pdf.text(left, y, formatJakartaDateTime(transaction.createdAt), {
+      size: 8,
+    });
+    pdf.text(118, y, TRANSACTION_TYPE_LABELS[transaction.type], { size: 8 });
+    pdf.text(215, y, description, { size: 8 });
+    if (transaction.amount.lt(0)) {
+      pdf.text(440, y, formatStatementAmount(transaction.amount.abs()), {
+        size: 8,
+        align: 'right',
+      });
+    } else {
+      pdf.text(497, y, formatStatementAmount(transaction.amount), {
+        size: 8,
+        align: 'right',
+      });
+    }
+    pdf.text(right, y, formatStatementAmount(transaction.balanceAfter), {
+      size: 8,
+      align: 'right',
+    });
+    y += 12;
+  }
+
+  ensureSpace(40);
+  y += 14;
+  pdf.text(
+    left,
+    y,
+    'Dokumen ini dibuat otomatis oleh sistem Bantuin dan sah tanpa tanda tangan.',
+    { size: 8 },
+  );
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,27 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WalletStatementsService } from './wallet-statements.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletsService } from './wallets.service';
+
+describe('WalletStatementsService', () => {
+  let service: WalletStatementsService;
+
+  const mockPrismaService = {};
+  const mockWalletsService = {};
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletStatementsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: WalletsService, useValue: mockWalletsService },
+      ],
+    }).compile();
+
+    service = module.get<WalletStatementsService>(WalletStatementsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
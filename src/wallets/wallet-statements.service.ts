@@ -0,0 +1,237 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import type { WalletTransactionType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletsService } from './wallets.service';
+import type {
+  WalletStatementExportDto,
+  WalletStatementQueryDto,
+} from './dto/wallet-statement.dto';
+import {
+  buildStatementCsv,
+  buildStatementPdf,
+  buildStatementTotals,
+  parseTransactionTypes,
+  resolvePeriodBalances,
+  resolveStatementPeriod,
+  type StatementPeriod,
+  type StatementTotals,
+} from './utils/wallet-statement';
+
+// Kolom transaksi yang ditampilkan di laporan mutasi
+const STATEMENT_TRANSACTION_SELECT = {
+  id: true,
+  type: true,
+  amount: true,
+  description: true,
+  orderId: true,
+  balanceBefore: true,
+  balanceAfter: true,
+  createdAt: true,
+} satisfies Prisma.WalletTransactionSelect;
+
+// Urutan mutasi mengikuti urutan saldo berjalan
+const STATEMENT_ORDER: Prisma.WalletTransactionOrderByWithRelationInput[] = [
+  { createdAt: 'asc' },
+  { id: 'asc' },
+];
+
+@Injectable()
+export class WalletStatementsService {
+  constructor(
+    private prisma: PrismaService,
+    private walletService: WalletsService,
+  ) {}
+
+  /**
+   * Laporan mutasi wallet per periode (dengan pagination)
+   * Saldo awal/akhir selalu dihitung dari seluruh mutasi wallet,
+   * filter jenis transaksi hanya membatasi daftar & total.
+   */
+  async getStatement(userId: string, query: WalletStatementQueryDto) {
+    const { walletId, period, types } = await this.resolveQuery(userId, query);
+
+    const pageNum = Number(query.page) || 1;
+    const limitNum = Math.min(Number(query.limit) || 20, 100);
+    const where = this.transactionWhere(walletId, period, types);
+
+    const [transactions, total, balances, totals] = await Promise.all([
+      this.prisma.walletTransaction.findMany({
+        where,
+        orderBy: STATEMENT_ORDER,
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+        select: STATEMENT_TRANSACTION_SELECT,
+      }),
+      this.prisma.walletTransaction.count({ where }),
+      this.getPeriodBalances(walletId, period),
+      this.getTotals(where),
+    ]);
+
+    return {
+      data: {
+        period: { from: period.from, to: period.to },
+        types,
+        ...balances,
+        totals,
+        transactions,
+      },
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    };
+  }
+
+  /**
+   * Export laporan mutasi sebagai file PDF atau CSV
+   */
+  async exportStatement(userId: string, query: WalletStatementExportDto) {
+    const format = query.format ?? 'pdf';
+    if (format !== 'pdf' && format !== 'csv') {
+      throw new BadRequestException('Format export harus pdf atau csv');
+    }
+
+    const { walletId, period, types } = await this.resolveQuery(userId, query);
+    const where = this.transactionWhere(walletId, period, types);
+
+    const [holder, transactions, balances, totals] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { fullName: true, nim: true, email: true },
+      }),
+      this.prisma.walletTransaction.findMany({
+        where,
+        orderBy: STATEMENT_ORDER,
+        select: STATEMENT_TRANSACTION_SELECT,
+      }),
+      this.getPeriodBalances(walletId, period),
+      this.getTotals(where),
+    ]);
+
+    const statement = {
+      holder,
+      period,
+      ...balances,
+      totals,
+      transactions,
+      generatedAt: new Date(),
+    };
+    const filename = `mutasi-wallet-${period.label}.${format}`;
+
+    return format === 'csv'
+      ? {
+          filename,
+          contentType: 'text/csv; charset=utf-8',
+          content: Buffer.from(buildStatementCsv(statement), 'utf8'),
+        }
+      : {
+          filename,
+          contentType: 'application/pdf',
+          content: buildStatementPdf(statement),
+        };
+  }
+
+  /**
+   * Helper untuk membaca periode & filter dari query
+   */
+  private async resolveQuery(
+    userId: string,
+    query: { month?: string; from?: string; to?: string; types?: string },
+  ) {
+    const period = resolveStatementPeriod(query, new Date());
+    if (!period) {
+      throw new BadRequestException(
+        'Periode tidak valid. Gunakan month=YYYY-MM atau from & to=YYYY-MM-DD (maksimal 366 hari)',
+      );
+    }
+
+    const types = parseTransactionTypes(query.types);
+    if (!types) {
+      throw new BadRequestException('Jenis transaksi tidak dikenali');
+    }
+
+    const wallet = await this.walletService.getWalletByUserId(userId);
+
+    return { walletId: wallet.id, period, types };
+  }
+
+  private transactionWhere(
+    walletId: string,
+    period: StatementPeriod,
+    types: WalletTransactionType[],
+  ): Prisma.WalletTransactionWhereInput {
+    return {
+      walletId,
+      createdAt: { gte: period.from, lt: period.to },
+      type: types.length > 0 ? { in: types } : undefined,
+    };
+  }
+
+  /**
+   * Saldo awal & akhir periode berdasarkan saldo berjalan transaksi
+   */
+  private async getPeriodBalances(walletId: string, period: StatementPeriod) {
+    const inPeriod = {
+      walletId,
+      createdAt: { gte: period.from, lt: period.to },
+    };
+
+    const [firstInPeriod, lastInPeriod, lastBeforePeriod] = await Promise.all([
+      this.prisma.walletTransaction.findFirst({
+        where: inPeriod,
+        orderBy: STATEMENT_ORDER,
+        select: { balanceBefore: true },
+      }),
+      this.prisma.walletTransaction.findFirst({
+        where: inPeriod,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: { balanceAfter: true },
+      }),
+      this.prisma.walletTransaction.findFirst({
+        where: { walletId, createdAt: { lt: period.from } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: { balanceAfter: true },
+      }),
+    ]);
+
+    return resolvePeriodBalances({
+      firstInPeriod,
+      lastInPeriod,
+      lastBeforePeriod,
+    });
+  }
+
+  /**
+   * Total kredit & debit per jenis transaksi dalam periode
+   */
+  private async getTotals(
+    where: Prisma.WalletTransactionWhereInput,
+  ): Promise<StatementTotals> {
+    const sumByType = async (
+      amount: Prisma.DecimalFilter<'WalletTransaction'>,
+    ) => {
+      const rows = await this.prisma.walletTransaction.groupBy({
+        by: ['type'],
+        where: { ...where, amount },
+        _sum: { amount: true },
+        _count: { _all: true },
+      });
+
+      return rows.map((row) => ({
+        type: row.type,
+        amount: row._sum.amount ?? new Prisma.Decimal(0),
+        count: row._count._all,
+      }));
+    };
+
+    const [credits, debits] = await Promise.all([
+      sumByType({ gte: 0 }),
+      sumByType({ lt: 0 }),
+    ]);
+
+    return buildStatementTotals(credits, debits);
+  }
+}
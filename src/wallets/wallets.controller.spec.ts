@@ -1,16 +1,24 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { WalletsController } from './wallets.controller';
 import { WalletsService } from './wallets.service';
+import { WalletStatementsService } from './wallet-statements.service';
 
 describe('WalletsController', () => {
   let controller: WalletsController;
 
   const mockWalletsService = {};
+  const mockWalletStatementsService = {};
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [WalletsController],
-      providers: [{ provide: WalletsService, useValue: mockWalletsService }],
+      providers: [
+        { provide: WalletsService, useValue: mockWalletsService },
+        {
+          provide: WalletStatementsService,
+          useValue: mockWalletStatementsService,
+        },
+      ],
     }).compile();
 
     controller = module.get<WalletsController>(WalletsController);
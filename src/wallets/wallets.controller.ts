@@ -5,29 +5,43 @@ import {
   Body,
   UseGuards,
   Delete,
+  Patch,
+  Put,
   Param,
+  Query,
+  Res,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { WalletsService } from './wallets.service';
+import { WalletStatementsService } from './wallet-statements.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { GetUser } from '../auth/decorators/get-user.decorator';
 import type { CreatePayoutAccountDto } from './dto/payout-account.dto';
 import type { CreatePayoutRequestDto } from './dto/payout-request.dto';
+import type { UpdatePayoutScheduleDto } from './dto/payout-schedule.dto';
+import { UpdatePayoutScheduleSchema } from './dto/payout-schedule.dto';
+import type {
+  WalletStatementExportDto,
+  WalletStatementQueryDto,
+} from './dto/wallet-statement.dto';
+import { ZodValidationPipe } from 'nestjs-zod';
 
 @Controller('wallet')
 @UseGuards(JwtAuthGuard) // Lindungi semua endpoint wallet
 export class WalletsController {
-  constructor(private readonly walletService: WalletsService) {}
+  constructor(
+    private readonly walletService: WalletsService,
+    private readonly statementService: WalletStatementsService,
+  ) {}
 
   @Get('balance')
   async getMyWallet(@GetUser('id') userId: string) {
-    const wallet = await this.walletService.getWalletByUserId(userId);
+    const balance = await this.walletService.getWalletBalance(userId);
     return {
       success: true,
-      data: {
-        balance: wallet.balance,
-      },
+      data: balance,
     };
   }
 
@@ -40,6 +54,44 @@ export class WalletsController {
     };
   }
 
+  // --- Statements ---
+  /**
+   * Laporan mutasi per periode dengan saldo awal/akhir
+   * GET /api/wallet/statements?month=2026-10&types=ESCROW_RELEASE&page=1
+   */
+  @Get('statements')
+  async getStatement(
+    @GetUser('id') userId: string,
+    @Query() query: WalletStatementQueryDto,
+  ) {
+    const result = await this.statementService.getStatement(userId, query);
+    return {
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    };
+  }
+
+  /**
+   * Download laporan mutasi (PDF/CSV)
+   * GET /api/wallet/statements/export?month=2026-10&format=pdf
+   */
+  @Get('statements/export')
+  async exportStatement(
+    @GetUser('id') userId: string,
+    @Query() query: WalletStatementExportDto,
+    @Res() res: Response,
+  ) {
+    const file = await this.statementService.exportStatement(userId, query);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.filename}"`,
+    );
+    res.send(file.content);
+  }
+
   // --- Payout Accounts ---
   @Post('payout-accounts')
   @HttpCode(HttpStatus.CREATED)
@@ -76,6 +128,48 @@ export class WalletsController {
     };
   }
 
+  @Patch('payout-accounts/:id/primary')
+  async setPrimaryPayoutAccount(
+    @GetUser('id') userId: string,
+    @Param('id') accountId: string,
+  ) {
+    const account = await this.walletService.setPrimaryPayoutAccount(
+      userId,
+      accountId,
+    );
+    return {
+      success: true,
+      message: 'Rekening utama berhasil diubah',
+      data: account,
+    };
+  }
+
+  // --- Payout Schedule ---
+  @Get('payout-schedule')
+  async getPayoutSchedule(@GetUser('id') userId: string) {
+    const schedule = await this.walletService.getPayoutSchedule(userId);
+    return {
+      success: true,
+      data: schedule,
+    };
+  }
+
+  @Put('payout-schedule')
+  async updatePayoutSchedule(
+    @GetUser('id') userId: string,
+    @Body(new ZodValidationPipe(UpdatePayoutScheduleSchema))
+    dto: UpdatePayoutScheduleDto,
+  ) {
+    const schedule = await this.walletService.updatePayoutSchedule(userId, dto);
+    return {
+      success: true,
+      message: dto.enabled
+        ? 'Penarikan otomatis mingguan diaktifkan'
+        : 'Penarikan otomatis mingguan dinonaktifkan',
+      data: schedule,
+    };
+  }
+
   // --- Payout Requests ---
   @Post('payout-request')
   @HttpCode(HttpStatus.OK)
@@ -1,10 +1,19 @@
 import { Global, Module } from '@nestjs/common';
 import { WalletsService } from './wallets.service';
 import { WalletsController } from './wallets.controller';
+import { WalletStatementsService } from './wallet-statements.service';
+import { BANK_INQUIRY_PROVIDER } from './bank-inquiry/bank-inquiry.interface';
+import { StubBankInquiryProvider } from './bank-inquiry/stub-bank-inquiry.provider';
 
 @Global() // Jadikan global agar tidak perlu import di setiap modul
 @Module({
-  providers: [WalletsService],
+  providers: [
+    WalletsService,
+    WalletStatementsService,
+    // Provider inquiry rekening: ganti dengan integrasi bank/aggregator
+    // sungguhan yang mengimplementasikan BankInquiryProvider
+    { provide: BANK_INQUIRY_PROVIDER, useClass: StubBankInquiryProvider },
+  ],
   controllers: [WalletsController],
   exports: [WalletsService],
 })
@@ -1,17 +1,26 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { WalletsService } from './wallets.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { BANK_INQUIRY_PROVIDER } from './bank-inquiry/bank-inquiry.interface';
+import { StubBankInquiryProvider } from './bank-inquiry/stub-bank-inquiry.provider';
 
 describe('WalletsService', () => {
   let service: WalletsService;
 
   const mockPrismaService = {};
+  const mockLedgerService = {};
+  const mockConfigService = { get: jest.fn() };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         WalletsService,
         { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: BANK_INQUIRY_PROVIDER, useClass: StubBankInquiryProvider },
       ],
     }).compile();
 
@@ -1,37 +1,94 @@
 import {
+  Inject,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
   BadRequestException,
   ForbiddenException,
   ConflictException,
+  ServiceUnavailableException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { Prisma } from '@prisma/client';
 import type {
   Wallet,
+  PayoutAccount,
   PrismaClient,
   WalletTransactionType,
 } from '@prisma/client';
 import type { CreatePayoutAccountDto } from './dto/payout-account.dto';
 import type { CreatePayoutRequestDto } from './dto/payout-request.dto';
+import type { UpdatePayoutScheduleDto } from './dto/payout-schedule.dto';
+import {
+  BANK_INQUIRY_PROVIDER,
+  type BankInquiryProvider,
+  type BankInquiryResult,
+} from './bank-inquiry/bank-inquiry.interface';
+import {
+  accountNumberLast4,
+  decryptAccountNumber,
+  encryptAccountNumber,
+  hashAccountNumber,
+  isAccountNameMatch,
+  MASKED_PAYOUT_ACCOUNT_SELECT,
+  maskPayoutAccount,
+  parseEncryptionKey,
+} from './utils/payout-account';
+import {
+  checkPayoutAccountReady,
+  checkPayoutLimits,
+  DEFAULT_DAILY_PAYOUT_LIMIT,
+  DEFAULT_PAYOUT_ACCOUNT_COOLDOWN_HOURS,
+  DEFAULT_PAYOUT_HOLD_DAYS,
+  DEFAULT_WEEKLY_PAYOUT_LIMIT,
+  formatRupiah,
+  isAutoPayoutDue,
+  MIN_PAYOUT_AMOUNT,
+  payoutAccountCooldownUntil,
+  payoutAvailableAt,
+  payoutLimitWindows,
+  remainingPayoutLimit,
+  splitWalletBalance,
+  type PayoutLimits,
+  type PayoutUsage,
+} from './utils/payout-rules';
+
+type Tx = Omit<
+  PrismaClient,
+  '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
 
 type TransactionInput = {
-  tx: Omit<
-    PrismaClient,
-    '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
-  >;
+  tx: Tx;
   walletId: string;
   type: WalletTransactionType;
-  amount: number;
+  amount: Prisma.Decimal | number; // Positif = kredit, negatif = debit
   description: string;
   orderId?: string;
   paymentId?: string;
   payoutRequestId?: string;
+  disputeId?: string;
 };
 
+// Status penarikan yang dihitung ke limit harian/mingguan
+const COUNTED_PAYOUT_STATUSES = ['PENDING', 'APPROVED', 'COMPLETED'] as const;
+
+// Kunci development bila PAYOUT_ACCOUNT_ENCRYPTION_KEY tidak diisi (bukan production)
+const DEV_ACCOUNT_ENCRYPTION_KEY = createHash('sha256')
+  .update('bantuin-dev-payout-account-key')
+  .digest();
+
 @Injectable()
 export class WalletsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+    private configService: ConfigService,
+    @Inject(BANK_INQUIRY_PROVIDER) private bankInquiry: BankInquiryProvider,
+  ) {}
 
   /**
    * Membuat wallet baru untuk user
@@ -74,39 +131,124 @@ export class WalletsService {
     });
   }
 
+  /**
+   * Mendapatkan saldo wallet beserta saldo yang bisa ditarik (available)
+   * dan dana pesanan selesai yang masih dalam masa tunggu (pending)
+   */
+  async getWalletBalance(userId: string) {
+    const wallet = await this.getWalletByUserId(userId);
+    const now = new Date();
+
+    const [heldAmount, nextRelease, usage] = await Promise.all([
+      this.getHeldAmount(this.prisma, wallet.id, now),
+      this.prisma.walletTransaction.findFirst({
+        where: {
+          walletId: wallet.id,
+          type: 'ESCROW_RELEASE',
+          availableAt: { gt: now },
+        },
+        orderBy: { availableAt: 'asc' },
+        select: { availableAt: true },
+      }),
+      this.getPayoutUsage(this.prisma, userId, now),
+    ]);
+
+    const limits = this.getPayoutLimits(wallet);
+    const remaining = remainingPayoutLimit(limits, usage);
+
+    return {
+      ...splitWalletBalance(wallet.balance, heldAmount),
+      nextAvailableAt: nextRelease?.availableAt ?? null,
+      holdDays: this.payoutHoldDays,
+      payoutLimits: {
+        daily: limits.daily,
+        weekly: limits.weekly,
+        remainingDaily: remaining.daily,
+        remainingWeekly: remaining.weekly,
+      },
+    };
+  }
+
   // --- Metode Payout Account ---
 
   async addPayoutAccount(userId: string, dto: CreatePayoutAccountDto) {
-    try {
-      // Cek duplikat
-      const existing = await this.prisma.payoutAccount.findFirst({
-        where: { userId, accountNumber: dto.accountNumber },
-      });
-      if (existing) {
-        throw new ConflictException('Nomor rekening ini sudah terdaftar');
-      }
+    const key = this.accountEncryptionKey;
+    const accountNumberHash = hashAccountNumber(dto.accountNumber, key);
 
+    // Cek duplikat
+    const existing = await this.prisma.payoutAccount.findFirst({
+      where: { userId, accountNumberHash },
+    });
+    if (existing) {
+      throw new ConflictException('Nomor rekening ini sudah terdaftar');
+    }
+
+    // Verifikasi rekening ke bank & cocokkan nama pemilik dengan nama akun
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { fullName: true },
+    });
+    const inquiry = await this.inquireBankAccount(dto);
+
+    if (!inquiry.found) {
+      throw new BadRequestException(
+        'Rekening tidak ditemukan. Periksa kembali nama bank dan nomor rekening',
+      );
+    }
+    if (!isAccountNameMatch(inquiry.accountName, user.fullName)) {
+      throw new BadRequestException(
+        `Nama pemilik rekening (${inquiry.accountName}) tidak sesuai dengan nama akun Anda`,
+      );
+    }
+
+    try {
+      const now = new Date();
       const account = await this.prisma.payoutAccount.create({
         data: {
           userId,
           bankName: dto.bankName,
-          accountName: dto.accountName,
-          accountNumber: dto.accountNumber,
+          accountName: inquiry.accountName, // Nama resmi dari bank
+          accountNumberEncrypted: encryptAccountNumber(dto.accountNumber, key),
+          accountNumberHash,
+          accountNumberLast4: accountNumberLast4(dto.accountNumber),
           isPrimary: false, // User bisa set primary nanti
+          verificationProvider: this.bankInquiry.name,
+          verifiedAt: now,
+          // Cegah pengambilalihan akun: rekening baru tidak langsung bisa dipakai
+          cooldownUntil: payoutAccountCooldownUntil(
+            now,
+            this.getConfigNumber(
+              'PAYOUT_ACCOUNT_COOLDOWN_HOURS',
+              DEFAULT_PAYOUT_ACCOUNT_COOLDOWN_HOURS,
+            ),
+          ),
         },
+        select: MASKED_PAYOUT_ACCOUNT_SELECT,
       });
-      return account;
+      return maskPayoutAccount(account);
     } catch (error) {
-      if (error instanceof ConflictException) throw error;
+      console.error('Error in addPayoutAccount:', error);
       throw new InternalServerErrorException('Gagal menambahkan rekening');
     }
   }
 
   async listPayoutAccounts(userId: string) {
-    return this.prisma.payoutAccount.findMany({
+    const accounts = await this.prisma.payoutAccount.findMany({
       where: { userId },
       orderBy: { createdAt: 'desc' },
+      select: MASKED_PAYOUT_ACCOUNT_SELECT,
     });
+    return accounts.map((account) => maskPayoutAccount(account));
+  }
+
+  /**
+   * Nomor rekening asli, hanya untuk kebutuhan transfer (mis. export batch)
+   */
+  revealAccountNumber(account: { accountNumberEncrypted: string }) {
+    return decryptAccountNumber(
+      account.accountNumberEncrypted,
+      this.accountEncryptionKey,
+    );
   }
 
   async removePayoutAccount(userId: string, accountId: string) {
@@ -121,9 +263,9 @@ export class WalletsService {
       throw new ForbiddenException('Anda tidak memiliki akses');
     }
 
-    // Cek jika ada payout pending ke akun ini
+    // Cek jika ada payout pending/menunggu transfer ke akun ini
     const pending = await this.prisma.payoutRequest.count({
-      where: { accountId, status: 'PENDING' },
+      where: { accountId, status: { in: ['PENDING', 'APPROVED'] } },
     });
 
     if (pending > 0) {
@@ -132,30 +274,184 @@ export class WalletsService {
       );
     }
 
-    await this.prisma.payoutAccount.delete({
+    await this.prisma.$transaction(async (tx) => {
+      await tx.payoutAccount.delete({
+        where: { id: accountId },
+      });
+
+      // Penarikan otomatis membutuhkan rekening utama
+      if (account.isPrimary) {
+        await tx.wallet.updateMany({
+          where: { userId },
+          data: { autoPayoutEnabled: false },
+        });
+      }
+    });
+  }
+
+  async setPrimaryPayoutAccount(userId: string, accountId: string) {
+    const account = await this.prisma.payoutAccount.findUnique({
       where: { id: accountId },
     });
+
+    if (!account) {
+      throw new NotFoundException('Rekening tidak ditemukan');
+    }
+    if (account.userId !== userId) {
+      throw new ForbiddenException('Anda tidak memiliki akses');
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.payoutAccount.updateMany({
+        where: { userId, isPrimary: true },
+        data: { isPrimary: false },
+      });
+
+      const primary = await tx.payoutAccount.update({
+        where: { id: accountId },
+        data: { isPrimary: true },
+        select: MASKED_PAYOUT_ACCOUNT_SELECT,
+      });
+      return maskPayoutAccount(primary);
+    });
+  }
+
+  // --- Metode Jadwal Penarikan Otomatis ---
+
+  async getPayoutSchedule(userId: string) {
+    const wallet = await this.getWalletByUserId(userId);
+    const primaryAccount = await this.prisma.payoutAccount.findFirst({
+      where: { userId, isPrimary: true },
+      select: MASKED_PAYOUT_ACCOUNT_SELECT,
+    });
+
+    return {
+      enabled: wallet.autoPayoutEnabled,
+      weekday: wallet.autoPayoutWeekday,
+      lastAutoPayoutAt: wallet.lastAutoPayoutAt,
+      primaryAccount: primaryAccount ? maskPayoutAccount(primaryAccount) : null,
+    };
+  }
+
+  async updatePayoutSchedule(userId: string, dto: UpdatePayoutScheduleDto) {
+    const wallet = await this.getWalletByUserId(userId);
+
+    if (dto.enabled) {
+      const user = await this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { isSeller: true },
+      });
+      if (!user.isSeller) {
+        throw new ForbiddenException(
+          'Penarikan otomatis hanya tersedia untuk seller',
+        );
+      }
+
+      const primaryAccount = await this.prisma.payoutAccount.count({
+        where: { userId, isPrimary: true },
+      });
+      if (primaryAccount === 0) {
+        throw new BadRequestException(
+          'Tetapkan rekening utama terlebih dahulu untuk mengaktifkan penarikan otomatis',
+        );
+      }
+    }
+
+    await this.prisma.wallet.update({
+      where: { id: wallet.id },
+      data: {
+        autoPayoutEnabled: dto.enabled,
+        autoPayoutWeekday: dto.weekday,
+      },
+    });
+
+    return this.getPayoutSchedule(userId);
+  }
+
+  /**
+   * [Cron] Wallet seller yang jadwal penarikan otomatisnya jatuh hari ini
+   */
+  async findWalletsDueForAutoPayout(now = new Date()) {
+    const wallets = await this.prisma.wallet.findMany({
+      where: {
+        autoPayoutEnabled: true,
+        autoPayoutWeekday: now.getDay(),
+        user: { isSeller: true },
+      },
+      select: {
+        id: true,
+        userId: true,
+        autoPayoutWeekday: true,
+        lastAutoPayoutAt: true,
+      },
+    });
+
+    return wallets.filter((wallet) => isAutoPayoutDue(wallet, now));
+  }
+
+  /**
+   * Membuat penarikan otomatis ke rekening utama sebesar saldo yang bisa
+   * ditarik (dibatasi sisa limit). Mengembalikan null jika tidak ada yang ditarik.
+   */
+  async createAutoPayout(walletId: string, now = new Date()) {
+    return this.prisma.$transaction(async (tx) => {
+      const wallet = await this.lockWallet(tx, walletId);
+
+      if (!wallet.autoPayoutEnabled || !isAutoPayoutDue(wallet, now)) {
+        return null;
+      }
+
+      const account = await tx.payoutAccount.findFirst({
+        where: { userId: wallet.userId, isPrimary: true },
+      });
+      // Rekening utama yang masih masa tunggu dilewati sampai minggu depan
+      if (!account || checkPayoutAccountReady(account, now)) {
+        return null;
+      }
+
+      const { availableBalance } = splitWalletBalance(
+        wallet.balance,
+        await this.getHeldAmount(tx, wallet.id, now),
+      );
+      const remaining = remainingPayoutLimit(
+        this.getPayoutLimits(wallet),
+        await this.getPayoutUsage(tx, wallet.userId, now),
+      );
+      const amount = Prisma.Decimal.min(
+        availableBalance,
+        remaining.total,
+      ).toDecimalPlaces(0, Prisma.Decimal.ROUND_DOWN);
+
+      if (amount.lt(MIN_PAYOUT_AMOUNT)) {
+        return null;
+      }
+
+      await tx.wallet.update({
+        where: { id: wallet.id },
+        data: { lastAutoPayoutAt: now },
+      });
+
+      return this.createPayoutRequestInTx(tx, wallet, account, amount, true);
+    });
   }
 
   // --- Metode Payout Request ---
 
   async createPayoutRequest(userId: string, dto: CreatePayoutRequestDto) {
     // Validasi minimal penarikan
-    if (dto.amount < 50000) {
-      throw new BadRequestException('Minimal penarikan adalah Rp 50.000');
+    if (dto.amount < MIN_PAYOUT_AMOUNT) {
+      throw new BadRequestException(
+        `Minimal penarikan adalah ${formatRupiah(MIN_PAYOUT_AMOUNT)}`,
+      );
     }
 
     // Mulai transaksi atomik
     return this.prisma.$transaction(async (tx) => {
-      // 1. Dapatkan wallet & lock (by checking balance)
-      const wallet = await tx.wallet.findUniqueOrThrow({
-        where: { userId },
-      });
+      // 1. Kunci baris wallet agar penarikan paralel tidak lolos cek saldo & limit
+      const wallet = await this.lockWalletByUserId(tx, userId);
 
-      // 2. Cek saldo
-      if (wallet.balance.toNumber() < dto.amount) {
-        throw new BadRequestException('Saldo Anda tidak mencukupi');
-      }
+      // 2. Cek saldo, masa tunggu dana & limit penarikan
+      await this.assertPayoutAllowedInTx(tx, wallet, dto.amount);
 
       // 3. Verifikasi kepemilikan rekening bank
       const account = await tx.payoutAccount.findUniqueOrThrow({
@@ -165,34 +461,18 @@ export class WalletsService {
         throw new ForbiddenException('Rekening bank tidak valid');
       }
 
-      // 4. Buat PayoutRequest (status pending)
-      const payoutRequest = await tx.payoutRequest.create({
-        data: {
-          userId,
-          walletId: wallet.id,
-          accountId: account.id,
-          amount: dto.amount,
-          status: 'PENDING',
-        },
-      });
-
-      // 5. Potong saldo wallet (debit) menggunakan createTransaction
-      // Ini akan mengunci saldo
-      await this.createTransaction({
-        tx,
-        walletId: wallet.id,
-        type: 'PAYOUT_REQUEST',
-        amount: -dto.amount, // Negatif karena mengurangi saldo
-        description: `Penarikan ke ${account.bankName} - ${account.accountNumber}`,
-        payoutRequestId: payoutRequest.id, // Link ke request
-      });
+      // 4. Rekening harus terverifikasi & sudah lewat masa tunggu
+      const accountError = checkPayoutAccountReady(account, new Date());
+      if (accountError) {
+        throw new BadRequestException(accountError);
+      }
 
-      return payoutRequest;
+      return this.createPayoutRequestInTx(tx, wallet, account, dto.amount);
     });
   }
 
   async listPayoutRequests(userId: string) {
-    return this.prisma.payoutRequest.findMany({
+    const requests = await this.prisma.payoutRequest.findMany({
       where: { userId },
       orderBy: { requestedAt: 'desc' },
       include: {
@@ -200,17 +480,26 @@ export class WalletsService {
           select: {
             bankName: true,
             accountName: true,
-            accountNumber: true,
+            accountNumberLast4: true,
           },
         },
       },
     });
+
+    return requests.map((request) => ({
+      ...request,
+      account: maskPayoutAccount(request.account),
+    }));
   }
 
   /**
    * Membuat transaksi wallet secara atomic.
    * Ini adalah method inti untuk semua perubahan saldo.
    * (Modifikasi dari Phase 3 untuk menambah payoutRequestId)
+   * Setiap transaksi juga dicatat sebagai jurnal berpasangan di ledger sistem.
+   *
+   * Baris wallet dikunci (SELECT ... FOR UPDATE) sampai transaksi selesai,
+   * sehingga mutasi paralel pada wallet yang sama dijalankan berurutan.
    */
   async createTransaction(input: TransactionInput) {
     const {
@@ -222,19 +511,18 @@ export class WalletsService {
       orderId,
       paymentId,
       payoutRequestId,
+      disputeId,
     } = input;
 
     try {
-      // 1. Dapatkan saldo saat ini
-      const wallet = await tx.wallet.findUniqueOrThrow({
-        where: { id: walletId },
-      });
+      // 1. Kunci wallet & dapatkan saldo saat ini
+      const wallet = await this.lockWallet(tx, walletId);
 
-      const balanceBefore = wallet.balance.toNumber();
-      const balanceAfter = balanceBefore + amount;
+      const balanceBefore = wallet.balance;
+      const balanceAfter = balanceBefore.add(amount);
 
       // 2. Cek jika saldo mencukupi
-      if (balanceAfter < 0) {
+      if (balanceAfter.lt(0)) {
         throw new InternalServerErrorException('Saldo tidak mencukupi');
       }
 
@@ -256,11 +544,20 @@ export class WalletsService {
           orderId,
           paymentId,
           payoutRequestId, // Simpan ID request
+          disputeId,
           balanceBefore,
           balanceAfter,
+          // Dana pesanan selesai ditahan dulu sebelum bisa ditarik
+          availableAt:
+            type === 'ESCROW_RELEASE'
+              ? payoutAvailableAt(new Date(), this.payoutHoldDays)
+              : undefined,
         },
       });
 
+      // 5. Catat pasangan debit/kredit di ledger sistem
+      await this.ledgerService.postWalletTransactionInTx(tx, transaction);
+
       return transaction;
     } catch (error) {
       console.error('Error in createTransaction:', error);
@@ -270,4 +567,218 @@ export class WalletsService {
       );
     }
   }
+
+  /**
+   * Helper untuk membuat PayoutRequest & memotong saldo wallet.
+   * Wallet harus sudah dikunci oleh pemanggil.
+   */
+  private async createPayoutRequestInTx(
+    tx: Tx,
+    wallet: Wallet,
+    account: PayoutAccount,
+    amount: Prisma.Decimal | number,
+    isAutomatic = false,
+  ) {
+    // 1. Buat PayoutRequest (status pending)
+    const payoutRequest = await tx.payoutRequest.create({
+      data: {
+        userId: wallet.userId,
+        walletId: wallet.id,
+        accountId: account.id,
+        amount,
+        status: 'PENDING',
+        isAutomatic,
+      },
+    });
+
+    // 2. Potong saldo wallet (debit) menggunakan createTransaction
+    // Ini akan mengunci saldo
+    await this.createTransaction({
+      tx,
+      walletId: wallet.id,
+      type: 'PAYOUT_REQUEST',
+      amount: new Prisma.Decimal(amount).neg(), // Negatif karena mengurangi saldo
+      description: `${isAutomatic ? 'Penarikan otomatis' : 'Penarikan'} ke ${account.bankName} - ${maskPayoutAccount(account).accountNumber}`,
+      payoutRequestId: payoutRequest.id, // Link ke request
+    });
+
+    return payoutRequest;
+  }
+
+  /**
+   * Helper untuk memastikan penarikan tidak melebihi saldo yang bisa ditarik
+   * maupun limit harian/mingguan user
+   */
+  private async assertPayoutAllowedInTx(
+    tx: Tx,
+    wallet: Wallet,
+    amount: Prisma.Decimal | number,
+  ) {
+    if (wallet.balance.lt(amount)) {
+      throw new BadRequestException('Saldo Anda tidak mencukupi');
+    }
+
+    const now = new Date();
+
+    const { availableBalance } = splitWalletBalance(
+      wallet.balance,
+      await this.getHeldAmount(tx, wallet.id, now),
+    );
+    if (availableBalance.lt(amount)) {
+      throw new BadRequestException(
+        `Sebagian saldo masih dalam masa tunggu ${this.payoutHoldDays} hari setelah pesanan selesai. Saldo yang bisa ditarik saat ini ${formatRupiah(availableBalance)}`,
+      );
+    }
+
+    const limitError = checkPayoutLimits(
+      amount,
+      this.getPayoutLimits(wallet),
+      await this.getPayoutUsage(tx, wallet.userId, now),
+    );
+    if (limitError) {
+      throw new BadRequestException(limitError);
+    }
+  }
+
+  /**
+   * Total dana ESCROW_RELEASE yang masih dalam masa tunggu
+   */
+  private async getHeldAmount(tx: Tx, walletId: string, now: Date) {
+    const result = await tx.walletTransaction.aggregate({
+      where: {
+        walletId,
+        type: 'ESCROW_RELEASE',
+        availableAt: { gt: now },
+      },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Total penarikan user dalam 24 jam & 7 hari terakhir
+   */
+  private async getPayoutUsage(
+    tx: Tx,
+    userId: string,
+    now: Date,
+  ): Promise<PayoutUsage> {
+    const { dayStart, weekStart } = payoutLimitWindows(now);
+
+    const sumSince = async (since: Date) => {
+      const result = await tx.payoutRequest.aggregate({
+        where: {
+          userId,
+          status: { in: [...COUNTED_PAYOUT_STATUSES] },
+          requestedAt: { gte: since },
+        },
+        _sum: { amount: true },
+      });
+      return result._sum.amount ?? new Prisma.Decimal(0);
+    };
+
+    const [lastDay, lastWeek] = await Promise.all([
+      sumSince(dayStart),
+      sumSince(weekStart),
+    ]);
+
+    return { lastDay, lastWeek };
+  }
+
+  /**
+   * Limit penarikan user: override per wallet, atau default dari env
+   */
+  private getPayoutLimits(wallet: Wallet): PayoutLimits {
+    return {
+      daily:
+        wallet.dailyPayoutLimit ??
+        new Prisma.Decimal(
+          this.getConfigNumber(
+            'PAYOUT_DAILY_LIMIT',
+            DEFAULT_DAILY_PAYOUT_LIMIT,
+          ),
+        ),
+      weekly:
+        wallet.weeklyPayoutLimit ??
+        new Prisma.Decimal(
+          this.getConfigNumber(
+            'PAYOUT_WEEKLY_LIMIT',
+            DEFAULT_WEEKLY_PAYOUT_LIMIT,
+          ),
+        ),
+    };
+  }
+
+  // Masa tunggu (hari) dana ESCROW_RELEASE sebelum bisa ditarik
+  private get payoutHoldDays() {
+    return this.getConfigNumber('PAYOUT_HOLD_DAYS', DEFAULT_PAYOUT_HOLD_DAYS);
+  }
+
+  /**
+   * Kunci enkripsi nomor rekening (PAYOUT_ACCOUNT_ENCRYPTION_KEY)
+   */
+  private get accountEncryptionKey() {
+    const raw = this.configService.get<string>('PAYOUT_ACCOUNT_ENCRYPTION_KEY');
+
+    if (raw) {
+      return parseEncryptionKey(raw);
+    }
+    if (this.configService.get<string>('NODE_ENV') === 'production') {
+      throw new InternalServerErrorException(
+        'PAYOUT_ACCOUNT_ENCRYPTION_KEY is not configured',
+      );
+    }
+    return DEV_ACCOUNT_ENCRYPTION_KEY;
+  }
+
+  /**
+   * Helper untuk inquiry rekening ke provider bank
+   */
+  private async inquireBankAccount(
+    dto: CreatePayoutAccountDto,
+  ): Promise<BankInquiryResult> {
+    try {
+      return await this.bankInquiry.inquire({
+        bankName: dto.bankName,
+        accountNumber: dto.accountNumber,
+        accountName: dto.accountName,
+      });
+    } catch (error) {
+      console.error('Bank inquiry error:', error);
+      throw new ServiceUnavailableException(
+        'Verifikasi rekening sedang tidak tersedia, silakan coba lagi nanti',
+      );
+    }
+  }
+
+  private getConfigNumber(key: string, fallback: number) {
+    const raw = this.configService.get<string | number>(key);
+    const value = raw === undefined || raw === '' ? NaN : Number(raw);
+
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  }
+
+  /**
+   * Helper untuk mengunci baris wallet di dalam transaksi
+   * Transaksi lain yang mengunci wallet yang sama akan menunggu sampai commit
+   */
+  private async lockWallet(tx: Tx, walletId: string) {
+    await tx.$queryRaw`SELECT id FROM wallets WHERE id = ${walletId} FOR UPDATE`;
+
+    return tx.wallet.findUniqueOrThrow({
+      where: { id: walletId },
+    });
+  }
+
+  /**
+   * Versi lockWallet berdasarkan pemilik wallet
+   */
+  private async lockWalletByUserId(tx: Tx, userId: string) {
+    await tx.$queryRaw`SELECT id FROM wallets WHERE user_id = ${userId} FOR UPDATE`;
+
+    return tx.wallet.findUniqueOrThrow({
+      where: { userId },
+    });
+  }
 }
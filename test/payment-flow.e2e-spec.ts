@@ -0,0 +1,314 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { EventEmitterModule } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { LogService } from './../src/common/log.service';
+import { PaymentsService } from './../src/payments/payments.service';
+import { PAYMENT_GATEWAY } from './../src/payments/gateways/payment-gateway.interface';
+import { FakePaymentGateway } from './../src/payments/gateways/fake.gateway';
+import { OrdersService } from './../src/orders/orders.service';
+import { WalletsService } from './../src/wallets/wallets.service';
+import { BANK_INQUIRY_PROVIDER } from './../src/wallets/bank-inquiry/bank-inquiry.interface';
+import { StubBankInquiryProvider } from './../src/wallets/bank-inquiry/stub-bank-inquiry.provider';
+import { FeesService } from './../src/fees/fees.service';
+import { LedgerService } from './../src/ledger/ledger.service';
+import { VouchersService } from './../src/vouchers/vouchers.service';
+import { ReferralsService } from './../src/referrals/referrals.service';
+import { NotificationsService } from './../src/notifications/notifications.service';
+
+// Alur order -> escrow -> selesai dengan fake gateway (tanpa jaringan).
+// Membutuhkan database PostgreSQL sungguhan (DATABASE_URL).
+const describeWithDatabase = process.env.DATABASE_URL
+  ? describe
+  : describe.skip;
+
+describeWithDatabase('Payment flow with the fake gateway (e2e)', () => {
+  let moduleRef: TestingModule;
+  let prisma: PrismaService;
+  let ordersService: OrdersService;
+  let paymentsService: PaymentsService;
+
+  let buyerId: string;
+  let sellerId: string;
+  let serviceId: string;
+  let orderId: string;
+
+  // payment.settled diproses listener secara asinkron
+  const waitForOrder = async (
+    id: string,
+    predicate: (order: { status: string; isPaid: boolean }) => boolean,
+  ) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id },
+      });
+      if (predicate(order)) return order;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error('Order tidak mencapai status yang diharapkan');
+  };
+
+  beforeAll(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [ConfigModule.forRoot(), EventEmitterModule.forRoot()],
+      providers: [
+        PrismaService,
+        LogService,
+        PaymentsService,
+        OrdersService,
+        WalletsService,
+        FeesService,
+        LedgerService,
+        VouchersService,
+        ReferralsService,
+        {
+          provide: PAYMENT_GATEWAY,
+          useValue: new FakePaymentGateway('e2e-secret', 'http://localhost'),
+        },
+        { provide: BANK_INQUIRY_PROVIDER, useClass: StubBankInquiryProvider },
+        {
+          provide: NotificationsService,
+          useValue: { create: jest.fn(), createInTx: jest.fn() },
+        },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    prisma = moduleRef.get(PrismaService);
+    ordersService = moduleRef.get(OrdersService);
+    paymentsService = moduleRef.get(PaymentsService);
+    const walletsService = moduleRef.get(WalletsService);
+
+    const stamp = Date.now();
+    const buyer = await prisma.user.create({
+      data: { email: `flow-buyer-${stamp}@test.local`, fullName: 'Flow Buyer' },
+    });
+    const seller = await prisma.user.create({
+      data: {
+        email: `flow-seller-${stamp}@test.local`,
+        fullName: 'Flow Seller',
+      },
+    });
+    buyerId = buyer.id;
+    sellerId = seller.id;
+    await walletsService.createWallet(buyerId);
+    await walletsService.createWallet(sellerId);
+
+    serviceId = (
+      await prisma.service.create({
+        data: {
+          sellerId,
+          title: 'Desain Logo',
+          description: 'Jasa desain logo untuk pengujian e2e',
+          category: 'design',
+          price: new Prisma.Decimal(200000),
+          deliveryTime: 3,
+        },
+      })
+    ).id;
+  });
+
+  afterAll(async () => {
+    const userIds = [buyerId, sellerId];
+    const wallets = await prisma.wallet.findMany({
+      where: { userId: { in: userIds } },
+      select: { id: true },
+    });
+    const walletIds = wallets.map((wallet) => wallet.id);
+    const orderIds = (
+      await prisma.order.findMany({
+        where: { serviceId },
+        select: { id: true },
+      })
+    ).map((order) => order.id);
+
+    await prisma.ledgerJournal.deleteMany({
+      where: {
+        OR: [
+          { orderId: { in: orderIds } },
+          { walletTransaction: { walletId: { in: walletIds } } },
+        ],
+      },
+    });
+    await prisma.platformFeeEntry.deleteMany({
+      where: { orderId: { in: orderIds } },
+    });
+    await prisma.paymentWebhookEvent.deleteMany({
+      where: { orderId: { in: orderIds } },
+    });
+    await prisma.ledgerAccount.deleteMany({
+      where: { walletId: { in: walletIds } },
+    });
+    await prisma.walletTransaction.deleteMany({
+      where: { walletId: { in: walletIds } },
+    });
+    await prisma.payment.deleteMany({ where: { orderId: { in: orderIds } } });
+    await prisma.order.deleteMany({ where: { serviceId } });
+    await prisma.service.delete({ where: { id: serviceId } });
+    await prisma.wallet.deleteMany({ where: { id: { in: walletIds } } });
+    await prisma.userActivityLog.deleteMany({
+      where: { userId: { in: userIds } },
+    });
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+
+    await moduleRef.close();
+  });
+
+  it('moves an order through escrow to completion without network', async () => {
+    orderId = (
+      await ordersService.create(buyerId, {
+        serviceId,
+        requirements: 'Logo minimalis untuk usaha kopi rumahan',
+        attachments: [],
+        extraIds: [],
+      })
+    ).id;
+
+    const checkout = await ordersService.confirmOrder(orderId, buyerId, {
+      walletAmount: 0,
+    });
+    expect(checkout.paymentToken).toMatch(/^fake-/);
+
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId },
+    });
+    expect(payment.gateway).toBe('fake');
+
+    await paymentsService.simulateFakePayment(
+      payment.gatewayReference!,
+      'settlement',
+    );
+    const paid = await waitForOrder(orderId, (order) => order.isPaid);
+    expect(paid.status).toBe('PAID_ESCROW');
+
+    await ordersService.startWork(orderId, sellerId);
+    await ordersService.deliverWork(orderId, sellerId, {
+      deliveryNote: 'Berikut file logo final dalam format PNG dan SVG',
+      deliveryFiles: ['https://example.com/logo.png'],
+    });
+    await ordersService.approveWork(orderId, buyerId);
+
+    const completed = await waitForOrder(
+      orderId,
+      (order) => order.status === 'COMPLETED',
+    );
+    expect(completed.isPaid).toBe(true);
+
+    const sellerWallet = await prisma.wallet.findUniqueOrThrow({
+      where: { userId: sellerId },
+    });
+    const fee = await prisma.platformFeeEntry.aggregate({
+      where: { orderId },
+      _sum: { amount: true },
+    });
+    expect(
+      sellerWallet.balance.add(fee._sum.amount ?? 0).eq(completed.price),
+    ).toBe(true);
+  });
+
+  it('rejects tampered fake callbacks', async () => {
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId },
+    });
+
+    await expect(
+      paymentsService.handlePaymentWebhook({
+        order_id: payment.gatewayReference,
+        transaction_status: 'settlement',
+        status_code: '200',
+        gross_amount: '1.00',
+        signature_key: 'forged',
+      }),
+    ).rejects.toThrow('Signature webhook tidak valid');
+  });
+
+  it('ignores duplicate and out-of-order callbacks', async () => {
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId },
+    });
+    const reference = payment.gatewayReference!;
+
+    await expect(
+      paymentsService.simulateFakePayment(reference, 'settlement'),
+    ).resolves.toEqual({ message: 'Webhook already processed' });
+    await paymentsService.simulateFakePayment(reference, 'pending');
+
+    const after = await prisma.payment.findUniqueOrThrow({
+      where: { orderId },
+    });
+    expect(after.status).toBe('SETTLEMENT');
+  });
+
+  it('recovers a settlement whose webhook was lost', async () => {
+    const lostOrderId = (
+      await ordersService.create(buyerId, {
+        serviceId,
+        requirements: 'Logo kedua, webhook pelunasannya tidak pernah sampai',
+        attachments: [],
+        extraIds: [],
+      })
+    ).id;
+    await ordersService.confirmOrder(lostOrderId, buyerId, {
+      walletAmount: 0,
+    });
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId: lostOrderId },
+    });
+
+    // Gateway sudah lunas, tetapi webhook tidak dikirim
+    moduleRef
+      .get<FakePaymentGateway>(PAYMENT_GATEWAY)
+      .simulate(payment.gatewayReference!, 'settlement');
+
+    const reconciled = await paymentsService.reconcilePayment(payment.id);
+
+    expect(reconciled.status).toBe('SETTLEMENT');
+    expect(reconciled.gatewayStatus).toBe('SETTLEMENT');
+    const report = await paymentsService.getReconciliationReport();
+    expect(report.payments.map((row) => row.id)).not.toContain(payment.id);
+  });
+
+  it('refunds a seller-cancelled order to the original payment method', async () => {
+    const cancelledOrderId = (
+      await ordersService.create(buyerId, {
+        serviceId,
+        requirements: 'Logo ketiga, nantinya dibatalkan oleh seller',
+        attachments: [],
+        extraIds: [],
+      })
+    ).id;
+    await ordersService.confirmOrder(cancelledOrderId, buyerId, {
+      walletAmount: 0,
+    });
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId: cancelledOrderId },
+    });
+    await paymentsService.simulateFakePayment(
+      payment.gatewayReference!,
+      'settlement',
+    );
+    await waitForOrder(cancelledOrderId, (order) => order.isPaid);
+
+    const cancelled = await ordersService.cancelOrder(
+      cancelledOrderId,
+      sellerId,
+      'seller',
+      {
+        reason: 'Seller berhalangan mengerjakan pesanan ini',
+        refundMethod: 'WALLET',
+      },
+    );
+    expect(cancelled.refundStatus).toBe('REQUESTED');
+
+    const refunded = await ordersService.chooseRefundMethod(
+      cancelledOrderId,
+      buyerId,
+      { method: 'ORIGINAL_METHOD' },
+    );
+
+    expect(refunded.refundStatus).toBe('REFUNDED');
+    expect(refunded.status).toBe('REFUNDED');
+    expect(refunded.refundAmount.eq(payment.amount)).toBe(true);
+  });
+});
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigModule } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { WalletsService } from './../src/wallets/wallets.service';
+import { LedgerService } from './../src/ledger/ledger.service';
+import { BANK_INQUIRY_PROVIDER } from './../src/wallets/bank-inquiry/bank-inquiry.interface';
+import { StubBankInquiryProvider } from './../src/wallets/bank-inquiry/stub-bank-inquiry.provider';
+
+// Suite ini membutuhkan database PostgreSQL sungguhan (DATABASE_URL),
+// karena penguncian baris tidak bisa disimulasikan dengan mock.
+const describeWithDatabase = process.env.DATABASE_URL
+  ? describe
+  : describe.skip;
+
+describeWithDatabase('Wallet concurrency (e2e)', () => {
+  let moduleRef: TestingModule;
+  let prisma: PrismaService;
+  let walletsService: WalletsService;
+
+  let userId: string;
+  let walletId: string;
+  let payoutAccountId: string;
+
+  const release = (amount: number) =>
+    prisma.$transaction((tx) =>
+      walletsService.createTransaction({
+        tx,
+        walletId,
+        type: 'ESCROW_RELEASE',
+        amount: new Prisma.Decimal(amount),
+        description: 'Uji konkurensi: pelepasan escrow',
+      }),
+    );
+
+  const payout = (amount: number) =>
+    walletsService.createPayoutRequest(userId, { amount, payoutAccountId });
+
+  const walletBalance = async () =>
+    (await prisma.wallet.findUniqueOrThrow({ where: { id: walletId } }))
+      .balance;
+
+  beforeAll(async () => {
+    moduleRef = await Test.createTestingModule({
+      // Tanpa masa tunggu agar dana escrow langsung bisa ditarik
+      imports: [
+        ConfigModule.forRoot({
+          ignoreEnvFile: true,
+          load: [() => ({ PAYOUT_HOLD_DAYS: 0 })],
+        }),
+      ],
+      providers: [
+        PrismaService,
+        WalletsService,
+        LedgerService,
+        { provide: BANK_INQUIRY_PROVIDER, useClass: StubBankInquiryProvider },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    prisma = moduleRef.get(PrismaService);
+    walletsService = moduleRef.get(WalletsService);
+
+    const user = await prisma.user.create({
+      data: {
+        email: `wallet-concurrency-${Date.now()}@test.local`,
+        fullName: 'Wallet Concurrency',
+      },
+    });
+    userId = user.id;
+    walletId = (await walletsService.createWallet(userId)).id;
+    payoutAccountId = (
+      await prisma.payoutAccount.create({
+        data: {
+          userId,
+          bankName: 'BCA',
+          accountName: 'Wallet Concurrency',
+          // Rekening terverifikasi tanpa masa tunggu (cooldownUntil = now)
+          accountNumberEncrypted: 'v1:test',
+          accountNumberHash: `wallet-concurrency-${Date.now()}`,
+          accountNumberLast4: '0000',
+          verifiedAt: new Date(),
+        },
+      })
+    ).id;
+  });
+
+  afterAll(async () => {
+    const payoutRequestIds = (
+      await prisma.payoutRequest.findMany({
+        where: { walletId },
+        select: { id: true },
+      })
+    ).map((request) => request.id);
+
+    await prisma.ledgerJournal.deleteMany({
+      where: {
+        OR: [
+          { walletTransaction: { walletId } },
+          { payoutRequestId: { in: payoutRequestIds } },
+        ],
+      },
+    });
+    await prisma.ledgerAccount.deleteMany({ where: { walletId } });
+    await prisma.walletTransaction.deleteMany({ where: { walletId } });
+    await prisma.payoutRequest.deleteMany({ where: { walletId } });
+    await prisma.wallet.delete({ where: { id: walletId } });
+    await prisma.user.delete({ where: { id: userId } });
+
+    await moduleRef.close();
+  });
+
+  it('does not lose updates when releases hit one wallet in parallel', async () => {
+    const before = await walletBalance();
+
+    await Promise.all(Array.from({ length: 20 }, () => release(12500.35)));
+
+    expect((await walletBalance()).sub(before).toFixed(2)).toBe('250007.00');
+  });
+
+  it('never overdraws the wallet with parallel payouts', async () => {
+    const before = await walletBalance();
+    const expectedApproved = before.divToInt(50000).toNumber();
+
+    const results = await Promise.allSettled(
+      Array.from({ length: expectedApproved + 3 }, () => payout(50000)),
+    );
+    const approved = results.filter((r) => r.status === 'fulfilled').length;
+
+    expect(approved).toBe(expectedApproved);
+    expect((await walletBalance()).eq(before.sub(approved * 50000))).toBe(true);
+  });
+
+  it('keeps the wallet history and the ledger consistent under mixed load', async () => {
+    await Promise.allSettled([
+      ...Array.from({ length: 10 }, () => release(30000)),
+      ...Array.from({ length: 10 }, () => payout(50000)),
+    ]);
+
+    const balance = await walletBalance();
+    const history = await prisma.walletTransaction.findMany({
+      where: { walletId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Tidak ada mutasi yang hilang: jumlah seluruh mutasi = saldo akhir
+    const total = history.reduce(
+      (sum, transaction) => sum.add(transaction.amount),
+      new Prisma.Decimal(0),
+    );
+    for (const transaction of history) {
+      expect(
+        transaction.balanceAfter.eq(
+          transaction.balanceBefore.add(transaction.amount),
+        ),
+      ).toBe(true);
+    }
+    expect(total.eq(balance)).toBe(true);
+    expect(balance.gte(0)).toBe(true);
+
+    // Akun wallet di ledger sama dengan saldo wallet
+    const account = await prisma.ledgerAccount.findUniqueOrThrow({
+      where: { walletId },
+    });
+    const sums = await prisma.ledgerEntry.groupBy({
+      by: ['direction'],
+      where: { accountId: account.id },
+      _sum: { amount: true },
+    });
+    const sumOf = (direction: 'DEBIT' | 'CREDIT') =>
+      sums.find((row) => row.direction === direction)?._sum.amount ??
+      new Prisma.Decimal(0);
+
+    expect(sumOf('CREDIT').sub(sumOf('DEBIT')).eq(balance)).toBe(true);
+
+    // Setiap jurnal wallet seimbang
+    const journals = await prisma.ledgerJournal.findMany({
+      where: { walletTransaction: { walletId } },
+      include: { entries: true },
+    });
+    expect(journals).toHaveLength(history.length);
+    for (const journal of journals) {
+      const debit = journal.entries
+        .filter((entry) => entry.direction === 'DEBIT')
+        .reduce((sum, entry) => sum.add(entry.amount), new Prisma.Decimal(0));
+      const credit = journal.entries
+        .filter((entry) => entry.direction === 'CREDIT')
+        .reduce((sum, entry) => sum.add(entry.amount), new Prisma.Decimal(0));
+
+      expect(debit.eq(credit)).toBe(true);
+    }
+  });
+});